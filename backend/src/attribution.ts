@@ -0,0 +1,171 @@
+import { db } from "./db";
+import { windowSegmentRange, type StatWindow } from "./windows";
+
+// P&L attribution of a strategy's return over a window, from the per-leg rows that
+// extendSegmentsForStrategy stores in strategy_segment_attribution.
+//
+// Rows are in value-index units, so a group's share of the window return is the sum of
+// its rows over the window divided by the value index at the window start; the shares of
+// all groups add up to the window's total return. Segments written before attribution
+// existed have no rows: their return is reported as `unattributed` and `complete` is
+// false while the window starts before the first attributed segment (`coverageFromTs`).
+// `npm run rebuild -- --all` fills them in.
+
+export const ATTRIBUTION_GROUPINGS = ["asset", "direction", "leverage", "leg"] as const;
+export type AttributionGrouping = (typeof ATTRIBUTION_GROUPINGS)[number];
+
+export class AttributionQueryError extends Error {}
+
+type AttributionRowDb = {
+    start_ts: number;
+    asset_symbol: string;
+    direction: number;
+    leverage: number;
+    price_pnl: number;
+    funding_pnl: number;
+    cost_pnl: number;
+};
+
+type Breakdown = { price: number; funding: number; cost: number; total: number };
+
+export type StrategyAttribution = {
+    by: AttributionGrouping;
+    fromTs: number | null;
+    toTs: number | null;
+    coverageFromTs: number | null; // first segment with attribution rows
+    complete: boolean; // every segment of the window has attribution rows
+    totalReturn: number;
+    unattributed: number;
+    totals: Breakdown;
+    groups: ({ key: string } & Breakdown)[];
+    // cumulative share of the window return per group, at segment ends
+    points: { timestamp: number; values: Record<string, number> }[];
+};
+
+function groupKey(by: AttributionGrouping, r: AttributionRowDb): string {
+    const direction = r.direction < 0 ? "SHORT" : "LONG";
+    switch (by) {
+        case "asset":
+            return r.asset_symbol;
+        case "direction":
+            return direction;
+        case "leverage":
+            return `${r.leverage}x`;
+        case "leg":
+            return `${r.asset_symbol} ${direction} ${r.leverage}x`;
+    }
+}
+
+export function parseAttributionGrouping(raw: unknown): AttributionGrouping {
+    const by = String(raw ?? "asset") as AttributionGrouping;
+    if (!ATTRIBUTION_GROUPINGS.includes(by)) {
+        throw new AttributionQueryError(`by must be one of ${ATTRIBUTION_GROUPINGS.join(", ")}`);
+    }
+    return by;
+}
+
+/**
+ * Attribution over the segments inside `window` (the same selection as the equity
+ * chart and the stats, see windowSegmentRange).
+ */
+export function computeStrategyAttribution(
+    strategyId: number,
+    window: StatWindow,
+    by: AttributionGrouping
+): StrategyAttribution {
+    const segments = db
+        .prepare(
+            `SELECT start_ts, end_ts, value_index_end
+            FROM strategy_segments
+            WHERE strategy_id = ?
+            ORDER BY start_ts ASC`
+        )
+        .all(strategyId) as { start_ts: number; end_ts: number; value_index_end: number }[];
+
+    const [i0, i1] = windowSegmentRange(segments, window);
+    const windowSegments = segments.slice(i0, i1);
+    if (windowSegments.length === 0) {
+        return {
+            by,
+            fromTs: null,
+            toTs: null,
+            coverageFromTs: null,
+            complete: true,
+            totalReturn: 0,
+            unattributed: 0,
+            totals: { price: 0, funding: 0, cost: 0, total: 0 },
+            groups: [],
+            points: [],
+        };
+    }
+
+    // A strategy wiped out before the window stays flat at zero: nothing to attribute.
+    const wipedOut = i0 > 0 && segments[i0 - 1].value_index_end <= 0;
+    const baseValue = i0 > 0 && !wipedOut ? segments[i0 - 1].value_index_end : 1;
+    const windowStartTs = windowSegments[0].start_ts;
+    const last = windowSegments[windowSegments.length - 1];
+
+    const rows = db
+        .prepare(
+            `SELECT start_ts, asset_symbol, direction, leverage, price_pnl, funding_pnl, cost_pnl
+            FROM strategy_segment_attribution
+            WHERE strategy_id = ? AND start_ts >= ? AND start_ts <= ?
+            ORDER BY start_ts ASC`
+        )
+        .all(strategyId, windowStartTs, last.start_ts) as AttributionRowDb[];
+
+    const coverageFromTs = db
+        .prepare("SELECT MIN(start_ts) FROM strategy_segment_attribution WHERE strategy_id = ?")
+        .pluck()
+        .get(strategyId) as number | null;
+
+    const totals: Breakdown = { price: 0, funding: 0, cost: 0, total: 0 };
+    const groups = new Map<string, Breakdown>();
+    const cumulative: Record<string, number> = {};
+    const points: StrategyAttribution["points"] = [{ timestamp: windowStartTs, values: {} }];
+
+    let j = 0;
+    for (const seg of windowSegments) {
+        for (; j < rows.length && rows[j].start_ts <= seg.start_ts; j++) {
+            const r = rows[j];
+            if (r.start_ts !== seg.start_ts) continue;
+
+            const key = groupKey(by, r);
+            let g = groups.get(key);
+            if (!g) {
+                g = { price: 0, funding: 0, cost: 0, total: 0 };
+                groups.set(key, g);
+            }
+            const price = r.price_pnl / baseValue;
+            const funding = r.funding_pnl / baseValue;
+            const cost = r.cost_pnl / baseValue;
+            g.price += price;
+            g.funding += funding;
+            g.cost += cost;
+            g.total += price + funding + cost;
+            totals.price += price;
+            totals.funding += funding;
+            totals.cost += cost;
+            totals.total += price + funding + cost;
+            cumulative[key] = g.total;
+        }
+        points.push({ timestamp: seg.end_ts, values: { ...cumulative } });
+    }
+
+    const totalReturn = wipedOut ? 0 : last.value_index_end / baseValue - 1;
+
+    return {
+        by,
+        fromTs: windowStartTs,
+        toTs: last.end_ts,
+        coverageFromTs,
+        complete: coverageFromTs != null && coverageFromTs <= windowStartTs,
+        totalReturn,
+        unattributed: totalReturn - totals.total,
+        totals,
+        groups: Array.from(groups.entries())
+            .map(([key, g]) => ({ key, ...g }))
+            .sort((a, b) => Math.abs(b.total) - Math.abs(a.total)),
+        points,
+    };
+}
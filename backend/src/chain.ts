@@ -1,44 +1,86 @@
 // src/chain.ts
-import { createPublicClient, defineChain, http } from "viem";
+import { createPublicClient, custom, defineChain, type Chain, type PublicClient } from "viem";
 import "dotenv/config";
+import { loadDeploymentConfigs } from "./deployments";
+import { recordPipelineError } from "./pipelineErrors";
+import { createRpcPool, parseRpcStrategy, type RpcPool } from "./rpc";
 
-const CHAIN_ID_RAW = process.env.CHAIN_ID;
-const CHAIN_NAME = process.env.CHAIN_NAME || "CustomChain";
-const CHAIN_RPC_URL = process.env.CHAIN_RPC_URL || "";
-const CHAIN_SIGNALS_ADDRESS = process.env.CHAIN_SIGNALS_ADDRESS || "";
+// Chain access for every configured deployment (see deployments.ts): one RPC pool and
+// client per chain id, shared by the deployments on that chain.
 
-const CHAIN_ID = CHAIN_ID_RAW ? Number(CHAIN_ID_RAW) : 0;
+// Throws on a missing or invalid deployment config, like the old single-chain settings did.
+export const deploymentConfigs = loadDeploymentConfigs();
 
-if (!CHAIN_ID || !CHAIN_RPC_URL || !CHAIN_SIGNALS_ADDRESS) {
-    throw new Error(
-        "Missing chain configuration. Please set CHAIN_ID, CHAIN_RPC_URL and CHAIN_SIGNALS_ADDRESS in your .env"
-    );
-}
+const RPC_HEALTH_INTERVAL_MS = Math.max(1000, Number(process.env.CHAIN_RPC_HEALTH_INTERVAL_MS || "30000"));
 
-export const activeChain = defineChain({
-    id: CHAIN_ID,
-    name: CHAIN_NAME,
-    nativeCurrency: {
-        name: "Native",
-        symbol: "NAT",
-        decimals: 18,
-    },
-    rpcUrls: {
-        default: {
-            http: [CHAIN_RPC_URL],
+const RPC_POOL_OPTIONS = {
+    strategy: parseRpcStrategy(process.env.CHAIN_RPC_STRATEGY),
+    timeoutMs: Math.max(500, Number(process.env.CHAIN_RPC_TIMEOUT_MS || "10000")),
+    retries: Math.max(0, Number(process.env.CHAIN_RPC_RETRIES || "2")),
+    backoffMs: Math.max(50, Number(process.env.CHAIN_RPC_BACKOFF_MS || "500")),
+    maxBackoffMs: Math.max(50, Number(process.env.CHAIN_RPC_MAX_BACKOFF_MS || "30000")),
+};
+
+export type ChainConnection = {
+    chain: Chain;
+    rpcPool: RpcPool;
+    client: PublicClient;
+};
+
+const connections = new Map<number, ChainConnection>();
+
+/** Client and RPC pool of a configured chain (created on first use). */
+export function getChainConnection(chainId: number): ChainConnection {
+    let conn = connections.get(chainId);
+    if (conn) return conn;
+
+    const config = deploymentConfigs.find((d) => d.chainId === chainId);
+    if (!config) throw new Error(`Chain ${chainId} is not configured`);
+
+    const chain = defineChain({
+        id: chainId,
+        name: config.chainName,
+        nativeCurrency: {
+            name: "Native",
+            symbol: "NAT",
+            decimals: 18,
         },
-    },
-});
+        rpcUrls: {
+            default: {
+                http: config.rpcUrls,
+            },
+        },
+    });
+    const rpcPool = createRpcPool(config.rpcUrls, chain, RPC_POOL_OPTIONS);
 
-export const chainSignalsAddress = CHAIN_SIGNALS_ADDRESS as `0x${string}`;
+    conn = {
+        chain,
+        rpcPool,
+        // Retries and failover happen in the pool, not in viem's request layer.
+        client: createPublicClient({ chain, transport: custom(rpcPool, { retryCount: 0 }) }),
+    };
+    connections.set(chainId, conn);
+    return conn;
+}
 
-export const publicClient = createPublicClient({
-    chain: activeChain,
-    transport: http(CHAIN_RPC_URL),
-});
+/** Connections of every configured chain. */
+export function chainConnections(): ChainConnection[] {
+    return [...new Set(deploymentConfigs.map((d) => d.chainId))].map(getChainConnection);
+}
 
-// Backwards compatibility: if other files import { client } it will still work
-export const client = publicClient;
+/**
+ * Check every endpoint's chain id and reachability every CHAIN_RPC_HEALTH_INTERVAL_MS;
+ * resolves once the first check is done.
+ */
+export async function startRpcHealthChecks() {
+    const check = () =>
+        Promise.all(chainConnections().map((c) => c.rpcPool.checkHealth())).catch((err) => {
+            console.error("[rpc] health check error:", err);
+            recordPipelineError("rpc", err);
+        });
+    setInterval(check, RPC_HEALTH_INTERVAL_MS);
+    await check();
+}
 
 // ABI for ChainSignals contract
 export const chainSignalsAbi = [
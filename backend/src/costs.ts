@@ -0,0 +1,87 @@
+import fs from "fs";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Trading cost model applied by the segment engine at each rebalance.
+//
+// Costs are charged on the notional traded (change in leveraged exposure) per asset:
+//   cost = notional * (taker_fee_bps + slippage_bps + spread_bps / 2) / 10_000
+// (half the spread: each trade crosses from mid to one side of the book).
+//
+// Configure with TRADING_COSTS_PATH (JSON file) or TRADING_COSTS_JSON (inline JSON):
+//   { "default": { "takerFeeBps": 5, "slippageBps": 5 }, "KAS": { "takerFeeBps": 10, "slippageBps": 20, "spreadBps": 10 } }
+// Assets not listed use "default". Without either setting trading is free (opt-in).
+//
+// Costs are charged when segments are built, so a model enabled or changed on a database
+// with history only applies from then on. Run `npm run rebuild -- --all` afterwards to
+// re-price every strategy under the same model.
+
+export type AssetCostModel = {
+    takerFeeBps: number;
+    slippageBps: number;
+    spreadBps: number;
+};
+
+export type TradeCost = {
+    fee: number;
+    slippage: number;
+    spread: number;
+    total: number;
+};
+
+const DEFAULT_COST_MODEL: Record<string, Partial<AssetCostModel>> = { default: {} };
+
+let costTable: Record<string, AssetCostModel> | null = null;
+
+function normalizeModel(raw: Partial<AssetCostModel> | undefined, fallback?: AssetCostModel): AssetCostModel {
+    const pick = (v: unknown, fb: number) => {
+        const n = Number(v);
+        return Number.isFinite(n) && n >= 0 ? n : fb;
+    };
+    return {
+        takerFeeBps: pick(raw?.takerFeeBps, fallback?.takerFeeBps ?? 0),
+        slippageBps: pick(raw?.slippageBps, fallback?.slippageBps ?? 0),
+        spreadBps: pick(raw?.spreadBps, fallback?.spreadBps ?? 0),
+    };
+}
+
+function loadCostTable(): Record<string, AssetCostModel> {
+    let raw: Record<string, Partial<AssetCostModel>> = DEFAULT_COST_MODEL;
+
+    const filePath = process.env.TRADING_COSTS_PATH || "";
+    const inline = process.env.TRADING_COSTS_JSON || "";
+    if (filePath) {
+        raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } else if (inline) {
+        raw = JSON.parse(inline);
+    }
+
+    const table: Record<string, AssetCostModel> = {};
+    table.default = normalizeModel(raw.default ?? raw.DEFAULT);
+    for (const [asset, model] of Object.entries(raw)) {
+        if (asset.toLowerCase() === "default") continue;
+        table[asset.toUpperCase()] = normalizeModel(model, table.default);
+    }
+    return table;
+}
+
+export function getCostModel(asset: string): AssetCostModel {
+    if (!costTable) costTable = loadCostTable();
+    return costTable[asset.toUpperCase()] ?? costTable.default;
+}
+
+/**
+ * Cost of trading `notional` (equity units, already multiplied by leverage) of `asset`.
+ * Cash (USD) legs are free.
+ */
+export function tradeCost(asset: string, notional: number): TradeCost {
+    if (asset.toUpperCase() === "USD" || !Number.isFinite(notional) || notional <= 0) {
+        return { fee: 0, slippage: 0, spread: 0, total: 0 };
+    }
+    const m = getCostModel(asset);
+    const fee = (notional * m.takerFeeBps) / 10_000;
+    const slippage = (notional * m.slippageBps) / 10_000;
+    const spread = (notional * m.spreadBps) / 2 / 10_000;
+    return { fee, slippage, spread, total: fee + slippage + spread };
+}
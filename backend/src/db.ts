@@ -6,22 +6,18 @@ dotenv.config();
 const dbPath = process.env.DATABASE_PATH || "./data/chainsignals.sqlite";
 
 export const db = new Database(dbPath);
+// WAL lets the API read while a worker process (see index.ts) writes
+db.pragma("journal_mode = WAL");
 
-export function initDb() {
-    db.exec("PRAGMA foreign_keys = ON;");
-
-    // meta table for misc state
-    db.exec(`
-    CREATE TABLE IF NOT EXISTS meta (
-        key   TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-    );
-    `);
+// Tables whose keys changed when indexing went multi-deployment; the same DDL creates
+// them on a fresh database and rebuilds them on an old one (see migrateToDeployments).
 
-    // on-chain signals
-    db.exec(`
-    CREATE TABLE IF NOT EXISTS signals (
-        id                  INTEGER PRIMARY KEY, -- on-chain index
+function signalsTableSql(name: string): string {
+    return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+        id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_id       INTEGER NOT NULL REFERENCES deployments(id),
+        signal_index        INTEGER NOT NULL,    -- on-chain index within the deployment's contract
         tx_hash             TEXT NOT NULL,
         trader_address      TEXT NOT NULL,
         strategy_name       TEXT NOT NULL,       -- <=10 chars
@@ -29,14 +25,18 @@ export function initDb() {
         direction           INTEGER NOT NULL,    -- 0=Long,1=Short (contract enum)
         leverage            INTEGER NOT NULL,    -- 1–5
         weight_raw          INTEGER NOT NULL,    -- user-defined integer (interpreted as target % 0..100, capped)
-        timestamp           INTEGER NOT NULL     -- unix seconds (block timestamp)
+        timestamp           INTEGER NOT NULL,    -- unix seconds (block timestamp)
+
+        UNIQUE(deployment_id, signal_index)
     );
-    `);
+    `;
+}
 
-    // strategies, aggregated per (trader, strategy_name)
-    db.exec(`
-    CREATE TABLE IF NOT EXISTS strategies (
+function strategiesTableSql(name: string): string {
+    return `
+    CREATE TABLE IF NOT EXISTS ${name} (
         id                    INTEGER PRIMARY KEY AUTOINCREMENT,
+        deployment_id         INTEGER NOT NULL REFERENCES deployments(id),
         trader_address        TEXT NOT NULL,
         strategy_name         TEXT NOT NULL,
 
@@ -48,12 +48,65 @@ export function initDb() {
         last_value_index      REAL    NOT NULL DEFAULT 1.0,  -- latest equity value
         last_segment_end_ts   INTEGER,                       -- end_ts of last segment
 
-        is_liquidated         INTEGER NOT NULL DEFAULT 0,    -- reserved for future
+        is_liquidated         INTEGER NOT NULL DEFAULT 0,    -- 1 once every leg was liquidated (see liquidation.ts)
+
+        UNIQUE(deployment_id, trader_address, strategy_name)
+    );
+    `;
+}
+
+function syncCheckpointsTableSql(name: string): string {
+    return `
+    CREATE TABLE IF NOT EXISTS ${name} (
+        deployment_id   INTEGER NOT NULL REFERENCES deployments(id),
+        block_number    INTEGER NOT NULL,
+        block_hash      TEXT    NOT NULL,
+        last_signal_id  INTEGER NOT NULL,   -- last signal index known at this block
+        created_ts      INTEGER NOT NULL,
+
+        PRIMARY KEY(deployment_id, block_number)
+    );
+    `;
+}
+
+export function initDb() {
+    db.exec("PRAGMA foreign_keys = ON;");
+
+    // meta table for misc state
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+        key   TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    `);
+
+    // contract deployments being indexed (see deployments.ts)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS deployments (
+        id                        INTEGER PRIMARY KEY AUTOINCREMENT,
+        key                       TEXT    NOT NULL UNIQUE,   -- short name used by the API ("mainnet")
+        chain_id                  INTEGER NOT NULL,
+        chain_name                TEXT    NOT NULL,
+        contract_address          TEXT    NOT NULL,          -- lowercase
+        start_block               INTEGER NOT NULL DEFAULT 0,
+        is_active                 INTEGER NOT NULL DEFAULT 1, -- 0 once dropped from the config (kept, not synced)
+
+        -- sync cursors
+        last_signal_index_synced  INTEGER NOT NULL DEFAULT -1,
+        last_block_synced         INTEGER,                    -- NULL until log-based sync ran
+
+        created_ts                INTEGER NOT NULL,
 
-        UNIQUE(trader_address, strategy_name)
+        UNIQUE(chain_id, contract_address)
     );
     `);
 
+    // on-chain signals
+    db.exec(signalsTableSql("signals"));
+
+    // strategies, aggregated per (deployment, trader, strategy_name)
+    db.exec(strategiesTableSql("strategies"));
+
     // price time series (hourly + signal timestamps)
     db.exec(`
     CREATE TABLE IF NOT EXISTS prices (
@@ -135,14 +188,232 @@ export function initDb() {
     );
     `);
 
+    // extra per-window metrics from the metrics registry (see metrics.ts), one row per metric
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS strategy_metrics (
+        strategy_id     INTEGER NOT NULL,
+        window          TEXT    NOT NULL,
+        metric          TEXT    NOT NULL,
+        value           REAL,               -- NULL when there isn't enough data
+        last_updated_ts INTEGER NOT NULL,
+
+        FOREIGN KEY(strategy_id) REFERENCES strategies(id) ON DELETE CASCADE,
+        UNIQUE(strategy_id, window, metric)
+    );
+    `);
+
+    // trading costs charged at each rebalance (one row per strategy, signal time and asset)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS strategy_rebalance_costs (
+        strategy_id     INTEGER NOT NULL,
+        signal_ts       INTEGER NOT NULL,
+        asset_symbol    TEXT    NOT NULL,
+        notional        REAL    NOT NULL,   -- |change in leveraged exposure|, equity units
+        fee_cost        REAL    NOT NULL,
+        slippage_cost   REAL    NOT NULL,
+        spread_cost     REAL    NOT NULL,
+        total_cost      REAL    NOT NULL,
+        equity_before   REAL    NOT NULL,   -- equity right before costs were charged
+
+        FOREIGN KEY(strategy_id) REFERENCES strategies(id) ON DELETE CASCADE,
+        UNIQUE(strategy_id, signal_ts, asset_symbol)
+    );
+    `);
+
+    // legs closed by the liquidation engine (one row per strategy, time and asset)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS strategy_liquidations (
+        id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+        strategy_id        INTEGER NOT NULL,
+        ts                 INTEGER NOT NULL,   -- price sample at which margin was breached
+        asset_symbol       TEXT    NOT NULL,
+        direction          INTEGER NOT NULL,   -- -1 short, +1 long
+        leverage           INTEGER NOT NULL,
+        start_price        REAL    NOT NULL,   -- price at the start of the drift step
+        liquidation_price  REAL    NOT NULL,
+        loss_pct           REAL    NOT NULL,   -- share of strategy equity lost (0..1)
+
+        FOREIGN KEY(strategy_id) REFERENCES strategies(id) ON DELETE CASCADE,
+        UNIQUE(strategy_id, ts, asset_symbol)
+    );
+    `);
+
+    // per-leg P&L of each segment (see extendSegmentsForStrategy). Amounts are in
+    // value-index units, so summing them over any run of segments gives the change in
+    // value index and dividing by the index at the start gives each leg's share of the return.
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS strategy_segment_attribution (
+        strategy_id      INTEGER NOT NULL,
+        start_ts         INTEGER NOT NULL,   -- segment start
+        asset_symbol     TEXT    NOT NULL,
+        direction        INTEGER NOT NULL,   -- -1 short, +1 long
+        leverage         INTEGER NOT NULL,
+        price_pnl        REAL    NOT NULL,   -- price moves, including liquidation losses
+        funding_pnl      REAL    NOT NULL,   -- funding / borrow carry (negative = paid)
+        cost_pnl         REAL    NOT NULL,   -- trading costs of rebalances into or out of the leg
+
+        FOREIGN KEY(strategy_id) REFERENCES strategies(id) ON DELETE CASCADE,
+        PRIMARY KEY(strategy_id, start_ts, asset_symbol, direction, leverage)
+    );
+    `);
+
+    // block hashes of recent sync passes per deployment, used to detect chain reorgs (see reorg.ts)
+    db.exec(syncCheckpointsTableSql("sync_checkpoints"));
+
+    // outbound webhooks (see webhooks.ts); NULL filter columns match anything
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+        id              INTEGER PRIMARY KEY AUTOINCREMENT,
+        url             TEXT    NOT NULL,
+        secret          TEXT    NOT NULL,   -- HMAC-SHA256 key for the signature header
+        trader_address  TEXT,               -- lowercase
+        strategy_id     INTEGER,
+        asset_symbol    TEXT,               -- uppercase
+        description     TEXT,
+        is_active       INTEGER NOT NULL DEFAULT 1,
+        created_ts      INTEGER NOT NULL
+    );
+    `);
+
+    // one row per payload sent to a webhook (replays get their own row)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id               INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id       INTEGER NOT NULL,
+        event_type       TEXT    NOT NULL,
+        signal_id        INTEGER,
+        payload_json     TEXT    NOT NULL,
+        status           TEXT    NOT NULL,   -- pending | delivered | failed
+        attempts         INTEGER NOT NULL DEFAULT 0,
+        next_attempt_ts  INTEGER,            -- NULL once delivered or failed
+        last_attempt_ts  INTEGER,
+        response_status  INTEGER,            -- HTTP status of the last attempt
+        last_error       TEXT,
+        replay_of        INTEGER,            -- delivery this one replays
+        created_ts       INTEGER NOT NULL,
+        delivered_ts     INTEGER,
+
+        FOREIGN KEY(webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+    );
+    `);
+    db.exec(
+        "CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_ts)"
+    );
+
+    // copy-trading followers of a strategy (simulated on demand, see followers.ts)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS followers (
+        id               INTEGER PRIMARY KEY AUTOINCREMENT,
+        strategy_id      INTEGER NOT NULL,
+        owner_address    TEXT,               -- lowercase; optional, for listing
+        label            TEXT,
+        start_ts         INTEGER NOT NULL,
+        capital          REAL    NOT NULL,   -- USD
+        leverage_scale   REAL    NOT NULL DEFAULT 1,
+        delay_minutes    INTEGER NOT NULL DEFAULT 0,
+        created_ts       INTEGER NOT NULL,
+
+        FOREIGN KEY(strategy_id) REFERENCES strategies(id) ON DELETE CASCADE
+    );
+    `);
+
+    // multi-strategy portfolios (simulated on demand from strategy_segments, see portfolios.ts)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS portfolios (
+        id                INTEGER PRIMARY KEY AUTOINCREMENT,
+        name              TEXT    NOT NULL,
+        owner_address     TEXT,               -- lowercase; optional, for listing
+        weighting         TEXT    NOT NULL,   -- 'fixed' | 'equal' | 'inverse_vol'
+        rebalance         TEXT    NOT NULL,   -- 'none' | 'daily' | 'weekly' | 'monthly'
+        vol_lookback_days INTEGER NOT NULL DEFAULT 30,
+        created_ts        INTEGER NOT NULL,
+        updated_ts        INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS portfolio_members (
+        portfolio_id     INTEGER NOT NULL,
+        strategy_id      INTEGER NOT NULL,
+        weight           REAL,               -- used by 'fixed' weighting
+        position         INTEGER NOT NULL,   -- order in the definition
+
+        PRIMARY KEY (portfolio_id, strategy_id),
+        FOREIGN KEY(portfolio_id) REFERENCES portfolios(id) ON DELETE CASCADE,
+        FOREIGN KEY(strategy_id) REFERENCES strategies(id) ON DELETE CASCADE
+    );
+    `);
+
+    // background jobs (see scheduler.ts): state shared by the worker and API processes
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+        name              TEXT PRIMARY KEY,
+        interval_ms       INTEGER NOT NULL,
+        jitter_ms         INTEGER NOT NULL DEFAULT 0,
+        paused            INTEGER NOT NULL DEFAULT 0,
+        run_requested_ts  INTEGER,            -- manual run pending (admin endpoint)
+        running_since     INTEGER,            -- lease held while a run is in progress
+        running_by        TEXT,
+        next_run_ts       INTEGER,
+        last_run_id       INTEGER,            -- job_runs.id of the latest finished run
+        updated_ts        INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS job_runs (
+        id           INTEGER PRIMARY KEY AUTOINCREMENT,
+        job          TEXT    NOT NULL,
+        trigger      TEXT    NOT NULL,        -- 'schedule' | 'manual'
+        worker       TEXT    NOT NULL,        -- role:pid of the process that ran it
+        status       TEXT    NOT NULL,        -- 'running' | 'ok' | 'error' | 'interrupted'
+        started_ts   INTEGER NOT NULL,
+        finished_ts  INTEGER,
+        duration_ms  INTEGER,
+        error        TEXT
+    );
+    `);
+    db.exec("CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job, id)");
+
+    // admin rebuilds queued by an API process for the worker (see rebuild.ts)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS rebuild_requests (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope_json     TEXT    NOT NULL,
+        dry_run        INTEGER NOT NULL,
+        status         TEXT    NOT NULL,   -- 'queued' | 'ok' | 'error'
+        requested_ts   INTEGER NOT NULL,
+        finished_ts    INTEGER,
+        report_json    TEXT,
+        error          TEXT
+    );
+    `);
+
+    // recent pipeline errors, for the health report (see pipelineErrors.ts)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS pipeline_errors (
+        id       INTEGER PRIMARY KEY AUTOINCREMENT,
+        source   TEXT    NOT NULL,
+        ts       INTEGER NOT NULL,
+        message  TEXT    NOT NULL
+    );
+    `);
+    db.exec("CREATE INDEX IF NOT EXISTS idx_pipeline_errors_ts ON pipeline_errors(ts)");
+
+    // outbox of live update events, relayed to /api/stream by API processes (see events.ts)
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS stream_events (
+        id           INTEGER PRIMARY KEY AUTOINCREMENT,   -- SSE event id
+        type         TEXT    NOT NULL,
+        ts           INTEGER NOT NULL,
+        strategy_id  INTEGER,
+        trader       TEXT,                                -- lowercase
+        data_json    TEXT    NOT NULL
+    );
+    `);
+    db.exec("CREATE INDEX IF NOT EXISTS idx_stream_events_ts ON stream_events(ts)");
+
     const getMeta = db.prepare("SELECT value FROM meta WHERE key = ?");
     const setMeta = db.prepare(
         "INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)"
     );
 
-    if (!getMeta.pluck().get("last_signal_id_synced")) {
-        setMeta.run("last_signal_id_synced", "-1");
-    }
     if (!getMeta.pluck().get("last_price_ts")) {
         setMeta.run("last_price_ts", "0");
     }
@@ -152,4 +423,141 @@ export function initDb() {
     try { db.exec("ALTER TABLE signals ADD COLUMN message TEXT"); } catch {}
     try { db.exec("ALTER TABLE strategy_position_snapshots ADD COLUMN message TEXT"); } catch {}
 
+    // Event-log metadata (filled when SIGNAL_SYNC_MODE=logs).
+    try { db.exec("ALTER TABLE signals ADD COLUMN block_number INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE signals ADD COLUMN log_index INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE signals ADD COLUMN block_hash TEXT"); } catch {}
+
+    // Gross-of-costs equity (trading cost model). NULL on rows written before it existed.
+    try { db.exec("ALTER TABLE strategies ADD COLUMN last_gross_value_index REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_segments ADD COLUMN gross_return REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_segments ADD COLUMN gross_value_index_end REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN gross_sharpe_annual REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN gross_vol_annual REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN gross_total_return REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN gross_max_drawdown REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN cost_drag REAL"); } catch {}
+
+    // Funding / borrow carry accrued per segment, as a return on segment start equity.
+    try { db.exec("ALTER TABLE strategy_segments ADD COLUMN funding_return REAL"); } catch {}
+
+    // Time the strategy was wiped out by liquidations (NULL while alive).
+    try { db.exec("ALTER TABLE strategies ADD COLUMN liquidated_ts INTEGER"); } catch {}
+
+    // Benchmark-relative stats (benchmark chosen with STATS_BENCHMARK, see segments.ts).
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN benchmark_symbol TEXT"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN alpha_annual REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN beta REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN correlation REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN tracking_error REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN information_ratio REAL"); } catch {}
+
+    // Trade-level stats from the trade ledger (see trades.ts).
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN closed_legs INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN win_rate REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN avg_win REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN avg_loss REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN profit_factor REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN expectancy REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN avg_holding_sec REAL"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN max_win_streak INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN max_loss_streak INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE strategy_stats ADD COLUMN turnover REAL"); } catch {}
+
+    // Outcome of the latest signal sync pass per deployment (health report).
+    try { db.exec("ALTER TABLE deployments ADD COLUMN last_sync_attempt_ts INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE deployments ADD COLUMN last_sync_ts INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE deployments ADD COLUMN last_sync_error TEXT"); } catch {}
+    try { db.exec("ALTER TABLE deployments ADD COLUMN onchain_signal_count INTEGER"); } catch {}
+    try { db.exec("ALTER TABLE deployments ADD COLUMN confirmed_block INTEGER"); } catch {}
+
+    // Signals, strategies and sync checkpoints keyed by deployment.
+    migrateToDeployments();
+
+}
+
+function hasColumn(table: string, column: string): boolean {
+    return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some((c) => c.name === column);
+}
+
+/**
+ * Rebuild `table` from `createSql` (SQLite can't change keys or constraints in place),
+ * keeping its rows and every column the new definition lacks. `fill` gives the values
+ * of new columns as SQL over the old table. Foreign keys must be off.
+ */
+function rebuildTable(table: string, createSql: (name: string) => string, fill: Record<string, string>) {
+    const tmp = `${table}_rebuild`;
+    db.exec(createSql(tmp));
+
+    const oldCols = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string; type: string }[];
+    for (const c of oldCols) {
+        if (!hasColumn(tmp, c.name)) db.exec(`ALTER TABLE ${tmp} ADD COLUMN ${c.name} ${c.type}`);
+    }
+
+    const cols = [...oldCols.map((c) => c.name), ...Object.keys(fill)];
+    const exprs = [...oldCols.map((c) => c.name), ...Object.values(fill)];
+    db.exec(`INSERT INTO ${tmp} (${cols.join(", ")}) SELECT ${exprs.join(", ")} FROM ${table}`);
+
+    // keep AUTOINCREMENT from reusing ids deleted before the rebuild
+    const seq = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = ?").pluck().get(table) as number | undefined;
+
+    db.exec(`DROP TABLE ${table}`);
+    db.exec(`ALTER TABLE ${tmp} RENAME TO ${table}`);
+
+    if (seq != null) {
+        db.prepare("UPDATE sqlite_sequence SET seq = ? WHERE name = ? AND seq < ?").run(seq, table, seq);
+    }
+}
+
+/**
+ * Databases from before multi-deployment indexing hold one contract's data, keyed by
+ * the on-chain signal index. Register that contract as deployment "default" (from
+ * CHAIN_ID / CHAIN_SIGNALS_ADDRESS, with the old sync cursors) and move its signals,
+ * strategies and checkpoints under it. List the same chain id and address in
+ * DEPLOYMENTS_JSON to keep syncing it under another key.
+ */
+function migrateToDeployments() {
+    if (hasColumn("signals", "deployment_id")) return;
+
+    const getMeta = db.prepare("SELECT value FROM meta WHERE key = ?").pluck();
+    const lastSignal = getMeta.get("last_signal_id_synced") as string | undefined;
+    const lastBlock = getMeta.get("last_block_synced") as string | undefined;
+
+    db.pragma("foreign_keys = OFF");
+    try {
+        db.transaction(() => {
+            const info = db
+                .prepare(
+                    `INSERT INTO deployments (
+                        key, chain_id, chain_name, contract_address, start_block,
+                        last_signal_index_synced, last_block_synced, created_ts
+                    )
+                    VALUES ('default', ?, ?, ?, ?, ?, ?, ?)`
+                )
+                .run(
+                    Number(process.env.CHAIN_ID || "0"),
+                    process.env.CHAIN_NAME || "CustomChain",
+                    (process.env.CHAIN_SIGNALS_ADDRESS || "").toLowerCase(),
+                    Number(process.env.SIGNALS_START_BLOCK || "0"),
+                    lastSignal ? parseInt(lastSignal, 10) : -1,
+                    lastBlock != null ? parseInt(lastBlock, 10) : null,
+                    Math.floor(Date.now() / 1000)
+                );
+            const deploymentId = String(Number(info.lastInsertRowid));
+
+            // legacy rows keep their ids, so webhook deliveries still point at them
+            rebuildTable("signals", signalsTableSql, { deployment_id: deploymentId, signal_index: "id" });
+            rebuildTable("strategies", strategiesTableSql, { deployment_id: deploymentId });
+            rebuildTable("sync_checkpoints", syncCheckpointsTableSql, { deployment_id: deploymentId });
+
+            db.prepare("DELETE FROM meta WHERE key IN ('last_signal_id_synced', 'last_block_synced')").run();
+
+            const broken = db.pragma("foreign_key_check") as unknown[];
+            if (broken.length) throw new Error(`deployment migration left ${broken.length} broken foreign key(s)`);
+        })();
+    } finally {
+        db.pragma("foreign_keys = ON");
+    }
+
+    console.log("[db] migrated signals, strategies and sync checkpoints to deployment \"default\"");
 }
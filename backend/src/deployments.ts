@@ -0,0 +1,244 @@
+import fs from "fs";
+import dotenv from "dotenv";
+import { db } from "./db";
+
+dotenv.config();
+
+// Registry of the contract deployments being indexed into this database.
+//
+// Configure with DEPLOYMENTS_PATH (JSON file) or DEPLOYMENTS_JSON (inline JSON), a list of
+//   { "key": "mainnet", "chainId": 1, "chainName": "Ethereum", "rpcUrls": ["https://..."],
+//     "address": "0x...", "startBlock": 19000000, "syncMode": "logs" }
+// (chainName, startBlock and syncMode are optional; deployments on the same chain share
+// its RPC endpoints). Without either, the single-contract settings CHAIN_ID, CHAIN_NAME,
+// CHAIN_RPC_URL(S), CHAIN_SIGNALS_ADDRESS and SIGNALS_START_BLOCK define deployment "default".
+//
+// A deployment is identified by (chain id, contract address); its key can be renamed in
+// the config. Deployments dropped from the config keep their data but are no longer synced.
+
+export type SignalSyncMode = "range" | "logs";
+
+export type DeploymentConfig = {
+    key: string;
+    chainId: number;
+    chainName: string;
+    rpcUrls: string[];
+    address: string; // lowercase
+    startBlock: number;
+    syncMode: SignalSyncMode;
+};
+
+export type DeploymentRow = {
+    id: number;
+    key: string;
+    chain_id: number;
+    chain_name: string;
+    contract_address: string;
+    start_block: number;
+    is_active: number;
+    last_signal_index_synced: number;
+    last_block_synced: number | null;
+    created_ts: number;
+    // latest sync pass (see syncSignals.ts)
+    last_sync_attempt_ts: number | null;
+    last_sync_ts: number | null;
+    last_sync_error: string | null;
+    onchain_signal_count: number | null; // getSignalsCount at confirmed_block
+    confirmed_block: number | null;
+};
+
+export type Deployment = DeploymentConfig & { id: number };
+
+export class DeploymentParamError extends Error {}
+
+const KEY_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const ADDRESS_RE = /^0x[0-9a-f]{40}$/;
+
+function parseSyncMode(raw: unknown): SignalSyncMode {
+    const mode = String(raw || process.env.SIGNAL_SYNC_MODE || "range").trim().toLowerCase();
+    if (mode !== "range" && mode !== "logs") {
+        throw new Error(`Unknown sync mode "${raw}" (expected range or logs)`);
+    }
+    return mode;
+}
+
+function rpcUrlList(raw: unknown): string[] {
+    const list = Array.isArray(raw) ? raw : String(raw ?? "").split(",");
+    return list.map((u) => String(u).trim()).filter(Boolean);
+}
+
+function normalizeConfig(raw: any, i: number): DeploymentConfig {
+    const where = `deployment #${i + 1}${raw?.key ? ` ("${raw.key}")` : ""}`;
+    const key = String(raw?.key ?? "").trim().toLowerCase();
+    const chainId = Number(raw?.chainId);
+    const address = String(raw?.address ?? "").trim().toLowerCase();
+    const rpcUrls = rpcUrlList(raw?.rpcUrls ?? raw?.rpcUrl);
+    const startBlock = Number(raw?.startBlock ?? 0);
+
+    if (!KEY_RE.test(key)) throw new Error(`${where}: key must be 1-32 of a-z, 0-9, "-" and "_"`);
+    if (!Number.isInteger(chainId) || chainId <= 0) throw new Error(`${where}: chainId must be a positive integer`);
+    if (!ADDRESS_RE.test(address)) throw new Error(`${where}: address must be a 0x-prefixed 20-byte hex address`);
+    if (rpcUrls.length === 0) throw new Error(`${where}: at least one RPC URL is required`);
+    if (!Number.isInteger(startBlock) || startBlock < 0) throw new Error(`${where}: startBlock must be >= 0`);
+
+    return {
+        key,
+        chainId,
+        chainName: String(raw?.chainName || `chain-${chainId}`),
+        rpcUrls,
+        address,
+        startBlock,
+        syncMode: parseSyncMode(raw?.syncMode),
+    };
+}
+
+/** Deployments from DEPLOYMENTS_PATH / DEPLOYMENTS_JSON, or the single-contract env settings. */
+export function loadDeploymentConfigs(): DeploymentConfig[] {
+    let raw: unknown;
+
+    const filePath = process.env.DEPLOYMENTS_PATH || "";
+    const inline = process.env.DEPLOYMENTS_JSON || "";
+    if (filePath) {
+        raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } else if (inline) {
+        raw = JSON.parse(inline);
+    } else {
+        const chainId = Number(process.env.CHAIN_ID || "0");
+        const rpcUrls = rpcUrlList(process.env.CHAIN_RPC_URLS || process.env.CHAIN_RPC_URL);
+        const address = process.env.CHAIN_SIGNALS_ADDRESS || "";
+        if (!chainId || rpcUrls.length === 0 || !address) {
+            throw new Error(
+                "Missing chain configuration. Please set DEPLOYMENTS_JSON (or DEPLOYMENTS_PATH), or CHAIN_ID, CHAIN_RPC_URL (or CHAIN_RPC_URLS) and CHAIN_SIGNALS_ADDRESS in your .env"
+            );
+        }
+        raw = [
+            {
+                key: "default",
+                chainId,
+                chainName: process.env.CHAIN_NAME || "CustomChain",
+                rpcUrls,
+                address,
+                startBlock: Number(process.env.SIGNALS_START_BLOCK || "0"),
+            },
+        ];
+    }
+
+    if (!Array.isArray(raw) || raw.length === 0) {
+        throw new Error("Deployment config must be a non-empty JSON array");
+    }
+
+    const configs = raw.map(normalizeConfig);
+    const seen = new Set<string>();
+    for (const c of configs) {
+        const id = `${c.chainId}:${c.address}`;
+        if (seen.has(c.key) || seen.has(id)) {
+            throw new Error(`Duplicate deployment "${c.key}" (keys and chain id / address pairs must be unique)`);
+        }
+        seen.add(c.key);
+        seen.add(id);
+    }
+
+    // deployments on one chain share its endpoints and name
+    for (const c of configs) {
+        const first = configs.find((o) => o.chainId === c.chainId)!;
+        c.chainName = first.chainName;
+        c.rpcUrls = [...new Set(configs.filter((o) => o.chainId === c.chainId).flatMap((o) => o.rpcUrls))];
+    }
+    return configs;
+}
+
+let prepared = false;
+
+let getAllStmt: any;
+let getByChainAddressStmt: any;
+let getByKeyStmt: any;
+let getByIdStmt: any;
+let insertStmt: any;
+let updateStmt: any;
+let renameStmt: any;
+let deactivateAllStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    getAllStmt = db.prepare(`SELECT * FROM deployments ORDER BY id ASC`);
+    getByChainAddressStmt = db.prepare(`SELECT * FROM deployments WHERE chain_id = ? AND contract_address = ?`);
+    getByKeyStmt = db.prepare(`SELECT * FROM deployments WHERE key = ?`);
+    getByIdStmt = db.prepare(`SELECT * FROM deployments WHERE id = ?`);
+    insertStmt = db.prepare(`
+        INSERT INTO deployments (key, chain_id, chain_name, contract_address, start_block, is_active, created_ts)
+        VALUES (?, ?, ?, ?, ?, 1, ?)
+    `);
+    updateStmt = db.prepare(`
+        UPDATE deployments
+        SET key = ?, chain_name = ?, start_block = ?, is_active = 1
+        WHERE id = ?
+    `);
+    renameStmt = db.prepare(`UPDATE deployments SET key = ? WHERE id = ?`);
+    deactivateAllStmt = db.prepare(`UPDATE deployments SET is_active = 0`);
+}
+
+/**
+ * Store `configs` in the deployments table (matching existing rows by chain id and
+ * address) and mark every other deployment inactive. A deployment whose key is given
+ * to another one keeps its data under "<key>-<id>". Returns the configs with their ids.
+ */
+export function registerDeployments(configs: DeploymentConfig[]): Deployment[] {
+    prepareStatements();
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    const tx = db.transaction(() => {
+        deactivateAllStmt.run();
+
+        return configs.map((c) => {
+            const holder = getByKeyStmt.get(c.key) as DeploymentRow | undefined;
+            if (holder && (holder.chain_id !== c.chainId || holder.contract_address !== c.address)) {
+                renameStmt.run(`${holder.key}-${holder.id}`, holder.id);
+                console.warn(
+                    `[deployments] key "${c.key}" now names chain ${c.chainId} ${c.address}; ` +
+                        `the previous deployment is "${holder.key}-${holder.id}"`
+                );
+            }
+
+            const row = getByChainAddressStmt.get(c.chainId, c.address) as DeploymentRow | undefined;
+            if (row) {
+                updateStmt.run(c.key, c.chainName, c.startBlock, row.id);
+                return { ...c, id: row.id };
+            }
+            const info = insertStmt.run(c.key, c.chainId, c.chainName, c.address, c.startBlock, nowSec);
+            return { ...c, id: Number(info.lastInsertRowid) };
+        });
+    });
+
+    return tx();
+}
+
+export function getDeployments(): DeploymentRow[] {
+    prepareStatements();
+    return getAllStmt.all() as DeploymentRow[];
+}
+
+/** Deployment for an API param: its key or numeric id. Throws DeploymentParamError if unknown. */
+export function resolveDeploymentParam(raw: unknown): DeploymentRow {
+    prepareStatements();
+    const s = String(raw ?? "").trim().toLowerCase();
+    const row = (/^\d+$/.test(s) ? getByIdStmt.get(Number(s)) : getByKeyStmt.get(s)) as DeploymentRow | undefined;
+    if (!row) throw new DeploymentParamError(`Unknown deployment "${raw}"`);
+    return row;
+}
+
+/** API shape of a deployment row. */
+export function deploymentToJson(d: DeploymentRow) {
+    return {
+        id: d.id,
+        key: d.key,
+        chainId: d.chain_id,
+        chainName: d.chain_name,
+        address: d.contract_address,
+        startBlock: d.start_block,
+        active: d.is_active === 1,
+        lastSignalIndexSynced: d.last_signal_index_synced,
+        lastBlockSynced: d.last_block_synced,
+    };
+}
@@ -0,0 +1,133 @@
+import { windowSegmentRange, type StatWindow } from "./windows";
+
+// Drawdown path of a segment series over a window: the underwater curve (distance
+// below the running peak of the value index, normalized at the window start, as a
+// positive fraction), the drawdown episodes (peak -> trough -> recovery) and where the
+// series stands now. Stats only keep the deepest point (max_drawdown); this keeps the path.
+
+export const DEFAULT_DRAWDOWN_EPISODES = 5;
+export const MAX_DRAWDOWN_EPISODES = 50;
+
+export type DrawdownSpell = { peakTs: number; troughTs: number; depth: number; recoveryTs: number | null };
+
+export type DrawdownEpisode = {
+    startTs: number; // the peak it falls from
+    troughTs: number;
+    recoveryTs: number | null; // back at the peak; null while still underwater
+    depth: number; // (peak - trough) / peak
+    durationSec: number; // peak to recovery (to the window end if ongoing)
+    recoverySec: number | null; // trough to recovery
+};
+
+export type DrawdownReport = {
+    asOfTs: number | null;
+    maxDrawdown: number;
+    currentDrawdown: number;
+    underwater: { timestamp: number; drawdown: number }[];
+    episodes: DrawdownEpisode[]; // deepest first
+};
+
+/** Underwater spells: from a peak until equity is back at (or above) that peak. */
+export function drawdownSpells(equity: { ts: number; value: number }[]): DrawdownSpell[] {
+    const spells: DrawdownSpell[] = [];
+    if (equity.length === 0) return spells;
+
+    let peak = equity[0];
+    let current: DrawdownSpell | null = null;
+
+    for (const p of equity) {
+        if (p.value >= peak.value) {
+            if (current) {
+                current.recoveryTs = p.ts;
+                spells.push(current);
+                current = null;
+            }
+            peak = p;
+            continue;
+        }
+        const depth = peak.value > 0 ? (peak.value - p.value) / peak.value : 0;
+        if (!current) current = { peakTs: peak.ts, troughTs: p.ts, depth, recoveryTs: null };
+        if (depth > current.depth) {
+            current.depth = depth;
+            current.troughTs = p.ts;
+        }
+    }
+    if (current) spells.push(current);
+    return spells;
+}
+
+/**
+ * Drawdown report of `segments` (sorted by end_ts) over a window, with the `top`
+ * deepest episodes.
+ */
+export function computeDrawdown(
+    segments: { start_ts: number; end_ts: number; value_index_end: number }[],
+    window: StatWindow,
+    top = DEFAULT_DRAWDOWN_EPISODES
+): DrawdownReport {
+    const empty: DrawdownReport = { asOfTs: null, maxDrawdown: 0, currentDrawdown: 0, underwater: [], episodes: [] };
+
+    const [i0, i1] = windowSegmentRange(segments, window);
+    if (i0 >= i1) return empty;
+
+    // equity at the window start is the previous segment's end (1.0 at the very beginning)
+    const baseValue = i0 > 0 ? segments[i0 - 1].value_index_end : 1.0;
+    if (baseValue <= 0) return empty;
+
+    const equity = [{ ts: segments[i0].start_ts, value: 1.0 }];
+    for (let j = i0; j < i1; j++) {
+        equity.push({ ts: segments[j].end_ts, value: segments[j].value_index_end / baseValue });
+    }
+
+    const underwater: DrawdownReport["underwater"] = [];
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const p of equity) {
+        peak = Math.max(peak, p.value);
+        const drawdown = peak > 0 ? (peak - p.value) / peak : 0;
+        maxDrawdown = Math.max(maxDrawdown, drawdown);
+        underwater.push({ timestamp: p.ts, drawdown });
+    }
+
+    const endTs = equity[equity.length - 1].ts;
+    const episodes = drawdownSpells(equity)
+        .sort((a, b) => b.depth - a.depth)
+        .slice(0, top)
+        .map((s) => ({
+            startTs: s.peakTs,
+            troughTs: s.troughTs,
+            recoveryTs: s.recoveryTs,
+            depth: s.depth,
+            durationSec: (s.recoveryTs ?? endTs) - s.peakTs,
+            recoverySec: s.recoveryTs != null ? s.recoveryTs - s.troughTs : null,
+        }));
+
+    return {
+        asOfTs: endTs,
+        maxDrawdown,
+        currentDrawdown: underwater[underwater.length - 1].drawdown,
+        underwater,
+        episodes,
+    };
+}
+
+/**
+ * Thin an underwater curve to at most ~maxPoints, keeping the deepest point of each
+ * bucket (so troughs survive) and the first and last points.
+ */
+export function thinUnderwater(points: DrawdownReport["underwater"], maxPoints: number): DrawdownReport["underwater"] {
+    const n = points.length;
+    if (n <= maxPoints || maxPoints < 3) return points;
+
+    const step = Math.ceil((n - 2) / (maxPoints - 2));
+    const out = [points[0]];
+    for (let i = 1; i < n - 1; i += step) {
+        let deepest = points[i];
+        for (let k = i + 1; k < Math.min(i + step, n - 1); k++) {
+            if (points[k].drawdown > deepest.drawdown) deepest = points[k];
+        }
+        out.push(deepest);
+    }
+    out.push(points[n - 1]);
+    return out;
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from "events";
+import { db } from "./db";
+
+// Live updates, fanned out to clients by GET /api/stream (SSE) and to webhooks.
+//
+// Listeners in the process that publishes an event get it directly. Every event is also
+// written to the stream_events outbox, in the same transaction as the data it announces,
+// and a process started with --role=api relays the outbox to its own listeners
+// (startEventRelay), so its SSE clients see what the worker publishes. Once the relay
+// runs, it also delivers the events this process publishes, so none arrives twice.
+// Outbox ids are the SSE event ids, which lets a reconnecting client catch up
+// (forEachEventAfter).
+//
+// Events raised while a database transaction is open are held back until the
+// outermost caller commits (flushEvents) or dropped if it rolls back
+// (discardEvents), so subscribers never see data that doesn't exist; the outbox
+// rows commit or roll back with the transaction.
+
+export type StreamEventType =
+    | "signal.synced"
+    | "snapshot.updated"
+    | "segments.extended"
+    | "stats.recomputed";
+
+export const STREAM_EVENT_TYPES: StreamEventType[] = [
+    "signal.synced",
+    "snapshot.updated",
+    "segments.extended",
+    "stats.recomputed",
+];
+
+export type StreamEvent = {
+    id: number;
+    type: StreamEventType;
+    ts: number; // unix seconds when raised
+    strategyId: number | null;
+    trader: string | null; // lowercase
+    data: Record<string, unknown>;
+};
+
+// Outbox rows are kept this long, for relays catching up and clients reconnecting.
+const RETAIN_SEC = 3600;
+const PRUNE_INTERVAL_SEC = 60;
+const RELAY_INTERVAL_MS = Number(process.env.STREAM_RELAY_INTERVAL_MS || 1000);
+const RELAY_BATCH = 500;
+
+const emitter = new EventEmitter();
+// One listener per connected SSE client.
+emitter.setMaxListeners(0);
+
+let pending: StreamEvent[] = [];
+let lastPruneTs = 0;
+let relayTimer: ReturnType<typeof setInterval> | null = null;
+
+let prepared = false;
+
+let insertEventStmt: any;
+let pruneEventsStmt: any;
+let getEventsAfterStmt: any;
+let getLastEventIdStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    insertEventStmt = db.prepare(`
+        INSERT INTO stream_events (type, ts, strategy_id, trader, data_json)
+        VALUES (?, ?, ?, ?, ?)
+    `);
+    pruneEventsStmt = db.prepare(`DELETE FROM stream_events WHERE ts < ?`);
+    getEventsAfterStmt = db.prepare(`
+        SELECT id, type, ts, strategy_id, trader, data_json
+        FROM stream_events
+        WHERE id > ?
+        ORDER BY id ASC
+        LIMIT ?
+    `);
+    getLastEventIdStmt = db.prepare(`SELECT COALESCE(MAX(id), 0) FROM stream_events`).pluck();
+}
+
+type StreamEventRowDb = {
+    id: number;
+    type: StreamEventType;
+    ts: number;
+    strategy_id: number | null;
+    trader: string | null;
+    data_json: string;
+};
+
+export function publishEvent(
+    type: StreamEventType,
+    target: { strategyId?: number | null; trader?: string | null },
+    data: Record<string, unknown> = {}
+) {
+    prepareStatements();
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    const strategyId = target.strategyId ?? null;
+    const trader = target.trader ? target.trader.toLowerCase() : null;
+    const info = insertEventStmt.run(type, nowSec, strategyId, trader, JSON.stringify(data));
+    if (nowSec - lastPruneTs >= PRUNE_INTERVAL_SEC) {
+        lastPruneTs = nowSec;
+        pruneEventsStmt.run(nowSec - RETAIN_SEC);
+    }
+
+    // the relay picks the row up from the outbox
+    if (relayTimer) return;
+
+    const evt: StreamEvent = { id: Number(info.lastInsertRowid), type, ts: nowSec, strategyId, trader, data };
+
+    if (db.inTransaction) {
+        pending.push(evt);
+    } else {
+        emitter.emit("event", evt);
+    }
+}
+
+/** Emit events held back by a transaction. No-op while still inside one. */
+export function flushEvents() {
+    if (db.inTransaction || pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    for (const evt of batch) emitter.emit("event", evt);
+}
+
+/** Drop events raised by a transaction that was rolled back. */
+export function discardEvents() {
+    pending = [];
+}
+
+/** Outbox events after id `afterId` (oldest first, at most RELAY_BATCH). */
+export function eventsAfter(afterId: number): StreamEvent[] {
+    prepareStatements();
+    return (getEventsAfterStmt.all(afterId, RELAY_BATCH) as StreamEventRowDb[]).map((r) => ({
+        id: r.id,
+        type: r.type,
+        ts: r.ts,
+        strategyId: r.strategy_id,
+        trader: r.trader,
+        data: JSON.parse(r.data_json),
+    }));
+}
+
+/** Pass every outbox event after id `afterId` to `fn`, oldest first. Returns the last id seen. */
+export function forEachEventAfter(afterId: number, fn: (evt: StreamEvent) => void): number {
+    let lastId = afterId;
+    for (;;) {
+        const batch = eventsAfter(lastId);
+        for (const evt of batch) {
+            lastId = evt.id;
+            fn(evt);
+        }
+        if (batch.length < RELAY_BATCH) return lastId;
+    }
+}
+
+/**
+ * Emit the events written to the outbox, by any process, to this process's listeners,
+ * polling every RELAY_INTERVAL_MS. For API processes, whose SSE clients would otherwise
+ * only see the events of the rebuilds they run. From here on publishEvent leaves
+ * delivery to the relay. Idempotent.
+ */
+export function startEventRelay() {
+    if (relayTimer) return;
+    prepareStatements();
+
+    // events published before this but still held by a transaction are emitted on flush
+    let lastId = Number(getLastEventIdStmt.get());
+    relayTimer = setInterval(() => {
+        try {
+            lastId = forEachEventAfter(lastId, (evt) => emitter.emit("event", evt));
+        } catch (err) {
+            console.error("[events] relay failed:", err);
+        }
+    }, RELAY_INTERVAL_MS);
+}
+
+export function stopEventRelay() {
+    if (!relayTimer) return;
+    clearInterval(relayTimer);
+    relayTimer = null;
+}
+
+export function subscribeEvents(listener: (evt: StreamEvent) => void): () => void {
+    emitter.on("event", listener);
+    return () => {
+        emitter.off("event", listener);
+    };
+}
@@ -0,0 +1,150 @@
+import { computeSeriesStats, seriesStatsToJson, simulateFollower, type SeriesStatsJson } from "./segments";
+
+// Copy-trading followers: "what would I have made following this strategy from
+// the day I found them". A follower copies a strategy from a start time with its own
+// capital, optional leverage scaling and an execution delay; see simulateFollower in
+// segments.ts for the simulation itself. Results are computed on every request, so
+// they always reflect the strategy's current signals and prices.
+
+export const MAX_FOLLOWER_LEVERAGE_SCALE = 5;
+export const MAX_FOLLOWER_DELAY_MINUTES = 7 * 24 * 60;
+const DEFAULT_FOLLOWER_CAPITAL = 10_000;
+
+export type FollowerConfig = {
+    strategyId: number;
+    startTs: number;
+    capital: number;
+    leverageScale: number;
+    delayMinutes: number;
+};
+
+export type FollowerRow = {
+    id: number;
+    strategy_id: number;
+    owner_address: string | null;
+    label: string | null;
+    start_ts: number;
+    capital: number;
+    leverage_scale: number;
+    delay_minutes: number;
+    created_ts: number;
+};
+
+export class FollowerInputError extends Error {}
+
+/**
+ * Validate follower settings from a request body or query string.
+ * `strategyId` may come from the route instead of `raw`.
+ */
+export function parseFollowerConfig(raw: Record<string, unknown>, strategyId?: number): FollowerConfig {
+    const num = (v: unknown, fb: number) => (v == null || v === "" ? fb : Number(v));
+
+    const id = strategyId ?? Number(raw.strategyId);
+    if (!Number.isInteger(id) || id <= 0) {
+        throw new FollowerInputError("Invalid strategyId");
+    }
+
+    let startTs = num(raw.startTs ?? raw.start, NaN);
+    if (!Number.isFinite(startTs)) {
+        throw new FollowerInputError("startTs (unix seconds) is required");
+    }
+    if (startTs > 1e12) startTs = startTs / 1000; // accept milliseconds
+    startTs = Math.floor(startTs);
+    if (startTs <= 0 || startTs > Math.floor(Date.now() / 1000)) {
+        throw new FollowerInputError("startTs must be in the past");
+    }
+
+    const capital = num(raw.capital, DEFAULT_FOLLOWER_CAPITAL);
+    if (!Number.isFinite(capital) || capital <= 0) {
+        throw new FollowerInputError("capital must be a positive number");
+    }
+
+    const leverageScale = num(raw.leverageScale, 1);
+    if (!Number.isFinite(leverageScale) || leverageScale <= 0 || leverageScale > MAX_FOLLOWER_LEVERAGE_SCALE) {
+        throw new FollowerInputError(`leverageScale must be in (0, ${MAX_FOLLOWER_LEVERAGE_SCALE}]`);
+    }
+
+    const delayMinutes = num(raw.delayMinutes, 0);
+    if (!Number.isInteger(delayMinutes) || delayMinutes < 0 || delayMinutes > MAX_FOLLOWER_DELAY_MINUTES) {
+        throw new FollowerInputError(`delayMinutes must be an integer in [0, ${MAX_FOLLOWER_DELAY_MINUTES}]`);
+    }
+
+    return { strategyId: id, startTs, capital, leverageScale, delayMinutes };
+}
+
+export function followerRowToConfig(row: FollowerRow): FollowerConfig {
+    return {
+        strategyId: row.strategy_id,
+        startTs: row.start_ts,
+        capital: row.capital,
+        leverageScale: row.leverage_scale,
+        delayMinutes: row.delay_minutes,
+    };
+}
+
+export type FollowerReport = {
+    summary: {
+        asOfTs: number | null;
+        capital: number;
+        equity: number;
+        pnl: number;
+        totalReturn: number;
+        grossTotalReturn: number;
+        costsPaid: number; // USD
+        fundingPaid: number; // USD, negative = received
+        isLiquidated: boolean;
+        liquidatedTs: number | null;
+    };
+    points: { timestamp: number; equity: number; valueIndex: number }[];
+    liquidations: {
+        timestamp: number;
+        asset: string;
+        direction: "LONG" | "SHORT";
+        leverage: number;
+        startPrice: number;
+        liquidationPrice: number;
+        lossPct: number;
+    }[];
+    stats: SeriesStatsJson;
+};
+
+/** Simulate a follower; null if its strategy doesn't exist. */
+export function buildFollowerReport(cfg: FollowerConfig): FollowerReport | null {
+    const sim = simulateFollower(cfg);
+    if (!sim) return null;
+
+    const last = sim.segments[sim.segments.length - 1];
+    const valueIndex = last ? last.value_index_end : 1.0;
+    const grossValueIndex = last ? last.gross_value_index_end ?? valueIndex : 1.0;
+
+    const points = [{ timestamp: cfg.startTs, equity: cfg.capital, valueIndex: 1.0 }];
+    for (const s of sim.segments) {
+        points.push({ timestamp: s.end_ts, equity: cfg.capital * s.value_index_end, valueIndex: s.value_index_end });
+    }
+
+    return {
+        summary: {
+            asOfTs: last ? last.end_ts : null,
+            capital: cfg.capital,
+            equity: cfg.capital * valueIndex,
+            pnl: cfg.capital * (valueIndex - 1),
+            totalReturn: valueIndex - 1,
+            grossTotalReturn: grossValueIndex - 1,
+            costsPaid: cfg.capital * sim.costsPaid,
+            fundingPaid: cfg.capital * sim.fundingPaid,
+            isLiquidated: sim.liquidatedTs != null,
+            liquidatedTs: sim.liquidatedTs,
+        },
+        points,
+        liquidations: sim.liquidations.map((l) => ({
+            timestamp: l.ts,
+            asset: l.asset,
+            direction: l.direction < 0 ? "SHORT" : "LONG",
+            leverage: l.leverage,
+            startPrice: l.startPrice,
+            liquidationPrice: l.price,
+            lossPct: l.lossPct,
+        })),
+        stats: seriesStatsToJson(computeSeriesStats(sim.segments)),
+    };
+}
@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Funding / borrow rates accrued by the segment engine on leveraged and short legs.
+//
+// Rates are annualized fractions (0.1 = 10% APR) per asset and direction. They are
+// charged on the borrowed part of a leg only:
+//   LONG  x L: value * (L - 1)   (borrowed USD)
+//   SHORT x L: value * L         (borrowed asset)
+// A negative rate is income (e.g. shorts receiving perp funding).
+//
+// Selected with FUNDING_RATES:
+//  - "none" (default): no carrying cost.
+//  - "static": built-in table, overridable with FUNDING_RATES_JSON
+//      { "default": { "long": 0.1, "short": 0.05 }, "KAS": { "long": 0.2, "short": 0.15 } }
+//  - "file": time series at FUNDING_RATES_PATH (CSV or JSON rows of
+//      asset, timestamp, long, short); each row applies from its timestamp on.
+//
+// Funding accrues when segments are built, so rates enabled or changed on a database with
+// history only apply from then on. Run `npm run rebuild -- --all` afterwards to accrue
+// them over every strategy's full history.
+
+export type FundingDirection = "LONG" | "SHORT";
+
+export type FundingRateProvider = {
+    name: string;
+    /** Annualized rate for holding `asset` in `direction` at unix time `ts`. */
+    annualRate(asset: string, direction: FundingDirection, ts: number): number;
+};
+
+type RatePair = { long: number; short: number };
+
+const DEFAULT_FUNDING_RATES: Record<string, RatePair> = {
+    default: { long: 0.1, short: 0.05 },
+    BTC: { long: 0.08, short: 0.03 },
+    ETH: { long: 0.08, short: 0.03 },
+    KAS: { long: 0.15, short: 0.12 },
+    GOLD: { long: 0.05, short: 0.05 },
+    SILVER: { long: 0.05, short: 0.05 },
+    SPX: { long: 0.06, short: 0.04 },
+};
+
+function toRatePair(raw: any, fallback: RatePair): RatePair {
+    const pick = (v: unknown, fb: number) => {
+        const n = Number(v);
+        return Number.isFinite(n) ? n : fb;
+    };
+    return { long: pick(raw?.long, fallback.long), short: pick(raw?.short, fallback.short) };
+}
+
+export function createStaticFundingProvider(
+    table: Record<string, Partial<RatePair>> = DEFAULT_FUNDING_RATES
+): FundingRateProvider {
+    const fallback = toRatePair(table.default ?? table.DEFAULT, { long: 0, short: 0 });
+    const rates: Record<string, RatePair> = {};
+    for (const [asset, pair] of Object.entries(table)) {
+        if (asset.toLowerCase() === "default") continue;
+        rates[asset.toUpperCase()] = toRatePair(pair, fallback);
+    }
+
+    return {
+        name: "static",
+        annualRate(asset, direction) {
+            const pair = rates[asset.toUpperCase()] ?? fallback;
+            return direction === "SHORT" ? pair.short : pair.long;
+        },
+    };
+}
+
+export function createFileFundingProvider(filePath: string): FundingRateProvider {
+    if (!filePath) {
+        throw new Error("FUNDING_RATES=file requires FUNDING_RATES_PATH");
+    }
+
+    const raw = fs.readFileSync(filePath, "utf8");
+    const series: Record<string, { ts: number; rates: RatePair }[]> = {};
+
+    const push = (assetRaw: unknown, tsRaw: unknown, longRaw: unknown, shortRaw: unknown) => {
+        const asset = String(assetRaw ?? "").trim().toUpperCase();
+        const ts = Number(tsRaw);
+        const long = Number(longRaw);
+        const short = Number(shortRaw);
+        if (!asset || !Number.isFinite(ts) || !Number.isFinite(long) || !Number.isFinite(short)) return;
+        if (!series[asset]) series[asset] = [];
+        series[asset].push({ ts: ts > 1e12 ? Math.floor(ts / 1000) : ts, rates: { long, short } });
+    };
+
+    if (path.extname(filePath).toLowerCase() === ".json") {
+        const rows: any[] = JSON.parse(raw);
+        for (const r of rows) push(r?.asset, r?.timestamp, r?.long, r?.short);
+    } else {
+        const lines = raw.split(/\r?\n/).filter((l) => l.trim().length > 0);
+        const header = (lines.shift() || "").split(",").map((h) => h.trim().toLowerCase());
+        const col = (name: string) => header.indexOf(name);
+        const [iAsset, iTs, iLong, iShort] = [col("asset"), col("timestamp"), col("long"), col("short")];
+        if (iAsset < 0 || iTs < 0 || iLong < 0 || iShort < 0) {
+            throw new Error(`Funding file ${filePath} must have asset, timestamp, long and short columns`);
+        }
+        for (const line of lines) {
+            const cols = line.split(",");
+            push(cols[iAsset], cols[iTs], cols[iLong], cols[iShort]);
+        }
+    }
+
+    for (const asset of Object.keys(series)) {
+        series[asset].sort((a, b) => a.ts - b.ts);
+    }
+
+    // Before the first row of an asset (or for unknown assets) fall back to "default" rows, else 0.
+    const lookup = (asset: string, ts: number): RatePair | null => {
+        const s = series[asset];
+        if (!s || s.length === 0 || ts < s[0].ts) return null;
+        let lo = 0;
+        let hi = s.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (s[mid].ts <= ts) lo = mid;
+            else hi = mid - 1;
+        }
+        return s[lo].rates;
+    };
+
+    return {
+        name: "file",
+        annualRate(asset, direction, ts) {
+            const pair = lookup(asset.toUpperCase(), ts) ?? lookup("DEFAULT", ts);
+            if (!pair) return 0;
+            return direction === "SHORT" ? pair.short : pair.long;
+        },
+    };
+}
+
+export function createFundingProviderFromEnv(): FundingRateProvider {
+    const kind = (process.env.FUNDING_RATES || "none").trim().toLowerCase();
+
+    switch (kind) {
+        case "static": {
+            const inline = process.env.FUNDING_RATES_JSON || "";
+            return createStaticFundingProvider(inline ? JSON.parse(inline) : undefined);
+        }
+        case "file":
+            return createFileFundingProvider(process.env.FUNDING_RATES_PATH || "");
+        case "none":
+            return { name: "none", annualRate: () => 0 };
+        default:
+            throw new Error(`Unknown FUNDING_RATES "${kind}" (expected static, file or none)`);
+    }
+}
+
+let fundingProvider: FundingRateProvider | null = null;
+
+export function getFundingProvider(): FundingRateProvider {
+    if (!fundingProvider) {
+        fundingProvider = createFundingProviderFromEnv();
+        console.log(`[funding] using funding rates: ${fundingProvider.name}`);
+    }
+    return fundingProvider;
+}
+
+/**
+ * Override the active funding rate provider (e.g. rates synced from a venue API
+ * into memory by a separate job).
+ */
+export function setFundingProvider(provider: FundingRateProvider) {
+    fundingProvider = provider;
+}
@@ -0,0 +1,257 @@
+import { db } from "./db";
+import { chainConnections, deploymentConfigs } from "./chain";
+import { getDeployments } from "./deployments";
+import { recentPipelineErrors } from "./pipelineErrors";
+import { SUPPORTED_ASSETS } from "./prices";
+import { createGauge, type Gauge } from "./prometheus";
+
+// Health report of the whole pipeline: signal sync lag per deployment, price freshness
+// (overall and per asset), segment and stats lag, recent errors and RPC endpoints.
+// Past any threshold the status is "degraded" and GET /api/health answers 503, so an
+// uptime monitor can page on the status code alone.
+//
+// Thresholds (seconds unless noted; 0 turns a check off):
+//   HEALTH_MAX_SYNC_AGE_SEC        since the last successful signal sync of a deployment (300)
+//   HEALTH_MAX_SIGNAL_LAG          on-chain signals not yet synced, per deployment (50)
+//   HEALTH_MAX_PRICE_AGE_SEC       age of last_price_ts, the hour segments are built up to (10800)
+//   HEALTH_MAX_ASSET_PRICE_AGE_SEC age of an asset's latest price; markets close on weekends (259200)
+//   HEALTH_MAX_SEGMENT_LAG_SEC     age of the oldest last_segment_end_ts among strategies (10800)
+//   HEALTH_MAX_STATS_AGE_SEC       since the last stats recompute (10800)
+//   HEALTH_MAX_RECENT_ERRORS       pipeline errors within HEALTH_ERROR_WINDOW_SEC (20; window 3600, at most 86400)
+
+export type HealthThresholds = {
+    maxSyncAgeSec: number;
+    maxSignalLag: number;
+    maxPriceAgeSec: number;
+    maxAssetPriceAgeSec: number;
+    maxSegmentLagSec: number;
+    maxStatsAgeSec: number;
+    maxRecentErrors: number;
+    errorWindowSec: number;
+};
+
+function envNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw == null || raw.trim() === "") return fallback;
+    const n = Number(raw);
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export const HEALTH_THRESHOLDS: HealthThresholds = {
+    maxSyncAgeSec: envNumber("HEALTH_MAX_SYNC_AGE_SEC", 300),
+    maxSignalLag: envNumber("HEALTH_MAX_SIGNAL_LAG", 50),
+    maxPriceAgeSec: envNumber("HEALTH_MAX_PRICE_AGE_SEC", 3 * 3600),
+    maxAssetPriceAgeSec: envNumber("HEALTH_MAX_ASSET_PRICE_AGE_SEC", 3 * 86400),
+    maxSegmentLagSec: envNumber("HEALTH_MAX_SEGMENT_LAG_SEC", 3 * 3600),
+    maxStatsAgeSec: envNumber("HEALTH_MAX_STATS_AGE_SEC", 3 * 3600),
+    maxRecentErrors: envNumber("HEALTH_MAX_RECENT_ERRORS", 20),
+    errorWindowSec: Math.min(86400, Math.max(60, envNumber("HEALTH_ERROR_WINDOW_SEC", 3600))),
+};
+
+let prepared = false;
+
+let getLastPriceTsStmt: any;
+let getLatestPricePerAssetStmt: any;
+let getOldestSegmentStmt: any;
+let countStrategiesStmt: any;
+let getLastStatsUpdateStmt: any;
+let countStrategiesByDeploymentStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    getLastPriceTsStmt = db.prepare(`SELECT value FROM meta WHERE key = 'last_price_ts'`).pluck();
+    getLatestPricePerAssetStmt = db.prepare(`
+        SELECT asset_symbol, MAX(timestamp) AS latest_ts
+        FROM prices
+        GROUP BY asset_symbol
+    `);
+    getOldestSegmentStmt = db.prepare(`
+        SELECT id, last_segment_end_ts
+        FROM strategies
+        WHERE last_segment_end_ts IS NOT NULL
+        ORDER BY last_segment_end_ts ASC
+        LIMIT 1
+    `);
+    countStrategiesStmt = db.prepare(`
+        SELECT COUNT(*) AS total, SUM(last_segment_end_ts IS NULL) AS without_segments
+        FROM strategies
+    `);
+    getLastStatsUpdateStmt = db.prepare(`SELECT MAX(last_updated_ts) FROM strategy_stats`).pluck();
+    countStrategiesByDeploymentStmt = db.prepare(`
+        SELECT d.key AS deployment, s.is_liquidated, COUNT(*) AS n
+        FROM strategies s
+        JOIN deployments d ON d.id = s.deployment_id
+        GROUP BY d.key, s.is_liquidated
+    `);
+}
+
+const ageOf = (ts: number | null, nowSec: number) => (ts != null && ts > 0 ? Math.max(0, nowSec - ts) : null);
+
+/** Pipeline health; `problems` lists every threshold crossed (empty when "ok"). */
+export function buildHealthReport(t: HealthThresholds = HEALTH_THRESHOLDS) {
+    prepareStatements();
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    const problems: string[] = [];
+    const over = (limit: number, value: number | null) => limit > 0 && value != null && value > limit;
+
+    // --- signal sync, per active deployment ---
+    const sync = getDeployments()
+        .filter((d) => d.is_active === 1)
+        .map((d) => {
+            const config = deploymentConfigs.find((c) => c.chainId === d.chain_id && c.address === d.contract_address);
+            const onChainCount = d.onchain_signal_count;
+            const signalLag = onChainCount != null ? Math.max(0, onChainCount - 1 - d.last_signal_index_synced) : null;
+            const lastSyncAgeSec = ageOf(d.last_sync_ts, nowSec);
+
+            if (!d.last_sync_ts) {
+                problems.push(`deployment ${d.key}: no successful signal sync yet`);
+            } else if (over(t.maxSyncAgeSec, lastSyncAgeSec)) {
+                problems.push(`deployment ${d.key}: last signal sync ${lastSyncAgeSec}s ago`);
+            }
+            if (over(t.maxSignalLag, signalLag)) {
+                problems.push(`deployment ${d.key}: ${signalLag} on-chain signal(s) not synced`);
+            }
+
+            return {
+                deployment: d.key,
+                chainId: d.chain_id,
+                syncMode: config?.syncMode ?? null,
+                lastSignalIndexSynced: d.last_signal_index_synced,
+                onChainCount,
+                signalLag,
+                lastBlockSynced: d.last_block_synced,
+                confirmedBlock: d.confirmed_block,
+                lastSyncTs: d.last_sync_ts,
+                lastSyncAgeSec,
+                lastAttemptTs: d.last_sync_attempt_ts,
+                lastError: d.last_sync_error,
+            };
+        });
+
+    // --- prices ---
+    const lastPriceTs = Number(getLastPriceTsStmt.get() ?? 0) || null;
+    const lastPriceAgeSec = ageOf(lastPriceTs, nowSec);
+    if (over(t.maxPriceAgeSec, lastPriceAgeSec)) {
+        problems.push(`last_price_ts is ${lastPriceAgeSec}s old`);
+    }
+
+    const latestByAsset = new Map(
+        (getLatestPricePerAssetStmt.all() as { asset_symbol: string; latest_ts: number }[]).map((r) => [
+            r.asset_symbol.toUpperCase(),
+            r.latest_ts,
+        ])
+    );
+    const assets = Object.keys(SUPPORTED_ASSETS).map((asset) => {
+        const latestTs = latestByAsset.get(asset) ?? null;
+        const ageSec = ageOf(latestTs, nowSec);
+        if (over(t.maxAssetPriceAgeSec, ageSec)) {
+            problems.push(`${asset}: latest price ${ageSec}s old`);
+        }
+        return { asset, latestTs, ageSec };
+    });
+
+    // --- segments / stats ---
+    const counts = countStrategiesStmt.get() as { total: number; without_segments: number | null };
+    const oldest = getOldestSegmentStmt.get() as { id: number; last_segment_end_ts: number } | undefined;
+    const segmentLagSec = ageOf(oldest?.last_segment_end_ts ?? null, nowSec);
+    if (over(t.maxSegmentLagSec, segmentLagSec)) {
+        problems.push(`strategy ${oldest!.id}: segments end ${segmentLagSec}s ago`);
+    }
+
+    const lastStatsTs = (getLastStatsUpdateStmt.get() as number | null) ?? null;
+    const statsAgeSec = ageOf(lastStatsTs, nowSec);
+    if (over(t.maxStatsAgeSec, statsAgeSec)) {
+        problems.push(`stats last recomputed ${statsAgeSec}s ago`);
+    }
+
+    // --- errors ---
+    const errors = recentPipelineErrors(t.errorWindowSec);
+    if (over(t.maxRecentErrors, errors.total)) {
+        problems.push(`${errors.total} pipeline error(s) in the last ${t.errorWindowSec}s`);
+    }
+
+    // --- RPC ---
+    const rpc = chainConnections().map(({ chain, rpcPool }) => {
+        const endpoints = rpcPool.health();
+        const healthyEndpoints = endpoints.filter((e) => e.healthy).length;
+        if (healthyEndpoints === 0) problems.push(`chain ${chain.id}: no healthy RPC endpoint`);
+        return { chainId: chain.id, chainName: chain.name, strategy: rpcPool.strategy, healthyEndpoints, endpoints };
+    });
+
+    const status: "ok" | "degraded" = problems.length ? "degraded" : "ok";
+    return {
+        status,
+        ok: status === "ok",
+        checkedTs: nowSec,
+        problems,
+        sync,
+        prices: { lastPriceTs, lastPriceAgeSec, assets },
+        segments: {
+            strategies: counts.total,
+            withoutSegments: counts.without_segments ?? 0,
+            oldestSegmentEndTs: oldest?.last_segment_end_ts ?? null,
+            oldestStrategyId: oldest?.id ?? null,
+            lagSec: segmentLagSec,
+        },
+        stats: { lastRecomputeTs: lastStatsTs, ageSec: statsAgeSec },
+        errors: { windowSec: t.errorWindowSec, ...errors },
+        rpc,
+        thresholds: t,
+    };
+}
+
+// --- Prometheus gauges (GET /metrics), refreshed from the report at scrape time ---
+
+const strategiesGauge = createGauge("strategies", "Strategies per deployment and status.", ["deployment", "status"]);
+const signalLagGauge = createGauge("signal_sync_lag", "On-chain signals not synced yet.", ["deployment"]);
+const syncAgeGauge = createGauge(
+    "signal_sync_age_seconds",
+    "Seconds since the last successful signal sync.",
+    ["deployment"]
+);
+const priceAgeGauge = createGauge("price_age_seconds", "Age of last_price_ts, the hour segments are built up to.");
+const assetPriceAgeGauge = createGauge("asset_price_age_seconds", "Age of the latest price per asset.", ["asset"]);
+const segmentLagGauge = createGauge("segment_lag_seconds", "Age of the oldest last_segment_end_ts among strategies.");
+const statsAgeGauge = createGauge("stats_age_seconds", "Seconds since the last stats recompute.");
+const rpcHealthyGauge = createGauge("rpc_healthy_endpoints", "Healthy RPC endpoints per chain.", ["chain_id"]);
+const degradedGauge = createGauge("health_degraded", "1 while GET /api/health reports degraded.");
+
+/** Fill the lag / freshness gauges from a fresh health report. Unknown values are left out. */
+export function refreshHealthGauges() {
+    prepareStatements();
+    const r = buildHealthReport();
+
+    // label sets come and go (deployments, chains), so start from scratch
+    for (const g of [
+        strategiesGauge,
+        signalLagGauge,
+        syncAgeGauge,
+        priceAgeGauge,
+        assetPriceAgeGauge,
+        segmentLagGauge,
+        statsAgeGauge,
+        rpcHealthyGauge,
+    ]) {
+        g.reset();
+    }
+    const setIfKnown = (g: Gauge, labels: Record<string, string | number>, v: number | null) => {
+        if (v != null) g.set(labels, v);
+    };
+
+    for (const row of countStrategiesByDeploymentStmt.all() as { deployment: string; is_liquidated: number; n: number }[]) {
+        strategiesGauge.set({ deployment: row.deployment, status: row.is_liquidated ? "liquidated" : "active" }, row.n);
+    }
+    for (const s of r.sync) {
+        setIfKnown(signalLagGauge, { deployment: s.deployment }, s.signalLag);
+        setIfKnown(syncAgeGauge, { deployment: s.deployment }, s.lastSyncAgeSec);
+    }
+    setIfKnown(priceAgeGauge, {}, r.prices.lastPriceAgeSec);
+    for (const a of r.prices.assets) setIfKnown(assetPriceAgeGauge, { asset: a.asset }, a.ageSec);
+    setIfKnown(segmentLagGauge, {}, r.segments.lagSec);
+    setIfKnown(statsAgeGauge, {}, r.stats.ageSec);
+    for (const c of r.rpc) rpcHealthyGauge.set({ chain_id: c.chainId }, c.healthyEndpoints);
+    degradedGauge.set({}, r.status === "ok" ? 0 : 1);
+}
@@ -1,132 +1,648 @@
 import express from "express";
+import type { NextFunction, Request, Response } from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import { initDb, db } from "./db";
 import { syncSignals } from "./syncSignals";
+import { registerPipelineJobs } from "./jobs";
+import {
+    JobNotFoundError,
+    getJob,
+    getJobRuns,
+    listJobs,
+    requestJobRun,
+    setJobPaused,
+    startScheduler,
+    type JobRow,
+    type JobRunRow,
+} from "./scheduler";
+import { startRpcHealthChecks } from "./chain";
+import { buildHealthReport, refreshHealthGauges } from "./health";
+import { PROMETHEUS_CONTENT_TYPE, httpMetricsMiddleware, renderMetrics, timeJob } from "./prometheus";
+import { recordPipelineError } from "./pipelineErrors";
+import { DeploymentParamError, deploymentToJson, getDeployments, resolveDeploymentParam } from "./deployments";
 import { backfillHistoricalPrices } from "./prices";
 import { SUPPORTED_ASSETS } from "./prices";
 import {
+    computeSeriesStats,
     extendAllStrategySegments,
+    loadAssetPriceSeries,
     recomputeAllStrategyStats,
+    seriesStatsToJson,
+    statsBenchmarkSymbol,
+    type SegmentRow,
 } from "./segments";
+import {
+    getRebuildRequest,
+    queueRebuild,
+    rebuildStrategies,
+    type RebuildRequestRow,
+    type RebuildScope,
+} from "./rebuild";
+import { STREAM_EVENT_TYPES, forEachEventAfter, startEventRelay, subscribeEvents, type StreamEvent, type StreamEventType } from "./events";
+import { LeaderboardQueryError, queryLeaderboard, type LeaderboardSortDir } from "./leaderboard";
+import {
+    FollowerInputError,
+    buildFollowerReport,
+    followerRowToConfig,
+    parseFollowerConfig,
+    type FollowerRow,
+} from "./followers";
+import {
+    AttributionQueryError,
+    computeStrategyAttribution,
+    parseAttributionGrouping,
+} from "./attribution";
+import { buildTradeLedger, computeTradeStats, recomputeAllTradeStats } from "./trades";
+import { ReturnsQueryError, computePeriodReturns, parseReturnPeriod } from "./returns";
+import { DEFAULT_DRAWDOWN_EPISODES, MAX_DRAWDOWN_EPISODES, computeDrawdown, thinUnderwater } from "./drawdown";
+import {
+    WindowParamError,
+    customWindowId,
+    isStoredWindowId,
+    normalizeWindowId,
+    resolveWindow,
+    storedWindows,
+    windowSegmentRange,
+    type StatWindow,
+} from "./windows";
+import {
+    PortfolioInputError,
+    buildPortfolioReport,
+    createPortfolio,
+    getPortfolio,
+    parsePortfolioDefinition,
+    portfolioDefinition,
+    simulatePortfolio,
+    updatePortfolio,
+    type Portfolio,
+    type PortfolioRow,
+} from "./portfolios";
+import { OwnershipError, verifyOwnerSignature, type OwnedKind, type OwnerAction } from "./ownership";
+import {
+    generateWebhookSecret,
+    replayWebhookDeliveries,
+    startWebhooks,
+    type WebhookDeliveryRow,
+    type WebhookRow,
+} from "./webhooks";
 
 dotenv.config();
 
-const VALID_WINDOWS = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
-type WindowId = (typeof VALID_WINDOWS)[number];
+// Admin routes are disabled unless ADMIN_TOKEN is set; callers send it as a Bearer token.
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+
+function isAdminRequest(req: Request): boolean {
+    return !!ADMIN_TOKEN && String(req.headers.authorization || "") === `Bearer ${ADMIN_TOKEN}`;
+}
+
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if (!ADMIN_TOKEN) {
+        return res.status(403).json({ error: "Admin API disabled (ADMIN_TOKEN not set)" });
+    }
+    if (!isAdminRequest(req)) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+    next();
+}
+
+/**
+ * Changes to saved followers and portfolios need the admin token or a signature by the
+ * owner's wallet (see ownership.ts); records without an owner are admin-only.
+ * Sends the error response and returns false if the request is not allowed.
+ */
+async function authorizeOwnerAction(
+    req: Request,
+    res: Response,
+    owner: string | null,
+    action: OwnerAction,
+    kind: OwnedKind,
+    id: number | null
+): Promise<boolean> {
+    if (isAdminRequest(req)) return true;
+    if (!owner) {
+        res.status(403).json({ error: `This ${kind} has no owner; only the admin can change it` });
+        return false;
+    }
+    try {
+        await verifyOwnerSignature(
+            owner,
+            action,
+            kind,
+            id,
+            req.headers["x-owner-signature"],
+            req.headers["x-owner-timestamp"],
+            req.body
+        );
+    } catch (err) {
+        if (err instanceof OwnershipError) {
+            res.status(401).json({ error: err.message });
+            return false;
+        }
+        throw err;
+    }
+    return true;
+}
+
+// Same stats before trading costs (see costs.ts).
+type StatsGross = {
+    sharpeAnnual: number | null;
+    volAnnual: number | null;
+    totalReturn: number | null;
+    maxDrawdown: number | null;
+};
+
+// Stats relative to the stats benchmark (STATS_BENCHMARK, BTC by default).
+type StatsBenchmark = {
+    symbol: string | null;
+    alphaAnnual: number | null;
+    beta: number | null;
+    correlation: number | null;
+    trackingError: number | null;
+    informationRatio: number | null;
+};
+
+// Trade-level stats from the trade ledger (see trades.ts); results are per closed leg.
+type StatsTrades = {
+    closedLegs: number | null;
+    winRate: number | null;
+    avgWin: number | null;
+    avgLoss: number | null;
+    profitFactor: number | null;
+    expectancy: number | null;
+    avgHoldingSec: number | null;
+    maxWinStreak: number | null;
+    maxLossStreak: number | null;
+    turnover: number | null;
+};
+
+type StatsTradesRowDb = {
+    closed_legs: number | null;
+    win_rate: number | null;
+    avg_win: number | null;
+    avg_loss: number | null;
+    profit_factor: number | null;
+    expectancy: number | null;
+    avg_holding_sec: number | null;
+    max_win_streak: number | null;
+    max_loss_streak: number | null;
+    turnover: number | null;
+};
+
+function statsTradesFromRow(r: StatsTradesRowDb): StatsTrades {
+    return {
+        closedLegs: r.closed_legs,
+        winRate: r.win_rate,
+        avgWin: r.avg_win,
+        avgLoss: r.avg_loss,
+        profitFactor: r.profit_factor,
+        expectancy: r.expectancy,
+        avgHoldingSec: r.avg_holding_sec,
+        maxWinStreak: r.max_win_streak,
+        maxLossStreak: r.max_loss_streak,
+        turnover: r.turnover,
+    };
+}
 
-function normalizeWindowParam(raw: any): WindowId {
+/**
+ * Window id of a stored-stats window (see windows.ts), including past years since the
+ * first strategy's first signal; anything else falls back to 1M.
+ */
+function normalizeWindowParam(raw: any): string {
     if (!raw) return "1M"; // default
-    const s = String(raw).toUpperCase();
-    if (VALID_WINDOWS.includes(s as WindowId)) {
-        return s as WindowId;
+    const s = normalizeWindowId(raw);
+    const firstTs = db.prepare("SELECT MIN(first_signal_ts) FROM strategies").pluck().get() as number | null;
+    return isStoredWindowId(s, Math.floor(Date.now() / 1000), firstTs) ? s : "1M";
+}
+
+/**
+ * Window from `?window=` or a custom `?from=YYYY-MM-DD&to=YYYY-MM-DD` range, resolved
+ * against `anchorTs`. Throws WindowParamError for invalid values.
+ */
+function windowFromQuery(query: Request["query"], anchorTs: number, fallback = "ALL"): StatWindow {
+    if (typeof query.from === "string" || typeof query.to === "string") {
+        if (typeof query.from !== "string" || typeof query.to !== "string") {
+            throw new WindowParamError("from and to must be given together");
+        }
+        return resolveWindow(customWindowId(query.from, query.to), anchorTs);
     }
-    return "1M";
+    return resolveWindow(typeof query.window === "string" && query.window ? query.window : fallback, anchorTs);
 }
 
-async function main() {
-    initDb();
+// Evenly thin a series to at most maxPoints, always keeping the first and last point.
+function thinKeepEnds<T>(arr: T[], maxPoints: number): T[] {
+    const n = arr.length;
+    if (n <= maxPoints) return arr;
+    if (maxPoints <= 1) return [arr[0]];
+    if (maxPoints === 2) return [arr[0], arr[n - 1]];
 
-    // 1) sync on-chain signals so strategies exist
-    await syncSignals();
+    const step = Math.ceil((n - 1) / (maxPoints - 1));
+    const out: T[] = [];
+    for (let i = 0; i < n; i += step) out.push(arr[i]);
+
+    const last = arr[n - 1];
+    if (out[out.length - 1] !== last) out.push(last);
+
+    // If we ended up with one extra point due to the forced last-point push,
+    // drop one interior point (keep first/last).
+    if (out.length > maxPoints) {
+        out.splice(out.length - 2, 1);
+    }
+    return out;
+}
 
-    // 2) Backfill prices (hourly + signal-time) up to the current top-of-hour.
-    // We intentionally recompute performance on an hourly cadence.
-    const nowSec = Math.floor(Date.now() / 1000);
-    const nowHour = Math.floor(nowSec / 3600) * 3600;
+type EquitySeries = {
+    window: string;
+    sampling: "hourly";
+    points: { timestamp: number; valueIndex: number; valueIndexRebased: number }[];
+    benchmark: null | {
+        symbol: string;
+        points: { timestamp: number; price: number; priceRebased: number }[];
+    };
+};
+
+/**
+ * Equity chart series over a window of a segment series (a strategy's or a portfolio's):
+ * thinned points rebased to 1 at the window start, plus an optional benchmark curve
+ * on the same timestamps.
+ *   window    = any window id (see windows.ts); rolling windows end at lastTs
+ *   benchmark = <asset name> | "USD"
+ */
+function buildEquitySeries(
+    segments: { start_ts: number; end_ts: number; value_index_end: number }[],
+    opts: { firstTs: number; lastTs: number; window?: string; benchmark?: string }
+): EquitySeries {
+    // Cap the number of equity points returned to keep payload size and chart rendering fast.
+    // We always keep the first and last point.
+    const MAX_EQUITY_POINTS = 100;
+
+    // ---- window + benchmark params ----
+
+    const windowParam = opts.window || "ALL";
+    const benchmarkParam = opts.benchmark ? opts.benchmark.toUpperCase() : undefined;
+
+    // Determine fromTs based on window
+    const lastTs = opts.lastTs;
+
+    let window: StatWindow | null = null;
     try {
-        await backfillHistoricalPrices(nowHour);
+        window = resolveWindow(windowParam, lastTs);
     } catch (err) {
-        console.error("[init] historical backfill failed:", err);
+        if (!(err instanceof WindowParamError)) throw err;
     }
 
-    // 3) build segments from all known prices & signals
-    extendAllStrategySegments();
+    let windowSegments = segments;
+    let windowLabel = "ALL";
+    if (window && window.kind !== "all") {
+        const [i0, i1] = windowSegmentRange(segments, window);
+        // fallback to full history if the requested window is empty
+        if (i0 < i1) {
+            windowSegments = segments.slice(i0, i1);
+            windowLabel = window.id;
+        }
+    }
 
-    // 4) compute stats for all strategies / windows
-    recomputeAllStrategyStats();
+    // ---- thin equity points to a fixed upper bound ----
 
-    // periodic tasks
+    const sampledSegments = thinKeepEnds(windowSegments, MAX_EQUITY_POINTS);
+    const sampling: "hourly" = "hourly";
 
-    // We ONLY recompute performance hourly.
-    // New signals are still synced every 10s, but they will be reflected in
-    // performance/stats after the next hourly backfill + recompute.
-    // Performance recomputation:
-    // We want to be robust to upstream price sampling delays (e.g. CoinGecko 5-min grid)
-    // and occasional fetch failures. So we run a lightweight "attempt" frequently, and
-    // always target the last fully closed hour (with a small safety lag). This naturally
-    // retries missing hours and catches up after downtime.
-    const ONE_MIN_MS = 60 * 1000;
-    const SAFETY_LAG_SEC = 90;
+    if (sampledSegments.length === 0) {
+        return { window: windowLabel, sampling, points: [], benchmark: null };
+    }
 
-    async function runHourlyRecomputeAttempt() {
-        try {
-            const nowSec = Math.floor(Date.now() / 1000);
-            const SAFETY_LAG_SEC = 90;
-            const targetHourTs = Math.floor((nowSec - SAFETY_LAG_SEC) / 3600) * 3600;
+    // Align chart series with stats: include a starting point at the beginning of the first segment
+    // in the selected window. This ensures the rebased curve's total return matches the stats window return.
+    const firstWindowSeg = sampledSegments[0];
 
-            // 1) backfill prices up to target hour (may do nothing)
-            await backfillHistoricalPrices(targetHourTs);
+    // Find index of first window segment in the full segments array
+    const i0 = segments.findIndex((s) => s.start_ts === firstWindowSeg.start_ts && s.end_ts === firstWindowSeg.end_ts);
 
-            // 2) what hour do we actually have in prices?
-            const lastPriceRaw = db
-            .prepare("SELECT value FROM meta WHERE key = ?")
-            .pluck()
-            .get("last_price_ts") as string | undefined;
+    // Stats logic uses equity *at window start* as the base: previous segment's end (or 1.0 for the very beginning)
+    const baseValue =
+        i0 > 0 && segments[i0 - 1].value_index_end > 0
+            ? segments[i0 - 1].value_index_end
+            : 1;
 
-            const lastPriceTs = lastPriceRaw ? parseInt(lastPriceRaw, 10) : 0;
-            if (!lastPriceTs) {
-                console.log("[tick] no last_price_ts yet; skipping segments/stats");
-                return;
-            }
+    const windowStartTs = i0 === 0 ? Math.max(firstWindowSeg.start_ts, opts.firstTs) : firstWindowSeg.start_ts;
 
-            // 3) Decide if there's anything to extend:
-            // A strategy needs extension if its segments end before the latest available price hour,
-            // OR if it has a signal timestamp <= lastPriceTs that is after its last_segment_end_ts.
-            const needsExtension = db
-            .prepare(
-                `
-                SELECT 1
-                FROM strategies
-                WHERE
-                (COALESCE(last_segment_end_ts, 0) < ?)
-                OR (
-                    COALESCE(last_signal_ts, 0) <= ?
-                    AND COALESCE(last_signal_ts, 0) > COALESCE(last_segment_end_ts, 0)
+    const points = [
+        {
+            timestamp: windowStartTs,
+            valueIndex: baseValue,
+            valueIndexRebased: 1,
+        },
+        ...sampledSegments.map((seg) => ({
+            timestamp: seg.end_ts,
+            valueIndex: seg.value_index_end,
+            valueIndexRebased:
+                baseValue > 0 ? seg.value_index_end / baseValue : 1,
+        })),
+    ];
+
+    // ---- optional benchmark over same timestamps ----
+
+    let benchmark: null | {
+        symbol: string;
+        points: {
+            timestamp: number;
+            price: number;
+            priceRebased: number;
+        }[];
+    } = null;
+
+    if (benchmarkParam) {
+        if (benchmarkParam === "USD") {
+            // flat cash benchmark at 1.0
+            const benchPoints = points.map((p) => ({
+                timestamp: p.timestamp,
+                price: 1,
+                priceRebased: 1,
+            }));
+            benchmark = {
+                symbol: "USD",
+                points: benchPoints,
+            };
+        } else {
+            const PRICED_ASSETS = new Set(Object.keys(SUPPORTED_ASSETS));
+            if (PRICED_ASSETS.has(benchmarkParam)) {
+                const from = points[0].timestamp;
+                const to = points[points.length - 1].timestamp;
+
+                const priceRows = db
+                .prepare(
+                    `
+                    SELECT timestamp, price_usd AS price
+                    FROM prices
+                    WHERE asset_symbol = ?
+                    AND timestamp >= ?
+                    AND timestamp <= ?
+                    ORDER BY timestamp ASC
+                    `
                 )
-                LIMIT 1
-                `
-            )
-            .get(lastPriceTs, lastPriceTs);
+                .all(
+                    benchmarkParam,
+                     from,
+                     to
+                ) as { timestamp: number; price: number }[];
+
+                // Map timestamp -> price for quick lookup
+                const priceMap = new Map<number, number>();
+                for (const row of priceRows) {
+                    priceMap.set(row.timestamp, row.price);
+                }
 
-            if (!needsExtension) {
-                console.log("[tick] nothing new; skipping segments/stats recompute");
-                return;
-            }
+                let basePrice: number | null = null;
+                const benchPoints: {
+                    timestamp: number;
+                    price: number;
+                    priceRebased: number;
+                }[] = [];
+
+                // IMPORTANT: use the same timestamps as the strategy points
+                for (const p of points) {
+                    // Prices are stored at hourly timestamps; strategy points may include a non-hour initial point.
+                    // If there's no exact match, carry forward the last known price (or use the first available price for the first point).
+                    let price = priceMap.get(p.timestamp);
+                    if (typeof price !== "number" || price <= 0) {
+                        if (benchPoints.length === 0 && priceRows.length > 0) {
+                            price = priceRows[0].price;
+                        } else if (benchPoints.length > 0) {
+                            price = benchPoints[benchPoints.length - 1].price;
+                        } else {
+                            continue;
+                        }
+                    }
+                    if (basePrice === null) basePrice = price;
+                    benchPoints.push({
+                        timestamp: p.timestamp,
+                        price,
+                        priceRebased:
+                        basePrice && basePrice > 0
+                        ? price / basePrice
+                        : 1,
+                    });
+                }
 
-            // 4) Do the heavy work only when needed
-            extendAllStrategySegments();
-            recomputeAllStrategyStats();
-        } catch (err) {
-            console.error("[tick] error:", err);
+                if (benchPoints.length > 0) {
+                    benchmark = {
+                        symbol: benchmarkParam,
+                        points: benchPoints,
+                    };
+                }
+            }
         }
     }
 
+    return { window: windowLabel, sampling, points, benchmark };
+}
+
+// Attribution curves are thinned like equity charts.
+const MAX_ATTRIBUTION_POINTS = 100;
+
+// Underwater curves keep the deepest point of each bucket (see thinUnderwater).
+const MAX_UNDERWATER_POINTS = 200;
+
+// Followers list at most this many equity points (hourly simulation).
+const MAX_FOLLOWER_EQUITY_POINTS = 500;
+
+function followerToJson(f: FollowerRow) {
+    return {
+        id: f.id,
+        strategyId: f.strategy_id,
+        owner: f.owner_address,
+        label: f.label,
+        startTs: f.start_ts,
+        capital: f.capital,
+        leverageScale: f.leverage_scale,
+        delayMinutes: f.delay_minutes,
+        createdTs: f.created_ts,
+    };
+}
+
+function portfolioToJson(p: PortfolioRow, members: Portfolio["members"]) {
+    return {
+        id: p.id,
+        name: p.name,
+        owner: p.owner_address,
+        weighting: p.weighting,
+        rebalance: p.rebalance,
+        volLookbackDays: p.vol_lookback_days,
+        members,
+        createdTs: p.created_ts,
+        updatedTs: p.updated_ts,
+    };
+}
+
+function webhookToJson(w: WebhookRow) {
+    return {
+        id: w.id,
+        url: w.url,
+        filter: {
+            trader: w.trader_address,
+            strategyId: w.strategy_id,
+            asset: w.asset_symbol,
+        },
+        description: w.description,
+        active: !!w.is_active,
+        createdTs: w.created_ts,
+    };
+}
+
+function webhookDeliveryToJson(d: WebhookDeliveryRow) {
+    return {
+        id: d.id,
+        webhookId: d.webhook_id,
+        event: d.event_type,
+        signalId: d.signal_id,
+        status: d.status,
+        attempts: d.attempts,
+        nextAttemptTs: d.next_attempt_ts,
+        lastAttemptTs: d.last_attempt_ts,
+        responseStatus: d.response_status,
+        lastError: d.last_error,
+        replayOf: d.replay_of,
+        createdTs: d.created_ts,
+        deliveredTs: d.delivered_ts,
+    };
+}
+
+// Process role, from --role=<role> or PROCESS_ROLE:
+//   all (default)  the API plus the background jobs, in one process
+//   api            HTTP only; admin job endpoints and rebuilds act on the worker through
+//                  the database
+//   worker         the startup catch-up and the job scheduler (see jobs.ts), with /metrics
+//                  on WORKER_PORT (3002)
+// Run at most one worker (or "all") process per database. Live events (/api/stream) are
+// published by the process that syncs signals; an "api" process relays them from the
+// stream_events outbox (see events.ts).
+type ProcessRole = "all" | "api" | "worker";
+
+function parseProcessRole(argv: string[]): ProcessRole {
+    let raw = process.env.PROCESS_ROLE || "all";
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith("--role=")) raw = argv[i].slice("--role=".length);
+        else if (argv[i] === "--role") raw = argv[++i] || "";
+    }
+    const role = raw.trim().toLowerCase();
+    if (role !== "all" && role !== "api" && role !== "worker") {
+        throw new Error(`Unknown process role "${raw}" (expected all, api or worker)`);
+    }
+    return role;
+}
+
+// GET /metrics
+// Prometheus text format: job durations, synced signals, price fetches and failures,
+// API latency per route, and gauges of strategy counts and data lag. Job and sync metrics
+// come from the process running the jobs (the worker's WORKER_PORT when split).
+function serveMetrics(req: Request, res: Response) {
+    refreshHealthGauges();
+    res.type(PROMETHEUS_CONTENT_TYPE).send(renderMetrics());
+}
+
+function jobToJson(j: JobRow) {
+    return {
+        name: j.name,
+        intervalMs: j.interval_ms,
+        jitterMs: j.jitter_ms,
+        paused: !!j.paused,
+        running: j.running_since != null,
+        runningSince: j.running_since,
+        runningBy: j.running_by,
+        runRequestedTs: j.run_requested_ts,
+        nextRunTs: j.next_run_ts,
+        lastRun:
+            j.last_run_id != null
+                ? {
+                      id: j.last_run_id,
+                      status: j.last_status,
+                      startedTs: j.last_started_ts,
+                      finishedTs: j.last_finished_ts,
+                      durationMs: j.last_duration_ms,
+                      error: j.last_error,
+                  }
+                : null,
+    };
+}
+
+function jobRunToJson(r: JobRunRow) {
+    return {
+        id: r.id,
+        job: r.job,
+        trigger: r.trigger,
+        worker: r.worker,
+        status: r.status,
+        startedTs: r.started_ts,
+        finishedTs: r.finished_ts,
+        durationMs: r.duration_ms,
+        error: r.error,
+    };
+}
+
+function rebuildRequestToJson(r: RebuildRequestRow) {
+    return {
+        id: r.id,
+        scope: JSON.parse(r.scope_json),
+        dryRun: r.dry_run === 1,
+        status: r.status,
+        requestedTs: r.requested_ts,
+        finishedTs: r.finished_ts,
+        report: r.report_json ? JSON.parse(r.report_json) : null,
+        error: r.error,
+    };
+}
+
+async function main() {
+    const role = parseProcessRole(process.argv.slice(2));
+    initDb();
+
+    // drop RPC endpoints on the wrong chain before the first read
+    await startRpcHealthChecks();
 
-    // Run once at startup, then retry every minute.
-    runHourlyRecomputeAttempt();
-    setInterval(runHourlyRecomputeAttempt, ONE_MIN_MS);
+    if (role !== "api") {
+        // queue webhook deliveries for every signal synced from here on
+        startWebhooks();
 
+        // 1) sync on-chain signals so strategies exist
+        await timeJob("sync_signals", () => syncSignals());
 
-    // Fast sync: every 10 seconds, check for new signals and persist them.
-    // (No performance recompute here.)
-    setInterval(async () => {
+        // 2) Backfill prices (hourly + signal-time) up to the current top-of-hour.
+        // We intentionally recompute performance on an hourly cadence.
+        const nowSec = Math.floor(Date.now() / 1000);
+        const nowHour = Math.floor(nowSec / 3600) * 3600;
         try {
-            await syncSignals();
+            await timeJob("backfill_prices", () => backfillHistoricalPrices(nowHour));
         } catch (err) {
-            console.error("[fast sync] error:", err);
+            console.error("[init] historical backfill failed:", err);
+            recordPipelineError("prices", err);
         }
-    }, 10 * 1000);
+
+        // 3) build segments from all known prices & signals
+        timeJob("extend_segments", () => extendAllStrategySegments());
+
+        // 4) compute stats for all strategies / windows
+        timeJob("recompute_stats", () => recomputeAllStrategyStats());
+        timeJob("recompute_trade_stats", () => recomputeAllTradeStats());
+
+        // periodic tasks: signal sync, hourly recompute, webhook retries
+        registerPipelineJobs();
+        startScheduler();
+    }
+
+    if (role === "api") {
+        // /api/stream clients get the worker's events through the outbox
+        startEventRelay();
+    }
+
+    if (role === "worker") {
+        const metricsApp = express();
+        const workerPort = process.env.WORKER_PORT || 3002;
+        metricsApp.get("/metrics", serveMetrics);
+        metricsApp.listen(workerPort, () => {
+            console.log(`ChainSignals worker metrics on http://localhost:${workerPort}/metrics`);
+        });
+        return;
+    }
 
     // Express API
     const app = express();
@@ -138,63 +654,176 @@ async function main() {
                 "http://localhost:5173",      // local dev frontend
                 "http://127.0.0.1:5173",
             ],
-            methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-            allowedHeaders: ["Content-Type", "Authorization"],
+            methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+            allowedHeaders: ["Content-Type", "Authorization", "X-Owner-Signature", "X-Owner-Timestamp"],
             credentials: false,
         })
     );
 
+    app.use(express.json());
+    app.use(httpMetricsMiddleware);
+
+    app.get("/metrics", serveMetrics);
+
+    // GET /api/health
+    // Pipeline health report (see health.ts): signal sync lag per deployment, price, segment
+    // and stats freshness, recent errors and every RPC endpoint. 200 when "ok", 503 when
+    // "degraded", with the crossed thresholds in `problems`.
     app.get("/api/health", (req, res) => {
-        res.json({ ok: true });
+        const report = buildHealthReport();
+        res.status(report.status === "ok" ? 200 : 503).json(report);
+    });
+
+    // GET /api/deployments
+    // Indexed contract deployments with their sync cursors and strategy / signal counts.
+    // Inactive ones were dropped from the config; their data is kept.
+    app.get("/api/deployments", (req, res) => {
+        const counts = new Map(
+            (
+                db
+                    .prepare(
+                        `SELECT deployment_id, COUNT(*) AS strategies, SUM(num_signals) AS signals
+                        FROM strategies
+                        GROUP BY deployment_id`
+                    )
+                    .all() as { deployment_id: number; strategies: number; signals: number }[]
+            ).map((r) => [r.deployment_id, r])
+        );
+
+        res.json({
+            deployments: getDeployments().map((d) => ({
+                ...deploymentToJson(d),
+                numStrategies: counts.get(d.id)?.strategies ?? 0,
+                numSignals: counts.get(d.id)?.signals ?? 0,
+            })),
+        });
+    });
+
+    // GET /api/stream  (Server-Sent Events)
+    // Query params (all optional):
+    //   strategyId = only events for this strategy
+    //   trader     = only events for this trader's strategies
+    //   types      = comma-separated subset of signal.synced, snapshot.updated,
+    //                segments.extended, stats.recomputed
+    // Each message is `event: <type>` with the StreamEvent JSON as data. A client reconnecting
+    // with Last-Event-ID first gets the events it missed (up to an hour back).
+    app.get("/api/stream", (req, res) => {
+        const strategyId = req.query.strategyId != null ? Number(req.query.strategyId) : null;
+        if (strategyId != null && (!Number.isInteger(strategyId) || strategyId <= 0)) {
+            return res.status(400).json({ error: "Invalid strategyId" });
+        }
+        const trader = req.query.trader ? String(req.query.trader).trim().toLowerCase() : null;
+
+        let types: Set<StreamEventType> | null = null;
+        if (req.query.types) {
+            const requested = String(req.query.types).split(",").map((t) => t.trim()).filter(Boolean);
+            const unknown = requested.filter((t) => !STREAM_EVENT_TYPES.includes(t as StreamEventType));
+            if (unknown.length) {
+                return res.status(400).json({ error: `Unknown event type(s): ${unknown.join(", ")}` });
+            }
+            types = new Set(requested as StreamEventType[]);
+        }
+
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no", // don't let nginx buffer the stream
+        });
+        res.write("retry: 5000\n\n");
+
+        // events up to this id were already sent from the outbox
+        let replayedUpTo = 0;
+        const send = (evt: StreamEvent) => {
+            if (evt.id <= replayedUpTo) return;
+            if (types && !types.has(evt.type)) return;
+            if (strategyId != null && evt.strategyId !== strategyId) return;
+            if (trader && evt.trader !== trader) return;
+            res.write(`id: ${evt.id}\nevent: ${evt.type}\ndata: ${JSON.stringify(evt)}\n\n`);
+        };
+
+        const unsubscribe = subscribeEvents(send);
+        const lastEventId = Number(req.headers["last-event-id"]);
+        if (Number.isInteger(lastEventId) && lastEventId > 0) {
+            replayedUpTo = forEachEventAfter(lastEventId, send);
+        }
+
+        // Comment lines keep proxies from closing an idle connection.
+        const heartbeat = setInterval(() => res.write(": ping\n\n"), 25 * 1000);
+
+        req.on("close", () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
     });
 
-    // GET /api/leaderboard?window=1W|1M|1Y|ALL
+    // GET /api/leaderboard
+    // Query params (all optional):
+    //   window     = 1W|1M|3M|6M|1Y|ALL
+    //   sort       = sharpe (default) | totalReturn | volatility | maxDrawdown | numSignals | age | ...
+    //                or any registry metric key (sortino, calmar, var_95, ...)
+    //   dir        = asc | desc (default depends on the sort key; NULLs always last)
+    //   minDays    = minimum track record in days
+    //   minSignals = minimum number of signals
+    //   asset      = only strategies that ever traded this asset
+    //   trader     = only this trader's strategies
+    //   deployment = only this deployment's strategies (key or id; default: all merged)
+    //   status     = all (default) | active | liquidated
+    //   limit      = page size (default 50, max 200)
+    //   cursor     = nextCursor from the previous page
+    // Returns { window, sort, dir, total, nextCursor, rows }.
     app.get("/api/leaderboard", (req, res) => {
         const window = normalizeWindowParam(req.query.window);
 
-        const rows = db
-        .prepare(
-            `
-            SELECT
-            s.id,
-            s.trader_address,
-            s.strategy_name,
-            s.first_signal_ts,
-            s.last_signal_ts,
-            s.num_signals,
-            s.is_liquidated,
-            s.last_value_index,
-            s.last_segment_end_ts,
-            st.sharpe_annual,
-            st.vol_annual,
-            st.vol_hourly,
-            st.total_return,
-            st.max_drawdown
-            FROM strategies s
-            LEFT JOIN strategy_stats st
-            ON st.strategy_id = s.id
-            AND st.window = ?
-            `
-        )
-        .all(window) as {
-            id: number;
-            trader_address: string;
-            strategy_name: string;
-            first_signal_ts: number;
-            last_signal_ts: number;
-            num_signals: number;
-            is_liquidated: number;
-            last_value_index: number;
-            last_segment_end_ts: number | null;
-            sharpe_annual: number | null;
-            vol_annual: number | null;
-            vol_hourly: number | null;
-            total_return: number | null;
-            max_drawdown: number | null;
-        }[];
+        const optionalNumber = (raw: unknown): number | undefined => {
+            if (raw == null || raw === "") return undefined;
+            const n = Number(raw);
+            return Number.isFinite(n) ? n : NaN;
+        };
+
+        const minDays = optionalNumber(req.query.minDays);
+        const minSignals = optionalNumber(req.query.minSignals);
+        const limit = optionalNumber(req.query.limit);
+        if ([minDays, minSignals, limit].some((n) => n != null && (Number.isNaN(n) || n < 0))) {
+            return res.status(400).json({ error: "minDays, minSignals and limit must be non-negative numbers" });
+        }
+
+        const dirRaw = req.query.dir ? String(req.query.dir).toLowerCase() : undefined;
+        if (dirRaw && dirRaw !== "asc" && dirRaw !== "desc") {
+            return res.status(400).json({ error: "dir must be asc or desc" });
+        }
+
+        const statusRaw = req.query.status ? String(req.query.status).toLowerCase() : "all";
+        if (statusRaw !== "all" && statusRaw !== "active" && statusRaw !== "liquidated") {
+            return res.status(400).json({ error: "status must be all, active or liquidated" });
+        }
+
+        let result: ReturnType<typeof queryLeaderboard>;
+        try {
+            const deployment = req.query.deployment ? resolveDeploymentParam(req.query.deployment).id : undefined;
+            result = queryLeaderboard({
+                window,
+                sort: req.query.sort ? String(req.query.sort) : undefined,
+                dir: dirRaw as LeaderboardSortDir | undefined,
+                minDays,
+                minSignals,
+                asset: req.query.asset ? String(req.query.asset).trim() : undefined,
+                trader: req.query.trader ? String(req.query.trader).trim() : undefined,
+                deployment,
+                status: statusRaw,
+                limit: limit != null ? Math.floor(limit) : undefined,
+                cursor: req.query.cursor ? String(req.query.cursor) : undefined,
+            });
+        } catch (err) {
+            if (err instanceof LeaderboardQueryError || err instanceof DeploymentParamError) {
+                return res.status(400).json({ error: err.message });
+            }
+            throw err;
+        }
 
-        const enriched = rows.map((r) => ({
+        const rows = result.rows.map((r) => ({
             id: r.id,
+            deployment: r.deployment_key,
             trader: r.trader_address,
             strategyName: r.strategy_name,
             firstSignalTs: r.first_signal_ts,
@@ -208,40 +837,29 @@ async function main() {
             volHourly: r.vol_hourly,
             totalReturn: r.total_return,
             maxDrawdown: r.max_drawdown,
+            grossSharpeAnnual: r.gross_sharpe_annual,
+            grossTotalReturn: r.gross_total_return,
+            costDrag: r.cost_drag,
+            benchmarkSymbol: r.benchmark_symbol,
+            alphaAnnual: r.alpha_annual,
+            beta: r.beta,
+            correlation: r.correlation,
+            trackingError: r.tracking_error,
+            informationRatio: r.information_ratio,
+            trades: statsTradesFromRow(r),
+            // value of the registry metric being sorted on, if any
+            sortMetric: r.sort_metric,
             window,
         }));
 
-        // sort by sharpe desc; if sharpe is missing (too young), sort by total return desc
-        enriched.sort((a, b) => {
-            const aSharpe = a.sharpeAnnual;
-            const bSharpe = b.sharpeAnnual;
-
-            // 1) Both have Sharpe -> sort by Sharpe
-            if (aSharpe != null && bSharpe != null) {
-                const d = bSharpe - aSharpe;
-                if (d !== 0) return d;
-                // tie-breaker: total return
-                const aRet = a.totalReturn ?? -Infinity;
-                const bRet = b.totalReturn ?? -Infinity;
-                return bRet - aRet;
-            }
-
-            // 2) Only one has Sharpe -> Sharpe comes first
-            if (aSharpe != null) return -1;
-            if (bSharpe != null) return 1;
-
-            // 3) Neither has Sharpe -> fallback to total return
-            const aRet = a.totalReturn ?? -Infinity;
-            const bRet = b.totalReturn ?? -Infinity;
-            const d = bRet - aRet;
-            if (d !== 0) return d;
-
-            // final tie-breaker: stable ordering (optional)
-            return a.id - b.id;
+        res.json({
+            window,
+            sort: result.sort,
+            dir: result.dir,
+            total: result.total,
+            nextCursor: result.nextCursor,
+            rows,
         });
-
-
-        res.json(enriched);
     });
 
     // GET /api/strategy/:id
@@ -249,6 +867,7 @@ async function main() {
     // - basic strategy metadata
     // - stats for all windows
     // - positionsHistory: snapshots of the portfolio at each signal timestamp
+    // - liquidations: legs closed by the liquidation engine
     app.get("/api/strategy/:id", (req, res) => {
         const id = Number(req.params.id);
         if (!Number.isFinite(id) || id <= 0) {
@@ -260,12 +879,14 @@ async function main() {
             `
             SELECT
             id,
+            deployment_id,
             trader_address,
             strategy_name,
             first_signal_ts,
             last_signal_ts,
             num_signals,
             is_liquidated,
+            liquidated_ts,
             last_value_index,
             last_segment_end_ts
             FROM strategies
@@ -275,12 +896,14 @@ async function main() {
         .get(id) as
         | {
             id: number;
+            deployment_id: number;
             trader_address: string;
             strategy_name: string;
             first_signal_ts: number;
             last_signal_ts: number;
             num_signals: number;
             is_liquidated: number;
+            liquidated_ts: number | null;
             last_value_index: number;
             last_segment_end_ts: number | null;
         }
@@ -301,12 +924,33 @@ async function main() {
             vol_annual,
             vol_hourly,
             total_return,
-            max_drawdown
+            max_drawdown,
+            gross_sharpe_annual,
+            gross_vol_annual,
+            gross_total_return,
+            gross_max_drawdown,
+            cost_drag,
+            benchmark_symbol,
+            alpha_annual,
+            beta,
+            correlation,
+            tracking_error,
+            information_ratio,
+            closed_legs,
+            win_rate,
+            avg_win,
+            avg_loss,
+            profit_factor,
+            expectancy,
+            avg_holding_sec,
+            max_win_streak,
+            max_loss_streak,
+            turnover
             FROM strategy_stats
             WHERE strategy_id = ?
             `
         )
-        .all(id) as {
+        .all(id) as ({
             window: string;
             last_updated_ts: number;
             sharpe_annual: number | null;
@@ -314,7 +958,18 @@ async function main() {
             vol_hourly: number | null;
             total_return: number | null;
             max_drawdown: number | null;
-        }[];
+            gross_sharpe_annual: number | null;
+            gross_vol_annual: number | null;
+            gross_total_return: number | null;
+            gross_max_drawdown: number | null;
+            cost_drag: number | null;
+            benchmark_symbol: string | null;
+            alpha_annual: number | null;
+            beta: number | null;
+            correlation: number | null;
+            tracking_error: number | null;
+            information_ratio: number | null;
+        } & StatsTradesRowDb)[];
 
         const statsByWindow: Record<
         string,
@@ -325,6 +980,11 @@ async function main() {
             volHourly: number | null;
             totalReturn: number | null;
             maxDrawdown: number | null;
+            gross: StatsGross;
+            costDrag: number | null;
+            benchmark: StatsBenchmark;
+            trades: StatsTrades;
+            metrics: Record<string, number | null>;
         }
         > = {};
 
@@ -336,9 +996,43 @@ async function main() {
                 volHourly: r.vol_hourly,
                 totalReturn: r.total_return,
                 maxDrawdown: r.max_drawdown,
+                gross: {
+                    sharpeAnnual: r.gross_sharpe_annual,
+                    volAnnual: r.gross_vol_annual,
+                    totalReturn: r.gross_total_return,
+                    maxDrawdown: r.gross_max_drawdown,
+                },
+                costDrag: r.cost_drag,
+                benchmark: {
+                    symbol: r.benchmark_symbol,
+                    alphaAnnual: r.alpha_annual,
+                    beta: r.beta,
+                    correlation: r.correlation,
+                    trackingError: r.tracking_error,
+                    informationRatio: r.information_ratio,
+                },
+                trades: statsTradesFromRow(r),
+                metrics: {},
             };
         }
 
+        // Registry metrics (Sortino, Calmar, VaR, ...), stored one row per metric.
+        const metricRows = db
+        .prepare(
+            `
+            SELECT window, metric, value
+            FROM strategy_metrics
+            WHERE strategy_id = ?
+            ORDER BY metric ASC
+            `
+        )
+        .all(id) as { window: string; metric: string; value: number | null }[];
+
+        for (const r of metricRows) {
+            const w = statsByWindow[r.window];
+            if (w) w.metrics[r.metric] = r.value;
+        }
+
         // --- positions history ---
         // Read precomputed snapshots from DB.
         // Snapshots are written:
@@ -350,7 +1044,20 @@ async function main() {
             direction: "LONG" | "SHORT" | "CASH";
             leverage: number;
         };
-        type PositionSnapshot = { timestamp: number; positions: Position[]; message?: string | null };
+        type SnapshotSignal = {
+            id: number;
+            index: number; // on-chain index within the deployment's contract
+            asset: string;
+            txHash: string | null;
+            blockNumber: number | null;
+            logIndex: number | null;
+        };
+        type PositionSnapshot = {
+            timestamp: number;
+            positions: Position[];
+            message?: string | null;
+            signals: SnapshotSignal[];
+        };
 
         const snapshotRows = db
             .prepare(
@@ -361,18 +1068,83 @@ async function main() {
             )
             .all(id) as { signal_ts: number; positions_json: string; message: string | null }[];
 
+        // On-chain signals behind each snapshot (tx hash / block are only known in log-indexing mode).
+        const signalRows = db
+            .prepare(
+                `SELECT id, signal_index, asset_symbol, timestamp, tx_hash, block_number, log_index
+                FROM signals
+                WHERE deployment_id = ? AND trader_address = ? AND strategy_name = ?
+                ORDER BY signal_index ASC`
+            )
+            .all(strat.deployment_id, strat.trader_address, strat.strategy_name) as {
+                id: number;
+                signal_index: number;
+                asset_symbol: string;
+                timestamp: number;
+                tx_hash: string;
+                block_number: number | null;
+                log_index: number | null;
+            }[];
+
+        const signalsByTs = new Map<number, SnapshotSignal[]>();
+        for (const r of signalRows) {
+            const ts = Number(r.timestamp);
+            if (!signalsByTs.has(ts)) signalsByTs.set(ts, []);
+            signalsByTs.get(ts)!.push({
+                id: r.id,
+                index: r.signal_index,
+                asset: r.asset_symbol,
+                txHash: r.tx_hash ? r.tx_hash : null,
+                blockNumber: r.block_number ?? null,
+                logIndex: r.log_index ?? null,
+            });
+        }
+
         const snapshots: PositionSnapshot[] = [];
         for (const r of snapshotRows) {
             try {
                 const positions = JSON.parse(String(r.positions_json || "[]")) as Position[];
                 if (Array.isArray(positions) && positions.length) {
-                    snapshots.push({ timestamp: Number(r.signal_ts), positions, message: r.message ?? null });
+                    snapshots.push({
+                        timestamp: Number(r.signal_ts),
+                        positions,
+                        message: r.message ?? null,
+                        signals: signalsByTs.get(Number(r.signal_ts)) ?? [],
+                    });
                 }
             } catch {
                 // ignore malformed rows
             }
         }
 
+        // --- liquidations ---
+        const liquidationRows = db
+            .prepare(
+                `SELECT ts, asset_symbol, direction, leverage, start_price, liquidation_price, loss_pct
+                FROM strategy_liquidations
+                WHERE strategy_id = ?
+                ORDER BY ts ASC, asset_symbol ASC`
+            )
+            .all(id) as {
+                ts: number;
+                asset_symbol: string;
+                direction: number;
+                leverage: number;
+                start_price: number;
+                liquidation_price: number;
+                loss_pct: number;
+            }[];
+
+        const liquidations = liquidationRows.map((r) => ({
+            timestamp: r.ts,
+            asset: r.asset_symbol,
+            direction: r.direction < 0 ? "SHORT" : "LONG",
+            leverage: r.leverage,
+            startPrice: r.start_price,
+            liquidationPrice: r.liquidation_price,
+            lossPct: r.loss_pct,
+        }));
+
         const latestSnap = snapshots.length ? snapshots[snapshots.length - 1] : null;
 
         let currentPosition: any = null;
@@ -447,19 +1219,24 @@ async function main() {
             // ignore; currentPosition remains null
         }
 
+        const deployment = getDeployments().find((d) => d.id === strat.deployment_id);
+
         res.json({
             id: strat.id,
+            deployment: deployment ? deploymentToJson(deployment) : null,
             trader: strat.trader_address,
             strategyName: strat.strategy_name,
             firstSignalTs: strat.first_signal_ts,
             lastSignalTs: strat.last_signal_ts,
             numSignals: strat.num_signals,
             isLiquidated: !!strat.is_liquidated,
+            liquidatedTs: strat.liquidated_ts ?? null,
             lastValueIndex: strat.last_value_index,
             lastSegmentEndTs: strat.last_segment_end_ts,
             stats: statsByWindow,
             currentPosition,
             positionsHistory: snapshots,
+            liquidations,
         });
     });
 
@@ -480,22 +1257,25 @@ async function main() {
         .prepare(
             `
             SELECT
-            id,
-            trader_address,
-            strategy_name,
-            first_signal_ts,
-            last_signal_ts,
-            num_signals,
-            is_liquidated,
-            last_value_index,
-            last_segment_end_ts
-            FROM strategies
-            WHERE lower(trader_address) = ?
-            ORDER BY id ASC
+            s.id,
+            d.key AS deployment_key,
+            s.trader_address,
+            s.strategy_name,
+            s.first_signal_ts,
+            s.last_signal_ts,
+            s.num_signals,
+            s.is_liquidated,
+            s.last_value_index,
+            s.last_segment_end_ts
+            FROM strategies s
+            JOIN deployments d ON d.id = s.deployment_id
+            WHERE lower(s.trader_address) = ?
+            ORDER BY s.id ASC
             `
         )
         .all(trader) as {
             id: number;
+            deployment_key: string;
             trader_address: string;
             strategy_name: string;
             first_signal_ts: number;
@@ -524,7 +1304,18 @@ async function main() {
             vol_annual,
             vol_hourly,
             total_return,
-            max_drawdown
+            max_drawdown,
+            gross_sharpe_annual,
+            gross_vol_annual,
+            gross_total_return,
+            gross_max_drawdown,
+            cost_drag,
+            benchmark_symbol,
+            alpha_annual,
+            beta,
+            correlation,
+            tracking_error,
+            information_ratio
             FROM strategy_stats
             WHERE strategy_id IN (${placeholders})
             `
@@ -538,6 +1329,17 @@ async function main() {
             vol_hourly: number | null;
             total_return: number | null;
             max_drawdown: number | null;
+            gross_sharpe_annual: number | null;
+            gross_vol_annual: number | null;
+            gross_total_return: number | null;
+            gross_max_drawdown: number | null;
+            cost_drag: number | null;
+            benchmark_symbol: string | null;
+            alpha_annual: number | null;
+            beta: number | null;
+            correlation: number | null;
+            tracking_error: number | null;
+            information_ratio: number | null;
         }[];
 
         const statsByStrategy: Record<
@@ -551,6 +1353,9 @@ async function main() {
             volHourly: number | null;
             totalReturn: number | null;
             maxDrawdown: number | null;
+            gross: StatsGross;
+            costDrag: number | null;
+            benchmark: StatsBenchmark;
         }
         >
         > = {};
@@ -566,11 +1371,27 @@ async function main() {
                 volHourly: r.vol_hourly,
                 totalReturn: r.total_return,
                 maxDrawdown: r.max_drawdown,
+                gross: {
+                    sharpeAnnual: r.gross_sharpe_annual,
+                    volAnnual: r.gross_vol_annual,
+                    totalReturn: r.gross_total_return,
+                    maxDrawdown: r.gross_max_drawdown,
+                },
+                costDrag: r.cost_drag,
+                benchmark: {
+                    symbol: r.benchmark_symbol,
+                    alphaAnnual: r.alpha_annual,
+                    beta: r.beta,
+                    correlation: r.correlation,
+                    trackingError: r.tracking_error,
+                    informationRatio: r.information_ratio,
+                },
             };
         }
 
         const out = strategies.map((s) => ({
             id: s.id,
+            deployment: s.deployment_key,
             trader: s.trader_address,
             strategyName: s.strategy_name,
             firstSignalTs: s.first_signal_ts,
@@ -596,31 +1417,6 @@ async function main() {
     //   - points: strategy equity curve over the window (with rebased value)
     //   - benchmark: optional benchmark curve over the same timestamps
     app.get("/api/strategy/:id/equity", (req, res) => {
-        // Cap the number of equity points returned to keep payload size and chart rendering fast.
-        // We always keep the first and last point.
-        const MAX_EQUITY_POINTS = 100;
-
-        function thinKeepEnds<T>(arr: T[], maxPoints: number): T[] {
-            const n = arr.length;
-            if (n <= maxPoints) return arr;
-            if (maxPoints <= 1) return [arr[0]];
-            if (maxPoints === 2) return [arr[0], arr[n - 1]];
-
-            const step = Math.ceil((n - 1) / (maxPoints - 1));
-            const out: T[] = [];
-            for (let i = 0; i < n; i += step) out.push(arr[i]);
-
-            const last = arr[n - 1];
-            if (out[out.length - 1] !== last) out.push(last);
-
-            // If we ended up with one extra point due to the forced last-point push,
-            // drop one interior point (keep first/last).
-            if (out.length > maxPoints) {
-                out.splice(out.length - 2, 1);
-            }
-            return out;
-        }
-
         const id = Number(req.params.id);
         if (!Number.isFinite(id) || id <= 0) {
             return res.status(400).json({ error: "Invalid strategy id" });
@@ -690,223 +1486,818 @@ async function main() {
             });
         }
 
-        // ---- window + benchmark params ----
-
-        const windowParam =
-        typeof req.query.window === "string" ? req.query.window : "ALL";
-        const benchmarkParam =
-        typeof req.query.benchmark === "string"
-        ? req.query.benchmark.toUpperCase()
-        : undefined;
-
-        const parseWindowToSeconds = (w: string | undefined): number | null => {
-            if (!w) return null;
-            const upper = w.toUpperCase();
-            if (upper === "ALL") return null;
-            const m = /^(\d+)([DWMY])$/.exec(upper.trim());
-            if (!m) return null;
-            const value = Number(m[1]);
-            const unit = m[2];
-            if (!Number.isFinite(value) || value <= 0) return null;
-            const DAY = 24 * 60 * 60;
-            switch (unit) {
-                case "D":
-                    return value * DAY;
-                case "W":
-                    return value * 7 * DAY;
-                case "M":
-                    return value * 30 * DAY; // approx
-                case "Y":
-                    return value * 365 * DAY; // approx
-                default:
-                    return null;
-            }
-        };
-
-        // Determine fromTs based on window
         const lastSeg = segments[segments.length - 1];
-        const lastTs =
-        strat.last_segment_end_ts ?? lastSeg.end_ts ?? strat.last_signal_ts;
+        const series = buildEquitySeries(segments, {
+            firstTs: strat.first_signal_ts,
+            lastTs: strat.last_segment_end_ts ?? lastSeg.end_ts ?? strat.last_signal_ts,
+            window: typeof req.query.window === "string" ? req.query.window : "ALL",
+            benchmark: typeof req.query.benchmark === "string" ? req.query.benchmark : undefined,
+        });
 
-        const durationSec = parseWindowToSeconds(windowParam);
-        let fromTs = 0;
-        let windowLabel = "ALL";
+        // ---- response ----
 
-        if (durationSec && lastTs) {
-            fromTs = Math.max(0, lastTs - durationSec);
-            windowLabel = windowParam.toUpperCase();
-        }
+        res.json({
+            id: strat.id,
+            trader: strat.trader_address,
+            strategyName: strat.strategy_name,
+            firstSignalTs: strat.first_signal_ts,
+            lastSignalTs: strat.last_signal_ts,
+            lastValueIndex: strat.last_value_index,
+            ...series, // window, sampling, points (strategy curve incl. valueIndexRebased), benchmark
+        });
+    });
 
-        let windowSegments = segments;
-        if (fromTs > 0) {
-            windowSegments = segments.filter((s) => s.end_ts >= fromTs);
-            if (windowSegments.length === 0) {
-                // fallback to full history if the requested window is empty
-                windowSegments = segments;
-                windowLabel = "ALL";
-            }
-        }
 
-        // ---- thin equity points to a fixed upper bound ----
+    // GET /api/windows?strategyId=...
+    // Windows with stored stats, for window pickers: rolling ones, ALL, MTD / QTD / YTD
+    // and the past calendar years of the strategy (or of all strategies). Any of them,
+    // <n>D/W/M/Y or a custom YYYY-MM-DD..YYYY-MM-DD range also work for charts.
+    app.get("/api/windows", (req, res) => {
+        const strategyId = Number(req.query.strategyId);
+        const firstTs = (
+            req.query.strategyId
+                ? db.prepare("SELECT first_signal_ts FROM strategies WHERE id = ?").pluck().get(strategyId)
+                : db.prepare("SELECT MIN(first_signal_ts) FROM strategies").pluck().get()
+        ) as number | null | undefined;
 
-        const sampledSegments = thinKeepEnds(windowSegments, MAX_EQUITY_POINTS);
-        const sampling: "hourly" = "hourly";
+        const nowSec = Math.floor(Date.now() / 1000);
+        res.json({
+            windows: storedWindows(nowSec, firstTs ?? null).map((w) => ({ id: w.id, kind: w.kind, label: w.label })),
+        });
+    });
 
-        if (sampledSegments.length === 0) {
-            return res.json({
-                id: strat.id,
-                trader: strat.trader_address,
-                strategyName: strat.strategy_name,
-                firstSignalTs: strat.first_signal_ts,
-                lastSignalTs: strat.last_signal_ts,
-                lastValueIndex: strat.last_value_index,
-                window: windowLabel,
-                sampling: sampling,
-                points: [],
-                benchmark: null,
-            });
+    // GET /api/strategy/:id/stats?window=...  (or ?from=YYYY-MM-DD&to=YYYY-MM-DD)
+    // Stats for one window computed on demand from segments, in the same shape as an
+    // entry of GET /api/strategy/:id stats (plus trade stats); for custom ranges.
+    app.get("/api/strategy/:id/stats", (req, res) => {
+        const id = Number(req.params.id);
+        if (!Number.isFinite(id) || id <= 0) {
+            return res.status(400).json({ error: "Invalid strategy id" });
         }
 
-        // Align chart series with stats: include a starting point at the beginning of the first segment
-        // in the selected window. This ensures the rebased curve's total return matches the stats window return.
-        const firstWindowSeg = sampledSegments[0];
+        const nowSec = Math.floor(Date.now() / 1000);
+        let window: StatWindow;
+        try {
+            window = windowFromQuery(req.query, nowSec, "1M");
+        } catch (err) {
+            if (err instanceof WindowParamError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
 
-        // Find index of first window segment in the full segments array
-        const i0 = segments.findIndex((s) => s.start_ts === firstWindowSeg.start_ts && s.end_ts === firstWindowSeg.end_ts);
+        const ledger = buildTradeLedger(id);
+        if (!ledger) {
+            return res.status(404).json({ error: "Strategy not found" });
+        }
 
-        // Stats logic uses equity *at window start* as the base: previous segment's end (or 1.0 for the very beginning)
-        const baseValue =
-            i0 > 0 && segments[i0 - 1].value_index_end > 0
-                ? segments[i0 - 1].value_index_end
-                : 1;
+        const segments = db
+            .prepare("SELECT * FROM strategy_segments WHERE strategy_id = ? ORDER BY end_ts ASC")
+            .all(id) as SegmentRow[];
 
-        const windowStartTs = i0 === 0 ? Math.max(firstWindowSeg.start_ts, strat.first_signal_ts) : firstWindowSeg.start_ts;
+        const stats = seriesStatsToJson(computeSeriesStats(segments, nowSec, [window]));
+        res.json({
+            id,
+            window: window.id,
+            label: window.label,
+            fromTs: window.fromTs,
+            toTs: window.toTs,
+            stats: stats[window.id] ? { ...stats[window.id], trades: computeTradeStats(ledger, window) } : null,
+        });
+    });
+
+    // GET /api/strategy/:id/attribution?window=...&by=asset|direction|leverage|leg
+    // Share of the window's return contributed by each asset / direction / leverage tier
+    // (or leg), split into price moves, funding and trading costs, plus cumulative
+    // per-group curves for a stacked chart. Same window selection as /equity
+    // (also ?from=YYYY-MM-DD&to=YYYY-MM-DD). `complete` is false when part of the window
+    // predates attribution (see attribution.ts); that part is reported as `unattributed`.
+    app.get("/api/strategy/:id/attribution", (req, res) => {
+        const id = Number(req.params.id);
+        if (!Number.isFinite(id) || id <= 0) {
+            return res.status(400).json({ error: "Invalid strategy id" });
+        }
+
+        let by;
+        try {
+            by = parseAttributionGrouping(req.query.by);
+        } catch (err) {
+            if (err instanceof AttributionQueryError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        const strat = db
+            .prepare("SELECT id, last_segment_end_ts FROM strategies WHERE id = ?")
+            .get(id) as { id: number; last_segment_end_ts: number | null } | undefined;
+        if (!strat) {
+            return res.status(404).json({ error: "Strategy not found" });
+        }
+
+        let window: StatWindow;
+        try {
+            window = windowFromQuery(req.query, strat.last_segment_end_ts ?? 0);
+        } catch (err) {
+            if (err instanceof WindowParamError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        const attribution = computeStrategyAttribution(id, window, by);
+
+        res.json({
+            id,
+            window: window.id,
+            ...attribution,
+            points: thinKeepEnds(attribution.points, MAX_ATTRIBUTION_POINTS),
+        });
+    });
+
+    // GET /api/strategy/:id/trades
+    // Trade ledger reconstructed from the position snapshots: every entry, exit and
+    // size change per asset, plus one row per leg with its average entry / exit price,
+    // holding period and realized / unrealized P&L (value-index units, before costs).
+    app.get("/api/strategy/:id/trades", (req, res) => {
+        const id = Number(req.params.id);
+        if (!Number.isFinite(id) || id <= 0) {
+            return res.status(400).json({ error: "Invalid strategy id" });
+        }
+
+        const ledger = buildTradeLedger(id);
+        if (!ledger) {
+            return res.status(404).json({ error: "Strategy not found" });
+        }
+
+        res.json({ id, ...ledger });
+    });
+
+    // GET /api/strategy/:id/returns?period=day|week|month|year&benchmark=...
+    // Return of every UTC day / ISO week / month / year from the value index, with the
+    // benchmark's return over the same span (STATS_BENCHMARK by default, NONE for none).
+    app.get("/api/strategy/:id/returns", (req, res) => {
+        const id = Number(req.params.id);
+        if (!Number.isFinite(id) || id <= 0) {
+            return res.status(400).json({ error: "Invalid strategy id" });
+        }
+
+        let period;
+        try {
+            period = parseReturnPeriod(req.query.period);
+        } catch (err) {
+            if (err instanceof ReturnsQueryError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        const benchmarkParam =
+            typeof req.query.benchmark === "string" && req.query.benchmark
+                ? req.query.benchmark.toUpperCase()
+                : statsBenchmarkSymbol();
+        if (benchmarkParam !== "NONE" && !Object.prototype.hasOwnProperty.call(SUPPORTED_ASSETS, benchmarkParam)) {
+            return res.status(400).json({ error: `Unknown benchmark "${benchmarkParam}"` });
+        }
+        const benchmark = benchmarkParam === "NONE" ? null : benchmarkParam;
+
+        const exists = db.prepare(`SELECT 1 FROM strategies WHERE id = ?`).get(id);
+        if (!exists) {
+            return res.status(404).json({ error: "Strategy not found" });
+        }
+
+        const segments = db
+            .prepare(
+                `SELECT start_ts, end_ts, value_index_end
+                FROM strategy_segments
+                WHERE strategy_id = ?
+                ORDER BY end_ts ASC`
+            )
+            .all(id) as { start_ts: number; end_ts: number; value_index_end: number }[];
+
+        res.json({
+            id,
+            period,
+            benchmark,
+            periods: computePeriodReturns(segments, period, benchmark ? loadAssetPriceSeries(benchmark) : undefined),
+        });
+    });
+
+    // GET /api/strategy/:id/drawdown?window=...&top=5
+    // Underwater curve (drawdown below the running peak) over a window, the deepest
+    // drawdown episodes with their peak / trough / recovery times, and the current drawdown.
+    app.get("/api/strategy/:id/drawdown", (req, res) => {
+        const id = Number(req.params.id);
+        if (!Number.isFinite(id) || id <= 0) {
+            return res.status(400).json({ error: "Invalid strategy id" });
+        }
+
+        const top = req.query.top != null && req.query.top !== "" ? Number(req.query.top) : DEFAULT_DRAWDOWN_EPISODES;
+        if (!Number.isInteger(top) || top < 0 || top > MAX_DRAWDOWN_EPISODES) {
+            return res.status(400).json({ error: `top must be an integer between 0 and ${MAX_DRAWDOWN_EPISODES}` });
+        }
+
+        const strat = db
+            .prepare("SELECT id, last_segment_end_ts FROM strategies WHERE id = ?")
+            .get(id) as { id: number; last_segment_end_ts: number | null } | undefined;
+        if (!strat) {
+            return res.status(404).json({ error: "Strategy not found" });
+        }
+
+        let window: StatWindow;
+        try {
+            window = windowFromQuery(req.query, strat.last_segment_end_ts ?? 0);
+        } catch (err) {
+            if (err instanceof WindowParamError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        const segments = db
+            .prepare(
+                `SELECT start_ts, end_ts, value_index_end
+                FROM strategy_segments
+                WHERE strategy_id = ?
+                ORDER BY end_ts ASC`
+            )
+            .all(id) as { start_ts: number; end_ts: number; value_index_end: number }[];
+
+        const report = computeDrawdown(segments, window, top);
+
+        res.json({
+            id,
+            window: window.id,
+            ...report,
+            underwater: thinUnderwater(report.underwater, MAX_UNDERWATER_POINTS),
+        });
+    });
+
+    // GET /api/strategy/:id/costs
+    // Trading costs charged at each rebalance (one entry per signal timestamp),
+    // plus the funding / borrow carry accrued on leveraged and short legs.
+    app.get("/api/strategy/:id/costs", (req, res) => {
+        const id = Number(req.params.id);
+        if (!Number.isFinite(id) || id <= 0) {
+            return res.status(400).json({ error: "Invalid strategy id" });
+        }
+
+        const exists = db.prepare(`SELECT 1 FROM strategies WHERE id = ?`).get(id);
+        if (!exists) {
+            return res.status(404).json({ error: "Strategy not found" });
+        }
+
+        const rows = db
+        .prepare(
+            `
+            SELECT signal_ts, asset_symbol, notional, fee_cost, slippage_cost,
+            spread_cost, total_cost, equity_before
+            FROM strategy_rebalance_costs
+            WHERE strategy_id = ?
+            ORDER BY signal_ts ASC, asset_symbol ASC
+            `
+        )
+        .all(id) as {
+            signal_ts: number;
+            asset_symbol: string;
+            notional: number;
+            fee_cost: number;
+            slippage_cost: number;
+            spread_cost: number;
+            total_cost: number;
+            equity_before: number;
+        }[];
+
+        const rebalances: {
+            timestamp: number;
+            equityBefore: number;
+            totalCost: number;
+            costPct: number; // of equity before the rebalance
+            legs: { asset: string; notional: number; fee: number; slippage: number; spread: number; total: number }[];
+        }[] = [];
+
+        for (const r of rows) {
+            let last = rebalances[rebalances.length - 1];
+            if (!last || last.timestamp !== r.signal_ts) {
+                last = { timestamp: r.signal_ts, equityBefore: r.equity_before, totalCost: 0, costPct: 0, legs: [] };
+                rebalances.push(last);
+            }
+            last.totalCost += r.total_cost;
+            last.costPct = last.equityBefore > 0 ? last.totalCost / last.equityBefore : 0;
+            last.legs.push({
+                asset: r.asset_symbol,
+                notional: r.notional,
+                fee: r.fee_cost,
+                slippage: r.slippage_cost,
+                spread: r.spread_cost,
+                total: r.total_cost,
+            });
+        }
 
-        const points = [
-            {
-                timestamp: windowStartTs,
-                valueIndex: baseValue,
-                valueIndexRebased: 1,
+        // Funding / borrow carry accrued between rebalances, compounded over all segments.
+        const fundingRows = db
+        .prepare(
+            `
+            SELECT funding_return
+            FROM strategy_segments
+            WHERE strategy_id = ? AND funding_return IS NOT NULL AND funding_return != 0
+            `
+        )
+        .pluck()
+        .all(id) as number[];
+
+        let fundingMult = 1;
+        for (const r of fundingRows) fundingMult *= 1 + r;
+
+        res.json({
+            id,
+            rebalances,
+            funding: {
+                totalReturn: fundingMult - 1, // negative = paid
+                numSegments: fundingRows.length,
             },
-            ...sampledSegments.map((seg) => ({
-                timestamp: seg.end_ts,
-                valueIndex: seg.value_index_end,
-                valueIndexRebased:
-                    baseValue > 0 ? seg.value_index_end / baseValue : 1,
-            })),
-        ];
+        });
+    });
 
-        // ---- optional benchmark over same timestamps ----
+    // --- copy-trading followers ---
 
-        let benchmark: null | {
-            symbol: string;
-            points: {
-                timestamp: number;
-                price: number;
-                priceRebased: number;
-            }[];
-        } = null;
-
-        if (benchmarkParam) {
-            if (benchmarkParam === "USD") {
-                // flat cash benchmark at 1.0
-                const benchPoints = points.map((p) => ({
-                    timestamp: p.timestamp,
-                    price: 1,
-                    priceRebased: 1,
-                }));
-                benchmark = {
-                    symbol: "USD",
-                    points: benchPoints,
-                };
-            } else {
-                const PRICED_ASSETS = new Set(Object.keys(SUPPORTED_ASSETS));
-                if (PRICED_ASSETS.has(benchmarkParam)) {
-                    const from = points[0].timestamp;
-                    const to = points[points.length - 1].timestamp;
+    // GET /api/strategy/:id/follow?startTs=&capital=&leverageScale=&delayMinutes=
+    // Ad-hoc follower simulation (nothing is saved): summary, equity points and stats.
+    app.get("/api/strategy/:id/follow", (req, res) => {
+        let cfg;
+        try {
+            cfg = parseFollowerConfig(req.query as Record<string, unknown>, Number(req.params.id));
+        } catch (err) {
+            if (err instanceof FollowerInputError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
 
-                    const priceRows = db
-                    .prepare(
-                        `
-                        SELECT timestamp, price_usd AS price
-                        FROM prices
-                        WHERE asset_symbol = ?
-                        AND timestamp >= ?
-                        AND timestamp <= ?
-                        ORDER BY timestamp ASC
-                        `
-                    )
-                    .all(
-                        benchmarkParam,
-                         from,
-                         to
-                    ) as { timestamp: number; price: number }[];
-
-                    // Map timestamp -> price for quick lookup
-                    const priceMap = new Map<number, number>();
-                    for (const row of priceRows) {
-                        priceMap.set(row.timestamp, row.price);
-                    }
+        const report = buildFollowerReport(cfg);
+        if (!report) return res.status(404).json({ error: "Strategy not found" });
 
-                    let basePrice: number | null = null;
-                    const benchPoints: {
-                        timestamp: number;
-                        price: number;
-                        priceRebased: number;
-                    }[] = [];
-
-                    // IMPORTANT: use the same timestamps as the strategy points
-                    for (const p of points) {
-                        // Prices are stored at hourly timestamps; strategy points may include a non-hour initial point.
-                        // If there's no exact match, carry forward the last known price (or use the first available price for the first point).
-                        let price = priceMap.get(p.timestamp);
-                        if (typeof price !== "number" || price <= 0) {
-                            if (benchPoints.length === 0 && priceRows.length > 0) {
-                                price = priceRows[0].price;
-                            } else if (benchPoints.length > 0) {
-                                price = benchPoints[benchPoints.length - 1].price;
-                            } else {
-                                continue;
-                            }
-                        }
-                        if (basePrice === null) basePrice = price;
-                        benchPoints.push({
-                            timestamp: p.timestamp,
-                            price,
-                            priceRebased:
-                            basePrice && basePrice > 0
-                            ? price / basePrice
-                            : 1,
-                        });
-                    }
+        res.json({
+            ...cfg,
+            ...report,
+            points: thinKeepEnds(report.points, MAX_FOLLOWER_EQUITY_POINTS),
+        });
+    });
 
-                    if (benchPoints.length > 0) {
-                        benchmark = {
-                            symbol: benchmarkParam,
-                            points: benchPoints,
-                        };
-                    }
+    // POST /api/followers
+    // Body: { strategyId, startTs, capital?, leverageScale?, delayMinutes?, owner?, label? }
+    // With an owner, the request must be signed by the owner's wallet (see ownership.ts).
+    app.post("/api/followers", async (req, res) => {
+        const body = (req.body ?? {}) as Record<string, unknown>;
+
+        let cfg;
+        try {
+            cfg = parseFollowerConfig(body);
+        } catch (err) {
+            if (err instanceof FollowerInputError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        let owner: string | null = null;
+        if (body.owner != null && body.owner !== "") {
+            owner = String(body.owner).trim().toLowerCase();
+            if (!/^0x[0-9a-f]{40}$/.test(owner)) {
+                return res.status(400).json({ error: "Invalid owner address" });
+            }
+        }
+        const label = body.label ? String(body.label).slice(0, 40) : null;
+
+        const strat = db.prepare("SELECT id FROM strategies WHERE id = ?").get(cfg.strategyId);
+        if (!strat) return res.status(404).json({ error: "Strategy not found" });
+
+        if (owner && !(await authorizeOwnerAction(req, res, owner, "create", "follower", null))) return;
+
+        const info = db
+            .prepare(
+                `INSERT INTO followers (strategy_id, owner_address, label, start_ts, capital, leverage_scale, delay_minutes, created_ts)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                cfg.strategyId,
+                owner,
+                label,
+                cfg.startTs,
+                cfg.capital,
+                cfg.leverageScale,
+                cfg.delayMinutes,
+                Math.floor(Date.now() / 1000)
+            );
+
+        const row = db.prepare("SELECT * FROM followers WHERE id = ?").get(info.lastInsertRowid) as FollowerRow;
+        res.status(201).json(followerToJson(row));
+    });
+
+    // GET /api/followers?owner=&strategyId=
+    app.get("/api/followers", (req, res) => {
+        const owner = req.query.owner ? String(req.query.owner).toLowerCase() : null;
+        const strategyId = req.query.strategyId ? Number(req.query.strategyId) : null;
+
+        const rows = db
+            .prepare(
+                `SELECT * FROM followers
+                WHERE (? IS NULL OR owner_address = ?)
+                AND (? IS NULL OR strategy_id = ?)
+                ORDER BY id ASC`
+            )
+            .all(owner, owner, strategyId, strategyId) as FollowerRow[];
+
+        res.json({ followers: rows.map(followerToJson) });
+    });
+
+    const getFollowerRow = (rawId: unknown): FollowerRow | undefined =>
+        db.prepare("SELECT * FROM followers WHERE id = ?").get(Number(rawId)) as FollowerRow | undefined;
+
+    // GET /api/followers/:id
+    // Follower settings plus a summary (equity, P&L, costs, funding, liquidation).
+    app.get("/api/followers/:id", (req, res) => {
+        const row = getFollowerRow(req.params.id);
+        if (!row) return res.status(404).json({ error: "Follower not found" });
+
+        const report = buildFollowerReport(followerRowToConfig(row));
+        if (!report) return res.status(404).json({ error: "Strategy not found" });
+
+        res.json({ ...followerToJson(row), summary: report.summary, liquidations: report.liquidations });
+    });
+
+    // GET /api/followers/:id/equity
+    app.get("/api/followers/:id/equity", (req, res) => {
+        const row = getFollowerRow(req.params.id);
+        if (!row) return res.status(404).json({ error: "Follower not found" });
+
+        const report = buildFollowerReport(followerRowToConfig(row));
+        if (!report) return res.status(404).json({ error: "Strategy not found" });
+
+        res.json({
+            followerId: row.id,
+            capital: row.capital,
+            points: thinKeepEnds(report.points, MAX_FOLLOWER_EQUITY_POINTS),
+        });
+    });
+
+    // GET /api/followers/:id/stats
+    // Same per-window stats as strategies, computed on the follower's equity.
+    app.get("/api/followers/:id/stats", (req, res) => {
+        const row = getFollowerRow(req.params.id);
+        if (!row) return res.status(404).json({ error: "Follower not found" });
+
+        const report = buildFollowerReport(followerRowToConfig(row));
+        if (!report) return res.status(404).json({ error: "Strategy not found" });
+
+        res.json({ followerId: row.id, stats: report.stats });
+    });
+
+    // DELETE /api/followers/:id
+    // Signed by the owner's wallet, or with the admin token.
+    app.delete("/api/followers/:id", async (req, res) => {
+        const row = getFollowerRow(req.params.id);
+        if (!row) return res.status(404).json({ error: "Follower not found" });
+        if (!(await authorizeOwnerAction(req, res, row.owner_address, "delete", "follower", row.id))) return;
+
+        db.prepare("DELETE FROM followers WHERE id = ?").run(row.id);
+        res.status(204).end();
+    });
+
+    // --- multi-strategy portfolios ---
+
+    // GET /api/portfolios?owner=
+    app.get("/api/portfolios", (req, res) => {
+        const owner = req.query.owner ? String(req.query.owner).toLowerCase() : null;
+        const ids = db
+            .prepare(
+                `SELECT id FROM portfolios
+                WHERE (? IS NULL OR owner_address = ?)
+                ORDER BY id DESC`
+            )
+            .pluck()
+            .all(owner, owner) as number[];
+
+        const portfolios = ids
+            .map((id) => getPortfolio(id))
+            .filter((p): p is Portfolio => p != null)
+            .map((p) => portfolioToJson(p, p.members));
+        res.json({ portfolios });
+    });
+
+    // POST /api/portfolios
+    // Body: { name, owner?, weighting?, rebalance?, volLookbackDays?, members: [{ strategyId, weight? }] }
+    // With an owner, the request must be signed by the owner's wallet (see ownership.ts).
+    app.post("/api/portfolios", async (req, res) => {
+        let def;
+        try {
+            def = parsePortfolioDefinition((req.body ?? {}) as Record<string, unknown>);
+        } catch (err) {
+            if (err instanceof PortfolioInputError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+        if (def.owner && !(await authorizeOwnerAction(req, res, def.owner, "create", "portfolio", null))) return;
+
+        let id;
+        try {
+            id = createPortfolio(def);
+        } catch (err) {
+            if (err instanceof PortfolioInputError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        const p = getPortfolio(id)!;
+        res.status(201).json(portfolioToJson(p, p.members));
+    });
+
+    // GET /api/portfolios/:id
+    // Definition plus a summary, target/current weights and per-window stats.
+    app.get("/api/portfolios/:id", (req, res) => {
+        const p = getPortfolio(Number(req.params.id));
+        if (!p) return res.status(404).json({ error: "Portfolio not found" });
+
+        res.json({ ...portfolioToJson(p, p.members), ...buildPortfolioReport(portfolioDefinition(p)) });
+    });
+
+    // PUT /api/portfolios/:id
+    // Replaces the definition (same body as POST; the owner set at creation is kept).
+    // Signed by the owner's wallet, or with the admin token.
+    app.put("/api/portfolios/:id", async (req, res) => {
+        const existing = getPortfolio(Number(req.params.id));
+        if (!existing) return res.status(404).json({ error: "Portfolio not found" });
+        if (!(await authorizeOwnerAction(req, res, existing.owner_address, "update", "portfolio", existing.id))) return;
+
+        try {
+            const def = parsePortfolioDefinition((req.body ?? {}) as Record<string, unknown>);
+            updatePortfolio(existing.id, { ...def, owner: existing.owner_address });
+        } catch (err) {
+            if (err instanceof PortfolioInputError) return res.status(400).json({ error: err.message });
+            throw err;
+        }
+
+        const p = getPortfolio(existing.id)!;
+        res.json(portfolioToJson(p, p.members));
+    });
+
+    // DELETE /api/portfolios/:id
+    // Signed by the owner's wallet, or with the admin token.
+    app.delete("/api/portfolios/:id", async (req, res) => {
+        const existing = getPortfolio(Number(req.params.id));
+        if (!existing) return res.status(404).json({ error: "Portfolio not found" });
+        if (!(await authorizeOwnerAction(req, res, existing.owner_address, "delete", "portfolio", existing.id))) return;
+
+        db.prepare("DELETE FROM portfolios WHERE id = ?").run(existing.id);
+        res.status(204).end();
+    });
+
+    // GET /api/portfolios/:id/equity?window=...&benchmark=...
+    // Same shape and parameters as GET /api/strategy/:id/equity.
+    app.get("/api/portfolios/:id/equity", (req, res) => {
+        const p = getPortfolio(Number(req.params.id));
+        if (!p) return res.status(404).json({ error: "Portfolio not found" });
+
+        const sim = simulatePortfolio(portfolioDefinition(p));
+        const last = sim.segments[sim.segments.length - 1];
+        if (!last || sim.firstTs == null) {
+            return res.status(404).json({ error: "No equity data yet" });
+        }
+
+        const series = buildEquitySeries(sim.segments, {
+            firstTs: sim.firstTs,
+            lastTs: last.end_ts,
+            window: req.query.window ? String(req.query.window) : undefined,
+            benchmark: req.query.benchmark ? String(req.query.benchmark) : undefined,
+        });
+
+        res.json({
+            id: p.id,
+            name: p.name,
+            firstTs: sim.firstTs,
+            lastTs: last.end_ts,
+            lastValueIndex: last.value_index_end,
+            ...series,
+        });
+    });
+
+    // POST /api/admin/rebuild
+    // Body: { strategyId?: number, trader?: string, all?: boolean, dryRun?: boolean }
+    // Wipes and recomputes segments, holdings, snapshots and stats for the selection.
+    // With dryRun, returns the before/after diff without persisting anything.
+    // An "api" process queues the rebuild for the worker instead of running one long write
+    // transaction itself: 202 with { request } (see GET /api/admin/rebuild/:id).
+    app.post("/api/admin/rebuild", requireAdmin, (req, res) => {
+        const body = req.body ?? {};
+
+        let scope: RebuildScope;
+        if (body.strategyId != null) {
+            const id = Number(body.strategyId);
+            if (!Number.isInteger(id) || id <= 0) {
+                return res.status(400).json({ error: "Invalid strategyId" });
+            }
+            scope = { kind: "strategy", strategyId: id };
+        } else if (typeof body.trader === "string" && body.trader.trim()) {
+            scope = { kind: "trader", trader: body.trader.trim() };
+        } else if (body.all === true) {
+            scope = { kind: "all" };
+        } else {
+            return res.status(400).json({ error: "Specify strategyId, trader or all: true" });
+        }
+
+        if (role === "api") {
+            try {
+                getJob("rebuild");
+            } catch (err) {
+                if (err instanceof JobNotFoundError) {
+                    return res.status(503).json({ error: "No worker has registered the rebuild job" });
                 }
+                throw err;
             }
+            const request = queueRebuild(scope, { dryRun: body.dryRun === true });
+            requestJobRun("rebuild");
+            return res.status(202).json({ request: rebuildRequestToJson(request) });
         }
 
-        // ---- response ----
+        try {
+            const report = rebuildStrategies(scope, { dryRun: body.dryRun === true });
+            res.json(report);
+        } catch (err: any) {
+            console.error("[admin] rebuild failed:", err);
+            res.status(500).json({ error: err?.message || "Rebuild failed" });
+        }
+    });
+
+    // GET /api/admin/rebuild/:id
+    // A queued rebuild: status queued | ok | error, with the report once it ran.
+    app.get("/api/admin/rebuild/:id", requireAdmin, (req, res) => {
+        const request = getRebuildRequest(Number(req.params.id));
+        if (!request) return res.status(404).json({ error: "Rebuild request not found" });
+        res.json({ request: rebuildRequestToJson(request) });
+    });
+
+    // --- webhooks (admin) ---
+
+    // GET /api/admin/webhooks
+    app.get("/api/admin/webhooks", requireAdmin, (req, res) => {
+        const rows = db.prepare("SELECT * FROM webhooks ORDER BY id ASC").all() as WebhookRow[];
+        res.json({ webhooks: rows.map(webhookToJson) });
+    });
+
+    // POST /api/admin/webhooks
+    // Body: { url, trader?, strategyId?, asset?, description?, secret? }
+    // The signing secret is generated unless given, and only returned here.
+    app.post("/api/admin/webhooks", requireAdmin, (req, res) => {
+        const body = req.body ?? {};
+
+        let url: URL;
+        try {
+            url = new URL(String(body.url || ""));
+        } catch {
+            return res.status(400).json({ error: "Invalid url" });
+        }
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+            return res.status(400).json({ error: "url must be http(s)" });
+        }
+
+        let trader: string | null = null;
+        if (body.trader != null && body.trader !== "") {
+            trader = String(body.trader).trim().toLowerCase();
+            if (!/^0x[0-9a-f]{40}$/.test(trader)) {
+                return res.status(400).json({ error: "Invalid trader address" });
+            }
+        }
+
+        let strategyId: number | null = null;
+        if (body.strategyId != null && body.strategyId !== "") {
+            strategyId = Number(body.strategyId);
+            if (!Number.isInteger(strategyId) || strategyId <= 0) {
+                return res.status(400).json({ error: "Invalid strategyId" });
+            }
+        }
+
+        const asset = body.asset ? String(body.asset).trim().toUpperCase() : null;
+        const description = body.description ? String(body.description).slice(0, 200) : null;
+
+        const secret = body.secret ? String(body.secret) : generateWebhookSecret();
+        if (secret.length < 16) {
+            return res.status(400).json({ error: "secret must be at least 16 characters" });
+        }
+
+        const info = db
+            .prepare(
+                `INSERT INTO webhooks (url, secret, trader_address, strategy_id, asset_symbol, description, is_active, created_ts)
+                VALUES (?, ?, ?, ?, ?, ?, 1, ?)`
+            )
+            .run(url.toString(), secret, trader, strategyId, asset, description, Math.floor(Date.now() / 1000));
+
+        const row = db.prepare("SELECT * FROM webhooks WHERE id = ?").get(info.lastInsertRowid) as WebhookRow;
+        res.status(201).json({ ...webhookToJson(row), secret });
+    });
+
+    // PATCH /api/admin/webhooks/:id
+    // Body: { active: boolean } - paused webhooks keep their pending deliveries until resumed.
+    app.patch("/api/admin/webhooks/:id", requireAdmin, (req, res) => {
+        const id = Number(req.params.id);
+        if (typeof req.body?.active !== "boolean") {
+            return res.status(400).json({ error: "Body must be { active: boolean }" });
+        }
+        const info = db.prepare("UPDATE webhooks SET is_active = ? WHERE id = ?").run(req.body.active ? 1 : 0, id);
+        if (info.changes === 0) return res.status(404).json({ error: "Webhook not found" });
+
+        const row = db.prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as WebhookRow;
+        res.json(webhookToJson(row));
+    });
+
+    // DELETE /api/admin/webhooks/:id (drops its delivery log too)
+    app.delete("/api/admin/webhooks/:id", requireAdmin, (req, res) => {
+        const info = db.prepare("DELETE FROM webhooks WHERE id = ?").run(Number(req.params.id));
+        if (info.changes === 0) return res.status(404).json({ error: "Webhook not found" });
+        res.status(204).end();
+    });
+
+    // GET /api/admin/webhooks/:id/deliveries?status=pending|delivered|failed&limit=
+    app.get("/api/admin/webhooks/:id/deliveries", requireAdmin, (req, res) => {
+        const id = Number(req.params.id);
+        const status = req.query.status ? String(req.query.status) : null;
+        if (status && !["pending", "delivered", "failed"].includes(status)) {
+            return res.status(400).json({ error: "Invalid status" });
+        }
+        const limit = Math.max(1, Math.min(500, Number(req.query.limit) || 100));
+
+        const rows = db
+            .prepare(
+                `SELECT * FROM webhook_deliveries
+                WHERE webhook_id = ? AND (? IS NULL OR status = ?)
+                ORDER BY id DESC
+                LIMIT ?`
+            )
+            .all(id, status, status, limit) as WebhookDeliveryRow[];
 
         res.json({
-            id: strat.id,
-            trader: strat.trader_address,
-            strategyName: strat.strategy_name,
-            firstSignalTs: strat.first_signal_ts,
-            lastSignalTs: strat.last_signal_ts,
-            lastValueIndex: strat.last_value_index,
-            window: windowLabel,
-            sampling,
-            points, // strategy curve (includes valueIndexRebased)
-        benchmark,
+            deliveries: rows.map((d) => ({ ...webhookDeliveryToJson(d), payload: JSON.parse(d.payload_json) })),
         });
     });
 
+    // POST /api/admin/webhooks/:id/replay
+    // Body: { deliveryId?: number, fromTs?: number, toTs?: number, rebuild?: boolean }
+    // Re-sends logged deliveries (one, or all created in [fromTs, toTs]) as new deliveries.
+    app.post("/api/admin/webhooks/:id/replay", requireAdmin, (req, res) => {
+        const id = Number(req.params.id);
+        const body = req.body ?? {};
 
+        const hook = db.prepare("SELECT id FROM webhooks WHERE id = ?").get(id);
+        if (!hook) return res.status(404).json({ error: "Webhook not found" });
+
+        const optNum = (v: unknown) => (v == null || v === "" ? undefined : Number(v));
+        const deliveryId = optNum(body.deliveryId);
+        const fromTs = optNum(body.fromTs);
+        const toTs = optNum(body.toTs);
+        if ([deliveryId, fromTs, toTs].some((v) => v !== undefined && !Number.isFinite(v))) {
+            return res.status(400).json({ error: "deliveryId, fromTs and toTs must be numbers" });
+        }
+        if (deliveryId === undefined && fromTs === undefined) {
+            return res.status(400).json({ error: "Specify deliveryId or fromTs" });
+        }
+
+        const created = replayWebhookDeliveries(id, {
+            deliveryId,
+            fromTs,
+            toTs,
+            rebuild: body.rebuild === true,
+        });
+        res.json({ replayed: created.length, deliveryIds: created });
+    });
+
+    // --- background jobs (admin) ---
+    // Jobs are registered by the worker process (see jobs.ts); these endpoints act on it
+    // through the jobs table, so they also work from an "api" process.
+
+    // GET /api/admin/jobs
+    app.get("/api/admin/jobs", requireAdmin, (req, res) => {
+        res.json({ jobs: listJobs().map(jobToJson) });
+    });
+
+    // GET /api/admin/jobs/:name/runs?limit=
+    // Latest runs, newest first (default 50, max 500).
+    app.get("/api/admin/jobs/:name/runs", requireAdmin, (req, res) => {
+        const limit = Math.max(1, Math.min(500, Number(req.query.limit) || 50));
+        try {
+            res.json({ runs: getJobRuns(req.params.name, limit).map(jobRunToJson) });
+        } catch (err) {
+            if (err instanceof JobNotFoundError) return res.status(404).json({ error: err.message });
+            throw err;
+        }
+    });
+
+    // POST /api/admin/jobs/:name/run
+    // Queues a run (even if paused); the worker starts it within a second, or right after
+    // the run in progress. 202 with the job.
+    app.post("/api/admin/jobs/:name/run", requireAdmin, (req, res) => {
+        try {
+            res.status(202).json({ job: jobToJson(requestJobRun(req.params.name)) });
+        } catch (err) {
+            if (err instanceof JobNotFoundError) return res.status(404).json({ error: err.message });
+            throw err;
+        }
+    });
+
+    // POST /api/admin/jobs/:name/pause and /resume
+    // A paused job has no scheduled runs (manual runs still go ahead); the pause survives restarts.
+    for (const action of ["pause", "resume"] as const) {
+        app.post(`/api/admin/jobs/:name/${action}`, requireAdmin, (req, res) => {
+            try {
+                res.json({ job: jobToJson(setJobPaused(req.params.name, action === "pause")) });
+            } catch (err) {
+                if (err instanceof JobNotFoundError) return res.status(404).json({ error: err.message });
+                throw err;
+            }
+        });
+    }
 
     app.listen(port, () => {
         console.log(`ChainSignals backend listening on http://localhost:${port}`);
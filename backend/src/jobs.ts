@@ -0,0 +1,126 @@
+import { db } from "./db";
+import { backfillHistoricalPrices } from "./prices";
+import { extendAllStrategySegments, recomputeAllStrategyStats } from "./segments";
+import { registerJob } from "./scheduler";
+import { syncSignals } from "./syncSignals";
+import { recomputeAllTradeStats } from "./trades";
+import { timeJob } from "./prometheus";
+import { processWebhookDeliveries } from "./webhooks";
+import { runQueuedRebuilds } from "./rebuild";
+
+// The periodic pipeline jobs, run by the scheduler of the worker process (scheduler.ts).
+//
+// We ONLY recompute performance hourly. New signals are still synced every 10s, but they
+// are reflected in performance/stats after the next hourly backfill + recompute.
+
+const SYNC_INTERVAL_MS = Number(process.env.SYNC_INTERVAL_MS || 10 * 1000);
+const RECOMPUTE_INTERVAL_MS = Number(process.env.RECOMPUTE_INTERVAL_MS || 60 * 1000);
+const WEBHOOK_INTERVAL_MS = Number(process.env.WEBHOOK_RETRY_INTERVAL_MS || 5 * 1000);
+const REBUILD_INTERVAL_MS = 60 * 1000;
+
+const SAFETY_LAG_SEC = 90;
+
+let prepared = false;
+
+let getMetaStmt: any;
+let needsExtensionStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    getMetaStmt = db.prepare("SELECT value FROM meta WHERE key = ?").pluck();
+
+    // A strategy needs extension if its segments end before the latest available price hour,
+    // OR if it has a signal timestamp <= lastPriceTs that is after its last_segment_end_ts.
+    needsExtensionStmt = db.prepare(`
+        SELECT 1
+        FROM strategies
+        WHERE
+            (COALESCE(last_segment_end_ts, 0) < ?)
+            OR (
+                COALESCE(last_signal_ts, 0) <= ?
+                AND COALESCE(last_signal_ts, 0) > COALESCE(last_segment_end_ts, 0)
+            )
+        LIMIT 1
+    `);
+}
+
+/**
+ * Performance recomputation. We want to be robust to upstream price sampling delays
+ * (e.g. CoinGecko 5-min grid) and occasional fetch failures, so this lightweight attempt
+ * runs every minute and always targets the last fully closed hour (with a small safety
+ * lag). This naturally retries missing hours and catches up after downtime.
+ */
+async function runHourlyRecomputeAttempt() {
+    prepareStatements();
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    const targetHourTs = Math.floor((nowSec - SAFETY_LAG_SEC) / 3600) * 3600;
+
+    // 1) backfill prices up to target hour (may do nothing)
+    await timeJob("backfill_prices", () => backfillHistoricalPrices(targetHourTs));
+
+    // 2) what hour do we actually have in prices?
+    const lastPriceRaw = getMetaStmt.get("last_price_ts") as string | undefined;
+
+    const lastPriceTs = lastPriceRaw ? parseInt(lastPriceRaw, 10) : 0;
+    if (!lastPriceTs) {
+        console.log("[tick] no last_price_ts yet; skipping segments/stats");
+        return;
+    }
+
+    // 3) Decide if there's anything to extend
+    const needsExtension = needsExtensionStmt.get(lastPriceTs, lastPriceTs);
+
+    if (!needsExtension) {
+        console.log("[tick] nothing new; skipping segments/stats recompute");
+        return;
+    }
+
+    // 4) Do the heavy work only when needed
+    timeJob("extend_segments", () => extendAllStrategySegments());
+    timeJob("recompute_stats", () => recomputeAllStrategyStats());
+    timeJob("recompute_trade_stats", () => recomputeAllTradeStats());
+}
+
+/** Register the pipeline jobs with this process's scheduler. */
+export function registerPipelineJobs() {
+    // Fast sync: check for new signals and persist them (no performance recompute here).
+    // syncSignals records its own errors, per deployment.
+    registerJob({
+        name: "sync_signals",
+        intervalMs: SYNC_INTERVAL_MS,
+        jitterMs: 1000,
+        run: () => syncSignals(),
+    });
+
+    // Run once at startup, then retry every minute.
+    registerJob({
+        name: "recompute",
+        intervalMs: RECOMPUTE_INTERVAL_MS,
+        jitterMs: 5000,
+        runOnStart: true,
+        errorSource: "recompute",
+        run: runHourlyRecomputeAttempt,
+    });
+
+    // Webhook retries: send deliveries whose backoff has elapsed.
+    // (New deliveries are also sent as soon as their signal is synced.)
+    registerJob({
+        name: "webhook_deliveries",
+        intervalMs: WEBHOOK_INTERVAL_MS,
+        jitterMs: 500,
+        errorSource: "webhooks",
+        run: () => processWebhookDeliveries(),
+    });
+
+    // Admin rebuilds queued by an API process. The API also asks for a run right away
+    // (requestJobRun); the interval only catches requests queued while no worker ran.
+    registerJob({
+        name: "rebuild",
+        intervalMs: REBUILD_INTERVAL_MS,
+        runOnStart: true,
+        run: () => runQueuedRebuilds(),
+    });
+}
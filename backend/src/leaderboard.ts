@@ -0,0 +1,285 @@
+import { db } from "./db";
+import { getRegisteredMetrics } from "./metrics";
+
+// Leaderboard query: filtering, sorting and keyset (cursor) pagination in SQL.
+//
+// Every sort key maps to one or more SQL expressions. Rows are ordered by, for each
+// expression, (expr IS NULL) then sign * expr ascending, so NULLs always come last
+// and descending order is just a negated ascending one; s.id breaks ties. The cursor
+// is that tuple for the last row of a page, and the next page is every row whose
+// tuple compares greater (SQLite row values).
+
+export type LeaderboardSortDir = "asc" | "desc";
+
+export type LeaderboardQuery = {
+    window: string;
+    sort?: string;
+    dir?: LeaderboardSortDir;
+    minDays?: number;
+    minSignals?: number;
+    asset?: string;
+    trader?: string;
+    deployment?: number; // deployments.id; every deployment when unset
+    status?: "all" | "active" | "liquidated";
+    limit?: number;
+    cursor?: string;
+};
+
+type SortSpec = { exprs: string[]; defaultDir: LeaderboardSortDir };
+
+// Built-in sort keys (API name -> SQL). "sharpe" keeps the old ordering: Sharpe first,
+// then total return (which is all young strategies without a Sharpe have).
+const SORT_KEYS: Record<string, SortSpec> = {
+    sharpe: { exprs: ["st.sharpe_annual", "st.total_return"], defaultDir: "desc" },
+    totalReturn: { exprs: ["st.total_return"], defaultDir: "desc" },
+    volatility: { exprs: ["st.vol_annual"], defaultDir: "asc" },
+    maxDrawdown: { exprs: ["st.max_drawdown"], defaultDir: "asc" },
+    grossSharpe: { exprs: ["st.gross_sharpe_annual"], defaultDir: "desc" },
+    grossTotalReturn: { exprs: ["st.gross_total_return"], defaultDir: "desc" },
+    costDrag: { exprs: ["st.cost_drag"], defaultDir: "asc" },
+    alpha: { exprs: ["st.alpha_annual"], defaultDir: "desc" },
+    beta: { exprs: ["st.beta"], defaultDir: "asc" },
+    correlation: { exprs: ["st.correlation"], defaultDir: "asc" },
+    trackingError: { exprs: ["st.tracking_error"], defaultDir: "asc" },
+    informationRatio: { exprs: ["st.information_ratio"], defaultDir: "desc" },
+    winRate: { exprs: ["st.win_rate"], defaultDir: "desc" },
+    profitFactor: { exprs: ["st.profit_factor"], defaultDir: "desc" },
+    expectancy: { exprs: ["st.expectancy"], defaultDir: "desc" },
+    avgHolding: { exprs: ["st.avg_holding_sec"], defaultDir: "desc" },
+    turnover: { exprs: ["st.turnover"], defaultDir: "asc" },
+    numSignals: { exprs: ["s.num_signals"], defaultDir: "desc" },
+    // age: older first on desc
+    age: { exprs: ["-s.first_signal_ts"], defaultDir: "desc" },
+    lastSignal: { exprs: ["s.last_signal_ts"], defaultDir: "desc" },
+};
+
+// Registry metrics (sortino, calmar, var_95, ...) can be sorted on too, via a join.
+const METRIC_SORT_EXPR = "sm.value";
+const METRIC_DEFAULT_DIR: Record<string, LeaderboardSortDir> = {
+    downside_deviation: "asc",
+    var_95: "asc",
+    var_99: "asc",
+    cvar_95: "asc",
+    cvar_99: "asc",
+    longest_drawdown_sec: "asc",
+    time_to_recovery_sec: "asc",
+};
+
+export const DEFAULT_LEADERBOARD_LIMIT = 50;
+export const MAX_LEADERBOARD_LIMIT = 200;
+
+export class LeaderboardQueryError extends Error {}
+
+export function leaderboardSortKeys(): string[] {
+    return [...Object.keys(SORT_KEYS), ...getRegisteredMetrics().map((m) => m.key)];
+}
+
+function resolveSort(sort: string): SortSpec & { metric: string | null } {
+    const builtIn = SORT_KEYS[sort];
+    if (builtIn) return { ...builtIn, metric: null };
+    if (getRegisteredMetrics().some((m) => m.key === sort)) {
+        return { exprs: [METRIC_SORT_EXPR], defaultDir: METRIC_DEFAULT_DIR[sort] ?? "desc", metric: sort };
+    }
+    throw new LeaderboardQueryError(
+        `Unknown sort "${sort}" (expected one of ${leaderboardSortKeys().join(", ")})`
+    );
+}
+
+function encodeCursor(values: unknown[]): string {
+    return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, expectedLength: number): number[] {
+    let values: unknown;
+    try {
+        values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new LeaderboardQueryError("Invalid cursor");
+    }
+    if (
+        !Array.isArray(values) ||
+        values.length !== expectedLength ||
+        !values.every((v) => typeof v === "number" && Number.isFinite(v))
+    ) {
+        throw new LeaderboardQueryError("Invalid cursor (was it issued for a different sort?)");
+    }
+    return values as number[];
+}
+
+export type LeaderboardRowDb = {
+    id: number;
+    deployment_id: number;
+    deployment_key: string;
+    trader_address: string;
+    strategy_name: string;
+    first_signal_ts: number;
+    last_signal_ts: number;
+    num_signals: number;
+    is_liquidated: number;
+    last_value_index: number;
+    last_segment_end_ts: number | null;
+    sharpe_annual: number | null;
+    vol_annual: number | null;
+    vol_hourly: number | null;
+    total_return: number | null;
+    max_drawdown: number | null;
+    gross_sharpe_annual: number | null;
+    gross_total_return: number | null;
+    cost_drag: number | null;
+    benchmark_symbol: string | null;
+    alpha_annual: number | null;
+    beta: number | null;
+    correlation: number | null;
+    tracking_error: number | null;
+    information_ratio: number | null;
+    closed_legs: number | null;
+    win_rate: number | null;
+    avg_win: number | null;
+    avg_loss: number | null;
+    profit_factor: number | null;
+    expectancy: number | null;
+    avg_holding_sec: number | null;
+    max_win_streak: number | null;
+    max_loss_streak: number | null;
+    turnover: number | null;
+    sort_metric: number | null;
+};
+
+export function queryLeaderboard(q: LeaderboardQuery): {
+    sort: string;
+    dir: LeaderboardSortDir;
+    total: number;
+    nextCursor: string | null;
+    rows: LeaderboardRowDb[];
+} {
+    const sort = q.sort || "sharpe";
+    const spec = resolveSort(sort);
+    const dir = q.dir ?? spec.defaultDir;
+    const sign = dir === "desc" ? -1 : 1;
+    const limit = Math.max(1, Math.min(MAX_LEADERBOARD_LIMIT, q.limit ?? DEFAULT_LEADERBOARD_LIMIT));
+
+    // --- filters ---
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (q.minDays != null && q.minDays > 0) {
+        where.push(`(COALESCE(s.last_segment_end_ts, s.last_signal_ts) - s.first_signal_ts) >= ?`);
+        params.push(q.minDays * 86400);
+    }
+    if (q.minSignals != null && q.minSignals > 0) {
+        where.push(`s.num_signals >= ?`);
+        params.push(q.minSignals);
+    }
+    if (q.asset) {
+        where.push(`EXISTS (
+            SELECT 1 FROM signals sg
+            WHERE sg.deployment_id = s.deployment_id
+            AND sg.trader_address = s.trader_address
+            AND sg.strategy_name = s.strategy_name
+            AND upper(sg.asset_symbol) = ?
+        )`);
+        params.push(q.asset.toUpperCase());
+    }
+    if (q.trader) {
+        where.push(`lower(s.trader_address) = ?`);
+        params.push(q.trader.toLowerCase());
+    }
+    if (q.deployment != null) {
+        where.push(`s.deployment_id = ?`);
+        params.push(q.deployment);
+    }
+    if (q.status === "active") where.push(`s.is_liquidated = 0`);
+    if (q.status === "liquidated") where.push(`s.is_liquidated = 1`);
+
+    // --- ordering tuple ---
+    const keyCols: string[] = [];
+    for (const e of spec.exprs) {
+        keyCols.push(`(${e} IS NULL)`);
+        keyCols.push(`COALESCE(${sign} * (${e}), 0)`);
+    }
+    keyCols.push("s.id");
+    const keySelect = keyCols.map((c, i) => `${c} AS k${i}`).join(",\n            ");
+    const keyNames = keyCols.map((_, i) => `k${i}`);
+
+    const from = `
+        FROM strategies s
+        JOIN deployments d
+        ON d.id = s.deployment_id
+        LEFT JOIN strategy_stats st
+        ON st.strategy_id = s.id
+        AND st.window = ?
+        LEFT JOIN strategy_metrics sm
+        ON sm.strategy_id = s.id
+        AND sm.window = ?
+        AND sm.metric = ?
+        ${where.length ? `WHERE ${where.join("\n        AND ")}` : ""}
+    `;
+    const fromParams = [q.window, q.window, spec.metric ?? "", ...params];
+
+    const total = db.prepare(`SELECT COUNT(*) ${from}`).pluck().get(...fromParams) as number;
+
+    let cursorClause = "";
+    const cursorParams: number[] = [];
+    if (q.cursor) {
+        cursorParams.push(...decodeCursor(q.cursor, keyNames.length));
+        cursorClause = `WHERE (${keyNames.join(", ")}) > (${keyNames.map(() => "?").join(", ")})`;
+    }
+
+    const rows = db
+        .prepare(
+            `
+            SELECT * FROM (
+                SELECT
+                s.id,
+                s.deployment_id,
+                d.key AS deployment_key,
+                s.trader_address,
+                s.strategy_name,
+                s.first_signal_ts,
+                s.last_signal_ts,
+                s.num_signals,
+                s.is_liquidated,
+                s.last_value_index,
+                s.last_segment_end_ts,
+                st.sharpe_annual,
+                st.vol_annual,
+                st.vol_hourly,
+                st.total_return,
+                st.max_drawdown,
+                st.gross_sharpe_annual,
+                st.gross_total_return,
+                st.cost_drag,
+                st.benchmark_symbol,
+                st.alpha_annual,
+                st.beta,
+                st.correlation,
+                st.tracking_error,
+                st.information_ratio,
+                st.closed_legs,
+                st.win_rate,
+                st.avg_win,
+                st.avg_loss,
+                st.profit_factor,
+                st.expectancy,
+                st.avg_holding_sec,
+                st.max_win_streak,
+                st.max_loss_streak,
+                st.turnover,
+                sm.value AS sort_metric,
+                ${keySelect}
+                ${from}
+            )
+            ${cursorClause}
+            ORDER BY ${keyNames.join(", ")}
+            LIMIT ?
+            `
+        )
+        .all(...fromParams, ...cursorParams, limit + 1) as (LeaderboardRowDb & Record<string, number>)[];
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    const last = page[page.length - 1];
+    const nextCursor = hasMore && last ? encodeCursor(keyNames.map((k) => last[k])) : null;
+
+    return { sort, dir, total, nextCursor, rows: page };
+}
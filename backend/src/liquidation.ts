@@ -0,0 +1,66 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Maintenance margin thresholds used by the segment engine's liquidation check.
+//
+// A leveraged or short leg with collateral C (its bucket value at the last rebalance
+// or drift step), leverage L and entry price p0 is liquidated at price p when
+//   leg equity  <= maintenance_margin * position notional
+//   C * (1 + dir * L * (p - p0) / p0)  <=  mm * C * L * p / p0
+// The leg's remaining collateral is lost (it goes to the venue's liquidation engine).
+// Unleveraged longs never borrow and cannot be liquidated.
+//
+// Configure with MAINTENANCE_MARGIN_JSON (fractions of notional):
+//   { "default": 0.005, "KAS": 0.02 }
+
+const DEFAULT_MAINTENANCE_MARGIN: Record<string, number> = {
+    default: 0.005,
+    BTC: 0.004,
+    ETH: 0.005,
+    KAS: 0.02,
+};
+
+let marginTable: Record<string, number> | null = null;
+
+function loadMarginTable(): Record<string, number> {
+    const inline = process.env.MAINTENANCE_MARGIN_JSON || "";
+    const raw: Record<string, unknown> = inline ? JSON.parse(inline) : DEFAULT_MAINTENANCE_MARGIN;
+
+    const pick = (v: unknown, fb: number) => {
+        const n = Number(v);
+        return Number.isFinite(n) && n >= 0 && n < 1 ? n : fb;
+    };
+
+    const table: Record<string, number> = {};
+    table.default = pick(raw.default ?? raw.DEFAULT, DEFAULT_MAINTENANCE_MARGIN.default);
+    for (const [asset, mm] of Object.entries(raw)) {
+        if (asset.toLowerCase() === "default") continue;
+        table[asset.toUpperCase()] = pick(mm, table.default);
+    }
+    return table;
+}
+
+export function maintenanceMargin(asset: string): number {
+    if (!marginTable) marginTable = loadMarginTable();
+    return marginTable[asset.toUpperCase()] ?? marginTable.default;
+}
+
+/**
+ * True if a leg opened at `p0` is at or beyond its liquidation point at price `p`.
+ * `direction` is +1 long / -1 short.
+ */
+export function isLiquidatedAt(
+    asset: string,
+    direction: number,
+    leverage: number,
+    p0: number,
+    p: number
+): boolean {
+    const borrowed = direction < 0 ? leverage : leverage - 1;
+    if (borrowed <= 0 || !(p0 > 0)) return false;
+
+    const legEquity = 1 + direction * leverage * ((p - p0) / p0);
+    const notional = leverage * (p / p0);
+    return legEquity <= maintenanceMargin(asset) * notional;
+}
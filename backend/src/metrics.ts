@@ -0,0 +1,194 @@
+import { drawdownSpells } from "./drawdown";
+
+// Registry of per-window risk metrics stored in strategy_metrics (key/value rows),
+// so adding a metric only needs a registerMetric() call, not a schema change.
+//
+// Every metric sees the same window slice of the net equity series:
+//  - hourlyRets: hourly-equivalent returns of the segments in the window
+//  - equity: equity points normalized to 1 at the window start (first point is the start)
+//  - hours: total hours covered
+// and returns a number, or null when there isn't enough data.
+
+export type MetricWindow = {
+    hourlyRets: number[];
+    equity: { ts: number; value: number }[];
+    hours: number;
+};
+
+export type MetricDefinition = {
+    key: string; // snake_case, stored in strategy_metrics.metric
+    description: string;
+    compute(w: MetricWindow): number | null;
+};
+
+const HOURS_PER_YEAR = 8760;
+
+// Same minimum as Sharpe (see segments.ts): fewer hourly observations are noise.
+const MIN_OBS = 24;
+
+const registry = new Map<string, MetricDefinition>();
+
+export function registerMetric(def: MetricDefinition) {
+    if (registry.has(def.key)) {
+        throw new Error(`Metric "${def.key}" is already registered`);
+    }
+    registry.set(def.key, def);
+}
+
+export function getRegisteredMetrics(): MetricDefinition[] {
+    return Array.from(registry.values());
+}
+
+/** Evaluate every registered metric on one window; failing metrics yield null. */
+export function computeRegisteredMetrics(w: MetricWindow): Record<string, number | null> {
+    const out: Record<string, number | null> = {};
+    for (const def of registry.values()) {
+        let v: number | null = null;
+        try {
+            v = def.compute(w);
+        } catch (err) {
+            console.error(`[metrics] ${def.key} failed:`, err);
+        }
+        out[def.key] = v != null && Number.isFinite(v) ? v : null;
+    }
+    return out;
+}
+
+// --- helpers ---
+
+function mean(xs: number[]): number {
+    return xs.reduce((a, x) => a + x, 0) / xs.length;
+}
+
+function centralMoment(xs: number[], m: number, k: number): number {
+    return xs.reduce((a, x) => a + Math.pow(x - m, k), 0) / xs.length;
+}
+
+function downsideDeviationHourly(rets: number[]): number {
+    return Math.sqrt(rets.reduce((a, r) => a + Math.min(r, 0) ** 2, 0) / rets.length);
+}
+
+/** Historical VaR as a positive loss: minus the `alpha` quantile of returns. */
+function historicalVaR(rets: number[], alpha: number): number {
+    const sorted = rets.slice().sort((a, b) => a - b);
+    const idx = Math.max(0, Math.floor(alpha * sorted.length) - 1);
+    return -sorted[idx];
+}
+
+/** Historical CVaR (expected shortfall) as a positive loss. */
+function historicalCVaR(rets: number[], alpha: number): number {
+    const sorted = rets.slice().sort((a, b) => a - b);
+    const n = Math.max(1, Math.floor(alpha * sorted.length));
+    return -mean(sorted.slice(0, n));
+}
+
+function maxDrawdown(equity: MetricWindow["equity"]): number {
+    let peak = -Infinity;
+    let maxDD = 0;
+    for (const p of equity) {
+        peak = Math.max(peak, p.value);
+        if (peak > 0) maxDD = Math.max(maxDD, (peak - p.value) / peak);
+    }
+    return maxDD;
+}
+
+// --- built-in metrics ---
+
+registerMetric({
+    key: "downside_deviation",
+    description: "Annualized downside deviation of hourly returns (target 0)",
+    compute: (w) =>
+        w.hourlyRets.length >= MIN_OBS
+            ? downsideDeviationHourly(w.hourlyRets) * Math.sqrt(HOURS_PER_YEAR)
+            : null,
+});
+
+registerMetric({
+    key: "sortino",
+    description: "Annualized mean hourly return over annualized downside deviation",
+    compute: (w) => {
+        if (w.hourlyRets.length < MIN_OBS) return null;
+        const dd = downsideDeviationHourly(w.hourlyRets);
+        if (dd <= 0) return null;
+        return (mean(w.hourlyRets) / dd) * Math.sqrt(HOURS_PER_YEAR);
+    },
+});
+
+registerMetric({
+    key: "calmar",
+    description: "Annualized (compounded) return over max drawdown",
+    compute: (w) => {
+        if (w.hours < MIN_OBS || w.equity.length < 2) return null;
+        const final = w.equity[w.equity.length - 1].value;
+        const dd = maxDrawdown(w.equity);
+        if (final <= 0 || dd <= 0) return null;
+        const cagr = Math.pow(final, HOURS_PER_YEAR / w.hours) - 1;
+        return cagr / dd;
+    },
+});
+
+for (const level of [95, 99]) {
+    const alpha = 1 - level / 100;
+
+    registerMetric({
+        key: `var_${level}`,
+        description: `Historical 1-hour value at risk at ${level}% (positive = loss)`,
+        compute: (w) => (w.hourlyRets.length >= MIN_OBS ? historicalVaR(w.hourlyRets, alpha) : null),
+    });
+
+    registerMetric({
+        key: `cvar_${level}`,
+        description: `Historical 1-hour expected shortfall at ${level}% (positive = loss)`,
+        compute: (w) => (w.hourlyRets.length >= MIN_OBS ? historicalCVaR(w.hourlyRets, alpha) : null),
+    });
+}
+
+registerMetric({
+    key: "skew",
+    description: "Skewness of hourly returns",
+    compute: (w) => {
+        if (w.hourlyRets.length < MIN_OBS) return null;
+        const m = mean(w.hourlyRets);
+        const m2 = centralMoment(w.hourlyRets, m, 2);
+        if (m2 <= 0) return null;
+        return centralMoment(w.hourlyRets, m, 3) / Math.pow(m2, 1.5);
+    },
+});
+
+registerMetric({
+    key: "kurtosis",
+    description: "Excess kurtosis of hourly returns",
+    compute: (w) => {
+        if (w.hourlyRets.length < MIN_OBS) return null;
+        const m = mean(w.hourlyRets);
+        const m2 = centralMoment(w.hourlyRets, m, 2);
+        if (m2 <= 0) return null;
+        return centralMoment(w.hourlyRets, m, 4) / (m2 * m2) - 3;
+    },
+});
+
+registerMetric({
+    key: "longest_drawdown_sec",
+    description: "Longest time underwater, peak to recovery (ongoing spells run to the window end)",
+    compute: (w) => {
+        if (w.equity.length < 2) return null;
+        const endTs = w.equity[w.equity.length - 1].ts;
+        let longest = 0;
+        for (const s of drawdownSpells(w.equity)) {
+            longest = Math.max(longest, (s.recoveryTs ?? endTs) - s.peakTs);
+        }
+        return longest;
+    },
+});
+
+registerMetric({
+    key: "time_to_recovery_sec",
+    description: "Time from the max drawdown's trough back to its prior peak (null if not recovered)",
+    compute: (w) => {
+        if (w.equity.length < 2) return null;
+        const spells = drawdownSpells(w.equity);
+        if (spells.length === 0) return 0;
+        const worst = spells.reduce((a, s) => (s.depth > a.depth ? s : a));
+        return worst.recoveryTs != null ? worst.recoveryTs - worst.troughTs : null;
+    },
+});
@@ -0,0 +1,88 @@
+import { keccak256, stringToBytes, verifyMessage } from "viem";
+
+// Wallet ownership of saved followers and portfolios.
+//
+// A follower or portfolio may belong to an owner address. Creating one for an owner,
+// and changing or deleting an owned one, needs a personal_sign (EIP-191) signature by
+// that address over
+//   ChainSignals: <action> <kind> <id> at <timestamp>[ body <hash>]
+// ("new" for the id on create), sent as the X-Owner-Signature and X-Owner-Timestamp
+// (unix seconds) headers. Create and update messages end with the keccak256 of the request
+// body's canonical JSON (canonicalJson), so a captured signature can't carry another
+// definition. A signature is only accepted within OWNER_SIGNATURE_MAX_AGE_SEC of the
+// server clock, so a leaked one can't be reused later.
+// Records without an owner can only be changed with the admin token (see index.ts).
+
+export type OwnedKind = "follower" | "portfolio";
+export type OwnerAction = "create" | "update" | "delete";
+
+export const OWNER_SIGNATURE_MAX_AGE_SEC = 5 * 60;
+
+export class OwnershipError extends Error {}
+
+/** JSON with object keys sorted at every level; the frontend's api.ts must produce the same. */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (value && typeof value === "object") {
+        const obj = value as Record<string, unknown>;
+        const entries = Object.keys(obj)
+            .sort()
+            .filter((k) => obj[k] !== undefined)
+            .map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`);
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+/** The message the owner signs. `body` is the request body of a create or update. */
+export function ownerActionMessage(
+    action: OwnerAction,
+    kind: OwnedKind,
+    id: number | null,
+    ts: number,
+    body?: unknown
+): string {
+    const message = `ChainSignals: ${action} ${kind} ${id ?? "new"} at ${ts}`;
+    if (action === "delete") return message;
+    return `${message} body ${keccak256(stringToBytes(canonicalJson(body)))}`;
+}
+
+/**
+ * Check that `signature` is `owner`'s signature of this action, made at `timestamp`
+ * (and of `body`, for create and update). Throws OwnershipError otherwise.
+ */
+export async function verifyOwnerSignature(
+    owner: string,
+    action: OwnerAction,
+    kind: OwnedKind,
+    id: number | null,
+    signature: unknown,
+    timestamp: unknown,
+    body?: unknown
+): Promise<void> {
+    const sig = String(signature ?? "").trim();
+    const ts = Number(timestamp);
+    if (!sig || !Number.isInteger(ts)) {
+        throw new OwnershipError("X-Owner-Signature and X-Owner-Timestamp headers are required");
+    }
+    if (!/^0x[0-9a-fA-F]+$/.test(sig)) {
+        throw new OwnershipError("Invalid owner signature");
+    }
+    if (Math.abs(Math.floor(Date.now() / 1000) - ts) > OWNER_SIGNATURE_MAX_AGE_SEC) {
+        throw new OwnershipError("Owner signature expired");
+    }
+
+    let valid = false;
+    try {
+        valid = await verifyMessage({
+            address: owner as `0x${string}`,
+            message: ownerActionMessage(action, kind, id, ts, body),
+            signature: sig as `0x${string}`,
+        });
+    } catch {
+        valid = false;
+    }
+    if (!valid) {
+        throw new OwnershipError(`Signature is not from the ${kind}'s owner`);
+    }
+}
@@ -0,0 +1,72 @@
+import { db } from "./db";
+
+// Recent errors of the background pipeline (signal sync, price backfill, segment / stats
+// recompute, webhook dispatch), counted per source for the health report (health.ts).
+// Stored in the pipeline_errors table, so an API process started with --role=api reports
+// the errors of the worker process.
+
+export type PipelineErrorSource = "sync" | "prices" | "recompute" | "webhooks" | "rpc";
+
+// Longest window anyone asks about; older entries are dropped.
+const RETAIN_SEC = 24 * 3600;
+
+let prepared = false;
+
+let insertErrorStmt: any;
+let pruneErrorsStmt: any;
+let getErrorsSinceStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    insertErrorStmt = db.prepare(`INSERT INTO pipeline_errors (source, ts, message) VALUES (?, ?, ?)`);
+    pruneErrorsStmt = db.prepare(`DELETE FROM pipeline_errors WHERE ts < ?`);
+    getErrorsSinceStmt = db.prepare(`
+        SELECT source, ts, message
+        FROM pipeline_errors
+        WHERE ts >= ?
+        ORDER BY id ASC
+    `);
+}
+
+/** One-line message of an error (viem errors carry a multi-line `message`). */
+export function pipelineErrorMessage(err: unknown): string {
+    const e = err as { shortMessage?: string; message?: string };
+    return String(e?.shortMessage || e?.message || err).slice(0, 300);
+}
+
+export function recordPipelineError(source: PipelineErrorSource, err: unknown) {
+    prepareStatements();
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    try {
+        insertErrorStmt.run(source, nowSec, pipelineErrorMessage(err));
+        pruneErrorsStmt.run(nowSec - RETAIN_SEC);
+    } catch (dbErr) {
+        // never let error bookkeeping mask the original error
+        console.error("[pipelineErrors] failed to record error:", dbErr);
+    }
+}
+
+/** Errors per source over the last `windowSec` seconds, with the latest message of each. */
+export function recentPipelineErrors(windowSec: number): {
+    total: number;
+    bySource: Partial<Record<PipelineErrorSource, { count: number; lastTs: number; lastMessage: string }>>;
+} {
+    prepareStatements();
+
+    const fromTs = Math.floor(Date.now() / 1000) - windowSec;
+    const bySource: ReturnType<typeof recentPipelineErrors>["bySource"] = {};
+    let total = 0;
+
+    const rows = getErrorsSinceStmt.all(fromTs) as { source: PipelineErrorSource; ts: number; message: string }[];
+    for (const e of rows) {
+        total++;
+        const s = (bySource[e.source] ??= { count: 0, lastTs: e.ts, lastMessage: e.message });
+        s.count++;
+        s.lastTs = e.ts;
+        s.lastMessage = e.message;
+    }
+    return { total, bySource };
+}
@@ -0,0 +1,466 @@
+import { db } from "./db";
+import { computeSeriesStats, seriesStatsToJson, type SegmentRow, type SeriesStatsJson } from "./segments";
+
+// Multi-strategy portfolios built from the stored strategy segments.
+//
+// A portfolio holds one sleeve per member strategy. Each sleeve compounds its
+// strategy's segment returns (net of the strategy's own costs; a sleeve holds cash
+// before its strategy's first segment). Target weights come from the weighting rule:
+//  - "fixed": the member weights given, normalized to sum to 1
+//  - "equal": 1 / number of members
+//  - "inverse_vol": proportional to 1 / volatility of the member's hourly returns over
+//    the trailing vol_lookback_days. Members with too little history get the average
+//    inverse volatility of the others (equal weights if nobody has enough).
+// Sleeves are set to the targets at the start and, with a rebalance schedule
+// ("daily" / "weekly" / "monthly", UTC calendar periods), at the first segment of every
+// new period; with "none" they drift from the start. Rebalancing is free.
+// The gross series replays the same weights on the strategies' gross returns.
+//
+// Everything is computed on request, so portfolios follow their strategies' rebuilds.
+
+export const PORTFOLIO_WEIGHTINGS = ["fixed", "equal", "inverse_vol"] as const;
+export type PortfolioWeighting = (typeof PORTFOLIO_WEIGHTINGS)[number];
+
+export const PORTFOLIO_REBALANCES = ["none", "daily", "weekly", "monthly"] as const;
+export type PortfolioRebalance = (typeof PORTFOLIO_REBALANCES)[number];
+
+export const MAX_PORTFOLIO_MEMBERS = 20;
+const DEFAULT_VOL_LOOKBACK_DAYS = 30;
+const MIN_VOL_OBS = 24; // same minimum as Sharpe
+
+export type PortfolioDefinition = {
+    name: string;
+    owner: string | null;
+    weighting: PortfolioWeighting;
+    rebalance: PortfolioRebalance;
+    volLookbackDays: number;
+    members: { strategyId: number; weight: number | null }[];
+};
+
+export type PortfolioRow = {
+    id: number;
+    name: string;
+    owner_address: string | null;
+    weighting: PortfolioWeighting;
+    rebalance: PortfolioRebalance;
+    vol_lookback_days: number;
+    created_ts: number;
+    updated_ts: number;
+};
+
+export class PortfolioInputError extends Error {}
+
+/** Validate a portfolio definition from a request body. */
+export function parsePortfolioDefinition(raw: Record<string, unknown>): PortfolioDefinition {
+    const name = String(raw.name ?? "").trim();
+    if (!name || name.length > 40) {
+        throw new PortfolioInputError("name is required (max 40 characters)");
+    }
+
+    let owner: string | null = null;
+    if (raw.owner != null && raw.owner !== "") {
+        owner = String(raw.owner).trim().toLowerCase();
+        if (!/^0x[0-9a-f]{40}$/.test(owner)) {
+            throw new PortfolioInputError("Invalid owner address");
+        }
+    }
+
+    const weighting = String(raw.weighting ?? "equal") as PortfolioWeighting;
+    if (!PORTFOLIO_WEIGHTINGS.includes(weighting)) {
+        throw new PortfolioInputError(`weighting must be one of ${PORTFOLIO_WEIGHTINGS.join(", ")}`);
+    }
+
+    const rebalance = String(raw.rebalance ?? "none") as PortfolioRebalance;
+    if (!PORTFOLIO_REBALANCES.includes(rebalance)) {
+        throw new PortfolioInputError(`rebalance must be one of ${PORTFOLIO_REBALANCES.join(", ")}`);
+    }
+
+    const volLookbackDays = raw.volLookbackDays == null ? DEFAULT_VOL_LOOKBACK_DAYS : Number(raw.volLookbackDays);
+    if (!Number.isInteger(volLookbackDays) || volLookbackDays < 1 || volLookbackDays > 365) {
+        throw new PortfolioInputError("volLookbackDays must be an integer in [1, 365]");
+    }
+
+    if (!Array.isArray(raw.members) || raw.members.length === 0) {
+        throw new PortfolioInputError("members must be a non-empty array of { strategyId, weight? }");
+    }
+    if (raw.members.length > MAX_PORTFOLIO_MEMBERS) {
+        throw new PortfolioInputError(`At most ${MAX_PORTFOLIO_MEMBERS} members`);
+    }
+
+    const seen = new Set<number>();
+    const members: PortfolioDefinition["members"] = [];
+    for (const m of raw.members as any[]) {
+        const strategyId = Number(m?.strategyId);
+        if (!Number.isInteger(strategyId) || strategyId <= 0) {
+            throw new PortfolioInputError("Invalid member strategyId");
+        }
+        if (seen.has(strategyId)) {
+            throw new PortfolioInputError(`Strategy ${strategyId} is listed twice`);
+        }
+        seen.add(strategyId);
+
+        let weight: number | null = null;
+        if (m?.weight != null && m.weight !== "") {
+            weight = Number(m.weight);
+            if (!Number.isFinite(weight) || weight < 0) {
+                throw new PortfolioInputError("Member weights must be non-negative numbers");
+            }
+        }
+        members.push({ strategyId, weight });
+    }
+
+    if (weighting === "fixed") {
+        if (members.some((m) => m.weight == null)) {
+            throw new PortfolioInputError('Every member needs a weight with weighting "fixed"');
+        }
+        if (members.reduce((a, m) => a + (m.weight ?? 0), 0) <= 0) {
+            throw new PortfolioInputError("Member weights must not all be zero");
+        }
+    }
+
+    return { name, owner, weighting, rebalance, volLookbackDays, members };
+}
+
+let prepared = false;
+
+let getPortfolioStmt: any;
+let getMembersStmt: any;
+let insertPortfolioStmt: any;
+let updatePortfolioStmt: any;
+let deleteMembersStmt: any;
+let insertMemberStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    getPortfolioStmt = db.prepare("SELECT * FROM portfolios WHERE id = ?");
+
+    getMembersStmt = db.prepare(`
+        SELECT pm.strategy_id, pm.weight, s.strategy_name, s.trader_address
+        FROM portfolio_members pm
+        JOIN strategies s ON s.id = pm.strategy_id
+        WHERE pm.portfolio_id = ?
+        ORDER BY pm.position ASC
+    `);
+
+    insertPortfolioStmt = db.prepare(`
+        INSERT INTO portfolios (name, owner_address, weighting, rebalance, vol_lookback_days, created_ts, updated_ts)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    updatePortfolioStmt = db.prepare(`
+        UPDATE portfolios
+        SET name = ?, owner_address = ?, weighting = ?, rebalance = ?, vol_lookback_days = ?, updated_ts = ?
+        WHERE id = ?
+    `);
+
+    deleteMembersStmt = db.prepare("DELETE FROM portfolio_members WHERE portfolio_id = ?");
+
+    insertMemberStmt = db.prepare(`
+        INSERT INTO portfolio_members (portfolio_id, strategy_id, weight, position)
+        VALUES (?, ?, ?, ?)
+    `);
+}
+
+export type PortfolioMember = {
+    strategyId: number;
+    strategyName: string;
+    trader: string;
+    weight: number | null;
+};
+
+export type Portfolio = PortfolioRow & { members: PortfolioMember[] };
+
+export function getPortfolio(id: number): Portfolio | null {
+    prepareStatements();
+    const row = getPortfolioStmt.get(id) as PortfolioRow | undefined;
+    if (!row) return null;
+
+    const members = (getMembersStmt.all(id) as any[]).map((m) => ({
+        strategyId: m.strategy_id,
+        strategyName: m.strategy_name,
+        trader: m.trader_address,
+        weight: m.weight,
+    }));
+    return { ...row, members };
+}
+
+export function portfolioDefinition(p: Portfolio): PortfolioDefinition {
+    return {
+        name: p.name,
+        owner: p.owner_address,
+        weighting: p.weighting,
+        rebalance: p.rebalance,
+        volLookbackDays: p.vol_lookback_days,
+        members: p.members.map((m) => ({ strategyId: m.strategyId, weight: m.weight })),
+    };
+}
+
+function assertStrategiesExist(def: PortfolioDefinition) {
+    const check = db.prepare("SELECT 1 FROM strategies WHERE id = ?");
+    for (const m of def.members) {
+        if (!check.get(m.strategyId)) {
+            throw new PortfolioInputError(`Strategy ${m.strategyId} not found`);
+        }
+    }
+}
+
+function writeMembers(portfolioId: number, def: PortfolioDefinition) {
+    deleteMembersStmt.run(portfolioId);
+    def.members.forEach((m, i) => insertMemberStmt.run(portfolioId, m.strategyId, m.weight, i));
+}
+
+export function createPortfolio(def: PortfolioDefinition): number {
+    prepareStatements();
+    assertStrategiesExist(def);
+
+    const now = Math.floor(Date.now() / 1000);
+    const tx = db.transaction(() => {
+        const info = insertPortfolioStmt.run(
+            def.name,
+            def.owner,
+            def.weighting,
+            def.rebalance,
+            def.volLookbackDays,
+            now,
+            now
+        );
+        const id = Number(info.lastInsertRowid);
+        writeMembers(id, def);
+        return id;
+    });
+    return tx();
+}
+
+/** Replace a portfolio's definition. Returns false if it doesn't exist. */
+export function updatePortfolio(id: number, def: PortfolioDefinition): boolean {
+    prepareStatements();
+    assertStrategiesExist(def);
+
+    const tx = db.transaction(() => {
+        const info = updatePortfolioStmt.run(
+            def.name,
+            def.owner,
+            def.weighting,
+            def.rebalance,
+            def.volLookbackDays,
+            Math.floor(Date.now() / 1000),
+            id
+        );
+        if (info.changes === 0) return false;
+        writeMembers(id, def);
+        return true;
+    });
+    return tx();
+}
+
+// --- simulation ---
+
+type MemberSegment = Pick<SegmentRow, "start_ts" | "end_ts" | "duration_sec" | "raw_return" | "gross_return">;
+
+function periodKey(ts: number, rebalance: PortfolioRebalance): number {
+    const day = Math.floor(ts / 86400);
+    switch (rebalance) {
+        case "daily":
+            return day;
+        case "weekly":
+            // 1970-01-01 was a Thursday: shift so weeks start on Monday
+            return Math.floor((day + 3) / 7);
+        case "monthly": {
+            const d = new Date(ts * 1000);
+            return d.getUTCFullYear() * 12 + d.getUTCMonth();
+        }
+        default:
+            return 0;
+    }
+}
+
+/** Sample stdev of hourly returns of segments ending in (ts - lookbackSec, ts]. */
+function trailingHourlyVol(segs: MemberSegment[], ts: number, lookbackSec: number): number | null {
+    const rets: number[] = [];
+    for (const s of segs) {
+        if (s.end_ts <= ts - lookbackSec || s.end_ts > ts || s.duration_sec <= 0) continue;
+        rets.push(s.raw_return / (s.duration_sec / 3600));
+    }
+    if (rets.length < MIN_VOL_OBS) return null;
+    const mean = rets.reduce((a, r) => a + r, 0) / rets.length;
+    const variance = rets.reduce((a, r) => a + (r - mean) * (r - mean), 0) / (rets.length - 1);
+    const sd = Math.sqrt(variance);
+    return Number.isFinite(sd) && sd > 0 ? sd : null;
+}
+
+function targetWeights(
+    def: Pick<PortfolioDefinition, "weighting" | "volLookbackDays" | "members">,
+    segsByMember: MemberSegment[][],
+    ts: number
+): number[] {
+    const n = def.members.length;
+
+    if (def.weighting === "fixed") {
+        const total = def.members.reduce((a, m) => a + (m.weight ?? 0), 0);
+        return def.members.map((m) => (total > 0 ? (m.weight ?? 0) / total : 1 / n));
+    }
+
+    if (def.weighting === "inverse_vol") {
+        const inv = segsByMember.map((segs) => {
+            const vol = trailingHourlyVol(segs, ts, def.volLookbackDays * 86400);
+            return vol != null ? 1 / vol : null;
+        });
+        const known = inv.filter((x): x is number => x != null);
+        if (known.length > 0) {
+            const avg = known.reduce((a, x) => a + x, 0) / known.length;
+            const filled = inv.map((x) => x ?? avg);
+            const total = filled.reduce((a, x) => a + x, 0);
+            return filled.map((x) => x / total);
+        }
+    }
+
+    return def.members.map(() => 1 / n);
+}
+
+export type PortfolioSimulation = {
+    segments: SegmentRow[];
+    firstTs: number | null;
+    targetWeights: number[]; // at the last rebalance
+    currentWeights: number[]; // after drift since then
+};
+
+export function simulatePortfolio(
+    def: Pick<PortfolioDefinition, "weighting" | "rebalance" | "volLookbackDays" | "members">
+): PortfolioSimulation {
+    const getSegments = db.prepare(`
+        SELECT start_ts, end_ts, duration_sec, raw_return, gross_return
+        FROM strategy_segments
+        WHERE strategy_id = ?
+        ORDER BY start_ts ASC
+    `);
+    const segsByMember = def.members.map((m) => getSegments.all(m.strategyId) as MemberSegment[]);
+    const n = def.members.length;
+
+    const empty: PortfolioSimulation = {
+        segments: [],
+        firstTs: null,
+        targetWeights: targetWeights(def, segsByMember, 0),
+        currentWeights: targetWeights(def, segsByMember, 0),
+    };
+
+    // Run from the first member's first segment to the last segment every started
+    // member has (strategies are extended together, so this is normally "now").
+    const started = segsByMember.filter((segs) => segs.length > 0);
+    if (started.length === 0) return empty;
+    const startTs = Math.min(...started.map((segs) => segs[0].start_ts));
+    const endTs = Math.min(...started.map((segs) => segs[segs.length - 1].end_ts));
+
+    const gridSet = new Set<number>();
+    for (const segs of started) {
+        for (const s of segs) {
+            if (s.start_ts >= startTs && s.start_ts <= endTs) gridSet.add(s.start_ts);
+            if (s.end_ts >= startTs && s.end_ts <= endTs) gridSet.add(s.end_ts);
+        }
+    }
+    const grid = Array.from(gridSet).sort((a, b) => a - b);
+    if (grid.length < 2) return empty;
+
+    // member segments keyed by start_ts (segments are contiguous and hourly)
+    const byStart = segsByMember.map((segs) => new Map(segs.map((s) => [s.start_ts, s])));
+
+    let weights = targetWeights(def, segsByMember, grid[0]);
+    let net = weights.slice();
+    let gross = weights.slice();
+    let valueIndex = 1.0;
+    let grossValueIndex = 1.0;
+    let period = periodKey(grid[0], def.rebalance);
+
+    const segments: SegmentRow[] = [];
+    for (let k = 0; k < grid.length - 1; k++) {
+        const tStart = grid[k];
+        const tEnd = grid[k + 1];
+
+        if (k > 0 && def.rebalance !== "none") {
+            const p = periodKey(tStart, def.rebalance);
+            if (p !== period) {
+                period = p;
+                weights = targetWeights(def, segsByMember, tStart);
+                const netTotal = net.reduce((a, v) => a + v, 0);
+                const grossTotal = gross.reduce((a, v) => a + v, 0);
+                net = weights.map((w) => w * netTotal);
+                gross = weights.map((w) => w * grossTotal);
+            }
+        }
+
+        const netStart = net.reduce((a, v) => a + v, 0);
+        const grossStart = gross.reduce((a, v) => a + v, 0);
+        for (let i = 0; i < n; i++) {
+            const s = byStart[i].get(tStart);
+            // only a segment covering exactly this step counts; otherwise the sleeve is flat
+            if (!s || s.end_ts !== tEnd) continue;
+            net[i] *= 1 + s.raw_return;
+            gross[i] *= 1 + (s.gross_return ?? s.raw_return);
+        }
+        const netEnd = net.reduce((a, v) => a + v, 0);
+        const grossEnd = gross.reduce((a, v) => a + v, 0);
+
+        const rawReturn = netStart > 0 ? netEnd / netStart - 1 : 0;
+        const grossReturn = grossStart > 0 ? grossEnd / grossStart - 1 : 0;
+        valueIndex *= 1 + rawReturn;
+        grossValueIndex *= 1 + grossReturn;
+
+        const durationSec = tEnd - tStart;
+        segments.push({
+            start_ts: tStart,
+            end_ts: tEnd,
+            duration_sec: durationSec,
+            raw_return: rawReturn,
+            hourly_equiv_ret: durationSec > 0 ? rawReturn / (durationSec / 3600) : 0,
+            value_index_end: valueIndex,
+            gross_return: grossReturn,
+            gross_value_index_end: grossValueIndex,
+        });
+    }
+
+    const netTotal = net.reduce((a, v) => a + v, 0);
+    return {
+        segments,
+        firstTs: grid[0],
+        targetWeights: weights,
+        currentWeights: net.map((v) => (netTotal > 0 ? v / netTotal : 0)),
+    };
+}
+
+export type PortfolioReport = {
+    summary: {
+        firstTs: number | null;
+        asOfTs: number | null;
+        valueIndex: number;
+        totalReturn: number;
+        grossTotalReturn: number;
+    };
+    weights: { strategyId: number; target: number; current: number }[];
+    stats: SeriesStatsJson;
+};
+
+export function buildPortfolioReport(
+    def: Pick<PortfolioDefinition, "weighting" | "rebalance" | "volLookbackDays" | "members">,
+    sim: PortfolioSimulation = simulatePortfolio(def)
+): PortfolioReport {
+    const last = sim.segments[sim.segments.length - 1];
+    const valueIndex = last ? last.value_index_end : 1.0;
+    const grossValueIndex = last ? last.gross_value_index_end ?? valueIndex : 1.0;
+
+    return {
+        summary: {
+            firstTs: sim.firstTs,
+            asOfTs: last ? last.end_ts : null,
+            valueIndex,
+            totalReturn: valueIndex - 1,
+            grossTotalReturn: grossValueIndex - 1,
+        },
+        weights: def.members.map((m, i) => ({
+            strategyId: m.strategyId,
+            target: sim.targetWeights[i],
+            current: sim.currentWeights[i],
+        })),
+        stats: seriesStatsToJson(computeSeriesStats(sim.segments)),
+    };
+}
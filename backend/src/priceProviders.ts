@@ -0,0 +1,272 @@
+import fs from "fs";
+import path from "path";
+
+// Price sources used by prices.ts.
+//
+// Selected with PRICE_PROVIDER:
+//  - "coingecko" (default): public CoinGecko API (COINGECKO_API_KEY optional)
+//  - "file": local CSV/JSON file at PRICE_FILE_PATH (air-gapped boxes)
+//  - "fixture": deterministic synthetic prices, no I/O at all (CI)
+
+export type PriceSample = { ts: number; price: number }; // ts in unix seconds
+
+export type PriceProvider = {
+    name: string;
+    /** Latest USD quote per symbol. Symbols without a quote are omitted. */
+    fetchCurrentPrices(symbols: string[]): Promise<Record<string, number>>;
+    /** Raw USD samples for one symbol in [fromSec, toSec], sorted by ts ascending. */
+    fetchHistoricalRange(symbol: string, fromSec: number, toSec: number): Promise<PriceSample[]>;
+};
+
+function sortSamples(points: PriceSample[]): PriceSample[] {
+    return points
+        .filter((p) => Number.isFinite(p.ts) && Number.isFinite(p.price) && p.price > 0)
+        .sort((a, b) => a.ts - b.ts);
+}
+
+// --- CoinGecko ---
+
+export function createCoinGeckoProvider(
+    coingeckoIds: { [symbol: string]: string },
+    apiKey = ""
+): PriceProvider {
+    const keyParam = apiKey ? `&x_cg_demo_api_key=${apiKey}` : "";
+
+    return {
+        name: "coingecko",
+
+        async fetchCurrentPrices(symbols) {
+            const wanted = symbols.filter((s) => coingeckoIds[s]);
+            if (wanted.length === 0) return {};
+
+            const ids = wanted.map((s) => coingeckoIds[s]).join(",");
+            const url =
+                `https://api.coingecko.com/api/v3/simple/price` +
+                `?ids=${ids}&vs_currencies=usd` +
+                keyParam;
+
+            const res = await fetch(url);
+            if (!res.ok) {
+                throw new Error(`Price API error: ${res.status} ${res.statusText}`);
+            }
+
+            const json: any = await res.json();
+            const result: Record<string, number> = {};
+            for (const symbol of wanted) {
+                const entry = json[coingeckoIds[symbol]];
+                if (entry && typeof entry.usd === "number") {
+                    result[symbol] = entry.usd;
+                }
+            }
+            return result;
+        },
+
+        async fetchHistoricalRange(symbol, fromSec, toSec) {
+            const cgId = coingeckoIds[symbol];
+            if (!cgId) return [];
+
+            const url =
+                `https://api.coingecko.com/api/v3/coins/${cgId}/market_chart/range` +
+                `?vs_currency=usd&from=${Math.max(0, fromSec)}&to=${toSec}` +
+                keyParam;
+
+            const res = await fetch(url);
+            if (!res.ok) {
+                throw new Error(`Price API error: ${res.status} ${res.statusText}`);
+            }
+
+            const json: any = await res.json();
+            const prices: [number, number][] = json.prices || [];
+            return sortSamples(
+                prices.map(([ms, price]) => ({ ts: Math.floor(ms / 1000), price }))
+            );
+        },
+    };
+}
+
+// --- Local file ---
+
+/**
+ * Load price samples from a local file.
+ *
+ * Supported formats:
+ *  - CSV with a header containing `asset`, `timestamp` and `price_usd` (or `price`) columns
+ *  - JSON object `{ "BTC": [[ts, price], ...], ... }`
+ *  - JSON array `[{ "asset": "BTC", "timestamp": ts, "price_usd": price }, ...]`
+ *
+ * Timestamps may be unix seconds or milliseconds.
+ */
+function loadPriceFile(filePath: string): Record<string, PriceSample[]> {
+    const raw = fs.readFileSync(filePath, "utf8");
+    const out: Record<string, PriceSample[]> = {};
+
+    const push = (assetRaw: unknown, tsRaw: unknown, priceRaw: unknown) => {
+        const asset = String(assetRaw ?? "").trim().toUpperCase();
+        let ts = Number(tsRaw);
+        const price = Number(priceRaw);
+        if (!asset || !Number.isFinite(ts) || !Number.isFinite(price)) return;
+        if (ts > 1e12) ts = Math.floor(ts / 1000);
+        if (!out[asset]) out[asset] = [];
+        out[asset].push({ ts: Math.floor(ts), price });
+    };
+
+    if (path.extname(filePath).toLowerCase() === ".json") {
+        const json: any = JSON.parse(raw);
+        if (Array.isArray(json)) {
+            for (const row of json) {
+                push(row?.asset ?? row?.asset_symbol, row?.timestamp ?? row?.ts, row?.price_usd ?? row?.price);
+            }
+        } else if (json && typeof json === "object") {
+            for (const [asset, points] of Object.entries(json)) {
+                if (!Array.isArray(points)) continue;
+                for (const p of points as any[]) {
+                    if (Array.isArray(p)) push(asset, p[0], p[1]);
+                    else push(asset, p?.timestamp ?? p?.ts, p?.price_usd ?? p?.price);
+                }
+            }
+        }
+    } else {
+        const lines = raw.split(/\r?\n/).filter((l) => l.trim().length > 0);
+        const header = (lines.shift() || "").split(",").map((h) => h.trim().toLowerCase());
+        const iAsset = header.findIndex((h) => h === "asset" || h === "asset_symbol");
+        const iTs = header.findIndex((h) => h === "timestamp" || h === "ts");
+        const iPrice = header.findIndex((h) => h === "price_usd" || h === "price");
+        if (iAsset < 0 || iTs < 0 || iPrice < 0) {
+            throw new Error(
+                `Price file ${filePath} must have asset, timestamp and price_usd columns`
+            );
+        }
+        for (const line of lines) {
+            const cols = line.split(",");
+            push(cols[iAsset], cols[iTs], cols[iPrice]);
+        }
+    }
+
+    for (const asset of Object.keys(out)) {
+        out[asset] = sortSamples(out[asset]);
+    }
+    return out;
+}
+
+export function createFilePriceProvider(filePath: string): PriceProvider {
+    if (!filePath) {
+        throw new Error("PRICE_PROVIDER=file requires PRICE_FILE_PATH");
+    }
+
+    // Re-read the file when it changes so a running backend picks up new exports.
+    let cache: Record<string, PriceSample[]> | null = null;
+    let cacheMtimeMs = -1;
+
+    const load = () => {
+        const mtimeMs = fs.statSync(filePath).mtimeMs;
+        if (!cache || mtimeMs !== cacheMtimeMs) {
+            cache = loadPriceFile(filePath);
+            cacheMtimeMs = mtimeMs;
+        }
+        return cache;
+    };
+
+    return {
+        name: "file",
+
+        async fetchCurrentPrices(symbols) {
+            const data = load();
+            const result: Record<string, number> = {};
+            for (const symbol of symbols) {
+                const series = data[symbol];
+                if (series && series.length) {
+                    result[symbol] = series[series.length - 1].price;
+                }
+            }
+            return result;
+        },
+
+        async fetchHistoricalRange(symbol, fromSec, toSec) {
+            const series = load()[symbol] || [];
+            return series.filter((p) => p.ts >= fromSec && p.ts <= toSec);
+        },
+    };
+}
+
+// --- Deterministic fixture ---
+
+const FIXTURE_BASE_PRICES: Record<string, number> = {
+    BTC: 60000,
+    ETH: 3000,
+    SOL: 150,
+    XRP: 0.6,
+    KAS: 0.12,
+    GOLD: 2300,
+    SILVER: 28,
+    SPX: 500,
+};
+
+const FIXTURE_STEP_SEC = 5 * 60; // mimic CoinGecko's ~5-minute sampling
+
+function symbolSeed(symbol: string): number {
+    let h = 0;
+    for (let i = 0; i < symbol.length; i++) {
+        h = (h * 31 + symbol.charCodeAt(i)) >>> 0;
+    }
+    return h;
+}
+
+/**
+ * Synthetic price path: a weekly and a daily wave around a fixed base price, with
+ * a per-symbol phase. Pure function of (symbol, ts) so runs are reproducible.
+ */
+export function fixturePrice(symbol: string, ts: number): number {
+    const seed = symbolSeed(symbol);
+    const base = FIXTURE_BASE_PRICES[symbol] ?? 1 + (seed % 1000) / 10;
+    const phase = (seed % 360) * (Math.PI / 180);
+    const weekly = 0.1 * Math.sin((2 * Math.PI * ts) / (7 * 24 * 3600) + phase);
+    const daily = 0.02 * Math.sin((2 * Math.PI * ts) / (24 * 3600) + 2 * phase);
+    return base * (1 + weekly + daily);
+}
+
+export function createFixturePriceProvider(): PriceProvider {
+    return {
+        name: "fixture",
+
+        async fetchCurrentPrices(symbols) {
+            const nowSec = Math.floor(Date.now() / 1000);
+            const ts = Math.floor(nowSec / FIXTURE_STEP_SEC) * FIXTURE_STEP_SEC;
+            const result: Record<string, number> = {};
+            for (const symbol of symbols) {
+                result[symbol] = fixturePrice(symbol, ts);
+            }
+            return result;
+        },
+
+        async fetchHistoricalRange(symbol, fromSec, toSec) {
+            const points: PriceSample[] = [];
+            const start = Math.ceil(fromSec / FIXTURE_STEP_SEC) * FIXTURE_STEP_SEC;
+            for (let ts = start; ts <= toSec; ts += FIXTURE_STEP_SEC) {
+                points.push({ ts, price: fixturePrice(symbol, ts) });
+            }
+            return points;
+        },
+    };
+}
+
+/**
+ * Build the provider selected by PRICE_PROVIDER (default "coingecko").
+ */
+export function createPriceProviderFromEnv(coingeckoIds: {
+    [symbol: string]: string;
+}): PriceProvider {
+    const kind = (process.env.PRICE_PROVIDER || "coingecko").trim().toLowerCase();
+
+    switch (kind) {
+        case "coingecko":
+            return createCoinGeckoProvider(coingeckoIds, process.env.COINGECKO_API_KEY || "");
+        case "file":
+            return createFilePriceProvider(process.env.PRICE_FILE_PATH || "");
+        case "fixture":
+            return createFixturePriceProvider();
+        default:
+            throw new Error(
+                `Unknown PRICE_PROVIDER "${kind}" (expected coingecko, file or fixture)`
+            );
+    }
+}
@@ -1,10 +1,11 @@
 import dotenv from "dotenv";
 import { db } from "./db";
+import { createPriceProviderFromEnv, type PriceProvider } from "./priceProviders";
+import { recordPipelineError } from "./pipelineErrors";
+import { priceFetchFailuresTotal, priceFetchesTotal } from "./prometheus";
 
 dotenv.config();
 
-const CG_API_KEY = process.env.COINGECKO_API_KEY || "";
-
 // Supported assets and their CoinGecko IDs
 export const SUPPORTED_ASSETS: { [symbol: string]: string } = {
     BTC: "bitcoin",
@@ -19,6 +20,24 @@ export const SUPPORTED_ASSETS: { [symbol: string]: string } = {
     SPX: "backed-cspx-core-s-p-500",
 };
 
+// Price source (CoinGecko, local file or fixture), chosen once via PRICE_PROVIDER.
+let priceProvider: PriceProvider | null = null;
+
+export function getPriceProvider(): PriceProvider {
+    if (!priceProvider) {
+        priceProvider = createPriceProviderFromEnv(SUPPORTED_ASSETS);
+        console.log(`[prices] using price provider: ${priceProvider.name}`);
+    }
+    return priceProvider;
+}
+
+/**
+ * Override the active price provider (e.g. a fixture provider in scripts/tests).
+ */
+export function setPriceProvider(provider: PriceProvider) {
+    priceProvider = provider;
+}
+
 // lazy prep
 let prepared = false;
 let insertPriceStmt: any;
@@ -104,33 +123,10 @@ function pickHourlyPrice(
 }
 
 /**
- * Fetch current USD prices for SUPPORTED_ASSETS from CoinGecko.
- * Uses global fetch (Node 18+).
+ * Fetch current USD prices for SUPPORTED_ASSETS from the active price provider.
  */
 export async function fetchCurrentPricesUSD(): Promise<Record<string, number>> {
-    const ids = Object.values(SUPPORTED_ASSETS).join(",");
-
-    const url =
-    `https://api.coingecko.com/api/v3/simple/price` +
-    `?ids=${ids}&vs_currencies=usd` +
-    (CG_API_KEY ? `&x_cg_demo_api_key=${CG_API_KEY}` : "");
-
-    const res = await fetch(url);
-    if (!res.ok) {
-        throw new Error(`Price API error: ${res.status} ${res.statusText}`);
-    }
-
-    const json: any = await res.json();
-    const result: Record<string, number> = {};
-
-    for (const [symbol, id] of Object.entries(SUPPORTED_ASSETS)) {
-        const entry = json[id];
-        if (entry && typeof entry.usd === "number") {
-            result[symbol] = entry.usd;
-        }
-    }
-
-    return result;
+    return getPriceProvider().fetchCurrentPrices(Object.keys(SUPPORTED_ASSETS));
 }
 
 /**
@@ -161,7 +157,7 @@ export async function recordCurrentPrices() {
  * Backfill historical prices between last_price_ts (or first signal) and now.
  *
  * For each asset:
- *  - call CoinGecko /market_chart/range ONCE
+ *  - ask the price provider for the raw samples in range ONCE
  *  - from the returned points:
  *      * build hourly bucket prices (canonical grid) into `prices`
  *      * fill prices at each signal timestamp using the NEAREST sample
@@ -173,7 +169,7 @@ export async function recordCurrentPrices() {
  *
  * - Inserts hourly prices on a canonical hourly grid.
  * - Inserts prices at each signal timestamp by snapping to the nearest sample
- *   returned by CoinGecko (no extra API calls).
+ *   returned by the price provider (no extra API calls).
  *
  * If you pass `toSecOverride`, the backfill stops exactly at that unix timestamp
  * (seconds). This is useful for hourly recomputation: set `toSecOverride` to the
@@ -228,45 +224,37 @@ export async function backfillHistoricalPrices(toSecOverride?: number) {
         `[backfill] Fetching historical prices from ${fromSec} to ${toSec} (sec)`
     );
 
-    // 3) for each asset, call CoinGecko's /market_chart/range ONCE
+    // 3) for each asset, query the price provider ONCE for the whole range
     // Also collect strategy creation timestamps in this backfill window.
     const startRows = getStrategyStartTimesInRangeStmt.all(fromSec, toSec) as { ts: number }[];
     const strategyStartTimes = startRows.map(r => r.ts);
+    const provider = getPriceProvider();
 
-    for (const [symbol, cgId] of Object.entries(SUPPORTED_ASSETS)) {
+    for (const symbol of Object.keys(SUPPORTED_ASSETS)) {
         try {
-            const url =
-            `https://api.coingecko.com/api/v3/coins/${cgId}/market_chart/range` +
-            `?vs_currency=usd&from=${Math.max(0, fromSec - 10 * 60)}&to=${toSec + 10 * 60}` +
-            (CG_API_KEY ? `&x_cg_demo_api_key=${CG_API_KEY}` : "");
-
-            const res = await fetch(url);
-            if (!res.ok) {
-                console.error(
-                    `[backfill] Failed for ${symbol}: ${res.status} ${res.statusText}`
+            let points: PricePoint[];
+            priceFetchesTotal.inc({ asset: symbol });
+            try {
+                points = await provider.fetchHistoricalRange(
+                    symbol,
+                    Math.max(0, fromSec - 10 * 60),
+                    toSec + 10 * 60
                 );
+            } catch (err: any) {
+                console.error(`[backfill] Failed for ${symbol}: ${err?.message || err}`);
+                recordPipelineError("prices", err);
+                priceFetchFailuresTotal.inc({ asset: symbol });
                 continue;
             }
 
-            const json: any = await res.json();
-            const prices: [number, number][] = json.prices || [];
-
-            if (!prices.length) {
+            if (!points.length) {
                 console.log(`[backfill] No price data for ${symbol} in range.`);
                 continue;
             }
 
-            // Convert API points to seconds + keep sorted
-            const points = prices
-            .map(([ms, price]) => ({
-                ts: Math.floor(ms / 1000),
-                                   price,
-            }))
-            .sort((a, b) => a.ts - b.ts);
-
             // A) Build hourly prices on a canonical hourly grid.
 //
-// CoinGecko often returns samples on a ~5-minute grid, so we cannot rely on
+// Providers often return samples on a ~5-minute grid (CoinGecko does), so we cannot rely on
 // receiving a point exactly at each hour boundary. Instead, for each hour
 // boundary, we pick a nearby sample (within tolerance) and store it at the
 // exact boundary timestamp.
@@ -375,6 +363,8 @@ console.log(
             }
         } catch (err) {
             console.error(`[backfill] Error fetching ${symbol}:`, err);
+            recordPipelineError("prices", err);
+            priceFetchFailuresTotal.inc({ asset: symbol });
         }
     }
 
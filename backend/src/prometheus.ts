@@ -0,0 +1,214 @@
+import type { NextFunction, Request, Response } from "express";
+
+// Metrics in the Prometheus text exposition format, served by GET /metrics.
+//
+// A minimal registry (counters, gauges, histograms with labels) plus the pipeline's
+// metrics: job durations, synced signals, price fetches, API latency per route. Gauges
+// of data lag and strategy counts are filled at scrape time (health.ts).
+
+type Labels = Record<string, string | number>;
+
+const METRIC_PREFIX = "chainsignals_";
+
+const JOB_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+    render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(v: string): string {
+    return v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelKey(labelNames: string[], labels: Labels): string {
+    return labelNames.map((n) => String(labels[n] ?? "")).join("\u0000");
+}
+
+function renderLabels(labelNames: string[], key: string, extra?: [string, string]): string {
+    const values = key === "" && labelNames.length === 0 ? [] : key.split("\u0000");
+    const parts = labelNames.map((n, i) => `${n}="${escapeLabelValue(values[i])}"`);
+    if (extra) parts.push(`${extra[0]}="${extra[1]}"`);
+    return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function formatValue(v: number): string {
+    if (Number.isNaN(v)) return "NaN";
+    if (v === Infinity) return "+Inf";
+    if (v === -Infinity) return "-Inf";
+    return String(v);
+}
+
+function header(name: string, help: string, type: string): string[] {
+    return [`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${name} ${type}`];
+}
+
+export type Counter = { inc(labels?: Labels, by?: number): void };
+export type Gauge = { set(labels: Labels, value: number): void; reset(): void };
+export type Histogram = { observe(labels: Labels, value: number): void };
+
+export function createCounter(name: string, help: string, labelNames: string[] = []): Counter {
+    const fullName = METRIC_PREFIX + name;
+    const values = new Map<string, number>();
+    registry.push({
+        render: () => [
+            ...header(fullName, help, "counter"),
+            ...[...values].map(([k, v]) => `${fullName}${renderLabels(labelNames, k)} ${formatValue(v)}`),
+        ],
+    });
+    return {
+        inc(labels = {}, by = 1) {
+            const k = labelKey(labelNames, labels);
+            values.set(k, (values.get(k) ?? 0) + by);
+        },
+    };
+}
+
+export function createGauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    const fullName = METRIC_PREFIX + name;
+    const values = new Map<string, number>();
+    registry.push({
+        render: () => [
+            ...header(fullName, help, "gauge"),
+            ...[...values].map(([k, v]) => `${fullName}${renderLabels(labelNames, k)} ${formatValue(v)}`),
+        ],
+    });
+    return {
+        set(labels, value) {
+            values.set(labelKey(labelNames, labels), value);
+        },
+        // drop every series, e.g. before re-filling gauges whose label sets change
+        reset() {
+            values.clear();
+        },
+    };
+}
+
+export function createHistogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    const fullName = METRIC_PREFIX + name;
+    const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+    registry.push({
+        render: () => {
+            const lines = header(fullName, help, "histogram");
+            for (const [k, s] of series) {
+                // bucket counts are cumulative
+                let cumulative = 0;
+                buckets.forEach((le, i) => {
+                    cumulative += s.counts[i];
+                    lines.push(`${fullName}_bucket${renderLabels(labelNames, k, ["le", formatValue(le)])} ${cumulative}`);
+                });
+                lines.push(`${fullName}_bucket${renderLabels(labelNames, k, ["le", "+Inf"])} ${s.count}`);
+                lines.push(`${fullName}_sum${renderLabels(labelNames, k)} ${formatValue(s.sum)}`);
+                lines.push(`${fullName}_count${renderLabels(labelNames, k)} ${s.count}`);
+            }
+            return lines;
+        },
+    });
+    return {
+        observe(labels, value) {
+            const k = labelKey(labelNames, labels);
+            let s = series.get(k);
+            if (!s) {
+                s = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+                series.set(k, s);
+            }
+            const i = buckets.findIndex((le) => value <= le);
+            if (i >= 0) s.counts[i]++;
+            s.sum += value;
+            s.count++;
+        },
+    };
+}
+
+/** Every registered metric, in the text exposition format (version 0.0.4). */
+export function renderMetrics(): string {
+    return registry.flatMap((m) => m.render()).join("\n") + "\n";
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// --- pipeline metrics ---
+
+const jobDuration = createHistogram(
+    "job_duration_seconds",
+    "Duration of background pipeline jobs.",
+    ["job", "outcome"],
+    JOB_BUCKETS
+);
+
+export const signalsSyncedTotal = createCounter(
+    "signals_synced_total",
+    "Signals stored by signal sync, per deployment.",
+    ["deployment"]
+);
+
+export const priceFetchesTotal = createCounter(
+    "price_fetches_total",
+    "Historical price range requests to the price provider, per asset.",
+    ["asset"]
+);
+
+export const priceFetchFailuresTotal = createCounter(
+    "price_fetch_failures_total",
+    "Failed historical price fetches (provider errors and bad responses), per asset.",
+    ["asset"]
+);
+
+const httpRequestDuration = createHistogram(
+    "http_request_duration_seconds",
+    "API request latency per matched route.",
+    ["method", "route", "status"],
+    HTTP_BUCKETS
+);
+
+/**
+ * Run `fn` (sync or async) and record its duration under `job`, with outcome
+ * "ok" or "error". Returns (or rethrows) whatever `fn` does.
+ */
+export function timeJob<T>(job: string, fn: () => T): T {
+    const start = process.hrtime.bigint();
+    const done = (outcome: "ok" | "error") =>
+        jobDuration.observe({ job, outcome }, Number(process.hrtime.bigint() - start) / 1e9);
+
+    let out: T;
+    try {
+        out = fn();
+    } catch (err) {
+        done("error");
+        throw err;
+    }
+    if (out instanceof Promise) {
+        return out.then(
+            (v) => {
+                done("ok");
+                return v;
+            },
+            (err) => {
+                done("error");
+                throw err;
+            }
+        ) as T;
+    }
+    done("ok");
+    return out;
+}
+
+/**
+ * Express middleware timing every request by its route pattern ("/api/strategy/:id",
+ * not the raw path, to keep the label set small). The SSE stream is left out: its
+ * "latency" is the connection lifetime.
+ */
+export function httpMetricsMiddleware(req: Request, res: Response, next: NextFunction) {
+    const start = process.hrtime.bigint();
+    res.on("finish", () => {
+        const route = req.route?.path ? String(req.route.path) : "unmatched";
+        if (route === "/api/stream") return;
+        httpRequestDuration.observe(
+            { method: req.method, route, status: res.statusCode },
+            Number(process.hrtime.bigint() - start) / 1e9
+        );
+    });
+    next();
+}
@@ -0,0 +1,271 @@
+import { db } from "./db";
+import {
+    extendAllStrategySegments,
+    recomputeAllStrategyStats,
+    resetStrategyDerivedState,
+} from "./segments";
+import { rebuildApproxSnapshots } from "./syncSignals";
+import { recomputeAllTradeStats } from "./trades";
+import { discardEvents, flushEvents } from "./events";
+import { pipelineErrorMessage } from "./pipelineErrors";
+
+// Full deterministic rebuild of derived strategy data.
+//
+// Wipes segments, holdings, position snapshots and stats for the selected strategies
+// and replays them from signals + stored prices. In dry-run mode the same work runs
+// inside a transaction that is rolled back, and only the before/after diff is reported.
+//
+// A rebuild is one long write transaction, so an API process (--role=api) doesn't run it
+// itself: it queues a rebuild request (queueRebuild) that the worker's "rebuild" job runs
+// between its other jobs (runQueuedRebuilds).
+
+export type RebuildScope =
+    | { kind: "strategy"; strategyId: number }
+    | { kind: "trader"; trader: string }
+    | { kind: "all" };
+
+type StatsByWindow = Record<string, Record<string, number | null>>;
+
+type StrategyState = {
+    lastValueIndex: number;
+    lastSegmentEndTs: number | null;
+    numSegments: number;
+    stats: StatsByWindow;
+};
+
+export type StrategyRebuildDiff = {
+    id: number;
+    trader: string;
+    strategyName: string;
+    before: StrategyState;
+    after: StrategyState;
+    lastValueIndexDelta: number;
+    // window -> metric -> { before, after } (only metrics that changed)
+    statsChanges: Record<string, Record<string, { before: number | null; after: number | null }>>;
+};
+
+export type RebuildReport = {
+    dryRun: boolean;
+    startedTs: number;
+    durationMs: number;
+    strategies: StrategyRebuildDiff[];
+};
+
+// Columns of strategy_stats that are bookkeeping rather than metrics.
+const NON_METRIC_STAT_COLUMNS = new Set(["id", "strategy_id", "window", "last_updated_ts"]);
+
+// Differences below this are float noise, not real changes.
+const DIFF_EPSILON = 1e-12;
+
+class DryRunRollback extends Error {}
+
+function selectStrategies(scope: RebuildScope) {
+    type Row = { id: number; trader_address: string; strategy_name: string };
+
+    if (scope.kind === "strategy") {
+        return db
+            .prepare(`SELECT id, trader_address, strategy_name FROM strategies WHERE id = ?`)
+            .all(scope.strategyId) as Row[];
+    }
+    if (scope.kind === "trader") {
+        return db
+            .prepare(
+                `SELECT id, trader_address, strategy_name FROM strategies
+                WHERE lower(trader_address) = ?
+                ORDER BY id ASC`
+            )
+            .all(scope.trader.toLowerCase()) as Row[];
+    }
+    return db
+        .prepare(`SELECT id, trader_address, strategy_name FROM strategies ORDER BY id ASC`)
+        .all() as Row[];
+}
+
+function readState(strategyId: number): StrategyState {
+    const strat = db
+        .prepare(`SELECT last_value_index, last_segment_end_ts FROM strategies WHERE id = ?`)
+        .get(strategyId) as { last_value_index: number; last_segment_end_ts: number | null };
+
+    const numSegments = db
+        .prepare(`SELECT COUNT(*) FROM strategy_segments WHERE strategy_id = ?`)
+        .pluck()
+        .get(strategyId) as number;
+
+    const statsRows = db
+        .prepare(`SELECT * FROM strategy_stats WHERE strategy_id = ?`)
+        .all(strategyId) as Record<string, any>[];
+
+    const stats: StatsByWindow = {};
+    for (const row of statsRows) {
+        const metrics: Record<string, number | null> = {};
+        for (const [col, val] of Object.entries(row)) {
+            if (NON_METRIC_STAT_COLUMNS.has(col)) continue;
+            metrics[col] = typeof val === "number" ? val : null;
+        }
+        stats[String(row.window)] = metrics;
+    }
+
+    const metricRows = db
+        .prepare(`SELECT window, metric, value FROM strategy_metrics WHERE strategy_id = ?`)
+        .all(strategyId) as { window: string; metric: string; value: number | null }[];
+    for (const r of metricRows) {
+        if (!stats[r.window]) stats[r.window] = {};
+        stats[r.window][r.metric] = r.value;
+    }
+
+    return {
+        lastValueIndex: strat.last_value_index,
+        lastSegmentEndTs: strat.last_segment_end_ts,
+        numSegments,
+        stats,
+    };
+}
+
+function diffStats(before: StatsByWindow, after: StatsByWindow) {
+    const out: StrategyRebuildDiff["statsChanges"] = {};
+    const windows = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const w of windows) {
+        const b = before[w] ?? {};
+        const a = after[w] ?? {};
+        const metrics = new Set([...Object.keys(b), ...Object.keys(a)]);
+        for (const m of metrics) {
+            const vb = b[m] ?? null;
+            const va = a[m] ?? null;
+            const same =
+                vb === va ||
+                (vb != null && va != null && Math.abs(vb - va) <= DIFF_EPSILON);
+            if (same) continue;
+            if (!out[w]) out[w] = {};
+            out[w][m] = { before: vb, after: va };
+        }
+    }
+    return out;
+}
+
+/**
+ * Wipe and recompute segments, holdings, position snapshots and stats for the
+ * strategies in `scope`. With `dryRun`, nothing is persisted.
+ *
+ * Runs synchronously in one transaction, so it never interleaves with the
+ * periodic segment/stats jobs of the same process.
+ */
+export function rebuildStrategies(scope: RebuildScope, opts: { dryRun?: boolean } = {}): RebuildReport {
+    const dryRun = !!opts.dryRun;
+    const startedMs = Date.now();
+
+    const targets = selectStrategies(scope);
+    const ids = targets.map((t) => t.id);
+    const before = new Map<number, StrategyState>();
+    for (const id of ids) before.set(id, readState(id));
+
+    let diffs: StrategyRebuildDiff[] = [];
+
+    const tx = db.transaction(() => {
+        for (const id of ids) {
+            resetStrategyDerivedState(id);
+            rebuildApproxSnapshots(id);
+        }
+
+        if (ids.length > 0) {
+            extendAllStrategySegments(ids);
+            recomputeAllStrategyStats(ids);
+            recomputeAllTradeStats(ids);
+        }
+
+        diffs = targets.map((t) => {
+            const b = before.get(t.id)!;
+            const a = readState(t.id);
+            return {
+                id: t.id,
+                trader: t.trader_address,
+                strategyName: t.strategy_name,
+                before: b,
+                after: a,
+                lastValueIndexDelta: a.lastValueIndex - b.lastValueIndex,
+                statsChanges: diffStats(b.stats, a.stats),
+            };
+        });
+
+        if (dryRun) throw new DryRunRollback();
+    });
+
+    try {
+        tx();
+        flushEvents();
+    } catch (err) {
+        // Live-update events raised inside the rolled-back transaction never happened.
+        discardEvents();
+        if (!(err instanceof DryRunRollback)) throw err;
+    }
+
+    console.log(
+        `[rebuild] ${dryRun ? "dry-run of" : "rebuilt"} ${ids.length} strateg${ids.length === 1 ? "y" : "ies"} in ${Date.now() - startedMs}ms`
+    );
+
+    return {
+        dryRun,
+        startedTs: Math.floor(startedMs / 1000),
+        durationMs: Date.now() - startedMs,
+        strategies: diffs,
+    };
+}
+
+export type RebuildRequestStatus = "queued" | "ok" | "error";
+
+export type RebuildRequestRow = {
+    id: number;
+    scope_json: string;
+    dry_run: number;
+    status: RebuildRequestStatus;
+    requested_ts: number;
+    finished_ts: number | null;
+    report_json: string | null;
+    error: string | null;
+};
+
+// Finished requests, with their reports, are kept this long.
+const REQUEST_RETAIN_SEC = 7 * 86400;
+
+/** Queue a rebuild for the worker. Returns the request. */
+export function queueRebuild(scope: RebuildScope, opts: { dryRun?: boolean } = {}): RebuildRequestRow {
+    const info = db
+        .prepare(
+            `INSERT INTO rebuild_requests (scope_json, dry_run, status, requested_ts)
+            VALUES (?, ?, 'queued', ?)`
+        )
+        .run(JSON.stringify(scope), opts.dryRun ? 1 : 0, Math.floor(Date.now() / 1000));
+    return getRebuildRequest(Number(info.lastInsertRowid))!;
+}
+
+export function getRebuildRequest(id: number): RebuildRequestRow | undefined {
+    return db.prepare(`SELECT * FROM rebuild_requests WHERE id = ?`).get(id) as RebuildRequestRow | undefined;
+}
+
+/**
+ * Run the queued rebuild requests, oldest first, and store their reports. A request
+ * left queued by a worker that died is run by the next one.
+ */
+export function runQueuedRebuilds() {
+    const nowSec = Math.floor(Date.now() / 1000);
+    db.prepare(`DELETE FROM rebuild_requests WHERE status != 'queued' AND finished_ts < ?`).run(
+        nowSec - REQUEST_RETAIN_SEC
+    );
+
+    const queued = db
+        .prepare(`SELECT * FROM rebuild_requests WHERE status = 'queued' ORDER BY id ASC`)
+        .all() as RebuildRequestRow[];
+    const finish = db.prepare(
+        `UPDATE rebuild_requests SET status = ?, finished_ts = ?, report_json = ?, error = ? WHERE id = ?`
+    );
+
+    for (const r of queued) {
+        try {
+            const report = rebuildStrategies(JSON.parse(r.scope_json), { dryRun: r.dry_run === 1 });
+            finish.run("ok", Math.floor(Date.now() / 1000), JSON.stringify(report), null, r.id);
+        } catch (err) {
+            console.error(`[rebuild] request ${r.id} failed:`, err);
+            finish.run("error", Math.floor(Date.now() / 1000), null, pipelineErrorMessage(err), r.id);
+        }
+    }
+}
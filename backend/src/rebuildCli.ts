@@ -0,0 +1,92 @@
+// CLI: wipe and recompute derived strategy data.
+//
+//   npm run rebuild -- --strategy 12 [--dry-run]
+//   npm run rebuild -- --trader 0xabc... [--dry-run]
+//   npm run rebuild -- --all [--dry-run] [--json]
+import type { RebuildScope } from "./rebuild";
+
+function usage(): never {
+    console.error(
+        "Usage: rebuild (--strategy <id> | --trader <address> | --all) [--dry-run] [--json]"
+    );
+    process.exit(2);
+}
+
+function parseArgs(argv: string[]): { scope: RebuildScope; dryRun: boolean; json: boolean } {
+    let scope: RebuildScope | null = null;
+    let dryRun = false;
+    let json = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === "--strategy") {
+            const id = Number(argv[++i]);
+            if (!Number.isInteger(id) || id <= 0) usage();
+            scope = { kind: "strategy", strategyId: id };
+        } else if (arg === "--trader") {
+            const trader = String(argv[++i] || "").trim();
+            if (!trader) usage();
+            scope = { kind: "trader", trader };
+        } else if (arg === "--all") {
+            scope = { kind: "all" };
+        } else if (arg === "--dry-run") {
+            dryRun = true;
+        } else if (arg === "--json") {
+            json = true;
+        } else {
+            usage();
+        }
+    }
+
+    if (!scope) usage();
+    return { scope, dryRun, json };
+}
+
+function fmt(v: number | null | undefined): string {
+    if (v == null || !Number.isFinite(v)) return "—";
+    return Number(v).toPrecision(6);
+}
+
+function main() {
+    const { scope, dryRun, json } = parseArgs(process.argv.slice(2));
+
+    // With --json the report is the only thing on stdout: logging, including what modules
+    // print when loaded (hence required, not imported), goes to stderr.
+    const log = console.log;
+    if (json) console.log = console.error;
+    const { initDb } = require("./db") as typeof import("./db");
+    const { rebuildStrategies } = require("./rebuild") as typeof import("./rebuild");
+
+    initDb();
+    const report = rebuildStrategies(scope, { dryRun });
+
+    if (json) {
+        log(JSON.stringify(report, null, 2));
+        return;
+    }
+
+    if (report.strategies.length === 0) {
+        console.log("No matching strategies.");
+        return;
+    }
+
+    for (const s of report.strategies) {
+        console.log(
+            `#${s.id} ${s.strategyName} (${s.trader}): last_value_index ` +
+                `${fmt(s.before.lastValueIndex)} -> ${fmt(s.after.lastValueIndex)} ` +
+                `(segments ${s.before.numSegments} -> ${s.after.numSegments})`
+        );
+        for (const [window, metrics] of Object.entries(s.statsChanges)) {
+            for (const [metric, d] of Object.entries(metrics)) {
+                console.log(`    ${window.padEnd(4)} ${metric.padEnd(16)} ${fmt(d.before)} -> ${fmt(d.after)}`);
+            }
+        }
+    }
+
+    console.log(
+        `${report.dryRun ? "Dry run: nothing was written." : "Rebuild committed."} ` +
+            `${report.strategies.length} strateg${report.strategies.length === 1 ? "y" : "ies"}, ${report.durationMs}ms`
+    );
+}
+
+main();
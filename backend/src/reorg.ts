@@ -0,0 +1,222 @@
+import type { PublicClient } from "viem";
+import { db } from "./db";
+import { resetStrategyDerivedState } from "./segments";
+
+// Reorg protection for synced signals, per deployment.
+//
+// Every sync pass that advances a cursor records a checkpoint: the block it read at,
+// that block's hash and the last signal index known at that block. Since a block hash
+// commits to all of its ancestors, a checkpoint whose hash is still canonical proves
+// that every signal up to its last_signal_id is final. Before each sync we walk the
+// recent checkpoints from newest to oldest; if the newest no longer matches the chain,
+// everything after the newest matching checkpoint is rolled back and re-synced.
+
+// How many checkpoints to keep (and at most how many to re-check per pass).
+const REORG_CHECKPOINTS_KEPT = Number(process.env.REORG_CHECKPOINTS_KEPT || "100");
+
+export type SyncCheckpoint = {
+    block_number: number;
+    block_hash: string;
+    last_signal_id: number;
+};
+
+let prepared = false;
+
+let getDeploymentCursorStmt: any;
+let setSignalCursorStmt: any;
+let setBlockCursorStmt: any;
+let insertCheckpointStmt: any;
+let pruneCheckpointsStmt: any;
+let getRecentCheckpointsStmt: any;
+let deleteCheckpointsAfterStmt: any;
+let getAffectedStrategiesStmt: any;
+let deleteSignalsAfterStmt: any;
+let getRemainingSignalStatsStmt: any;
+let getStrategyIdStmt: any;
+let deleteStrategyStmt: any;
+let updateStrategySignalStatsStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    getDeploymentCursorStmt = db.prepare(`SELECT last_block_synced FROM deployments WHERE id = ?`);
+    setSignalCursorStmt = db.prepare(`UPDATE deployments SET last_signal_index_synced = ? WHERE id = ?`);
+    setBlockCursorStmt = db.prepare(`UPDATE deployments SET last_block_synced = ? WHERE id = ?`);
+
+    insertCheckpointStmt = db.prepare(`
+    INSERT OR REPLACE INTO sync_checkpoints (deployment_id, block_number, block_hash, last_signal_id, created_ts)
+    VALUES (?, ?, ?, ?, ?)
+    `);
+
+    pruneCheckpointsStmt = db.prepare(`
+    DELETE FROM sync_checkpoints
+    WHERE deployment_id = ?
+    AND block_number NOT IN (
+        SELECT block_number FROM sync_checkpoints
+        WHERE deployment_id = ?
+        ORDER BY block_number DESC
+        LIMIT ?
+    )
+    `);
+
+    getRecentCheckpointsStmt = db.prepare(`
+    SELECT block_number, block_hash, last_signal_id
+    FROM sync_checkpoints
+    WHERE deployment_id = ?
+    ORDER BY block_number DESC
+    LIMIT ?
+    `);
+
+    deleteCheckpointsAfterStmt = db.prepare(
+        `DELETE FROM sync_checkpoints WHERE deployment_id = ? AND block_number > ?`
+    );
+
+    getAffectedStrategiesStmt = db.prepare(`
+    SELECT DISTINCT trader_address, strategy_name
+    FROM signals
+    WHERE deployment_id = ? AND signal_index > ?
+    `);
+
+    deleteSignalsAfterStmt = db.prepare(`DELETE FROM signals WHERE deployment_id = ? AND signal_index > ?`);
+
+    getRemainingSignalStatsStmt = db.prepare(`
+    SELECT MIN(timestamp) AS first_ts, MAX(timestamp) AS last_ts, COUNT(*) AS n
+    FROM signals
+    WHERE deployment_id = ? AND trader_address = ? AND strategy_name = ?
+    `);
+
+    getStrategyIdStmt = db.prepare(`
+    SELECT id FROM strategies
+    WHERE deployment_id = ? AND trader_address = ? AND strategy_name = ?
+    `);
+
+    deleteStrategyStmt = db.prepare(`DELETE FROM strategies WHERE id = ?`);
+
+    updateStrategySignalStatsStmt = db.prepare(`
+    UPDATE strategies
+    SET first_signal_ts = ?, last_signal_ts = ?, num_signals = ?
+    WHERE id = ?
+    `);
+}
+
+/**
+ * Record that all of a deployment's signals up to `lastSignalId` (on-chain index) were
+ * synced as of `blockNumber`. Call inside the same transaction that advanced the sync cursor.
+ */
+export function recordSyncCheckpoint(
+    deploymentId: number,
+    blockNumber: bigint,
+    blockHash: string,
+    lastSignalId: number
+) {
+    prepareStatements();
+
+    insertCheckpointStmt.run(
+        deploymentId,
+        Number(blockNumber),
+        blockHash,
+        lastSignalId,
+        Math.floor(Date.now() / 1000)
+    );
+    pruneCheckpointsStmt.run(deploymentId, deploymentId, REORG_CHECKPOINTS_KEPT);
+}
+
+/**
+ * Compare recent checkpoints with the chain. Returns null if the newest checkpoint
+ * is still canonical, otherwise the newest checkpoint that still is (or a synthetic
+ * "nothing is safe" checkpoint if none of the kept ones match).
+ */
+export async function findReorgRollbackPoint(
+    deploymentId: number,
+    client: PublicClient
+): Promise<SyncCheckpoint | null> {
+    prepareStatements();
+
+    const checkpoints = getRecentCheckpointsStmt.all(deploymentId, REORG_CHECKPOINTS_KEPT) as SyncCheckpoint[];
+    if (checkpoints.length === 0) return null;
+
+    for (let i = 0; i < checkpoints.length; i++) {
+        const cp = checkpoints[i];
+        let canonicalHash: string | null = null;
+        try {
+            const block = await client.getBlock({ blockNumber: BigInt(cp.block_number) });
+            canonicalHash = block.hash ?? null;
+        } catch {
+            // Block vanished (chain shorter than before) counts as a mismatch.
+            canonicalHash = null;
+        }
+
+        if (canonicalHash && canonicalHash.toLowerCase() === cp.block_hash.toLowerCase()) {
+            return i === 0 ? null : cp;
+        }
+    }
+
+    // Reorg deeper than every kept checkpoint: nothing we synced can be trusted.
+    return { block_number: -1, block_hash: "", last_signal_id: -1 };
+}
+
+/**
+ * Delete every signal of the deployment after `cp.last_signal_id`, rewind its sync cursors to `cp`
+ * and reset derived data of the strategies those signals belonged to.
+ * Strategies left without signals are removed entirely.
+ *
+ * Must run inside a transaction. Returns ids of strategies that still exist and
+ * need their approximate position snapshots rebuilt.
+ */
+export function rollbackToCheckpoint(deploymentId: number, cp: SyncCheckpoint): number[] {
+    prepareStatements();
+
+    const affected = getAffectedStrategiesStmt.all(deploymentId, cp.last_signal_id) as {
+        trader_address: string;
+        strategy_name: string;
+    }[];
+
+    deleteSignalsAfterStmt.run(deploymentId, cp.last_signal_id);
+    deleteCheckpointsAfterStmt.run(deploymentId, cp.block_number);
+
+    const survivors: number[] = [];
+
+    for (const a of affected) {
+        const stratRow = getStrategyIdStmt.get(deploymentId, a.trader_address, a.strategy_name) as
+            | { id: number }
+            | undefined;
+        if (!stratRow) continue;
+
+        const remaining = getRemainingSignalStatsStmt.get(deploymentId, a.trader_address, a.strategy_name) as {
+            first_ts: number | null;
+            last_ts: number | null;
+            n: number;
+        };
+
+        if (!remaining || remaining.n === 0 || remaining.first_ts == null) {
+            // ON DELETE CASCADE removes segments, holdings, snapshots and stats.
+            deleteStrategyStmt.run(stratRow.id);
+            continue;
+        }
+
+        updateStrategySignalStatsStmt.run(
+            remaining.first_ts,
+            remaining.last_ts,
+            remaining.n,
+            stratRow.id
+        );
+        resetStrategyDerivedState(stratRow.id);
+        survivors.push(stratRow.id);
+    }
+
+    setSignalCursorStmt.run(cp.last_signal_id, deploymentId);
+
+    // Only rewind the log cursor if log-based sync has been used.
+    const cursor = getDeploymentCursorStmt.get(deploymentId) as { last_block_synced: number | null } | undefined;
+    if (cursor?.last_block_synced != null) {
+        setBlockCursorStmt.run(cp.block_number >= 0 ? cp.block_number : null, deploymentId);
+    }
+
+    console.warn(
+        `[reorg] deployment ${deploymentId}: rolled back to block ${cp.block_number} / signal ${cp.last_signal_id}; ` +
+            `${affected.length} strateg${affected.length === 1 ? "y" : "ies"} affected`
+    );
+
+    return survivors;
+}
@@ -0,0 +1,109 @@
+import { priceAtOrBefore, type PriceSeries } from "./segments";
+
+// Period (calendar) returns of a segment series, from value_index_end: each UTC day,
+// ISO week (Monday to Monday), month or year's return is the value index at its last
+// segment end over the value index at the previous period's last segment end (1.0
+// before the first one). The first and last periods are partial. A segment belongs to
+// the period its end falls in, so one ending exactly at midnight closes the day before.
+
+export const RETURN_PERIODS = ["day", "week", "month", "year"] as const;
+export type ReturnPeriod = (typeof RETURN_PERIODS)[number];
+
+export class ReturnsQueryError extends Error {}
+
+export type PeriodReturn = {
+    label: string; // 2026-10-19 | 2026-W43 | 2026-10 | 2026
+    startTs: number; // previous period's last segment end (or the first segment start)
+    endTs: number;
+    return: number | null; // null once the series is wiped out
+    benchmarkReturn: number | null;
+};
+
+const DAY = 24 * 60 * 60;
+
+export function parseReturnPeriod(raw: unknown): ReturnPeriod {
+    const period = String(raw ?? "month").toLowerCase() as ReturnPeriod;
+    if (!RETURN_PERIODS.includes(period)) {
+        throw new ReturnsQueryError(`period must be one of ${RETURN_PERIODS.join(", ")}`);
+    }
+    return period;
+}
+
+/** UTC start of the period containing `ts`. */
+function periodStartTs(ts: number, period: ReturnPeriod): number {
+    const d = new Date(ts * 1000);
+    switch (period) {
+        case "day":
+            return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / 1000;
+        case "week": {
+            const day = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / 1000;
+            return day - ((d.getUTCDay() + 6) % 7) * DAY; // back to Monday
+        }
+        case "month":
+            return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1) / 1000;
+        case "year":
+            return Date.UTC(d.getUTCFullYear(), 0, 1) / 1000;
+    }
+}
+
+function periodLabel(startTs: number, period: ReturnPeriod): string {
+    const iso = new Date(startTs * 1000).toISOString();
+    switch (period) {
+        case "day":
+            return iso.slice(0, 10);
+        case "week": {
+            // ISO week: the week with the year's first Thursday is week 1
+            const thursday = new Date((startTs + 3 * DAY) * 1000);
+            const year = thursday.getUTCFullYear();
+            const week = Math.floor((thursday.getTime() / 1000 - Date.UTC(year, 0, 1) / 1000) / (7 * DAY)) + 1;
+            return `${year}-W${String(week).padStart(2, "0")}`;
+        }
+        case "month":
+            return iso.slice(0, 7);
+        case "year":
+            return iso.slice(0, 4);
+    }
+}
+
+/**
+ * Returns per period of `segments` (sorted by end_ts), with the benchmark's price
+ * return over the same span when a price series is given.
+ */
+export function computePeriodReturns(
+    segments: { start_ts: number; end_ts: number; value_index_end: number }[],
+    period: ReturnPeriod,
+    benchmark?: PriceSeries
+): PeriodReturn[] {
+    const out: PeriodReturn[] = [];
+    if (segments.length === 0) return out;
+
+    let startTs = segments[0].start_ts;
+    let baseValue = 1.0;
+
+    for (let i = 0; i < segments.length; ) {
+        const key = periodStartTs(segments[i].end_ts - 1, period);
+        let j = i;
+        while (j + 1 < segments.length && periodStartTs(segments[j + 1].end_ts - 1, period) === key) j++;
+
+        const last = segments[j];
+        let benchmarkReturn: number | null = null;
+        if (benchmark) {
+            const p0 = priceAtOrBefore(benchmark, startTs);
+            const p1 = priceAtOrBefore(benchmark, last.end_ts);
+            if (p0 != null && p1 != null) benchmarkReturn = p1 / p0 - 1;
+        }
+
+        out.push({
+            label: periodLabel(key, period),
+            startTs,
+            endTs: last.end_ts,
+            return: baseValue > 0 ? last.value_index_end / baseValue - 1 : null,
+            benchmarkReturn,
+        });
+
+        startTs = last.end_ts;
+        baseValue = last.value_index_end;
+        i = j + 1;
+    }
+    return out;
+}
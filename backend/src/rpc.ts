@@ -0,0 +1,235 @@
+import { HttpRequestError, TimeoutError, http, type Chain } from "viem";
+
+// Failover pool over several JSON-RPC endpoints, used as the transport of the chain
+// client (chain.ts).
+//
+// Every call goes to one endpoint at a time:
+//  - "priority":    the first healthy endpoint in the configured order
+//  - "round_robin": healthy endpoints in turn, starting one further each call
+// Endpoint faults (network errors, timeouts, HTTP errors, rate limits and internal
+// node errors) fail over to the next endpoint and put the failing one on a cooldown
+// of RPC backoff * 2^(failures-1), capped at the max backoff. Once every endpoint has
+// failed, the whole list is retried after the same exponential backoff, up to
+// `retries` times. Other JSON-RPC errors (reverts, bad params) are the node's answer
+// and are thrown as is.
+//
+// Health checks call eth_chainId on every endpoint; one that reports another chain id
+// than the configured one is never used until it reports the right one again.
+
+export type RpcStrategy = "priority" | "round_robin";
+
+export type RpcPoolOptions = {
+    strategy: RpcStrategy;
+    timeoutMs: number; // per call
+    retries: number; // extra rounds over the whole list once every endpoint failed
+    backoffMs: number;
+    maxBackoffMs: number;
+};
+
+export type RpcEndpointHealth = {
+    url: string; // redacted (origin only): endpoint paths often carry API keys
+    healthy: boolean;
+    chainId: number | null; // last reported by eth_chainId
+    chainIdOk: boolean | null; // null until checked
+    latencyMs: number | null; // last health check
+    lastCheckTs: number | null;
+    lastOkTs: number | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+    cooldownUntilTs: number | null;
+    requests: number;
+    failures: number;
+};
+
+export type RpcPool = {
+    strategy: RpcStrategy;
+    request(args: { method: string; params?: unknown }): Promise<unknown>;
+    checkHealth(): Promise<void>;
+    health(): RpcEndpointHealth[];
+};
+
+export class RpcUnavailableError extends Error {}
+
+type Endpoint = {
+    url: string;
+    transport: ReturnType<ReturnType<typeof http>>;
+    chainId: number | null;
+    chainIdOk: boolean | null;
+    latencyMs: number | null;
+    lastCheckTs: number | null;
+    lastOkTs: number | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+    cooldownUntilMs: number;
+    requests: number;
+    failures: number;
+};
+
+// JSON-RPC error codes that say more about the node than about the request:
+// unknown (-1), generic server error (-32000, e.g. a lagging node's "header not
+// found"), limit exceeded (-32005) and internal error (-32603).
+const ENDPOINT_FAULT_CODES = new Set([-1, -32000, -32005, -32603]);
+
+function isEndpointFault(err: unknown): boolean {
+    if (err instanceof HttpRequestError || err instanceof TimeoutError) return true;
+    const code = (err as { code?: unknown })?.code;
+    if (typeof code === "number") return ENDPOINT_FAULT_CODES.has(code);
+    // no JSON-RPC error code at all: a transport-level failure
+    return true;
+}
+
+function errorMessage(err: unknown): string {
+    const e = err as { shortMessage?: string; message?: string };
+    return String(e?.shortMessage || e?.message || err).slice(0, 300);
+}
+
+export function redactRpcUrl(url: string): string {
+    try {
+        const u = new URL(url);
+        return u.pathname && u.pathname !== "/" ? `${u.origin}/…` : u.origin;
+    } catch {
+        return "(invalid url)";
+    }
+}
+
+export function parseRpcStrategy(raw: string | undefined): RpcStrategy {
+    const s = (raw || "priority").trim().toLowerCase().replace("-", "_");
+    if (s !== "priority" && s !== "round_robin") {
+        throw new Error(`Unknown CHAIN_RPC_STRATEGY "${raw}" (expected priority or round_robin)`);
+    }
+    return s;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createRpcPool(urls: string[], chain: Chain, opts: RpcPoolOptions): RpcPool {
+    if (urls.length === 0) throw new Error("No RPC endpoints configured");
+
+    const endpoints: Endpoint[] = urls.map((url) => ({
+        url,
+        transport: http(url, { timeout: opts.timeoutMs, retryCount: 0 })({ chain, retryCount: 0 }),
+        chainId: null,
+        chainIdOk: null,
+        latencyMs: null,
+        lastCheckTs: null,
+        lastOkTs: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        cooldownUntilMs: 0,
+        requests: 0,
+        failures: 0,
+    }));
+    let cursor = 0;
+
+    const backoffMs = (n: number) => Math.min(opts.maxBackoffMs, opts.backoffMs * Math.pow(2, Math.max(0, n - 1)));
+
+    function markOk(ep: Endpoint) {
+        ep.consecutiveFailures = 0;
+        ep.cooldownUntilMs = 0;
+        ep.lastOkTs = Math.floor(Date.now() / 1000);
+    }
+
+    function markFailed(ep: Endpoint, err: unknown) {
+        ep.failures++;
+        ep.consecutiveFailures++;
+        ep.lastError = errorMessage(err);
+        ep.cooldownUntilMs = Date.now() + backoffMs(ep.consecutiveFailures);
+    }
+
+    /** Endpoints to try for one call: usable ones off cooldown first, in strategy order. */
+    function candidates(): Endpoint[] {
+        let ordered = endpoints.filter((ep) => ep.chainIdOk !== false);
+        if (opts.strategy === "round_robin" && ordered.length > 1) {
+            const start = cursor++ % ordered.length;
+            ordered = [...ordered.slice(start), ...ordered.slice(0, start)];
+        }
+        const now = Date.now();
+        return [
+            ...ordered.filter((ep) => ep.cooldownUntilMs <= now),
+            // all cooling down: still better than failing outright
+            ...ordered.filter((ep) => ep.cooldownUntilMs > now),
+        ];
+    }
+
+    async function request({ method, params }: { method: string; params?: unknown }): Promise<unknown> {
+        let lastErr: unknown = null;
+
+        for (let round = 0; round <= opts.retries; round++) {
+            if (round > 0) await sleep(backoffMs(round));
+
+            const list = candidates();
+            if (list.length === 0) {
+                throw new RpcUnavailableError(
+                    `No usable RPC endpoint (every endpoint reports a chain id other than ${chain.id})`
+                );
+            }
+
+            for (const ep of list) {
+                ep.requests++;
+                try {
+                    const result = await ep.transport.request({ method, params } as never);
+                    markOk(ep);
+                    return result;
+                } catch (err) {
+                    if (!isEndpointFault(err)) throw err;
+                    markFailed(ep, err);
+                    lastErr = err;
+                    console.warn(`[rpc] ${method} failed on ${redactRpcUrl(ep.url)}: ${ep.lastError}`);
+                }
+            }
+        }
+
+        throw lastErr ?? new RpcUnavailableError("RPC request failed");
+    }
+
+    async function checkEndpoint(ep: Endpoint) {
+        const started = Date.now();
+        ep.lastCheckTs = Math.floor(started / 1000);
+        try {
+            const raw = (await ep.transport.request({ method: "eth_chainId" } as never)) as string;
+            ep.latencyMs = Date.now() - started;
+            ep.chainId = Number(raw);
+            const ok = ep.chainId === chain.id;
+            if (!ok && ep.chainIdOk !== false) {
+                console.error(
+                    `[rpc] ${redactRpcUrl(ep.url)} reports chain id ${ep.chainId}, expected ${chain.id}; not using it`
+                );
+            }
+            ep.chainIdOk = ok;
+            if (ok) {
+                markOk(ep);
+                ep.lastError = null;
+            } else {
+                ep.lastError = `chain id ${ep.chainId} (expected ${chain.id})`;
+            }
+        } catch (err) {
+            ep.latencyMs = null;
+            markFailed(ep, err);
+        }
+    }
+
+    return {
+        strategy: opts.strategy,
+        request,
+        async checkHealth() {
+            await Promise.all(endpoints.map(checkEndpoint));
+        },
+        health() {
+            const now = Date.now();
+            return endpoints.map((ep) => ({
+                url: redactRpcUrl(ep.url),
+                healthy: ep.chainIdOk !== false && ep.cooldownUntilMs <= now,
+                chainId: ep.chainId,
+                chainIdOk: ep.chainIdOk,
+                latencyMs: ep.latencyMs,
+                lastCheckTs: ep.lastCheckTs,
+                lastOkTs: ep.lastOkTs,
+                lastError: ep.lastError,
+                consecutiveFailures: ep.consecutiveFailures,
+                cooldownUntilTs: ep.cooldownUntilMs > now ? Math.floor(ep.cooldownUntilMs / 1000) : null,
+                requests: ep.requests,
+                failures: ep.failures,
+            }));
+        },
+    };
+}
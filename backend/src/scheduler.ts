@@ -0,0 +1,290 @@
+import os from "os";
+import { db } from "./db";
+import { recordPipelineError, pipelineErrorMessage, type PipelineErrorSource } from "./pipelineErrors";
+import { timeJob } from "./prometheus";
+
+// Scheduler of the background jobs (signal sync, recompute, webhook retries; see jobs.ts).
+//
+// Each job runs every `intervalMs` plus a random 0..`jitterMs`, counted from the end of
+// the previous run, so a slow run delays the next one instead of overlapping it. Job
+// state lives in the jobs table and every run in job_runs, so the admin endpoints of an
+// API process (--role=api) can list, trigger and pause the jobs of the worker process.
+//
+// A run holds a lease (jobs.running_since) while in progress; a lease older than
+// JOB_LEASE_TIMEOUT_SEC (1800) is considered abandoned. On start, the scheduler drops
+// every lease and marks unfinished runs "interrupted": run one worker per database.
+
+const TICK_MS = 1000;
+const LEASE_TIMEOUT_SEC = Number(process.env.JOB_LEASE_TIMEOUT_SEC || 1800);
+// Runs kept per job in job_runs.
+const RUNS_RETAIN = Number(process.env.JOB_RUNS_RETAIN || 500);
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+export type JobTrigger = "schedule" | "manual";
+export type JobRunStatus = "running" | "ok" | "error" | "interrupted";
+
+export type JobDefinition = {
+    name: string;
+    intervalMs: number;
+    jitterMs?: number;
+    // run as soon as the scheduler starts (otherwise after one interval)
+    runOnStart?: boolean;
+    // pipeline error source to record failures under (see pipelineErrors.ts)
+    errorSource?: PipelineErrorSource;
+    run: () => unknown;
+};
+
+export type JobRow = {
+    name: string;
+    interval_ms: number;
+    jitter_ms: number;
+    paused: number;
+    run_requested_ts: number | null;
+    running_since: number | null;
+    running_by: string | null;
+    next_run_ts: number | null;
+    last_run_id: number | null;
+    updated_ts: number;
+    // latest run (LEFT JOIN job_runs)
+    last_status: JobRunStatus | null;
+    last_started_ts: number | null;
+    last_finished_ts: number | null;
+    last_duration_ms: number | null;
+    last_error: string | null;
+};
+
+export type JobRunRow = {
+    id: number;
+    job: string;
+    trigger: JobTrigger;
+    worker: string;
+    status: JobRunStatus;
+    started_ts: number;
+    finished_ts: number | null;
+    duration_ms: number | null;
+    error: string | null;
+};
+
+export class JobNotFoundError extends Error {}
+
+const definitions = new Map<string, JobDefinition>();
+// jobs this process is running right now
+const running = new Set<string>();
+let timer: NodeJS.Timeout | null = null;
+
+let prepared = false;
+
+let upsertJobStmt: any;
+let getJobStmt: any;
+let getJobsStmt: any;
+let claimJobStmt: any;
+let releaseJobStmt: any;
+let requestRunStmt: any;
+let setPausedStmt: any;
+let setNextRunStmt: any;
+let resetLeasesStmt: any;
+let interruptRunsStmt: any;
+let insertRunStmt: any;
+let finishRunStmt: any;
+let pruneRunsStmt: any;
+let getRunsStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    // paused and a pending manual run survive re-registration (restarts)
+    upsertJobStmt = db.prepare(`
+        INSERT INTO jobs (name, interval_ms, jitter_ms, paused, updated_ts)
+        VALUES (?, ?, ?, 0, ?)
+        ON CONFLICT(name) DO UPDATE SET
+            interval_ms = excluded.interval_ms,
+            jitter_ms = excluded.jitter_ms,
+            updated_ts = excluded.updated_ts
+    `);
+
+    const jobSelect = `
+        SELECT j.*, r.status AS last_status, r.started_ts AS last_started_ts,
+               r.finished_ts AS last_finished_ts, r.duration_ms AS last_duration_ms,
+               r.error AS last_error
+        FROM jobs j
+        LEFT JOIN job_runs r ON r.id = j.last_run_id
+    `;
+    getJobStmt = db.prepare(`${jobSelect} WHERE j.name = ?`);
+    getJobsStmt = db.prepare(`${jobSelect} ORDER BY j.name ASC`);
+
+    // atomic, so two processes cannot both start a run
+    claimJobStmt = db.prepare(`
+        UPDATE jobs
+        SET running_since = ?, running_by = ?, run_requested_ts = NULL, updated_ts = ?
+        WHERE name = ? AND (running_since IS NULL OR running_since < ?)
+    `);
+    releaseJobStmt = db.prepare(`
+        UPDATE jobs
+        SET running_since = NULL, running_by = NULL, next_run_ts = ?, last_run_id = ?, updated_ts = ?
+        WHERE name = ? AND running_by = ?
+    `);
+    requestRunStmt = db.prepare(`
+        UPDATE jobs SET run_requested_ts = COALESCE(run_requested_ts, ?), updated_ts = ? WHERE name = ?
+    `);
+    setPausedStmt = db.prepare(`UPDATE jobs SET paused = ?, updated_ts = ? WHERE name = ?`);
+    setNextRunStmt = db.prepare(`UPDATE jobs SET next_run_ts = ? WHERE name = ?`);
+
+    resetLeasesStmt = db.prepare(`UPDATE jobs SET running_since = NULL, running_by = NULL`);
+    interruptRunsStmt = db.prepare(`
+        UPDATE job_runs
+        SET status = 'interrupted', finished_ts = ?
+        WHERE status = 'running'
+    `);
+
+    insertRunStmt = db.prepare(`
+        INSERT INTO job_runs (job, trigger, worker, status, started_ts)
+        VALUES (?, ?, ?, 'running', ?)
+    `);
+    finishRunStmt = db.prepare(`
+        UPDATE job_runs
+        SET status = ?, finished_ts = ?, duration_ms = ?, error = ?
+        WHERE id = ?
+    `);
+    pruneRunsStmt = db.prepare(`
+        DELETE FROM job_runs
+        WHERE job = ? AND id < (
+            SELECT id FROM job_runs WHERE job = ? ORDER BY id DESC LIMIT 1 OFFSET ?
+        )
+    `);
+    getRunsStmt = db.prepare(`
+        SELECT * FROM job_runs
+        WHERE job = ?
+        ORDER BY id DESC
+        LIMIT ?
+    `);
+}
+
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+function nextRunTs(def: JobDefinition): number {
+    const delayMs = def.intervalMs + Math.floor(Math.random() * (def.jitterMs ?? 0));
+    return Math.round((Date.now() + delayMs) / 1000);
+}
+
+/** Add a job to this process's scheduler and to the jobs table (keeping its paused flag). */
+export function registerJob(def: JobDefinition) {
+    prepareStatements();
+    if (!Number.isFinite(def.intervalMs) || def.intervalMs < 1000) {
+        throw new Error(`Job ${def.name}: interval must be at least 1000 ms`);
+    }
+    definitions.set(def.name, def);
+    upsertJobStmt.run(def.name, def.intervalMs, def.jitterMs ?? 0, nowSec());
+}
+
+/** Start running the registered jobs. Call once per worker process. */
+export function startScheduler() {
+    prepareStatements();
+    if (timer) return;
+
+    // nothing can be running yet: whatever the previous worker left behind is dead
+    const now = nowSec();
+    interruptRunsStmt.run(now);
+    resetLeasesStmt.run();
+    for (const def of definitions.values()) {
+        setNextRunStmt.run(def.runOnStart ? now : nextRunTs(def), def.name);
+    }
+
+    const loop = () => {
+        try {
+            tick();
+        } catch (err) {
+            console.error("[scheduler] tick failed:", err);
+        }
+        timer = setTimeout(loop, TICK_MS);
+    };
+    timer = setTimeout(loop, 0);
+    console.log(`[scheduler] started ${definitions.size} job(s) as ${WORKER_ID}`);
+}
+
+function tick() {
+    const now = nowSec();
+
+    for (const job of getJobsStmt.all() as JobRow[]) {
+        const def = definitions.get(job.name);
+        if (!def || running.has(job.name)) continue;
+
+        // a manual run goes ahead even while paused
+        const manual = job.run_requested_ts != null;
+        const due = job.paused === 0 && (job.next_run_ts == null || job.next_run_ts <= now);
+        if (!manual && !due) continue;
+
+        const claimed = claimJobStmt.run(now, WORKER_ID, now, job.name, now - LEASE_TIMEOUT_SEC).changes === 1;
+        if (!claimed) continue;
+
+        running.add(job.name);
+        runJob(def, manual ? "manual" : "schedule").finally(() => running.delete(def.name));
+    }
+}
+
+async function runJob(def: JobDefinition, trigger: JobTrigger) {
+    const startedMs = Date.now();
+    const runId = Number(insertRunStmt.run(def.name, trigger, WORKER_ID, Math.floor(startedMs / 1000)).lastInsertRowid);
+
+    let status: JobRunStatus = "ok";
+    let error: string | null = null;
+    try {
+        await timeJob(def.name, def.run);
+    } catch (err) {
+        status = "error";
+        error = pipelineErrorMessage(err);
+        console.error(`[scheduler] ${def.name} failed:`, err);
+        if (def.errorSource) recordPipelineError(def.errorSource, err);
+    }
+
+    try {
+        const finishedMs = Date.now();
+        finishRunStmt.run(status, Math.floor(finishedMs / 1000), finishedMs - startedMs, error, runId);
+        releaseJobStmt.run(nextRunTs(def), runId, Math.floor(finishedMs / 1000), def.name, WORKER_ID);
+        pruneRunsStmt.run(def.name, def.name, RUNS_RETAIN - 1);
+    } catch (err) {
+        // the lease then expires after LEASE_TIMEOUT_SEC
+        console.error(`[scheduler] failed to record ${def.name} run ${runId}:`, err);
+    }
+}
+
+/** Every job known to the database (registered by any worker), with its latest run. */
+export function listJobs(): JobRow[] {
+    prepareStatements();
+    return getJobsStmt.all() as JobRow[];
+}
+
+/** Throws JobNotFoundError if no worker has registered `name`. */
+export function getJob(name: string): JobRow {
+    prepareStatements();
+    const row = getJobStmt.get(name) as JobRow | undefined;
+    if (!row) throw new JobNotFoundError(`Unknown job "${name}"`);
+    return row;
+}
+
+/** Latest runs of a job, newest first. */
+export function getJobRuns(name: string, limit: number): JobRunRow[] {
+    getJob(name);
+    return getRunsStmt.all(name, limit) as JobRunRow[];
+}
+
+/**
+ * Ask the worker to run `name` as soon as possible, even if paused. A request made during
+ * a run starts another run once it finishes; repeated requests before that are merged.
+ */
+export function requestJobRun(name: string): JobRow {
+    prepareStatements();
+    const now = nowSec();
+    if (requestRunStmt.run(now, now, name).changes === 0) throw new JobNotFoundError(`Unknown job "${name}"`);
+    return getJob(name);
+}
+
+/** Stop (or resume) scheduled runs of `name`. A run in progress is not interrupted. */
+export function setJobPaused(name: string, paused: boolean): JobRow {
+    prepareStatements();
+    if (setPausedStmt.run(paused ? 1 : 0, nowSec(), name).changes === 0) {
+        throw new JobNotFoundError(`Unknown job "${name}"`);
+    }
+    return getJob(name);
+}
@@ -1,15 +1,24 @@
 import { db } from "./db";
 import { SUPPORTED_ASSETS } from "./prices";
+import { tradeCost } from "./costs";
+import { getFundingProvider, type FundingRateProvider } from "./funding";
+import { isLiquidatedAt } from "./liquidation";
+import { computeRegisteredMetrics, type MetricWindow } from "./metrics";
+import { publishEvent } from "./events";
+import { storedWindows, windowSegmentRange, type StatWindow } from "./windows";
 
 type PriceRow = { asset_symbol: string; timestamp: number; price_usd: number };
 type StrategyRow = {
     id: number;
+    deployment_id: number;
     trader_address: string;
     strategy_name: string;
     first_signal_ts: number;
     last_signal_ts: number;
     last_value_index: number;
+    last_gross_value_index: number | null;
     last_segment_end_ts: number | null;
+    is_liquidated: number;
 };
 type SignalRow = {
     asset_symbol: string;
@@ -26,24 +35,29 @@ type HoldingRow = {
     leverage: number;
     is_usd: number;
 };
-type SegmentRow = {
+export type SegmentRow = {
     start_ts: number;
     end_ts: number;
     duration_sec: number;
     raw_return: number;
     hourly_equiv_ret: number;
     value_index_end: number;
+    gross_return: number | null;        // before trading costs (null on legacy rows)
+    gross_value_index_end: number | null;
 };
 
-// time windows for stats
-const STAT_WINDOWS = [
-    { id: "1W", seconds: 7 * 24 * 3600 },
-    { id: "1M", seconds: 30 * 24 * 3600 },
-    { id: "3M", seconds: 90 * 24 * 3600 },
-    { id: "6M", seconds: 180 * 24 * 3600 },
-    { id: "1Y", seconds: 365 * 24 * 3600 },
-    { id: "ALL", seconds: Infinity },
-    ] as const;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+// Benchmark for alpha / beta / correlation / tracking error / information ratio.
+// STATS_BENCHMARK must be one of SUPPORTED_ASSETS; defaults to BTC.
+export function statsBenchmarkSymbol(): string {
+    const sym = (process.env.STATS_BENCHMARK || "BTC").trim().toUpperCase();
+    if (!Object.prototype.hasOwnProperty.call(SUPPORTED_ASSETS, sym)) {
+        console.warn(`[stats] STATS_BENCHMARK "${sym}" is not a supported asset; using BTC`);
+        return "BTC";
+    }
+    return sym;
+}
 
 // Sharpe maturity + minimum data requirements
 const MIN_SHARPE_OBS = 24;              // at least 24 hourly observations
@@ -60,18 +74,37 @@ function maturityMultiplier(totalHours: number): number {
 let prepared = false;
 
 let getAllPriceRowsStmt: any;
+let getPriceRowsForAssetStmt: any;
 let getAllStrategiesStmt: any;
 let getSignalsForStrategyStmt: any;
 let insertSegmentStmt: any;
 let updateStrategyAfterSegmentsStmt: any;
 let getSegmentsForStrategyStmt: any;
 let upsertStatsStmt: any;
+let upsertMetricStmt: any;
+let upsertRebalanceCostStmt: any;
+let insertLiquidationStmt: any;
+let insertAttributionStmt: any;
+let markStrategyLiquidatedStmt: any;
 
 let getHoldingsForStrategyStmt: any;
 let upsertPositionSnapshotStmt: any;
 let deleteHoldingsForStrategyStmt: any;
 let upsertHoldingStmt: any;
 
+let deleteSegmentsForStrategyStmt: any;
+let deleteStatsForStrategyStmt: any;
+let deleteMetricsForStrategyStmt: any;
+let deleteSnapshotsForStrategyStmt: any;
+let deleteRebalanceCostsForStrategyStmt: any;
+let deleteLiquidationsForStrategyStmt: any;
+let deleteAttributionForStrategyStmt: any;
+let deleteSnapshotAtStmt: any;
+let resetStrategyProgressStmt: any;
+
+let getStrategyByIdStmt: any;
+let getHourlyTimestampsAfterStmt: any;
+
 function prepareStatements() {
     if (prepared) return;
     prepared = true;
@@ -82,37 +115,47 @@ function prepareStatements() {
         ORDER BY timestamp ASC`
     );
 
+    getPriceRowsForAssetStmt = db.prepare(
+        `SELECT asset_symbol, timestamp, price_usd
+        FROM prices
+        WHERE asset_symbol = ?
+        ORDER BY timestamp ASC`
+    );
+
     getAllStrategiesStmt = db.prepare(
-        `SELECT id, trader_address, strategy_name,
+        `SELECT id, deployment_id, trader_address, strategy_name,
         first_signal_ts, last_signal_ts,
-        last_value_index, last_segment_end_ts
+        last_value_index, last_gross_value_index, last_segment_end_ts,
+        is_liquidated
         FROM strategies`
     );
 
     getSignalsForStrategyStmt = db.prepare(
         `SELECT asset_symbol, direction, leverage, weight_raw, timestamp
         FROM signals
-        WHERE trader_address = ? AND strategy_name = ?
+        WHERE deployment_id = ? AND trader_address = ? AND strategy_name = ?
         ORDER BY timestamp ASC`
     );
 
     insertSegmentStmt = db.prepare(
         `INSERT OR IGNORE INTO strategy_segments (
             strategy_id, start_ts, end_ts, duration_sec,
-            raw_return, hourly_equiv_ret, value_index_end
+            raw_return, hourly_equiv_ret, value_index_end,
+            gross_return, gross_value_index_end, funding_return
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?)`
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
 
     updateStrategyAfterSegmentsStmt = db.prepare(
         `UPDATE strategies
-        SET last_value_index = ?, last_segment_end_ts = ?
+        SET last_value_index = ?, last_gross_value_index = ?, last_segment_end_ts = ?
         WHERE id = ?`
     );
 
     getSegmentsForStrategyStmt = db.prepare(
         `SELECT start_ts, end_ts, duration_sec,
-        raw_return, hourly_equiv_ret, value_index_end
+        raw_return, hourly_equiv_ret, value_index_end,
+        gross_return, gross_value_index_end
         FROM strategy_segments
         WHERE strategy_id = ?
         ORDER BY end_ts ASC`
@@ -122,18 +165,80 @@ function prepareStatements() {
     INSERT INTO strategy_stats (
         strategy_id, window, last_updated_ts,
         sharpe_annual, vol_annual, vol_hourly,
-        total_return, max_drawdown
+        total_return, max_drawdown,
+        gross_sharpe_annual, gross_vol_annual,
+        gross_total_return, gross_max_drawdown,
+        cost_drag,
+        benchmark_symbol, alpha_annual, beta, correlation,
+        tracking_error, information_ratio
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(strategy_id, window) DO UPDATE SET
-    last_updated_ts = excluded.last_updated_ts,
-    sharpe_annual   = excluded.sharpe_annual,
-    vol_annual      = excluded.vol_annual,
-    vol_hourly      = excluded.vol_hourly,
-    total_return    = excluded.total_return,
-    max_drawdown    = excluded.max_drawdown
+    last_updated_ts     = excluded.last_updated_ts,
+    sharpe_annual       = excluded.sharpe_annual,
+    vol_annual          = excluded.vol_annual,
+    vol_hourly          = excluded.vol_hourly,
+    total_return        = excluded.total_return,
+    max_drawdown        = excluded.max_drawdown,
+    gross_sharpe_annual = excluded.gross_sharpe_annual,
+    gross_vol_annual    = excluded.gross_vol_annual,
+    gross_total_return  = excluded.gross_total_return,
+    gross_max_drawdown  = excluded.gross_max_drawdown,
+    cost_drag           = excluded.cost_drag,
+    benchmark_symbol    = excluded.benchmark_symbol,
+    alpha_annual        = excluded.alpha_annual,
+    beta                = excluded.beta,
+    correlation         = excluded.correlation,
+    tracking_error      = excluded.tracking_error,
+    information_ratio   = excluded.information_ratio
+    `);
+
+    upsertMetricStmt = db.prepare(`
+    INSERT INTO strategy_metrics (strategy_id, window, metric, value, last_updated_ts)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(strategy_id, window, metric) DO UPDATE SET
+    value           = excluded.value,
+    last_updated_ts = excluded.last_updated_ts
+    `);
+
+    upsertRebalanceCostStmt = db.prepare(`
+    INSERT INTO strategy_rebalance_costs (
+        strategy_id, signal_ts, asset_symbol,
+        notional, fee_cost, slippage_cost, spread_cost, total_cost, equity_before
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(strategy_id, signal_ts, asset_symbol) DO UPDATE SET
+    notional      = strategy_rebalance_costs.notional + excluded.notional,
+    fee_cost      = strategy_rebalance_costs.fee_cost + excluded.fee_cost,
+    slippage_cost = strategy_rebalance_costs.slippage_cost + excluded.slippage_cost,
+    spread_cost   = strategy_rebalance_costs.spread_cost + excluded.spread_cost,
+    total_cost    = strategy_rebalance_costs.total_cost + excluded.total_cost
+    `);
+
+    insertLiquidationStmt = db.prepare(`
+    INSERT OR IGNORE INTO strategy_liquidations (
+        strategy_id, ts, asset_symbol, direction, leverage,
+        start_price, liquidation_price, loss_pct
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    insertAttributionStmt = db.prepare(`
+    INSERT INTO strategy_segment_attribution (
+        strategy_id, start_ts, asset_symbol, direction, leverage,
+        price_pnl, funding_pnl, cost_pnl
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(strategy_id, start_ts, asset_symbol, direction, leverage) DO UPDATE SET
+    price_pnl   = excluded.price_pnl,
+    funding_pnl = excluded.funding_pnl,
+    cost_pnl    = excluded.cost_pnl
     `);
 
+    markStrategyLiquidatedStmt = db.prepare(
+        `UPDATE strategies SET is_liquidated = 1, liquidated_ts = ? WHERE id = ?`
+    );
+
     getHoldingsForStrategyStmt = db.prepare(
         `SELECT asset_symbol, value, direction, leverage, is_usd
          FROM strategy_holdings
@@ -161,6 +266,69 @@ function prepareStatements() {
          ON CONFLICT(strategy_id, signal_ts) DO UPDATE SET
            positions_json = excluded.positions_json`
     );
+
+    deleteSegmentsForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_segments WHERE strategy_id = ?`
+    );
+
+    deleteStatsForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_stats WHERE strategy_id = ?`
+    );
+
+    deleteMetricsForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_metrics WHERE strategy_id = ?`
+    );
+
+    deleteSnapshotsForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_position_snapshots WHERE strategy_id = ?`
+    );
+
+    deleteRebalanceCostsForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_rebalance_costs WHERE strategy_id = ?`
+    );
+
+    deleteLiquidationsForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_liquidations WHERE strategy_id = ?`
+    );
+
+    deleteAttributionForStrategyStmt = db.prepare(
+        `DELETE FROM strategy_segment_attribution WHERE strategy_id = ?`
+    );
+
+    deleteSnapshotAtStmt = db.prepare(
+        `DELETE FROM strategy_position_snapshots WHERE strategy_id = ? AND signal_ts = ?`
+    );
+
+    resetStrategyProgressStmt = db.prepare(
+        `UPDATE strategies
+        SET last_value_index = 1.0, last_gross_value_index = NULL,
+            last_segment_end_ts = NULL, is_liquidated = 0, liquidated_ts = NULL
+        WHERE id = ?`
+    );
+
+    getStrategyByIdStmt = db.prepare(
+        `SELECT id, deployment_id, trader_address, strategy_name,
+        first_signal_ts, last_signal_ts,
+        last_value_index, last_gross_value_index, last_segment_end_ts,
+        is_liquidated
+        FROM strategies
+        WHERE id = ?`
+    );
+
+    getHourlyTimestampsAfterStmt = db
+        .prepare(
+            `SELECT DISTINCT timestamp
+            FROM prices
+            WHERE timestamp > ? AND timestamp % 3600 = 0
+            ORDER BY timestamp ASC`
+        )
+        .pluck();
+}
+
+function filterStrategies(strategies: StrategyRow[], strategyIds?: number[]): StrategyRow[] {
+    if (!strategyIds) return strategies;
+    const wanted = new Set(strategyIds);
+    return strategies.filter((s) => wanted.has(s.id));
 }
 
 function clampPct(weightRaw: number): number {
@@ -186,7 +354,7 @@ function sumBuckets(buckets: Record<string, number>): number {
     return s;
 }
 
-type PriceSeries = { ts: number[]; px: number[] };
+export type PriceSeries = { ts: number[]; px: number[] };
 
 function buildPriceSeries(priceRows: PriceRow[]): Record<string, PriceSeries> {
     const out: Record<string, PriceSeries> = {};
@@ -199,7 +367,14 @@ function buildPriceSeries(priceRows: PriceRow[]): Record<string, PriceSeries> {
     return out;
 }
 
-function priceAtOrBefore(series: PriceSeries | undefined, ts: number): number | null {
+/** Stored prices of one asset (hourly plus signal-time samples). */
+export function loadAssetPriceSeries(asset: string): PriceSeries | undefined {
+    prepareStatements();
+    const symbol = asset.toUpperCase();
+    return buildPriceSeries(getPriceRowsForAssetStmt.all(symbol) as PriceRow[])[symbol];
+}
+
+export function priceAtOrBefore(series: PriceSeries | undefined, ts: number): number | null {
     if (!series || series.ts.length === 0) return null;
     // binary search for rightmost index with series.ts[i] <= ts
     let lo = 0;
@@ -220,6 +395,182 @@ function priceAtOrBefore(series: PriceSeries | undefined, ts: number): number |
     return typeof p === "number" && p > 0 ? p : null;
 }
 
+/**
+ * First stored price in (t0, t1] at which a leg held since t0 hits its maintenance
+ * margin. Prices include intra-hour signal-time samples, so the path is only as fine
+ * as the data we have; the check at t1 always runs.
+ */
+function findLiquidationOnPath(
+    series: PriceSeries | undefined,
+    asset: string,
+    m: PosMeta,
+    p0: number,
+    t0: number,
+    t1: number
+): { ts: number; price: number } | null {
+    if (!series || series.ts.length === 0) return null;
+
+    // leftmost index with series.ts[i] > t0
+    let lo = 0;
+    let hi = series.ts.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (series.ts[mid] <= t0) lo = mid + 1;
+        else hi = mid;
+    }
+
+    for (let i = lo; i < series.ts.length && series.ts[i] <= t1; i++) {
+        const p = series.px[i];
+        if (!(p > 0)) continue;
+        if (isLiquidatedAt(asset, m.direction, m.leverage, p0, p)) {
+            return { ts: series.ts[i], price: p };
+        }
+    }
+    return null;
+}
+
+export type LiquidatedLeg = {
+    ts: number;
+    asset: string;
+    direction: number;
+    leverage: number;
+    startPrice: number;
+    price: number;
+    lossPct: number; // share of equity at t0 lost (0..1)
+};
+
+/** One leg's P&L over a drift step, in equity units. */
+type LegPnl = { asset: string; direction: number; leverage: number; pnl: number; funding: number };
+
+/**
+ * Drift buckets from t0 -> t1 using prices available at-or-before each timestamp.
+ * Also accrues funding/borrow cost on the borrowed part of each leg
+ * (LONG: leverage - 1, SHORT: leverage), at the rate in force at t0, and
+ * liquidates legs whose price path crosses their maintenance margin: they are
+ * removed from buckets/meta and returned.
+ * Returns the funding paid (equity units, negative = received) and each leg's
+ * price P&L and funding for P&L attribution.
+ */
+function driftBuckets(
+    buckets: Record<string, number>,
+    meta: Record<string, PosMeta>,
+    assetPriceSeries: Record<string, PriceSeries>,
+    funding: FundingRateProvider,
+    t0: number,
+    t1: number
+): { funding: number; liquidated: LiquidatedLeg[]; legs: LegPnl[] } {
+    const out: { funding: number; liquidated: LiquidatedLeg[]; legs: LegPnl[] } = {
+        funding: 0,
+        liquidated: [],
+        legs: [],
+    };
+    if (t1 <= t0) return out;
+
+    const dtYears = (t1 - t0) / SECONDS_PER_YEAR;
+    const equityAtT0 = sumBuckets(buckets);
+
+    for (const [asset, val] of Object.entries(buckets)) {
+        if (val <= 0) continue;
+        const sym = asset.toUpperCase();
+        if (isUsdAsset(sym)) continue;
+
+        const m = meta[sym] ?? { direction: 1, leverage: 1, isUsd: false };
+
+        let next = val;
+        const series = assetPriceSeries[sym];
+        const p0 = priceAtOrBefore(series, t0);
+        const p1 = priceAtOrBefore(series, t1);
+
+        const liq = p0 != null ? findLiquidationOnPath(series, sym, m, p0, t0, t1) : null;
+        if (liq) {
+            out.liquidated.push({
+                ts: liq.ts,
+                asset: sym,
+                direction: m.direction,
+                leverage: m.leverage,
+                startPrice: p0 as number,
+                price: liq.price,
+                lossPct: equityAtT0 > 0 ? val / equityAtT0 : 1,
+            });
+            out.legs.push({ asset: sym, direction: m.direction, leverage: m.leverage, pnl: -val, funding: 0 });
+            delete buckets[sym];
+            delete meta[sym];
+            continue;
+        }
+
+        if (p0 != null && p1 != null && p0 > 0) {
+            const rAsset = (p1 - p0) / p0;
+            const signed = m.direction * m.leverage * rAsset;
+            const mult = 1 + signed;
+            next = mult <= 0 ? 0 : val * mult;
+        }
+
+        const leg: LegPnl = { asset: sym, direction: m.direction, leverage: m.leverage, pnl: next - val, funding: 0 };
+
+        const borrowedRatio = m.direction < 0 ? m.leverage : m.leverage - 1;
+        if (next > 0 && borrowedRatio > 0) {
+            const rate = funding.annualRate(sym, m.direction < 0 ? "SHORT" : "LONG", t0);
+            const charge = Math.min(val * borrowedRatio * rate * dtYears, next);
+            next -= charge;
+            out.funding += charge;
+            leg.funding = -charge;
+        }
+        out.legs.push(leg);
+
+        buckets[sym] = next;
+    }
+
+    return out;
+}
+
+/** Signed leveraged exposure per non-cash asset (equity units). */
+function signedExposures(
+    buckets: Record<string, number>,
+    meta: Record<string, PosMeta>
+): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const [asset, val] of Object.entries(buckets)) {
+        if (isUsdAsset(asset) || !(val > 0)) continue;
+        const m = meta[asset] ?? { direction: 1, leverage: 1, isUsd: false };
+        out[asset] = val * m.direction * m.leverage;
+    }
+    return out;
+}
+
+/**
+ * Charge trading costs for a rebalance from `exposureBefore` to the current buckets.
+ * The notional traded per asset is the absolute change in signed leveraged exposure
+ * (a direction flip trades both legs). The total cost is taken from equity pro rata,
+ * so target allocations are preserved.
+ *
+ * Returns the equity multiplier (1 - cost / equity) and per-asset cost rows.
+ */
+function chargeRebalanceCosts(
+    exposureBefore: Record<string, number>,
+    buckets: Record<string, number>,
+    meta: Record<string, PosMeta>
+): { mult: number; equityBefore: number; rows: { asset: string; notional: number; cost: ReturnType<typeof tradeCost> }[] } {
+    const exposureAfter = signedExposures(buckets, meta);
+    const assets = new Set([...Object.keys(exposureBefore), ...Object.keys(exposureAfter)]);
+
+    const rows: { asset: string; notional: number; cost: ReturnType<typeof tradeCost> }[] = [];
+    let totalCost = 0;
+    for (const asset of assets) {
+        const notional = Math.abs((exposureAfter[asset] ?? 0) - (exposureBefore[asset] ?? 0));
+        if (notional <= 1e-12) continue;
+        const cost = tradeCost(asset, notional);
+        rows.push({ asset, notional, cost });
+        totalCost += cost.total;
+    }
+
+    const equity = sumBuckets(buckets);
+    if (totalCost <= 0 || equity <= 0) return { mult: 1, equityBefore: equity, rows };
+
+    const mult = Math.max(0, 1 - totalCost / equity);
+    for (const a of Object.keys(buckets)) buckets[a] *= mult;
+    return { mult, equityBefore: equity, rows };
+}
+
 /**
  * Rebalance rule (intuitive target % semantics):
  *  - First non-flat signal sets 100% to that asset.
@@ -305,11 +656,64 @@ function applySignalTargetPct(params: {
     buckets[asset] = desired;
 }
 
+/**
+ * Apply a batch of same-timestamp signals as one rebalance and charge trading costs
+ * on the net trades. `leverageScale` multiplies the leverage of every leg a signal
+ * sets (followers, see simulateFollower); 1 keeps the signal's own leverage.
+ */
+function rebalanceOnSignals(
+    buckets: Record<string, number>,
+    meta: Record<string, PosMeta>,
+    batch: SignalRow[],
+    leverageScale = 1
+): ReturnType<typeof chargeRebalanceCosts> {
+    const exposureBefore = signedExposures(buckets, meta);
+
+    for (const s of batch) {
+        applySignalTargetPct({
+            buckets,
+            meta,
+            asset: s.asset_symbol,
+            direction: s.direction,
+            leverage: s.leverage,
+            weight_raw: s.weight_raw,
+        });
+
+        const m = meta[s.asset_symbol.toUpperCase()];
+        if (leverageScale !== 1 && m && !m.isUsd) {
+            m.leverage = Math.min(MAX_FOLLOWER_LEVERAGE, m.leverage * leverageScale);
+        }
+    }
+
+    return chargeRebalanceCosts(exposureBefore, buckets, meta);
+}
+
+/**
+ * Drop everything derived from a strategy's signals (segments, holdings, position
+ * snapshots, stats, metrics, rebalance costs, liquidations, P&L attribution) and rewind it to unit equity, so the next
+ * extendAllStrategySegments() replays it from its first signal.
+ * Callers should run this inside a transaction.
+ */
+export function resetStrategyDerivedState(strategyId: number) {
+    prepareStatements();
+
+    deleteSegmentsForStrategyStmt.run(strategyId);
+    deleteHoldingsForStrategyStmt.run(strategyId);
+    deleteSnapshotsForStrategyStmt.run(strategyId);
+    deleteStatsForStrategyStmt.run(strategyId);
+    deleteMetricsForStrategyStmt.run(strategyId);
+    deleteRebalanceCostsForStrategyStmt.run(strategyId);
+    deleteLiquidationsForStrategyStmt.run(strategyId);
+    deleteAttributionForStrategyStmt.run(strategyId);
+    resetStrategyProgressStmt.run(strategyId);
+}
+
 /**
  * Extend segments for all strategies based on currently known prices.
  * Only computes segments for time ranges after each strategy's last_segment_end_ts.
+ * Pass `strategyIds` to restrict the run to a subset of strategies.
  */
-export function extendAllStrategySegments() {
+export function extendAllStrategySegments(strategyIds?: number[]) {
     prepareStatements();
 
     console.log("[segments] extending segments for all strategies...");
@@ -332,7 +736,7 @@ export function extendAllStrategySegments() {
     // so we can drift/rebalance inside each hourly segment.
     const assetPriceSeries = buildPriceSeries(priceRows);
 
-    const strategies = getAllStrategiesStmt.all() as StrategyRow[];
+    const strategies = filterStrategies(getAllStrategiesStmt.all() as StrategyRow[], strategyIds);
     if (strategies.length === 0) {
         console.log("[segments] No strategies yet, done.");
         return;
@@ -351,6 +755,7 @@ function extendSegmentsForStrategy(
     assetPriceSeries: Record<string, PriceSeries>
 ) {
     const signals = getSignalsForStrategyStmt.all(
+        strat.deployment_id,
         strat.trader_address,
         strat.strategy_name
     ) as SignalRow[];
@@ -404,10 +809,15 @@ function extendSegmentsForStrategy(
         return;
     }
 
+    const funding = getFundingProvider();
+
     // Buy-and-hold simulation state
     // buckets: per-asset capital values (sum = equity)
     // meta: per-asset return parameters (direction/leverage)
     let valueIndex = strat.last_value_index || 1.0;
+    // Same path before trading costs. Legacy strategies without a gross index
+    // continue from their net index.
+    let grossValueIndex = strat.last_gross_value_index ?? valueIndex;
     const buckets: Record<string, number> = {};
     const meta: Record<string, PosMeta> = {};
 
@@ -439,6 +849,10 @@ function extendSegmentsForStrategy(
         }
     }
 
+    // Counted for the live-update events published after the transaction.
+    let newSegments = 0;
+    let snapshotsWritten = 0;
+
     const recordPositionSnapshot = (signalTs: number) => {
         // Build positions as percentages of current equity (sum of buckets).
         const total = sumBuckets(buckets);
@@ -463,6 +877,7 @@ function extendSegmentsForStrategy(
         if (!positions.length) return;
 
         upsertPositionSnapshotStmt.run(strat.id, signalTs, JSON.stringify(positions));
+        snapshotsWritten++;
     };
 
 
@@ -470,6 +885,70 @@ function extendSegmentsForStrategy(
     // We'll apply signals in chronological order as we walk timestamps.
     let sigIdx = 0;
 
+    // Once every leg has been liquidated the strategy is wiped out for good: later
+    // signals are ignored (there is no equity left to allocate) and their approximate
+    // position snapshots are dropped. Segments keep extending flat at zero.
+    let wipedOut = !!strat.is_liquidated;
+
+    // P&L attribution of the segment being built: per leg (asset, direction, leverage),
+    // price P&L, funding and trading costs in equity units. They add up to the
+    // segment's equity change and are stored rescaled to value-index units.
+    type LegAttribution = { asset: string; direction: number; leverage: number; price: number; funding: number; cost: number };
+    let segAttribution = new Map<string, LegAttribution>();
+    const attributeLeg = (asset: string, m: { direction: number; leverage: number }) => {
+        const key = `${asset}|${m.direction}|${m.leverage}`;
+        let a = segAttribution.get(key);
+        if (!a) {
+            a = { asset, direction: m.direction, leverage: m.leverage, price: 0, funding: 0, cost: 0 };
+            segAttribution.set(key, a);
+        }
+        return a;
+    };
+
+    // Apply ALL signals at `ts` as one rebalance, charge trading costs on the net
+    // trades and record them. Returns the equity multiplier of the costs.
+    const applySignalBatch = (ts: number): number => {
+        if (wipedOut) {
+            while (sigIdx < signals.length && signals[sigIdx].timestamp === ts) sigIdx++;
+            deleteSnapshotAtStmt.run(strat.id, ts);
+            return 1;
+        }
+
+        const batch: SignalRow[] = [];
+        while (sigIdx < signals.length && signals[sigIdx].timestamp === ts) {
+            batch.push(signals[sigIdx]);
+            sigIdx++;
+        }
+
+        const metaBefore = { ...meta };
+        const charged = rebalanceOnSignals(buckets, meta, batch);
+
+        // Costs come out of equity pro rata, but are attributed to the legs traded
+        // (to the new leg, or to the closed one on an exit), scaled to what was charged.
+        const nominal = charged.rows.reduce((a, r) => a + r.cost.total, 0);
+        const charge = charged.equityBefore * (1 - charged.mult);
+        for (const r of charged.rows) {
+            const m = meta[r.asset] ?? metaBefore[r.asset];
+            if (!m || m.isUsd || nominal <= 0) continue;
+            attributeLeg(r.asset, m).cost -= (r.cost.total / nominal) * charge;
+        }
+
+        for (const r of charged.rows) {
+            upsertRebalanceCostStmt.run(
+                strat.id,
+                ts,
+                r.asset,
+                r.notional,
+                r.cost.fee,
+                r.cost.slippage,
+                r.cost.spread,
+                r.cost.total,
+                charged.equityBefore
+            );
+        }
+        return charged.mult;
+    };
+
     // If resuming, fast-forward sigIdx and also rebuild meta params for assets
     // based on last signals up to last_segment_end_ts (holdings already reflect drift).
     if (lastSegEnd != null) {
@@ -511,44 +990,56 @@ function extendSegmentsForStrategy(
             // Apply any signals up to and including tStart (rebalance at signal timestamp)
             // We also persist a positions snapshot at each distinct signal timestamp we apply here
             // (signals exactly on the hour boundary are handled in this pre-loop).
+            // Costs charged here happen before equityStart is measured, so they are
+            // folded into this segment's return via preCostMult.
+            let preCostMult = 1;
+            let segCostMult = 1;
+            let segFunding = 0; // funding paid in this segment (equity units, negative = received)
+
+            // Equity before any rebalance at tStart: rebalances keep equity, so this
+            // segment's return is equityEnd / equityBase - 1.
+            segAttribution = new Map();
+            const equityBase = sumBuckets(buckets);
             while (sigIdx < signals.length && signals[sigIdx].timestamp <= tStart) {
                 const ts = signals[sigIdx].timestamp;
 
-                // Apply all signals at this timestamp
-                while (sigIdx < signals.length && signals[sigIdx].timestamp === ts) {
-                    const s = signals[sigIdx];
-                    applySignalTargetPct({
-                        buckets,
-                        meta,
-                        asset: s.asset_symbol,
-                        direction: s.direction,
-                        leverage: s.leverage,
-                        weight_raw: s.weight_raw,
-                    });
-                    sigIdx++;
-                }
+                const m = applySignalBatch(ts);
+                preCostMult *= m;
+                segCostMult *= m;
 
                 recordPositionSnapshot(ts);
             }
 
-            // Helper: drift buckets from t0 -> t1 using prices available at-or-before each timestamp.
+            // Drift to t1 (see driftBuckets), recording liquidated legs and a wipe-out.
             const drift = (t0: number, t1: number) => {
                 if (t1 <= t0) return;
-                for (const [asset, val] of Object.entries(buckets)) {
-                    if (val <= 0) continue;
-                    const sym = asset.toUpperCase();
-                    if (isUsdAsset(sym)) continue;
-
-                    const series = assetPriceSeries[sym];
-                    const p0 = priceAtOrBefore(series, t0);
-                    const p1 = priceAtOrBefore(series, t1);
-                    if (p0 == null || p1 == null || p0 <= 0) continue;
-
-                    const rAsset = (p1 - p0) / p0;
-                    const m = meta[sym] ?? { direction: 1, leverage: 1, isUsd: false };
-                    const signed = m.direction * m.leverage * rAsset;
-                    const mult = 1 + signed;
-                    buckets[sym] = mult <= 0 ? 0 : val * mult;
+                const equityAtT0 = sumBuckets(buckets);
+                const step = driftBuckets(buckets, meta, assetPriceSeries, funding, t0, t1);
+                segFunding += step.funding;
+                for (const leg of step.legs) {
+                    const a = attributeLeg(leg.asset, leg);
+                    a.price += leg.pnl;
+                    a.funding += leg.funding;
+                }
+
+                let lastLiquidationTs: number | null = null;
+                for (const l of step.liquidated) {
+                    insertLiquidationStmt.run(
+                        strat.id,
+                        l.ts,
+                        l.asset,
+                        l.direction,
+                        l.leverage,
+                        l.startPrice,
+                        l.price,
+                        l.lossPct
+                    );
+                    lastLiquidationTs = Math.max(lastLiquidationTs ?? 0, l.ts);
+                }
+
+                if (!wipedOut && equityAtT0 > 0 && sumBuckets(buckets) <= 0) {
+                    wipedOut = true;
+                    markStrategyLiquidatedStmt.run(lastLiquidationTs ?? t1, strat.id);
                 }
             };
 
@@ -563,9 +1054,13 @@ function extendSegmentsForStrategy(
                     durationSec,
                     0,
                     0,
-                    valueIndex
+                    valueIndex,
+                    0,
+                    grossValueIndex,
+                    0
                 );
-                updateStrategyAfterSegmentsStmt.run(valueIndex, tEnd, strat.id);
+                updateStrategyAfterSegmentsStmt.run(valueIndex, grossValueIndex, tEnd, strat.id);
+                newSegments++;
                 continue;
             }
 
@@ -579,18 +1074,7 @@ function extendSegmentsForStrategy(
                 }
 
                 // Apply ALL signals at the same timestamp after drifting once to sigTs.
-                while (sigIdx < signals.length && signals[sigIdx].timestamp === sigTs) {
-                    const s = signals[sigIdx];
-                    applySignalTargetPct({
-                        buckets,
-                        meta,
-                        asset: s.asset_symbol,
-                        direction: s.direction,
-                        leverage: s.leverage,
-                        weight_raw: s.weight_raw,
-                    });
-                    sigIdx++;
-                }
+                segCostMult *= applySignalBatch(sigTs);
 
                 recordPositionSnapshot(sigTs);
             }
@@ -599,10 +1083,32 @@ function extendSegmentsForStrategy(
             drift(cursorTs, tEnd);
 
             const equityEnd = sumBuckets(buckets);
-            const rawReturn = equityEnd / equityStart - 1;
+            const rawReturn = (equityEnd / equityStart) * preCostMult - 1;
+
+            if (equityBase > 0) {
+                const scale = valueIndex / equityBase;
+                for (const a of segAttribution.values()) {
+                    insertAttributionStmt.run(
+                        strat.id,
+                        tStart,
+                        a.asset,
+                        a.direction,
+                        a.leverage,
+                        a.price * scale,
+                        a.funding * scale,
+                        a.cost * scale
+                    );
+                }
+            }
 
             valueIndex *= 1 + rawReturn;
 
+            // Costs scale all buckets pro rata, drift is linear per bucket and liquidation
+            // depends on prices only, so the cost-free path is exactly the net path
+            // divided by the cost multipliers.
+            const grossReturn = segCostMult > 0 ? (1 + rawReturn) / segCostMult - 1 : rawReturn;
+            grossValueIndex *= 1 + grossReturn;
+
             const hourlyEquiv = durationHours > 0 ? rawReturn / durationHours : 0;
 
             insertSegmentStmt.run(
@@ -612,10 +1118,14 @@ function extendSegmentsForStrategy(
                 durationSec,
                 rawReturn,
                 hourlyEquiv,
-                valueIndex
+                valueIndex,
+                grossReturn,
+                grossValueIndex,
+                -segFunding / equityStart
             );
 
-            updateStrategyAfterSegmentsStmt.run(valueIndex, tEnd, strat.id);
+            updateStrategyAfterSegmentsStmt.run(valueIndex, grossValueIndex, tEnd, strat.id);
+            newSegments++;
         }
 
         // Persist final holdings snapshot for incremental extension
@@ -635,22 +1145,295 @@ function extendSegmentsForStrategy(
     });
 
     tx();
+
+    const target = { strategyId: strat.id, trader: strat.trader_address };
+    if (snapshotsWritten > 0) {
+        publishEvent("snapshot.updated", target, { approximate: false, count: snapshotsWritten });
+    }
+    if (newSegments > 0) {
+        publishEvent("segments.extended", target, {
+            newSegments,
+            lastSegmentEndTs: allTimestamps[allTimestamps.length - 1],
+            lastValueIndex: valueIndex,
+            isLiquidated: wipedOut,
+        });
+    }
+}
+
+// Followers (copy trading): a portfolio copying a strategy from `startTs` on.
+//  - At startTs it enters the leader's allocation at that time from cash (paying
+//    trading costs). The allocation comes from replaying the leader's earlier signals.
+//  - Each later signal is executed `delayMinutes` after it was posted, at the prices
+//    known at that time.
+//  - Every leg's leverage is multiplied by `leverageScale` (capped at MAX_FOLLOWER_LEVERAGE).
+// Costs, funding and liquidations work exactly as for strategies. Followers are
+// simulated on demand in unit equity; callers scale by the follower's capital.
+
+const MAX_FOLLOWER_LEVERAGE = 10;
+
+export type FollowerParams = {
+    strategyId: number;
+    startTs: number;
+    leverageScale: number;
+    delayMinutes: number;
+};
+
+export type FollowerSimulation = {
+    segments: SegmentRow[]; // first segment starts at startTs, then hourly
+    costsPaid: number; // trading costs, in units of starting capital
+    fundingPaid: number; // funding / borrow carry (negative = received), same units
+    liquidations: LiquidatedLeg[];
+    liquidatedTs: number | null; // set once every leg has been liquidated
+};
+
+/** Simulate a follower of a strategy; null if the strategy doesn't exist. */
+export function simulateFollower(p: FollowerParams): FollowerSimulation | null {
+    prepareStatements();
+
+    const strat = getStrategyByIdStmt.get(p.strategyId) as StrategyRow | undefined;
+    if (!strat) return null;
+
+    const signals = getSignalsForStrategyStmt.all(
+        strat.deployment_id,
+        strat.trader_address,
+        strat.strategy_name
+    ) as SignalRow[];
+
+    const assetPriceSeries: Record<string, PriceSeries> = {};
+    for (const asset of new Set(signals.map((s) => s.asset_symbol.toUpperCase()))) {
+        if (isUsdAsset(asset) || !isSupportedAsset(asset)) continue;
+        Object.assign(assetPriceSeries, buildPriceSeries(getPriceRowsForAssetStmt.all(asset) as PriceRow[]));
+    }
+
+    const funding = getFundingProvider();
+    const sim: FollowerSimulation = {
+        segments: [],
+        costsPaid: 0,
+        fundingPaid: 0,
+        liquidations: [],
+        liquidatedTs: null,
+    };
+
+    const buckets: Record<string, number> = { USD: 1.0 };
+    const meta: Record<string, PosMeta> = { USD: { direction: 0, leverage: 1, isUsd: true } };
+    const resetToCash = () => {
+        for (const k of Object.keys(buckets)) delete buckets[k];
+        for (const k of Object.keys(meta)) delete meta[k];
+        buckets["USD"] = 1.0;
+        meta["USD"] = { direction: 0, leverage: 1, isUsd: true };
+    };
+
+    // 1) The leader's allocation at startTs. Costs don't change allocations, so they
+    // are ignored here; a leader that was wiped out starts over from cash.
+    let sigIdx = 0;
+    let leaderTs: number | null = null;
+    while (sigIdx < signals.length && signals[sigIdx].timestamp <= p.startTs) {
+        const ts = signals[sigIdx].timestamp;
+        if (leaderTs != null) {
+            driftBuckets(buckets, meta, assetPriceSeries, funding, leaderTs, ts);
+            if (sumBuckets(buckets) <= 0) resetToCash();
+        }
+
+        const batch: SignalRow[] = [];
+        while (sigIdx < signals.length && signals[sigIdx].timestamp === ts) {
+            batch.push(signals[sigIdx]);
+            sigIdx++;
+        }
+        rebalanceOnSignals(buckets, meta, batch);
+        leaderTs = ts;
+    }
+    if (leaderTs != null) {
+        driftBuckets(buckets, meta, assetPriceSeries, funding, leaderTs, p.startTs);
+        if (sumBuckets(buckets) <= 0) resetToCash();
+    }
+
+    // Same weights at unit equity, with the follower's leverage.
+    const leaderEquity = sumBuckets(buckets);
+    for (const a of Object.keys(buckets)) buckets[a] /= leaderEquity;
+    for (const m of Object.values(meta)) {
+        if (!m.isUsd) m.leverage = Math.min(MAX_FOLLOWER_LEVERAGE, m.leverage * p.leverageScale);
+    }
+
+    const entry = chargeRebalanceCosts({}, buckets, meta);
+    for (const r of entry.rows) sim.costsPaid += r.cost.total;
+
+    // 2) Later signals, grouped by execution time.
+    const delaySec = Math.max(0, Math.round(p.delayMinutes * 60));
+    const executions: { ts: number; batch: SignalRow[] }[] = [];
+    for (; sigIdx < signals.length; sigIdx++) {
+        const s = signals[sigIdx];
+        const execTs = s.timestamp + delaySec;
+        const last = executions[executions.length - 1];
+        if (last && last.ts === execTs) last.batch.push(s);
+        else executions.push({ ts: execTs, batch: [s] });
+    }
+
+    const grid = [p.startTs, ...(getHourlyTimestampsAfterStmt.all(p.startTs) as number[])];
+
+    // Buckets start at unit equity and are never renormalized, so bucket values (and
+    // costs and funding charged from them) are in units of starting capital.
+    let valueIndex = 1.0;
+    let grossValueIndex = 1.0;
+    let wipedOut = false;
+    let execIdx = 0;
+
+    for (let k = 0; k < grid.length - 1; k++) {
+        const tStart = grid[k];
+        const tEnd = grid[k + 1];
+        const durationSec = tEnd - tStart;
+        const durationHours = durationSec / 3600;
+
+        // entry costs are charged before the first segment's equityStart
+        const preCostMult = k === 0 ? entry.mult : 1;
+        let segCostMult = preCostMult;
+
+        const drift = (t0: number, t1: number) => {
+            if (t1 <= t0) return;
+            const equityAtT0 = sumBuckets(buckets);
+            const step = driftBuckets(buckets, meta, assetPriceSeries, funding, t0, t1);
+            sim.fundingPaid += step.funding;
+            sim.liquidations.push(...step.liquidated);
+
+            if (!wipedOut && equityAtT0 > 0 && sumBuckets(buckets) <= 0) {
+                wipedOut = true;
+                sim.liquidatedTs = step.liquidated.reduce((a, l) => Math.max(a, l.ts), 0) || t1;
+            }
+        };
+
+        const equityStart = sumBuckets(buckets);
+        if (equityStart <= 0) {
+            while (execIdx < executions.length && executions[execIdx].ts <= tEnd) execIdx++;
+            sim.segments.push({
+                start_ts: tStart,
+                end_ts: tEnd,
+                duration_sec: durationSec,
+                raw_return: 0,
+                hourly_equiv_ret: 0,
+                value_index_end: valueIndex,
+                gross_return: 0,
+                gross_value_index_end: grossValueIndex,
+            });
+            continue;
+        }
+
+        let cursorTs = tStart;
+        while (execIdx < executions.length && executions[execIdx].ts <= tEnd) {
+            const exec = executions[execIdx++];
+            if (exec.ts > cursorTs) {
+                drift(cursorTs, exec.ts);
+                cursorTs = exec.ts;
+            }
+            if (wipedOut) continue;
+
+            const charged = rebalanceOnSignals(buckets, meta, exec.batch, p.leverageScale);
+            segCostMult *= charged.mult;
+            for (const r of charged.rows) sim.costsPaid += r.cost.total;
+        }
+        drift(cursorTs, tEnd);
+
+        const equityEnd = sumBuckets(buckets);
+        const rawReturn = (equityEnd / equityStart) * preCostMult - 1;
+        valueIndex *= 1 + rawReturn;
+
+        // see extendSegmentsForStrategy: the cost-free path is the net path over the cost multipliers
+        const grossReturn = segCostMult > 0 ? (1 + rawReturn) / segCostMult - 1 : rawReturn;
+        grossValueIndex *= 1 + grossReturn;
+
+        sim.segments.push({
+            start_ts: tStart,
+            end_ts: tEnd,
+            duration_sec: durationSec,
+            raw_return: rawReturn,
+            hourly_equiv_ret: durationHours > 0 ? rawReturn / durationHours : 0,
+            value_index_end: valueIndex,
+            gross_return: grossReturn,
+            gross_value_index_end: grossValueIndex,
+        });
+    }
+
+    return sim;
+}
+
+/** Per-window stats of an in-memory segment series (e.g. a follower's). */
+export function computeSeriesStats(
+    segments: SegmentRow[],
+    nowSec = Math.floor(Date.now() / 1000),
+    windows?: StatWindow[]
+): SeriesWindowStats[] {
+    prepareStatements();
+    if (segments.length === 0) return [];
+    return computeStatsByWindow(
+        segments,
+        windows ?? storedWindows(nowSec, segments[0].start_ts),
+        loadStatsBenchmark()
+    );
+}
+
+export type SeriesStatsJson = Record<
+    string,
+    {
+        sharpeAnnual: number | null;
+        volAnnual: number | null;
+        volHourly: number | null;
+        totalReturn: number | null;
+        maxDrawdown: number | null;
+        gross: {
+            sharpeAnnual: number | null;
+            volAnnual: number | null;
+            totalReturn: number | null;
+            maxDrawdown: number | null;
+        };
+        costDrag: number | null;
+        benchmark: {
+            symbol: string | null;
+            alphaAnnual: number | null;
+            beta: number | null;
+            correlation: number | null;
+            trackingError: number | null;
+            informationRatio: number | null;
+        };
+        metrics: Record<string, number | null>;
+    }
+>;
+
+/** computeSeriesStats output keyed by window, in the API's shape. */
+export function seriesStatsToJson(stats: SeriesWindowStats[]): SeriesStatsJson {
+    const out: SeriesStatsJson = {};
+    for (const st of stats) {
+        out[st.window] = {
+            sharpeAnnual: st.net.sharpeAnnual,
+            volAnnual: st.net.volAnnual,
+            volHourly: st.net.volHourly,
+            totalReturn: st.net.totalReturn,
+            maxDrawdown: st.net.maxDrawdown,
+            gross: {
+                sharpeAnnual: st.gross.sharpeAnnual,
+                volAnnual: st.gross.volAnnual,
+                totalReturn: st.gross.totalReturn,
+                maxDrawdown: st.gross.maxDrawdown,
+            },
+            costDrag: st.costDrag,
+            benchmark: { symbol: st.benchmarkSymbol, ...st.benchmark },
+            metrics: st.metrics,
+        };
+    }
+    return out;
 }
 
 /**
- * Recompute stats (Sharpe, vol, total return, max drawdown)
- * for ALL strategies and ALL windows, based on current segments.
+ * Recompute stats (Sharpe, vol, total return, max drawdown, benchmark-relative stats)
+ * for ALL strategies (or only `strategyIds`) and ALL windows, based on current segments.
  *
  *  - Numerator: drift per hour from total log return over window
  *  - Denominator: stddev of hourly_equiv_ret (per hour)
  *  - Max drawdown: from equity normalized at window start
  */
-export function recomputeAllStrategyStats() {
+export function recomputeAllStrategyStats(strategyIds?: number[]) {
     prepareStatements();
 
     console.log("[stats] recomputing strategy stats for all windows...");
 
-    const strategies = getAllStrategiesStmt.all() as StrategyRow[];
+    const strategies = filterStrategies(getAllStrategiesStmt.all() as StrategyRow[], strategyIds);
     if (strategies.length === 0) {
         console.log("[stats] No strategies yet, done.");
         return;
@@ -658,172 +1441,360 @@ export function recomputeAllStrategyStats() {
 
     const nowSec = Math.floor(Date.now() / 1000);
 
+    const benchmark = loadStatsBenchmark();
+
     const tx = db.transaction(() => {
         for (const strat of strategies) {
             const segments = getSegmentsForStrategyStmt.all(
                 strat.id
             ) as SegmentRow[];
 
-            recomputeStatsForStrategy(strat.id, segments, nowSec);
+            recomputeStatsForStrategy(strat.id, segments, nowSec, benchmark);
         }
     });
 
     tx();
 
+    for (const strat of strategies) {
+        const windows = storedWindows(nowSec, strat.first_signal_ts).map((w) => w.id);
+        publishEvent("stats.recomputed", { strategyId: strat.id, trader: strat.trader_address }, { windows });
+    }
+
     console.log("[stats] recompute complete.");
 }
 
-function recomputeStatsForStrategy(
-    strategyId: number,
+export type WindowStats = {
+    sharpeAnnual: number | null;
+    volAnnual: number | null;
+    volHourly: number | null;
+    totalReturn: number;
+    maxDrawdown: number;
+};
+
+const EMPTY_WINDOW_STATS: WindowStats = {
+    sharpeAnnual: null,
+    volAnnual: null,
+    volHourly: null,
+    totalReturn: 0.0,
+    maxDrawdown: 0.0,
+};
+
+/**
+ * Sharpe / vol / total return / max drawdown over segments[i0..end] of one
+ * equity series (net or gross of costs).
+ */
+function computeWindowStats(
     segments: SegmentRow[],
-    nowSec: number
-) {
-    if (segments.length === 0) {
-        // Still insert stats rows with neutral values if you like,
-        // but here we just skip; they won't show up in leaderboards until they have history.
-        return;
+    hourlyRets: number[],
+    valueIdx: number[],
+    i0: number
+): WindowStats {
+    const n = segments.length;
+
+    // baseValue is equity at window start
+    const baseValue = i0 > 0 ? valueIdx[i0 - 1] : 1.0;
+    const finalValue = valueIdx[n - 1];
+
+    if (baseValue <= 0 || finalValue <= 0) {
+        return EMPTY_WINDOW_STATS;
     }
 
-    const n = segments.length;
-    const endTs = segments.map((s) => s.end_ts);
-    const startTs = segments.map((s) => s.start_ts);
-    const hourlyRets = segments.map((s) => s.hourly_equiv_ret);
-    const valueIdx = segments.map((s) => s.value_index_end);
+    const totalReturn = finalValue / baseValue - 1.0;
+    const totalLogReturn = Math.log(finalValue) - Math.log(baseValue);
 
-    for (const window of STAT_WINDOWS) {
-        const winId = window.id;
-        const seconds = window.seconds;
+    // collect window hourly returns & total hours in window
+    const windowHourly: number[] = [];
+    let totalHours = 0;
 
-        let cutoffTs = -Infinity;
-        if (seconds !== Infinity) {
-            cutoffTs = nowSec - seconds;
-        }
+    for (let j = i0; j < n; j++) {
+        const durSec = segments[j].duration_sec;
+        const durHr = durSec / 3600;
+        if (durHr <= 0) continue;
 
-        // find first index with end_ts >= cutoffTs
-        let i0 = 0;
-        if (seconds !== Infinity) {
-            i0 = segments.findIndex((s) => s.end_ts >= cutoffTs);
-            if (i0 === -1) {
-                // no segments in this window
-                upsertStatsStmt.run(
-                    strategyId,
-                    winId,
-                    nowSec,
-                    null, // sharpe
-                    null, // vol_annual
-                    null, // vol_hourly
-                    0.0,  // total_return
-                    0.0   // max_drawdown
-                );
-                continue;
-            }
-        } else {
-            // ALL: start from first segment
-            i0 = 0;
-        }
+        totalHours += durHr;
+        windowHourly.push(hourlyRets[j]);
+    }
 
-        // baseValue is equity at window start
-        const baseValue = i0 > 0 ? valueIdx[i0 - 1] : 1.0;
-        const finalValue = valueIdx[n - 1];
-
-        if (baseValue <= 0 || finalValue <= 0) {
-            upsertStatsStmt.run(
-                strategyId,
-                winId,
-                nowSec,
-                null,
-                null,
-                null,
-                0.0,
-                0.0
-            );
-            continue;
-        }
+    const maxDD = computeMaxDrawdown(valueIdx, i0, baseValue);
 
-        const totalReturn = finalValue / baseValue - 1.0;
-        const totalLogReturn = Math.log(finalValue) - Math.log(baseValue);
+    if (totalHours <= 0 || windowHourly.length < 2) {
+        // Not enough info for Sharpe/vol
+        return { ...EMPTY_WINDOW_STATS, totalReturn, maxDrawdown: maxDD };
+    }
 
-        // collect window hourly returns & total hours in window
-        const windowHourly: number[] = [];
-        let totalHours = 0;
+    const mu = totalLogReturn / totalHours; // drift per hour
 
-        for (let j = i0; j < n; j++) {
-            const durSec = segments[j].duration_sec;
-            const durHr = durSec / 3600;
-            if (durHr <= 0) continue;
+    const nHr = windowHourly.length;
+    const meanHr =
+    windowHourly.reduce((acc, x) => acc + x, 0) / nHr;
+    const variance =
+    windowHourly.reduce((acc, x) => acc + (x - meanHr) * (x - meanHr), 0) /
+    (nHr - 1);
+    const stdHr = Math.sqrt(variance);
 
-            totalHours += durHr;
-            windowHourly.push(hourlyRets[j]);
-        }
+    if (!isFinite(stdHr) || stdHr === 0) {
+        return { ...EMPTY_WINDOW_STATS, totalReturn, maxDrawdown: maxDD };
+    }
 
-        if (totalHours <= 0 || windowHourly.length < 2) {
-            // Not enough info for Sharpe/vol
-            const maxDD = computeMaxDrawdown(valueIdx, i0, baseValue);
-            upsertStatsStmt.run(
-                strategyId,
-                winId,
-                nowSec,
-                null,
-                null,
-                null,
-                totalReturn,
-                maxDD
-            );
-            continue;
-        }
+    let sharpeAnnual: number | null = null;
 
-        const mu = totalLogReturn / totalHours; // drift per hour
-
-        const nHr = windowHourly.length;
-        const meanHr =
-        windowHourly.reduce((acc, x) => acc + x, 0) / nHr;
-        const variance =
-        windowHourly.reduce((acc, x) => acc + (x - meanHr) * (x - meanHr), 0) /
-        (nHr - 1);
-        const stdHr = Math.sqrt(variance);
-
-        if (!isFinite(stdHr) || stdHr === 0) {
-            const maxDD = computeMaxDrawdown(valueIdx, i0, baseValue);
-            upsertStatsStmt.run(
-                strategyId,
-                winId,
-                nowSec,
-                null,
-                null,
-                null,
-                totalReturn,
-                maxDD
-            );
-            continue;
+    if (nHr >= MIN_SHARPE_OBS && Number.isFinite(stdHr) && stdHr > 0) {
+        const sharpeHourly = mu / stdHr;
+        const sharpeAnnualRaw = sharpeHourly * Math.sqrt(8760);
+
+        if (Number.isFinite(sharpeAnnualRaw)) {
+            const m = maturityMultiplier(totalHours);
+            sharpeAnnual = sharpeAnnualRaw * m;
         }
+    }
 
-        let sharpeAnnual: number | null = null;
+    return {
+        sharpeAnnual,
+        volAnnual: stdHr * Math.sqrt(8760),
+        volHourly: stdHr,
+        totalReturn,
+        maxDrawdown: maxDD,
+    };
+}
 
-        if (nHr >= MIN_SHARPE_OBS && Number.isFinite(stdHr) && stdHr > 0) {
-            const sharpeHourly = mu / stdHr;
-            const sharpeAnnualRaw = sharpeHourly * Math.sqrt(8760);
+export type BenchmarkStats = {
+    alphaAnnual: number | null;
+    beta: number | null;
+    correlation: number | null;
+    trackingError: number | null;
+    informationRatio: number | null;
+};
 
-            if (Number.isFinite(sharpeAnnualRaw)) {
-                const m = maturityMultiplier(totalHours);
-                sharpeAnnual = sharpeAnnualRaw * m;
-            }
+const EMPTY_BENCHMARK_STATS: BenchmarkStats = {
+    alphaAnnual: null,
+    beta: null,
+    correlation: null,
+    trackingError: null,
+    informationRatio: null,
+};
+
+/**
+ * Alpha / beta / correlation / tracking error / information ratio of the strategy's
+ * hourly-equivalent returns against the benchmark's over segments[i0..end].
+ * Segments without a benchmark price at both ends are skipped.
+ * Alpha, tracking error and IR are annualized (8760 hours).
+ */
+function computeBenchmarkStats(
+    segments: SegmentRow[],
+    hourlyRets: number[],
+    benchHourlyRets: (number | null)[],
+    i0: number
+): BenchmarkStats {
+    const xs: number[] = []; // benchmark
+    const ys: number[] = []; // strategy
+
+    for (let j = i0; j < segments.length; j++) {
+        const b = benchHourlyRets[j];
+        if (b == null || segments[j].duration_sec <= 0) continue;
+        xs.push(b);
+        ys.push(hourlyRets[j]);
+    }
+
+    const n = xs.length;
+    if (n < MIN_SHARPE_OBS) return EMPTY_BENCHMARK_STATS;
+
+    const meanX = xs.reduce((a, x) => a + x, 0) / n;
+    const meanY = ys.reduce((a, y) => a + y, 0) / n;
+
+    let covXY = 0;
+    let varX = 0;
+    let varY = 0;
+    let meanDiff = 0;
+    for (let k = 0; k < n; k++) {
+        covXY += (xs[k] - meanX) * (ys[k] - meanY);
+        varX += (xs[k] - meanX) * (xs[k] - meanX);
+        varY += (ys[k] - meanY) * (ys[k] - meanY);
+        meanDiff += ys[k] - xs[k];
+    }
+    covXY /= n - 1;
+    varX /= n - 1;
+    varY /= n - 1;
+    meanDiff /= n;
+
+    let varDiff = 0;
+    for (let k = 0; k < n; k++) {
+        const d = ys[k] - xs[k] - meanDiff;
+        varDiff += d * d;
+    }
+    varDiff /= n - 1;
+
+    const beta = varX > 0 ? covXY / varX : null;
+    const correlation = varX > 0 && varY > 0 ? covXY / Math.sqrt(varX * varY) : null;
+    const alphaAnnual = beta != null ? (meanY - beta * meanX) * 8760 : null;
+    const trackingError = Math.sqrt(varDiff) * Math.sqrt(8760);
+    const informationRatio =
+        trackingError > 0 && Number.isFinite(trackingError) ? (meanDiff * 8760) / trackingError : null;
+
+    return {
+        alphaAnnual,
+        beta,
+        correlation,
+        trackingError: Number.isFinite(trackingError) ? trackingError : null,
+        informationRatio,
+    };
+}
+
+/** Net equity over segments[i0..end], normalized to 1 at the window start. */
+function metricWindow(
+    segments: SegmentRow[],
+    hourlyRets: number[],
+    valueIdx: number[],
+    i0: number
+): MetricWindow {
+    const baseValue = i0 > 0 ? valueIdx[i0 - 1] : 1.0;
+    if (baseValue <= 0) return { hourlyRets: [], equity: [], hours: 0 };
+
+    const w: MetricWindow = {
+        hourlyRets: [],
+        equity: [{ ts: segments[i0].start_ts, value: 1.0 }],
+        hours: 0,
+    };
+    for (let j = i0; j < segments.length; j++) {
+        w.equity.push({ ts: segments[j].end_ts, value: valueIdx[j] / baseValue });
+        if (segments[j].duration_sec <= 0) continue;
+        w.hours += segments[j].duration_sec / 3600;
+        w.hourlyRets.push(hourlyRets[j]);
+    }
+    return w;
+}
+
+/** Stats of one equity series over one window (see computeStatsByWindow). */
+export type SeriesWindowStats = {
+    window: string;
+    net: WindowStats;
+    gross: WindowStats;
+    costDrag: number | null; // share of gross growth eaten by costs
+    benchmarkSymbol: string;
+    benchmark: BenchmarkStats;
+    metrics: Record<string, number | null>;
+};
+
+type StatsBenchmarkSeries = { symbol: string; series: PriceSeries | undefined };
+
+function loadStatsBenchmark(): StatsBenchmarkSeries {
+    const symbol = statsBenchmarkSymbol();
+    return { symbol, series: loadAssetPriceSeries(symbol) };
+}
+
+/**
+ * Net, gross, benchmark-relative and registry stats of a segment series for each of
+ * `windows` (see windows.ts). Windows without segments get empty stats.
+ */
+function computeStatsByWindow(
+    segments: SegmentRow[],
+    windows: StatWindow[],
+    benchmark: StatsBenchmarkSeries
+): SeriesWindowStats[] {
+    const hourlyRets = segments.map((s) => s.hourly_equiv_ret);
+    const valueIdx = segments.map((s) => s.value_index_end);
+
+    // Gross-of-costs series (legacy rows without gross values fall back to net).
+    const grossHourlyRets = segments.map((s) =>
+        s.gross_return != null && s.duration_sec > 0
+            ? s.gross_return / (s.duration_sec / 3600)
+            : s.hourly_equiv_ret
+    );
+    const grossValueIdx = segments.map((s) => s.gross_value_index_end ?? s.value_index_end);
+
+    // Benchmark return over each segment, on the same per-hour scale as hourly_equiv_ret.
+    const benchHourlyRets = segments.map((s) => {
+        const p0 = priceAtOrBefore(benchmark.series, s.start_ts);
+        const p1 = priceAtOrBefore(benchmark.series, s.end_ts);
+        if (p0 == null || p1 == null || s.duration_sec <= 0) return null;
+        return (p1 / p0 - 1) / (s.duration_sec / 3600);
+    });
+
+    const result = (
+        winId: string,
+        net: WindowStats,
+        gross: WindowStats,
+        rel: BenchmarkStats,
+        w: MetricWindow
+    ): SeriesWindowStats => ({
+        window: winId,
+        net,
+        gross,
+        costDrag: 1 + gross.totalReturn > 0 ? 1 - (1 + net.totalReturn) / (1 + gross.totalReturn) : null,
+        benchmarkSymbol: benchmark.symbol,
+        benchmark: rel,
+        metrics: computeRegisteredMetrics(w),
+    });
+
+    const out: SeriesWindowStats[] = [];
+    for (const window of windows) {
+        const [i0, i1] = windowSegmentRange(segments, window);
+        if (i0 >= i1) {
+            // no segments in this window
+            out.push(
+                result(window.id, EMPTY_WINDOW_STATS, EMPTY_WINDOW_STATS, EMPTY_BENCHMARK_STATS, {
+                    hourlyRets: [],
+                    equity: [],
+                    hours: 0,
+                })
+            );
+            continue;
         }
 
-        const volHourly = stdHr;
-        const volAnnual = stdHr * Math.sqrt(8760);
+        // the stats helpers run from i0 to the end of the arrays they get
+        const segs = i1 < segments.length ? segments.slice(0, i1) : segments;
+        const upTo = <T>(xs: T[]) => (i1 < xs.length ? xs.slice(0, i1) : xs);
+
+        out.push(
+            result(
+                window.id,
+                computeWindowStats(segs, upTo(hourlyRets), upTo(valueIdx), i0),
+                computeWindowStats(segs, upTo(grossHourlyRets), upTo(grossValueIdx), i0),
+                computeBenchmarkStats(segs, upTo(hourlyRets), upTo(benchHourlyRets), i0),
+                metricWindow(segs, upTo(hourlyRets), upTo(valueIdx), i0)
+            )
+        );
+    }
+    return out;
+}
 
-        const maxDD = computeMaxDrawdown(valueIdx, i0, baseValue);
+function recomputeStatsForStrategy(
+    strategyId: number,
+    segments: SegmentRow[],
+    nowSec: number,
+    benchmark: StatsBenchmarkSeries
+) {
+    if (segments.length === 0) {
+        // Still insert stats rows with neutral values if you like,
+        // but here we just skip; they won't show up in leaderboards until they have history.
+        return;
+    }
 
+    const windows = storedWindows(nowSec, segments[0].start_ts);
+    for (const st of computeStatsByWindow(segments, windows, benchmark)) {
         upsertStatsStmt.run(
             strategyId,
-            winId,
+            st.window,
             nowSec,
-            sharpeAnnual,
-            volAnnual,
-            volHourly,
-            totalReturn,
-            maxDD
+            st.net.sharpeAnnual,
+            st.net.volAnnual,
+            st.net.volHourly,
+            st.net.totalReturn,
+            st.net.maxDrawdown,
+            st.gross.sharpeAnnual,
+            st.gross.volAnnual,
+            st.gross.totalReturn,
+            st.gross.maxDrawdown,
+            st.costDrag,
+            st.benchmarkSymbol,
+            st.benchmark.alphaAnnual,
+            st.benchmark.beta,
+            st.benchmark.correlation,
+            st.benchmark.trackingError,
+            st.benchmark.informationRatio
         );
+        for (const [metric, value] of Object.entries(st.metrics)) {
+            upsertMetricStmt.run(strategyId, st.window, metric, value, nowSec);
+        }
     }
 }
 
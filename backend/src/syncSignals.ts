@@ -1,42 +1,99 @@
+import type { PublicClient } from "viem";
 import { db } from "./db";
-import { client, chainSignalsAbi, chainSignalsAddress } from "./chain";
+import { chainSignalsAbi, deploymentConfigs, getChainConnection } from "./chain";
+import { registerDeployments, type Deployment } from "./deployments";
+import { findReorgRollbackPoint, recordSyncCheckpoint, rollbackToCheckpoint } from "./reorg";
+import { discardEvents, flushEvents, publishEvent } from "./events";
+import { pipelineErrorMessage, recordPipelineError } from "./pipelineErrors";
+import { signalsSyncedTotal } from "./prometheus";
+
+// Every configured deployment (see deployments.ts) is synced in turn, with its own
+// cursors in the deployments table. Indexing mode, per deployment (SIGNAL_SYNC_MODE by default):
+//  - "range" (default): read signals by index via getSignalsRange (no tx metadata)
+//  - "logs": read SignalPosted event logs by block range from the deployment's start
+//    block, storing tx hash, block number and log index per signal. Progress is tracked
+//    in deployments.last_block_synced.
+// Max blocks per eth_getLogs request; many RPCs cap the range.
+const LOG_BATCH_BLOCKS = BigInt(process.env.SIGNALS_LOG_BATCH_BLOCKS || "2000");
+// Only ingest signals that are at least this many blocks deep (0 = accept the tip).
+const SIGNAL_CONFIRMATIONS = BigInt(process.env.SIGNAL_CONFIRMATIONS || "0");
 
 let prepared = false;
 
-let getMetaStmt: any;
-let setMetaStmt: any;
+let getCursorsStmt: any;
+let setSignalCursorStmt: any;
+let setBlockCursorStmt: any;
+let setSyncAttemptStmt: any;
+let setSyncResultStmt: any;
+let setOnChainCountStmt: any;
 let insertSignalStmt: any;
+let updateSignalLogMetaStmt: any;
 let upsertStrategyStmt: any;
 let getStrategyRowStmt: any;
 let getLatestSnapshotStmt: any;
 let getHoldingsStmt: any;
 let upsertSnapshotStmt: any;
+let getStrategyByIdStmt: any;
+let getSignalsForStrategyStmt: any;
 
 function prepareStatements() {
     if (prepared) return;
     prepared = true;
 
-    getMetaStmt = db.prepare("SELECT value FROM meta WHERE key = ?");
-    setMetaStmt = db.prepare(
-        "INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)"
-    );
+    getCursorsStmt = db.prepare(`
+        SELECT last_signal_index_synced, last_block_synced
+        FROM deployments
+        WHERE id = ?
+    `);
+    setSignalCursorStmt = db.prepare(`UPDATE deployments SET last_signal_index_synced = ? WHERE id = ?`);
+    setBlockCursorStmt = db.prepare(`UPDATE deployments SET last_block_synced = ? WHERE id = ?`);
+
+    // outcome of the latest pass, for the health report (possibly served by another process)
+    setSyncAttemptStmt = db.prepare(`UPDATE deployments SET last_sync_attempt_ts = ? WHERE id = ?`);
+    setSyncResultStmt = db.prepare(`
+        UPDATE deployments
+        SET last_sync_ts = COALESCE(?, last_sync_ts), last_sync_error = ?
+        WHERE id = ?
+    `);
+    setOnChainCountStmt = db.prepare(`UPDATE deployments SET onchain_signal_count = ?, confirmed_block = ? WHERE id = ?`);
 
     insertSignalStmt = db.prepare(`
     INSERT OR IGNORE INTO signals (
-        id, tx_hash, trader_address, strategy_name, asset_symbol,
-        direction, leverage, weight_raw, message, timestamp
+        deployment_id, signal_index, tx_hash, trader_address, strategy_name, asset_symbol,
+        direction, leverage, weight_raw, message, timestamp,
+        block_number, block_hash, log_index
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    // Fill log metadata for signals first ingested in "range" mode.
+    updateSignalLogMetaStmt = db.prepare(`
+    UPDATE signals
+    SET tx_hash = ?, block_number = ?, block_hash = ?, log_index = ?
+    WHERE deployment_id = ? AND signal_index = ?
+    `);
+
+    getStrategyByIdStmt = db.prepare(`
+        SELECT deployment_id, trader_address, strategy_name
+        FROM strategies
+        WHERE id = ?
+    `);
+
+    getSignalsForStrategyStmt = db.prepare(`
+        SELECT asset_symbol, direction, leverage, weight_raw, message, timestamp
+        FROM signals
+        WHERE deployment_id = ? AND trader_address = ? AND strategy_name = ?
+        ORDER BY signal_index ASC
     `);
 
     // first_signal_ts stays as first; last_signal_ts updated; num_signals++
     upsertStrategyStmt = db.prepare(`
     INSERT INTO strategies (
-        trader_address, strategy_name,
+        deployment_id, trader_address, strategy_name,
         first_signal_ts, last_signal_ts, num_signals
     )
-    VALUES (?, ?, ?, ?, 1)
-    ON CONFLICT(trader_address, strategy_name) DO UPDATE SET
+    VALUES (?, ?, ?, ?, ?, 1)
+    ON CONFLICT(deployment_id, trader_address, strategy_name) DO UPDATE SET
     last_signal_ts = excluded.last_signal_ts,
     num_signals    = strategies.num_signals + 1
     `);
@@ -45,7 +102,7 @@ function prepareStatements() {
     getStrategyRowStmt = db.prepare(`
         SELECT id, last_segment_end_ts
         FROM strategies
-        WHERE trader_address = ? AND strategy_name = ?
+        WHERE deployment_id = ? AND trader_address = ? AND strategy_name = ?
     `);
 
     getLatestSnapshotStmt = db.prepare(`
@@ -167,29 +224,311 @@ function parsePositionsJson(raw: any): SnapPos[] {
 
 
 
+type IncomingSignal = {
+    index: number; // on-chain index within the deployment's contract
+    trader: string;
+    strategy: string;
+    asset: string;
+    message: string;
+    target: number;
+    leverage: number;
+    weight: number;
+    timestamp: number;
+    txHash: string;
+    blockNumber: number | null;
+    blockHash: string | null;
+    logIndex: number | null;
+};
+
+/**
+ * Persist one signal of a deployment, bump its strategy and write an approximate position
+ * snapshot. Must run inside a transaction. Returns false if the signal was already stored.
+ */
+function ingestSignal(deploymentId: number, s: IncomingSignal): boolean {
+    const trader = s.trader.toLowerCase();
+    const strategy = s.strategy;
+    const asset = s.asset;
+    const message = s.message ?? "";
+    // Contract enum is Long=0, Short=1 (no Flat).
+    // If a contract/client ever emits 2, treat it as Short for robustness.
+    const targetRaw = Number(s.target);
+    const direction = targetRaw === 1 ? 1 : targetRaw === 2 ? 1 : 0;
+    const leverage = Number(s.leverage);
+    const weight = Number(s.weight);
+    const ts = Number(s.timestamp);
+
+    const info = insertSignalStmt.run(
+        deploymentId,
+        s.index,
+        s.txHash,
+        trader,
+        strategy,
+        asset,
+        direction,
+        leverage,
+        weight,
+        message,
+        ts,
+        s.blockNumber,
+        s.blockHash,
+        s.logIndex
+    );
+
+    if (info.changes === 0) {
+        // Already ingested (e.g. by "range" mode): only attach log metadata if we have it.
+        if (s.txHash) {
+            updateSignalLogMetaStmt.run(s.txHash, s.blockNumber, s.blockHash, s.logIndex, deploymentId, s.index);
+        }
+        return false;
+    }
+    const id = Number(info.lastInsertRowid);
+
+    upsertStrategyStmt.run(deploymentId, trader, strategy, ts, ts);
+
+
+    // Write an approximate snapshot at the signal timestamp so the UI can display positions immediately.
+    // This does NOT fetch prices and is later overwritten by the hourly segment engine with accurate snapshots.
+    const stratRow = getStrategyRowStmt.get(deploymentId, trader, strategy) as
+        | { id: number; last_segment_end_ts: number | null }
+        | undefined;
+    if (stratRow && Number.isFinite(stratRow.id)) {
+        writeApproxSnapshot(
+            Number(stratRow.id),
+            stratRow.last_segment_end_ts ? Number(stratRow.last_segment_end_ts) : 0,
+            { asset, direction, leverage, weightRaw: weight, ts, message }
+        );
+
+        const target = { strategyId: Number(stratRow.id), trader };
+        publishEvent("signal.synced", target, {
+            signalId: id,
+            deploymentId,
+            signalIndex: s.index,
+            strategyName: strategy,
+            asset,
+            timestamp: ts,
+            txHash: s.txHash || null,
+        });
+        publishEvent("snapshot.updated", target, { signalTs: ts, approximate: true });
+    }
+
+    return true;
+}
+
+/**
+ * Derive the position snapshot after `signal` from the latest known state
+ * (hourly holdings if they are newer than the last snapshot, else the last snapshot).
+ */
+function writeApproxSnapshot(
+    strategyId: number,
+    holdingsTs: number,
+    signal: { asset: string; direction: number; leverage: number; weightRaw: number; ts: number; message: string }
+) {
+    const snapRow = getLatestSnapshotStmt.get(strategyId) as
+        | { signal_ts: number; positions_json: string }
+        | undefined;
+    const snapTs = snapRow ? Number(snapRow.signal_ts) : 0;
+
+    let basePositions: SnapPos[] = [];
+    if (holdingsTs && holdingsTs >= snapTs) {
+        const hRows = getHoldingsStmt.all(strategyId) as {
+            asset_symbol: string;
+            value: number;
+            direction: number;
+            leverage: number;
+            is_usd: number;
+        }[];
+        const total = hRows.reduce((a, r) => a + (Number(r.value) || 0), 0);
+        if (total > 0) {
+            basePositions = hRows
+                .filter((r) => (Number(r.value) || 0) > 0)
+                .map((r) => {
+                    const sym = r.is_usd ? "USD" : String(r.asset_symbol || "").toUpperCase();
+                    const dir =
+                        r.is_usd || r.direction === 0
+                            ? "CASH"
+                            : r.direction === -1
+                            ? "SHORT"
+                            : "LONG";
+                    return {
+                        asset: sym,
+                        percent: ((Number(r.value) || 0) / total) * 100,
+                        direction: dir as any,
+                        leverage: r.is_usd ? 1 : Number(r.leverage) || 1,
+                    };
+                });
+        }
+    } else if (snapRow) {
+        basePositions = parsePositionsJson(snapRow.positions_json);
+    } else {
+        basePositions = [{ asset: "USD", percent: 100, direction: "CASH", leverage: 1 }];
+    }
+
+    const nextPositions = computeApproxSnapshot(basePositions, signal);
+
+    upsertSnapshotStmt.run(strategyId, signal.ts, JSON.stringify(nextPositions), signal.message);
+}
+
 /**
- * Sync missing signals. Returns true if any new signal was added.
+ * Rebuild approximate position snapshots for a strategy whose snapshots were wiped
+ * (reorg rollback, full rebuild). The segment engine later overwrites them with
+ * price-aware snapshots. Must run inside a transaction.
+ */
+export function rebuildApproxSnapshots(strategyId: number) {
+    prepareStatements();
+
+    const strat = getStrategyByIdStmt.get(strategyId) as
+        | { deployment_id: number; trader_address: string; strategy_name: string }
+        | undefined;
+    if (!strat) return;
+
+    const rows = getSignalsForStrategyStmt.all(strat.deployment_id, strat.trader_address, strat.strategy_name) as {
+        asset_symbol: string;
+        direction: number;
+        leverage: number;
+        weight_raw: number;
+        message: string | null;
+        timestamp: number;
+    }[];
+
+    for (const r of rows) {
+        writeApproxSnapshot(strategyId, 0, {
+            asset: r.asset_symbol,
+            direction: r.direction,
+            leverage: r.leverage,
+            weightRaw: r.weight_raw,
+            ts: r.timestamp,
+            message: r.message ?? "",
+        });
+    }
+
+    publishEvent(
+        "snapshot.updated",
+        { strategyId, trader: strat.trader_address },
+        { approximate: true, count: rows.length }
+    );
+}
+
+// Configured deployments with their ids, registered on the first sync.
+let deployments: Deployment[] | null = null;
+
+/**
+ * Sync missing signals of every deployment. Returns true if any new signal was added.
+ * Each deployment dispatches on its sync mode ("range" or "logs"), after undoing any
+ * signals a chain reorg has removed since the last pass. A failing deployment does not
+ * hold up the others; the error is only thrown if every deployment failed.
  */
 export async function syncSignals(): Promise<boolean> {
     prepareStatements();
+    if (!deployments) deployments = registerDeployments(deploymentConfigs);
+
+    let hasNew = false;
+    let firstErr: unknown = null;
+    let failed = 0;
+
+    for (const dep of deployments) {
+        setSyncAttemptStmt.run(Math.floor(Date.now() / 1000), dep.id);
+        try {
+            if (await syncDeployment(dep)) hasNew = true;
+            setSyncResultStmt.run(Math.floor(Date.now() / 1000), null, dep.id);
+        } catch (err) {
+            failed++;
+            firstErr ??= err;
+            setSyncResultStmt.run(null, pipelineErrorMessage(err), dep.id);
+            recordPipelineError("sync", err);
+            if (deployments.length > 1) console.error(`[syncSignals] ${dep.key} failed:`, err);
+        }
+    }
+
+    if (failed === deployments.length && firstErr) throw firstErr;
+    return hasNew;
+}
+
+async function syncDeployment(dep: Deployment): Promise<boolean> {
+    const { client } = getChainConnection(dep.chainId);
+
+    await rollbackReorgedSignals(dep, client);
 
-    const lastSyncedRaw = getMetaStmt.pluck().get("last_signal_id_synced");
-    let lastSynced = lastSyncedRaw ? parseInt(lastSyncedRaw, 10) : -1;
+    if (dep.syncMode === "logs") {
+        return syncSignalsFromLogs(dep, client);
+    }
+    return syncSignalsFromRange(dep, client);
+}
+
+function getCursors(dep: Deployment): { lastSignalIndex: number; lastBlock: number | null } {
+    const row = getCursorsStmt.get(dep.id) as
+        | { last_signal_index_synced: number; last_block_synced: number | null }
+        | undefined;
+    return { lastSignalIndex: row?.last_signal_index_synced ?? -1, lastBlock: row?.last_block_synced ?? null };
+}
 
-    const totalCount = (await client.readContract({
-        address: chainSignalsAddress,
+/**
+ * If recent sync checkpoints are no longer canonical, drop the orphaned signals,
+ * reset the affected strategies and rewind the cursors so this pass re-syncs them.
+ */
+async function rollbackReorgedSignals(dep: Deployment, client: PublicClient) {
+    const cp = await findReorgRollbackPoint(dep.id, client);
+    if (!cp) return;
+
+    const tx = db.transaction(() => {
+        const survivors = rollbackToCheckpoint(dep.id, cp);
+        for (const strategyId of survivors) {
+            rebuildApproxSnapshots(strategyId);
+        }
+    });
+    try {
+        tx();
+    } catch (err) {
+        discardEvents();
+        throw err;
+    }
+    flushEvents();
+}
+
+/** getSignalsCount at `blockNumber`, noted on the deployment row for the health report. */
+async function readSignalsCount(dep: Deployment, client: PublicClient, blockNumber: bigint): Promise<number> {
+    const count = (await client.readContract({
+        address: dep.address as `0x${string}`,
         abi: chainSignalsAbi,
         functionName: "getSignalsCount",
+        blockNumber,
     })) as bigint;
 
-    const total = Number(totalCount);
+    setOnChainCountStmt.run(Number(count), Number(blockNumber), dep.id);
+    return Number(count);
+}
+
+/**
+ * The newest block deep enough to satisfy SIGNAL_CONFIRMATIONS, or null if the
+ * chain is shorter than that.
+ */
+async function getConfirmedBlock(client: PublicClient): Promise<{ number: bigint; hash: string } | null> {
+    const latest = await client.getBlockNumber();
+    if (latest < SIGNAL_CONFIRMATIONS) return null;
+
+    const block = await client.getBlock({ blockNumber: latest - SIGNAL_CONFIRMATIONS });
+    if (block.number == null || !block.hash) return null;
+    return { number: block.number, hash: block.hash };
+}
+
+/**
+ * Index-based sync via getSignalsRange. tx_hash is left empty.
+ * Contract state is read at the confirmed block so shallow reorgs are never ingested.
+ */
+async function syncSignalsFromRange(dep: Deployment, client: PublicClient): Promise<boolean> {
+    let lastSynced = getCursors(dep).lastSignalIndex;
+
+    const confirmed = await getConfirmedBlock(client);
+    if (!confirmed) return false;
+
+    const address = dep.address as `0x${string}`;
+    const total = await readSignalsCount(dep, client, confirmed.number);
     if (total === 0 || lastSynced >= total - 1) {
         //console.log("[syncSignals] up to date:", { total, lastSynced });
         return false;
     }
 
     console.log(
-        `[syncSignals] syncing from id ${lastSynced + 1} to ${total - 1} (total ${total})`
+        `[syncSignals] ${dep.key}: syncing from index ${lastSynced + 1} to ${total - 1} (total ${total})`
     );
 
     const batchSize = 200;
@@ -199,119 +538,172 @@ export async function syncSignals(): Promise<boolean> {
         const to = Math.min(from + batchSize, total);
 
         const signals = (await client.readContract({
-            address: chainSignalsAddress,
+            address,
             abi: chainSignalsAbi,
             functionName: "getSignalsRange",
             args: [BigInt(from), BigInt(to)],
+            blockNumber: confirmed.number,
         })) as any[];
 
         const insertTx = db.transaction((chunk: any[], offset: number) => {
+            let added = 0;
             for (let i = 0; i < chunk.length; i++) {
-                const idx = offset + i;
                 const s = chunk[i];
-
-                const id = idx;
-                const trader = (s.trader as string).toLowerCase();
-                const strategy = s.strategy as string;
-                const asset = s.asset as string;
-                const message = (s.message as string) ?? "";
-                // Contract enum is Long=0, Short=1 (no Flat).
-                // If a contract/client ever emits 2, treat it as Short for robustness.
-                const targetRaw = Number(s.target);
-                const direction = targetRaw === 1 ? 1 : targetRaw === 2 ? 1 : 0;
-                const leverage = Number(s.leverage);
-                const weight = Number(s.weight);
-                const ts = Number(s.timestamp);
-                const txHash = ""; // can be filled later via logs if needed
-
-                insertSignalStmt.run(
-                    id,
-                    txHash,
-                    trader,
-                    strategy,
-                    asset,
-                    direction,
-                    leverage,
-                    weight,
-                    message,
-                    ts
-                );
-
-                upsertStrategyStmt.run(trader, strategy, ts, ts);
-
-
-                // Write an approximate snapshot at the signal timestamp so the UI can display positions immediately.
-                // This does NOT fetch prices and is later overwritten by the hourly segment engine with accurate snapshots.
-                const stratRow = getStrategyRowStmt.get(trader, strategy) as
-                    | { id: number; last_segment_end_ts: number | null }
-                    | undefined;
-                if (stratRow && Number.isFinite(stratRow.id)) {
-                    const strategyId = Number(stratRow.id);
-                    const holdingsTs = stratRow.last_segment_end_ts ? Number(stratRow.last_segment_end_ts) : 0;
-
-                    const snapRow = getLatestSnapshotStmt.get(strategyId) as
-                        | { signal_ts: number; positions_json: string }
-                        | undefined;
-                    const snapTs = snapRow ? Number(snapRow.signal_ts) : 0;
-
-                    let basePositions: SnapPos[] = [];
-                    if (holdingsTs && holdingsTs >= snapTs) {
-                        const hRows = getHoldingsStmt.all(strategyId) as {
-                            asset_symbol: string;
-                            value: number;
-                            direction: number;
-                            leverage: number;
-                            is_usd: number;
-                        }[];
-                        const total = hRows.reduce((a, r) => a + (Number(r.value) || 0), 0);
-                        if (total > 0) {
-                            basePositions = hRows
-                                .filter((r) => (Number(r.value) || 0) > 0)
-                                .map((r) => {
-                                    const sym = r.is_usd ? "USD" : String(r.asset_symbol || "").toUpperCase();
-                                    const dir =
-                                        r.is_usd || r.direction === 0
-                                            ? "CASH"
-                                            : r.direction === -1
-                                            ? "SHORT"
-                                            : "LONG";
-                                    return {
-                                        asset: sym,
-                                        percent: ((Number(r.value) || 0) / total) * 100,
-                                        direction: dir as any,
-                                        leverage: r.is_usd ? 1 : Number(r.leverage) || 1,
-                                    };
-                                });
-                        }
-                    } else if (snapRow) {
-                        basePositions = parsePositionsJson(snapRow.positions_json);
-                    } else {
-                        basePositions = [{ asset: "USD", percent: 100, direction: "CASH", leverage: 1 }];
-                    }
-
-                    const nextPositions = computeApproxSnapshot(basePositions, {
-                        asset,
-                        direction,
-                        leverage,
-                        weightRaw: weight,
-                    });
-
-                    upsertSnapshotStmt.run(strategyId, ts, JSON.stringify(nextPositions), message);
-                }
+                const isNew = ingestSignal(dep.id, {
+                    index: offset + i,
+                    trader: s.trader as string,
+                    strategy: s.strategy as string,
+                    asset: s.asset as string,
+                    message: (s.message as string) ?? "",
+                    target: Number(s.target),
+                    leverage: Number(s.leverage),
+                    weight: Number(s.weight),
+                    timestamp: Number(s.timestamp),
+                    txHash: "", // not available from getSignalsRange; use SIGNAL_SYNC_MODE=logs
+                    blockNumber: null,
+                    blockHash: null,
+                    logIndex: null,
+                });
+                if (isNew) added++;
             }
+
+            setSignalCursorStmt.run(offset + chunk.length - 1, dep.id);
+            recordSyncCheckpoint(dep.id, confirmed.number, confirmed.hash, offset + chunk.length - 1);
+            return added;
         });
 
-        insertTx(signals, from);
+        let added: number;
+        try {
+            added = insertTx(signals, from);
+        } catch (err) {
+            discardEvents();
+            throw err;
+        }
+        flushEvents();
+        signalsSyncedTotal.inc({ deployment: dep.key }, added);
 
         lastSynced = to - 1;
         hasNew = true;
-        setMetaStmt.run("last_signal_id_synced", String(lastSynced));
 
         console.log(
-            `[syncSignals] synced signals ${from}..${to - 1}, lastSynced=${lastSynced}`
+            `[syncSignals] ${dep.key}: synced signals ${from}..${to - 1}, lastSynced=${lastSynced}`
+        );
+    }
+
+    console.log(`[syncSignals] ${dep.key}: done`);
+    return hasNew;
+}
+
+/**
+ * Log-based sync: scan SignalPosted events from the deployment's last_block_synced + 1
+ * (its start block at first) up to the latest block, in LOG_BATCH_BLOCKS chunks. Each
+ * chunk is committed together with the block cursor, so a crash never skips or
+ * double-counts a signal.
+ */
+async function syncSignalsFromLogs(dep: Deployment, client: PublicClient): Promise<boolean> {
+    const lastBlock = getCursors(dep).lastBlock;
+    let fromBlock = lastBlock != null ? BigInt(lastBlock) + 1n : BigInt(dep.startBlock);
+
+    const confirmed = await getConfirmedBlock(client);
+    if (!confirmed) return false;
+
+    // only for the health report's signal lag; log indexing doesn't depend on it
+    await readSignalsCount(dep, client, confirmed.number).catch(() => null);
+
+    const latestBlock = confirmed.number;
+    if (fromBlock > latestBlock) {
+        return false;
+    }
+
+    console.log(`[syncSignals] ${dep.key}: scanning logs from block ${fromBlock} to ${latestBlock}`);
+
+    let hasNew = false;
+
+    while (fromBlock <= latestBlock) {
+        const toBlock =
+            fromBlock + LOG_BATCH_BLOCKS - 1n < latestBlock
+                ? fromBlock + LOG_BATCH_BLOCKS - 1n
+                : latestBlock;
+
+        const logs = await client.getContractEvents({
+            address: dep.address as `0x${string}`,
+            abi: chainSignalsAbi,
+            eventName: "SignalPosted",
+            fromBlock,
+            toBlock,
+        });
+
+        // Chronological order; index order follows from it on a single contract.
+        logs.sort((a, b) =>
+            a.blockNumber === b.blockNumber
+                ? a.logIndex - b.logIndex
+                : a.blockNumber < b.blockNumber
+                ? -1
+                : 1
         );
+
+        const toBlockHash =
+            toBlock === confirmed.number
+                ? confirmed.hash
+                : (await client.getBlock({ blockNumber: toBlock })).hash;
+
+        let inserted = 0;
+        const insertTx = db.transaction(() => {
+            let maxIndex = -1;
+            for (const log of logs) {
+                const a = log.args;
+                if (a.id == null || !a.trader) continue;
+
+                const index = Number(a.id);
+                const added = ingestSignal(dep.id, {
+                    index,
+                    trader: a.trader,
+                    strategy: a.strategy ?? "",
+                    asset: a.asset ?? "",
+                    message: a.message ?? "",
+                    target: Number(a.target ?? 0),
+                    leverage: Number(a.leverage ?? 1),
+                    weight: Number(a.weight ?? 0),
+                    timestamp: Number(a.timestamp ?? 0),
+                    txHash: log.transactionHash ?? "",
+                    blockNumber: log.blockNumber != null ? Number(log.blockNumber) : null,
+                    blockHash: log.blockHash ?? null,
+                    logIndex: log.logIndex ?? null,
+                });
+                if (added) inserted++;
+                if (index > maxIndex) maxIndex = index;
+            }
+
+            setBlockCursorStmt.run(Number(toBlock), dep.id);
+
+            const lastIndex = getCursors(dep).lastSignalIndex;
+            if (maxIndex > lastIndex) {
+                setSignalCursorStmt.run(maxIndex, dep.id);
+            }
+
+            if (toBlockHash) {
+                recordSyncCheckpoint(dep.id, toBlock, toBlockHash, Math.max(maxIndex, lastIndex));
+            }
+        });
+
+        try {
+            insertTx();
+        } catch (err) {
+            discardEvents();
+            throw err;
+        }
+        flushEvents();
+        signalsSyncedTotal.inc({ deployment: dep.key }, inserted);
+
+        if (inserted > 0) {
+            hasNew = true;
+            console.log(
+                `[syncSignals] ${dep.key}: blocks ${fromBlock}..${toBlock}: ${inserted} new signal(s)`
+            );
+        }
+
+        fromBlock = toBlock + 1n;
     }
 
-    console.log("[syncSignals] done");
     return hasNew;
 }
@@ -0,0 +1,538 @@
+import { db } from "./db";
+import { loadAssetPriceSeries, priceAtOrBefore, type PriceSeries } from "./segments";
+import { storedWindows, type StatWindow } from "./windows";
+
+// Trade ledger of a strategy, reconstructed on demand from its position snapshots
+// (the allocation after each signal batch), its liquidations and its current holdings.
+//
+// Equity starts at 1.0 (value-index units, like the equity curve). Between snapshots
+// each leg's margin drifts like the segment engine's buckets: at every hourly price
+// and signal timestamp, by leverage x the asset's return (constant leverage). At every
+// snapshot each asset's leg is resized to its new weight: a leg that appears is OPENed,
+// one that disappears is CLOSEd, a direction change closes the old leg and opens a
+// new one, and weight or leverage changes INCREASE or DECREASE it. P&L is realized pro
+// rata to the margin taken out; entry prices are averaged over the notional added.
+// Liquidated legs are closed at the liquidation price, losing their margin.
+// Trading costs and funding are not part of the ledger's P&L (see /costs and
+// /attribution), so its total is the strategy's return before costs and funding.
+
+type Direction = "LONG" | "SHORT";
+
+export type TradeAction = "OPEN" | "INCREASE" | "DECREASE" | "CLOSE" | "LIQUIDATED";
+
+export type Trade = {
+    ts: number;
+    asset: string;
+    action: TradeAction;
+    direction: Direction;
+    leverage: number;
+    price: number;
+    equityBefore: number; // ledger equity before the trade, value-index units
+    weightBefore: number; // share of equity in the leg (margin), 0..1
+    weightAfter: number;
+    notionalChange: number; // signed change in notional (margin x leverage), value-index units
+    avgEntryPrice: number; // of the leg after the trade
+    realizedPnl: number | null; // value-index units, for DECREASE / CLOSE / LIQUIDATED
+};
+
+export type Leg = {
+    asset: string;
+    direction: Direction;
+    leverage: number; // latest
+    status: "OPEN" | "CLOSED" | "LIQUIDATED";
+    openTs: number;
+    openEquity: number; // ledger equity when opened, to express P&L as a return
+    closeTs: number | null;
+    holdingSec: number; // to close, or to asOfTs while open
+    avgEntryPrice: number;
+    avgExitPrice: number | null; // size-weighted over decreases and the close
+    lastPrice: number | null; // mark price at asOfTs (open legs)
+    realizedPnl: number;
+    unrealizedPnl: number | null;
+    marginValue: number | null; // current margin from holdings (open legs)
+    numTrades: number;
+};
+
+export type TradeLedger = {
+    asOfTs: number | null;
+    trades: Trade[];
+    legs: Leg[];
+    summary: {
+        numTrades: number;
+        openLegs: number;
+        closedLegs: number;
+        realizedPnl: number;
+        unrealizedPnl: number;
+    };
+};
+
+type PositionJson = { asset: string; percent: number; direction: string; leverage: number };
+
+type LegState = {
+    leg: Leg;
+    sign: 1 | -1;
+    margin: number;
+    basis: number; // margin put in, net of what was taken out
+    entryNotional: number; // notional added, for avgEntryPrice
+    entryUnits: number;
+    exitNotional: number; // notional taken out, for avgExitPrice
+    exitUnits: number;
+};
+
+let prepared = false;
+
+let getStrategyStmt: any;
+let getSnapshotsStmt: any;
+let getLiquidationsStmt: any;
+let getHoldingsStmt: any;
+let getHourlyTimestampsStmt: any;
+let getStrategiesStmt: any;
+let updateTradeStatsStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    getStrategyStmt = db.prepare(
+        `SELECT id, last_segment_end_ts, last_signal_ts FROM strategies WHERE id = ?`
+    );
+
+    getSnapshotsStmt = db.prepare(
+        `SELECT signal_ts, positions_json
+        FROM strategy_position_snapshots
+        WHERE strategy_id = ?
+        ORDER BY signal_ts ASC`
+    );
+
+    getLiquidationsStmt = db.prepare(
+        `SELECT ts, asset_symbol, liquidation_price
+        FROM strategy_liquidations
+        WHERE strategy_id = ?
+        ORDER BY ts ASC`
+    );
+
+    getHoldingsStmt = db.prepare(
+        `SELECT asset_symbol, value FROM strategy_holdings WHERE strategy_id = ? AND is_usd = 0`
+    );
+
+    getHourlyTimestampsStmt = db
+        .prepare(
+            `SELECT DISTINCT timestamp
+            FROM prices
+            WHERE timestamp > ? AND timestamp <= ? AND timestamp % 3600 = 0
+            ORDER BY timestamp ASC`
+        )
+        .pluck();
+
+    updateTradeStatsStmt = db.prepare(`
+    UPDATE strategy_stats SET
+    closed_legs     = ?,
+    win_rate        = ?,
+    avg_win         = ?,
+    avg_loss        = ?,
+    profit_factor   = ?,
+    expectancy      = ?,
+    avg_holding_sec = ?,
+    max_win_streak  = ?,
+    max_loss_streak = ?,
+    turnover        = ?
+    WHERE strategy_id = ? AND window = ?
+    `);
+
+    getStrategiesStmt = db.prepare(`SELECT id, first_signal_ts FROM strategies ORDER BY id ASC`);
+}
+
+/** Build the ledger; null if the strategy doesn't exist. */
+export function buildTradeLedger(strategyId: number): TradeLedger | null {
+    prepareStatements();
+
+    const strat = getStrategyStmt.get(strategyId) as
+        | { id: number; last_segment_end_ts: number | null; last_signal_ts: number }
+        | undefined;
+    if (!strat) return null;
+
+    type Event =
+        | { ts: number; kind: "liquidation"; asset: string; price: number }
+        | { ts: number; kind: "snapshot"; positions: PositionJson[] };
+
+    const events: Event[] = [];
+    for (const l of getLiquidationsStmt.all(strategyId) as any[]) {
+        events.push({ ts: l.ts, kind: "liquidation", asset: l.asset_symbol, price: l.liquidation_price });
+    }
+    for (const s of getSnapshotsStmt.all(strategyId) as any[]) {
+        let positions: PositionJson[] = [];
+        try {
+            positions = JSON.parse(s.positions_json);
+        } catch {
+            continue;
+        }
+        events.push({ ts: s.signal_ts, kind: "snapshot", positions });
+    }
+    // liquidations happen while drifting into a timestamp, before its signals
+    events.sort((a, b) => a.ts - b.ts || (a.kind === "liquidation" ? -1 : 1));
+
+    const asOfTs = strat.last_segment_end_ts ?? (events.length ? events[events.length - 1].ts : null);
+
+    const series: Record<string, PriceSeries | undefined> = {};
+    for (const ev of events) {
+        if (ev.kind !== "snapshot") continue;
+        for (const p of ev.positions) {
+            if (p.asset !== "USD" && !(p.asset in series)) series[p.asset] = loadAssetPriceSeries(p.asset);
+        }
+    }
+    const priceAt = (asset: string, ts: number) => priceAtOrBefore(series[asset], ts);
+
+    const trades: Trade[] = [];
+    const legs: Leg[] = [];
+    const open = new Map<string, LegState>();
+    let cash = 1.0;
+    let cursorTs: number | null = null;
+
+    // Drift open legs to `ts` (same rule as driftBuckets, without funding).
+    const driftTo = (ts: number) => {
+        if (cursorTs != null && ts > cursorTs) {
+            for (const [asset, st] of open) {
+                const p0 = priceAt(asset, cursorTs);
+                const p1 = priceAt(asset, ts);
+                if (p0 == null || p1 == null) continue;
+                const mult = 1 + st.sign * st.leg.leverage * (p1 / p0 - 1);
+                st.margin = mult <= 0 ? 0 : st.margin * mult;
+            }
+        }
+        if (cursorTs == null || ts > cursorTs) cursorTs = ts;
+    };
+
+    const equity = () => {
+        let e = cash;
+        for (const st of open.values()) e += st.margin;
+        return e;
+    };
+
+    // Take `amount` of margin out of a leg at `price`; returns the realized P&L.
+    const takeOut = (st: LegState, amount: number, price: number) => {
+        const share = st.margin > 0 ? Math.min(1, amount / st.margin) : 1;
+        const pnl = share * (st.margin - st.basis);
+        st.basis -= share * st.basis;
+        st.leg.realizedPnl += pnl;
+        st.exitNotional += amount * st.leg.leverage;
+        st.exitUnits += (amount * st.leg.leverage) / price;
+        return pnl;
+    };
+
+    const putIn = (st: LegState, amount: number, price: number) => {
+        st.basis += amount;
+        st.entryNotional += amount * st.leg.leverage;
+        st.entryUnits += (amount * st.leg.leverage) / price;
+        st.leg.avgEntryPrice = st.entryNotional / st.entryUnits;
+    };
+
+    const closeLeg = (
+        asset: string,
+        st: LegState,
+        ts: number,
+        price: number,
+        action: "CLOSE" | "LIQUIDATED",
+        equityBefore: number
+    ) => {
+        const weightBefore = equityBefore > 0 ? st.margin / equityBefore : 0;
+        const margin = st.margin;
+        let pnl = takeOut(st, margin, price);
+        if (action === "LIQUIDATED") {
+            // the margin left at the liquidation price is lost too
+            st.leg.realizedPnl -= margin;
+            pnl -= margin;
+        } else {
+            cash += margin;
+        }
+        st.margin = 0;
+        st.leg.status = action === "LIQUIDATED" ? "LIQUIDATED" : "CLOSED";
+        st.leg.closeTs = ts;
+        st.leg.holdingSec = ts - st.leg.openTs;
+        st.leg.avgExitPrice = st.exitUnits > 0 ? st.exitNotional / st.exitUnits : price;
+        st.leg.numTrades++;
+        open.delete(asset);
+
+        trades.push({
+            ts,
+            asset,
+            action,
+            direction: st.leg.direction,
+            leverage: st.leg.leverage,
+            price,
+            equityBefore,
+            weightBefore,
+            weightAfter: 0,
+            notionalChange: -st.sign * margin * st.leg.leverage,
+            avgEntryPrice: st.leg.avgEntryPrice,
+            realizedPnl: pnl,
+        });
+    };
+
+    // Walk the hourly grid and the events in time order.
+    const grid: number[] =
+        events.length && asOfTs != null ? (getHourlyTimestampsStmt.all(events[0].ts, asOfTs) as number[]) : [];
+    let g = 0;
+
+    for (const ev of events) {
+        for (; g < grid.length && grid[g] < ev.ts; g++) driftTo(grid[g]);
+        driftTo(ev.ts);
+
+        if (ev.kind === "liquidation") {
+            const st = open.get(ev.asset);
+            if (!st) continue;
+            const e = equity();
+            closeLeg(ev.asset, st, ev.ts, ev.price, "LIQUIDATED", e);
+            continue;
+        }
+
+        const e = equity();
+        if (!(e > 0)) continue;
+
+        const weightsBefore = new Map<string, number>();
+        for (const [asset, st] of open) weightsBefore.set(asset, st.margin / e);
+
+        const targets = new Map<string, PositionJson>();
+        for (const p of ev.positions) {
+            if (p.asset === "USD" || p.direction === "CASH" || !(p.percent > 0)) continue;
+            targets.set(p.asset, p);
+        }
+
+        // exits and direction flips first, so their margin is back in cash
+        for (const [asset, st] of [...open]) {
+            const t = targets.get(asset);
+            if (t && t.direction === st.leg.direction) continue;
+            const price = priceAt(asset, ev.ts);
+            if (price == null) continue;
+            closeLeg(asset, st, ev.ts, price, "CLOSE", e);
+        }
+
+        for (const [asset, t] of targets) {
+            const price = priceAt(asset, ev.ts);
+            if (price == null) continue;
+
+            const weight = t.percent / 100;
+            const margin = e * weight;
+            const leverage = Number(t.leverage) || 1;
+            const direction: Direction = t.direction === "SHORT" ? "SHORT" : "LONG";
+            const sign = direction === "SHORT" ? -1 : 1;
+
+            const st = open.get(asset);
+            if (!st) {
+                const leg: Leg = {
+                    asset,
+                    direction,
+                    leverage,
+                    status: "OPEN",
+                    openTs: ev.ts,
+                    openEquity: e,
+                    closeTs: null,
+                    holdingSec: 0,
+                    avgEntryPrice: price,
+                    avgExitPrice: null,
+                    lastPrice: null,
+                    realizedPnl: 0,
+                    unrealizedPnl: null,
+                    marginValue: null,
+                    numTrades: 1,
+                };
+                legs.push(leg);
+                const fresh: LegState = {
+                    leg,
+                    sign,
+                    margin,
+                    basis: 0,
+                    entryNotional: 0,
+                    entryUnits: 0,
+                    exitNotional: 0,
+                    exitUnits: 0,
+                };
+                putIn(fresh, margin, price);
+                open.set(asset, fresh);
+                cash -= margin;
+                trades.push({
+                    ts: ev.ts,
+                    asset,
+                    action: "OPEN",
+                    direction,
+                    leverage,
+                    price,
+                    equityBefore: e,
+                    weightBefore: 0,
+                    weightAfter: weight,
+                    notionalChange: sign * margin * leverage,
+                    avgEntryPrice: price,
+                    realizedPnl: null,
+                });
+                continue;
+            }
+
+            // Size is notional: a leverage change trades even at the same weight.
+            const notionalBefore = st.margin * st.leg.leverage;
+            const notionalAfter = margin * leverage;
+            const dNotional = notionalAfter - notionalBefore;
+
+            let pnl: number | null = null;
+            if (margin < st.margin) {
+                pnl = takeOut(st, st.margin - margin, price);
+            } else if (margin > st.margin) {
+                putIn(st, margin - st.margin, price);
+            }
+            cash -= margin - st.margin;
+            st.margin = margin;
+            st.leg.leverage = leverage;
+
+            if (Math.abs(dNotional) <= 1e-12 * Math.max(1, notionalBefore)) continue;
+            st.leg.numTrades++;
+
+            trades.push({
+                ts: ev.ts,
+                asset,
+                action: dNotional > 0 ? "INCREASE" : "DECREASE",
+                direction: st.leg.direction,
+                leverage,
+                price,
+                equityBefore: e,
+                weightBefore: weightsBefore.get(asset) ?? 0,
+                weightAfter: weight,
+                notionalChange: sign * dNotional,
+                avgEntryPrice: st.leg.avgEntryPrice,
+                realizedPnl: pnl,
+            });
+        }
+    }
+
+    // Mark open legs at the last hourly update; their margin comes from the engine's holdings.
+    for (; g < grid.length; g++) driftTo(grid[g]);
+    if (asOfTs != null) driftTo(asOfTs);
+
+    const holdings = new Map(
+        (getHoldingsStmt.all(strategyId) as { asset_symbol: string; value: number }[]).map((h) => [
+            h.asset_symbol,
+            h.value,
+        ])
+    );
+    for (const [asset, st] of open) {
+        st.leg.lastPrice = asOfTs != null ? priceAt(asset, asOfTs) : null;
+        st.leg.unrealizedPnl = st.margin - st.basis;
+        st.leg.marginValue = holdings.get(asset) ?? null;
+        st.leg.holdingSec = asOfTs != null ? Math.max(0, asOfTs - st.leg.openTs) : 0;
+        st.leg.avgExitPrice = st.exitUnits > 0 ? st.exitNotional / st.exitUnits : null;
+    }
+
+    const realizedPnl = legs.reduce((a, l) => a + l.realizedPnl, 0);
+    const unrealizedPnl = legs.reduce((a, l) => a + (l.unrealizedPnl ?? 0), 0);
+
+    return {
+        asOfTs,
+        trades,
+        legs,
+        summary: {
+            numTrades: trades.length,
+            openLegs: legs.filter((l) => l.status === "OPEN").length,
+            closedLegs: legs.filter((l) => l.status !== "OPEN").length,
+            realizedPnl,
+            unrealizedPnl,
+        },
+    };
+}
+
+// --- trade-level stats per stats window (stored in strategy_stats, see windows.ts) ---
+
+// A leg's result is its realized P&L as a return on the equity it was opened with,
+// so results stay comparable as the strategy's equity grows or shrinks. Only legs
+// closed (or liquidated) in the window count; open legs have no result yet.
+export type TradeStats = {
+    closedLegs: number;
+    winRate: number | null;
+    avgWin: number | null;
+    avgLoss: number | null; // negative
+    profitFactor: number | null; // gross wins / gross losses; null without losses
+    expectancy: number | null; // mean result per closed leg
+    avgHoldingSec: number | null;
+    maxWinStreak: number;
+    maxLossStreak: number;
+    turnover: number; // notional traded in the window, as a multiple of equity
+};
+
+export function computeTradeStats(ledger: TradeLedger, window: StatWindow): TradeStats {
+    const inWindow = (ts: number) =>
+        (window.fromTs == null || ts > window.fromTs) && (window.toTs == null || ts <= window.toTs);
+
+    const closed = ledger.legs
+        .filter((l) => l.status !== "OPEN" && l.closeTs != null && inWindow(l.closeTs))
+        .sort((a, b) => a.closeTs! - b.closeTs!);
+    const results = closed.map((l) => (l.openEquity > 0 ? l.realizedPnl / l.openEquity : 0));
+
+    const wins = results.filter((r) => r > 0);
+    const losses = results.filter((r) => r < 0);
+    const sumWins = wins.reduce((a, r) => a + r, 0);
+    const sumLosses = losses.reduce((a, r) => a + r, 0);
+
+    let maxWinStreak = 0;
+    let maxLossStreak = 0;
+    let streak = 0; // > 0 wins in a row, < 0 losses in a row
+    for (const r of results) {
+        if (r > 0) streak = streak > 0 ? streak + 1 : 1;
+        else if (r < 0) streak = streak < 0 ? streak - 1 : -1;
+        else streak = 0;
+        maxWinStreak = Math.max(maxWinStreak, streak);
+        maxLossStreak = Math.max(maxLossStreak, -streak);
+    }
+
+    let turnover = 0;
+    for (const t of ledger.trades) {
+        if (inWindow(t.ts) && t.equityBefore > 0) turnover += Math.abs(t.notionalChange) / t.equityBefore;
+    }
+
+    const n = results.length;
+    return {
+        closedLegs: n,
+        winRate: n ? wins.length / n : null,
+        avgWin: wins.length ? sumWins / wins.length : null,
+        avgLoss: losses.length ? sumLosses / losses.length : null,
+        profitFactor: losses.length ? sumWins / -sumLosses : null,
+        expectancy: n ? results.reduce((a, r) => a + r, 0) / n : null,
+        avgHoldingSec: n ? closed.reduce((a, l) => a + l.holdingSec, 0) / n : null,
+        maxWinStreak,
+        maxLossStreak,
+        turnover,
+    };
+}
+
+/**
+ * Recompute trade stats for all strategies (or only `strategyIds`) and all windows.
+ * Runs after recomputeAllStrategyStats: it fills in the rows that pass wrote, so a
+ * strategy without segments (hence without stats rows) gets none.
+ */
+export function recomputeAllTradeStats(strategyIds?: number[]) {
+    prepareStatements();
+
+    let strategies = getStrategiesStmt.all() as { id: number; first_signal_ts: number }[];
+    if (strategyIds) strategies = strategies.filter((s) => strategyIds.includes(s.id));
+    const nowSec = Math.floor(Date.now() / 1000);
+
+    const tx = db.transaction(() => {
+        for (const { id, first_signal_ts } of strategies) {
+            const ledger = buildTradeLedger(id);
+            if (!ledger) continue;
+            for (const w of storedWindows(nowSec, first_signal_ts)) {
+                const st = computeTradeStats(ledger, w);
+                updateTradeStatsStmt.run(
+                    st.closedLegs,
+                    st.winRate,
+                    st.avgWin,
+                    st.avgLoss,
+                    st.profitFactor,
+                    st.expectancy,
+                    st.avgHoldingSec,
+                    st.maxWinStreak,
+                    st.maxLossStreak,
+                    st.turnover,
+                    id,
+                    w.id
+                );
+            }
+        }
+    });
+    tx();
+}
@@ -0,0 +1,452 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import { db } from "./db";
+import { subscribeEvents, type StreamEvent } from "./events";
+import { recordPipelineError } from "./pipelineErrors";
+
+dotenv.config();
+
+// Outbound webhooks: downstream bots register a URL with an optional filter
+// (trader, strategy id, asset) and get a POST for every synced signal that matches.
+//
+// Payloads are built when the signal is synced (the signals row plus the position
+// snapshot it produced) and stored in webhook_deliveries, so retries and replays
+// send exactly what was logged. Each attempt is signed:
+//   X-ChainSignals-Timestamp: <unix seconds>
+//   X-ChainSignals-Signature: sha256=<hex HMAC-SHA256(secret, "<timestamp>.<body>")>
+// Non-2xx responses and network errors are retried with exponential backoff
+// (WEBHOOK_BACKOFF_BASE_SEC * 2^(attempt-1), capped at WEBHOOK_BACKOFF_MAX_SEC)
+// until WEBHOOK_MAX_ATTEMPTS, after which the delivery is marked failed.
+
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS || "8"));
+const BACKOFF_BASE_SEC = Math.max(1, Number(process.env.WEBHOOK_BACKOFF_BASE_SEC || "30"));
+const BACKOFF_MAX_SEC = Math.max(BACKOFF_BASE_SEC, Number(process.env.WEBHOOK_BACKOFF_MAX_SEC || "21600"));
+const TIMEOUT_MS = Math.max(1000, Number(process.env.WEBHOOK_TIMEOUT_MS || "10000"));
+// Due deliveries sent concurrently per dispatch round.
+const DISPATCH_BATCH = 20;
+
+export const WEBHOOK_EVENT_SIGNAL = "signal.synced";
+
+export type WebhookRow = {
+    id: number;
+    url: string;
+    secret: string;
+    trader_address: string | null;
+    strategy_id: number | null;
+    asset_symbol: string | null;
+    description: string | null;
+    is_active: number;
+    created_ts: number;
+};
+
+export type WebhookDeliveryRow = {
+    id: number;
+    webhook_id: number;
+    event_type: string;
+    signal_id: number | null;
+    payload_json: string;
+    status: "pending" | "delivered" | "failed";
+    attempts: number;
+    next_attempt_ts: number | null;
+    last_attempt_ts: number | null;
+    response_status: number | null;
+    last_error: string | null;
+    replay_of: number | null;
+    created_ts: number;
+    delivered_ts: number | null;
+};
+
+export type SignalWebhookPayload = {
+    event: typeof WEBHOOK_EVENT_SIGNAL;
+    webhookId: number;
+    createdTs: number;
+    signal: {
+        id: number;
+        index: number; // on-chain index within the deployment's contract
+        deployment: { key: string; chainId: number; address: string };
+        trader: string;
+        strategyId: number;
+        strategyName: string;
+        asset: string;
+        direction: "LONG" | "SHORT";
+        leverage: number;
+        weightPct: number;
+        message: string | null;
+        timestamp: number;
+        txHash: string | null;
+        blockNumber: number | null;
+        logIndex: number | null;
+    };
+    // Positions right after the signal (approximate until the hourly engine reprices them).
+    snapshot: {
+        signalTs: number;
+        positions: { asset: string; percent: number; direction: string; leverage: number }[];
+    } | null;
+};
+
+let prepared = false;
+
+let matchingWebhooksStmt: any;
+let getSignalRowStmt: any;
+let getSnapshotStmt: any;
+let insertDeliveryStmt: any;
+let dueDeliveriesStmt: any;
+let markDeliveredStmt: any;
+let markAttemptFailedStmt: any;
+
+function prepareStatements() {
+    if (prepared) return;
+    prepared = true;
+
+    matchingWebhooksStmt = db.prepare(`
+        SELECT id
+        FROM webhooks
+        WHERE is_active = 1
+        AND (trader_address IS NULL OR trader_address = ?)
+        AND (strategy_id IS NULL OR strategy_id = ?)
+        AND (asset_symbol IS NULL OR asset_symbol = ?)
+        ORDER BY id ASC
+    `);
+
+    getSignalRowStmt = db.prepare(`
+        SELECT sg.id, sg.signal_index, sg.tx_hash, sg.trader_address, sg.strategy_name, sg.asset_symbol,
+               sg.direction, sg.leverage, sg.weight_raw, sg.message, sg.timestamp,
+               sg.block_number, sg.log_index, s.id AS strategy_id,
+               d.key AS deployment_key, d.chain_id, d.contract_address
+        FROM signals sg
+        JOIN strategies s
+        ON s.deployment_id = sg.deployment_id
+        AND s.trader_address = sg.trader_address
+        AND s.strategy_name = sg.strategy_name
+        JOIN deployments d ON d.id = sg.deployment_id
+        WHERE sg.id = ?
+    `);
+
+    getSnapshotStmt = db.prepare(`
+        SELECT signal_ts, positions_json
+        FROM strategy_position_snapshots
+        WHERE strategy_id = ? AND signal_ts = ?
+    `);
+
+    insertDeliveryStmt = db.prepare(`
+        INSERT INTO webhook_deliveries (
+            webhook_id, event_type, signal_id, payload_json, status,
+            attempts, next_attempt_ts, replay_of, created_ts
+        )
+        VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)
+    `);
+
+    dueDeliveriesStmt = db.prepare(`
+        SELECT d.id, d.attempts, d.payload_json, d.event_type, w.url, w.secret
+        FROM webhook_deliveries d
+        JOIN webhooks w ON w.id = d.webhook_id
+        WHERE d.status = 'pending'
+        AND d.next_attempt_ts <= ?
+        AND w.is_active = 1
+        ORDER BY d.next_attempt_ts ASC, d.id ASC
+        LIMIT ?
+    `);
+
+    markDeliveredStmt = db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'delivered', attempts = ?, last_attempt_ts = ?, response_status = ?,
+            last_error = NULL, next_attempt_ts = NULL, delivered_ts = ?
+        WHERE id = ?
+    `);
+
+    // status/next_attempt_ts decide between a retry and giving up
+    markAttemptFailedStmt = db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = ?, last_attempt_ts = ?, response_status = ?,
+            last_error = ?, next_attempt_ts = ?
+        WHERE id = ?
+    `);
+}
+
+/** Signature header value for a payload sent at `timestamp` (unix seconds). */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    const hmac = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    return `sha256=${hmac}`;
+}
+
+export function generateWebhookSecret(): string {
+    return crypto.randomBytes(32).toString("hex");
+}
+
+/** Delay before retry number `attempts` (1 = first retry), with up to 10% jitter. */
+export function webhookBackoffSec(attempts: number): number {
+    const base = Math.min(BACKOFF_MAX_SEC, BACKOFF_BASE_SEC * Math.pow(2, Math.max(0, attempts - 1)));
+    return Math.round(base * (1 + Math.random() * 0.1));
+}
+
+/**
+ * Build the payload for a stored signal, or null if the signal (or its strategy)
+ * no longer exists, e.g. after a reorg rollback.
+ */
+export function buildSignalPayload(webhookId: number, signalId: number): SignalWebhookPayload | null {
+    prepareStatements();
+
+    const sg = getSignalRowStmt.get(signalId) as
+        | {
+              id: number;
+              signal_index: number;
+              tx_hash: string;
+              trader_address: string;
+              strategy_name: string;
+              asset_symbol: string;
+              direction: number;
+              leverage: number;
+              weight_raw: number;
+              message: string | null;
+              timestamp: number;
+              block_number: number | null;
+              log_index: number | null;
+              strategy_id: number;
+              deployment_key: string;
+              chain_id: number;
+              contract_address: string;
+          }
+        | undefined;
+    if (!sg) return null;
+
+    const snapRow = getSnapshotStmt.get(sg.strategy_id, sg.timestamp) as
+        | { signal_ts: number; positions_json: string }
+        | undefined;
+
+    let snapshot: SignalWebhookPayload["snapshot"] = null;
+    if (snapRow) {
+        try {
+            const positions = JSON.parse(String(snapRow.positions_json || "[]"));
+            snapshot = { signalTs: snapRow.signal_ts, positions: Array.isArray(positions) ? positions : [] };
+        } catch {
+            // malformed row: send the signal without a snapshot
+        }
+    }
+
+    return {
+        event: WEBHOOK_EVENT_SIGNAL,
+        webhookId,
+        createdTs: Math.floor(Date.now() / 1000),
+        signal: {
+            id: sg.id,
+            index: sg.signal_index,
+            deployment: { key: sg.deployment_key, chainId: sg.chain_id, address: sg.contract_address },
+            trader: sg.trader_address,
+            strategyId: sg.strategy_id,
+            strategyName: sg.strategy_name,
+            asset: sg.asset_symbol,
+            // signals.direction: 0 = long, 1 = short (contract enum)
+            direction: sg.direction === 1 ? "SHORT" : "LONG",
+            leverage: sg.leverage,
+            weightPct: Math.max(0, Math.min(100, sg.weight_raw)),
+            message: sg.message ?? null,
+            timestamp: sg.timestamp,
+            txHash: sg.tx_hash ? sg.tx_hash : null,
+            blockNumber: sg.block_number ?? null,
+            logIndex: sg.log_index ?? null,
+        },
+        snapshot,
+    };
+}
+
+function enqueueDelivery(
+    webhookId: number,
+    signalId: number | null,
+    payloadJson: string,
+    replayOf: number | null = null
+): number {
+    prepareStatements();
+    const now = Math.floor(Date.now() / 1000);
+    const info = insertDeliveryStmt.run(webhookId, WEBHOOK_EVENT_SIGNAL, signalId, payloadJson, now, replayOf, now);
+    return Number(info.lastInsertRowid);
+}
+
+/** Queue a delivery of `signalId` to every active webhook whose filter matches it. */
+export function enqueueSignalDeliveries(signalId: number): number {
+    prepareStatements();
+
+    const first = buildSignalPayload(0, signalId);
+    if (!first) return 0;
+
+    const hooks = matchingWebhooksStmt.all(
+        first.signal.trader.toLowerCase(),
+        first.signal.strategyId,
+        first.signal.asset.toUpperCase()
+    ) as { id: number }[];
+
+    const tx = db.transaction(() => {
+        for (const h of hooks) {
+            const payload: SignalWebhookPayload = { ...first, webhookId: h.id };
+            enqueueDelivery(h.id, signalId, JSON.stringify(payload));
+        }
+    });
+    tx();
+    return hooks.length;
+}
+
+/**
+ * Re-send logged deliveries of a webhook as new deliveries (the originals keep
+ * their log). Select one delivery by id, or every signal delivery created in
+ * [fromTs, toTs]. With `rebuild`, payloads are rebuilt from the current signals
+ * and snapshots instead of copied.
+ */
+export function replayWebhookDeliveries(
+    webhookId: number,
+    opts: { deliveryId?: number; fromTs?: number; toTs?: number; rebuild?: boolean }
+): number[] {
+    prepareStatements();
+
+    const where: string[] = ["webhook_id = ?"];
+    const params: unknown[] = [webhookId];
+    if (opts.deliveryId != null) {
+        where.push("id = ?");
+        params.push(opts.deliveryId);
+    } else {
+        // ranges replay original deliveries only, not earlier replays of them
+        where.push("replay_of IS NULL");
+    }
+    if (opts.fromTs != null) {
+        where.push("created_ts >= ?");
+        params.push(opts.fromTs);
+    }
+    if (opts.toTs != null) {
+        where.push("created_ts <= ?");
+        params.push(opts.toTs);
+    }
+
+    const originals = db
+        .prepare(
+            `SELECT id, signal_id, payload_json
+            FROM webhook_deliveries
+            WHERE ${where.join(" AND ")}
+            ORDER BY id ASC`
+        )
+        .all(...params) as { id: number; signal_id: number | null; payload_json: string }[];
+
+    const created: number[] = [];
+    const tx = db.transaction(() => {
+        for (const d of originals) {
+            let payloadJson = d.payload_json;
+            if (opts.rebuild && d.signal_id != null) {
+                const payload = buildSignalPayload(webhookId, d.signal_id);
+                if (!payload) continue; // signal rolled back since
+                payloadJson = JSON.stringify(payload);
+            }
+            created.push(enqueueDelivery(webhookId, d.signal_id, payloadJson, d.id));
+        }
+    });
+    tx();
+
+    if (created.length) kickWebhookDispatcher();
+    return created;
+}
+
+async function attemptDelivery(d: {
+    id: number;
+    attempts: number;
+    payload_json: string;
+    event_type: string;
+    url: string;
+    secret: string;
+}) {
+    const attempts = d.attempts + 1;
+    const sentTs = Math.floor(Date.now() / 1000);
+
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+        const res = await fetch(d.url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "ChainSignals-Webhooks/1",
+                "X-ChainSignals-Event": d.event_type,
+                "X-ChainSignals-Delivery": String(d.id),
+                "X-ChainSignals-Timestamp": String(sentTs),
+                "X-ChainSignals-Signature": signWebhookPayload(d.secret, sentTs, d.payload_json),
+            },
+            body: d.payload_json,
+            redirect: "manual",
+            signal: AbortSignal.timeout(TIMEOUT_MS),
+        });
+        status = res.status;
+        // drain so the connection can be reused
+        await res.arrayBuffer().catch(() => undefined);
+        if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (err: any) {
+        // fetch() hides the socket error (ECONNREFUSED, ...) in `cause`
+        const cause = err?.cause?.code || err?.cause?.message;
+        error =
+            err?.name === "TimeoutError"
+                ? `Timed out after ${TIMEOUT_MS}ms`
+                : `${err?.message || String(err)}${cause ? ` (${cause})` : ""}`;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (!error) {
+        markDeliveredStmt.run(attempts, sentTs, status, now, d.id);
+        return;
+    }
+
+    if (attempts >= MAX_ATTEMPTS) {
+        markAttemptFailedStmt.run("failed", attempts, sentTs, status, error, null, d.id);
+        console.warn(`[webhooks] delivery ${d.id} to ${d.url} failed after ${attempts} attempts: ${error}`);
+    } else {
+        markAttemptFailedStmt.run("pending", attempts, sentTs, status, error, now + webhookBackoffSec(attempts), d.id);
+    }
+}
+
+let dispatching = false;
+// set by startWebhooks
+let unsubscribe: (() => void) | null = null;
+
+/** Send every due pending delivery. Concurrent calls return immediately. */
+export async function processWebhookDeliveries(): Promise<number> {
+    prepareStatements();
+    if (dispatching) return 0;
+    dispatching = true;
+
+    let sent = 0;
+    try {
+        for (;;) {
+            const now = Math.floor(Date.now() / 1000);
+            const due = dueDeliveriesStmt.all(now, DISPATCH_BATCH) as Parameters<typeof attemptDelivery>[0][];
+            if (due.length === 0) break;
+            await Promise.all(due.map((d) => attemptDelivery(d)));
+            sent += due.length;
+        }
+    } finally {
+        dispatching = false;
+    }
+    return sent;
+}
+
+function kickWebhookDispatcher() {
+    // only the process running the jobs sends (an "api" process leaves replays to its
+    // webhook_deliveries job), so two processes never send the same delivery
+    if (!unsubscribe) return;
+    processWebhookDeliveries().catch((err) => {
+        console.error("[webhooks] dispatch error:", err);
+        recordPipelineError("webhooks", err);
+    });
+}
+
+function onStreamEvent(evt: StreamEvent) {
+    if (evt.type !== "signal.synced") return;
+    const signalId = Number(evt.data.signalId);
+    if (!Number.isInteger(signalId)) return;
+
+    try {
+        if (enqueueSignalDeliveries(signalId) > 0) kickWebhookDispatcher();
+    } catch (err) {
+        // never let a webhook problem break signal sync (listeners run inside flushEvents)
+        console.error(`[webhooks] failed to enqueue signal ${signalId}:`, err);
+        recordPipelineError("webhooks", err);
+    }
+}
+
+/** Start queueing deliveries for synced signals, and sending them from this process. Idempotent. */
+export function startWebhooks() {
+    if (unsubscribe) return;
+    unsubscribe = subscribeEvents(onStreamEvent);
+}
@@ -0,0 +1,158 @@
+// Window registry shared by the stats pass (segments.ts, trades.ts) and the API.
+//
+// A window id resolves, against an anchor time (now for stored stats, the last segment
+// end for charts), to a (fromTs, toTs] range of segment end times:
+//  - rolling:  1W 1M 3M 6M 1Y, and any <n>D / <n>W / <n>M / <n>Y for charts
+//  - calendar: MTD QTD YTD (UTC, to date) and past calendar years ("2024")
+//  - ALL:      the whole history
+//  - custom:   "YYYY-MM-DD..YYYY-MM-DD" (UTC days, both inclusive), computed on demand
+// Stats for every stored window (all but custom and ad-hoc rolling ones) are kept in
+// strategy_stats / strategy_metrics; custom ranges are computed from segments per request.
+
+export type WindowKind = "rolling" | "calendar" | "all" | "custom";
+
+export type StatWindow = {
+    id: string;
+    kind: WindowKind;
+    label: string;
+    fromTs: number | null; // segments ending after it; null = from the start
+    toTs: number | null; // segments ending at or before it; null = up to the latest
+};
+
+export class WindowParamError extends Error {}
+
+const DAY = 24 * 60 * 60;
+
+// Rolling windows with stored stats, shortest first.
+export const ROLLING_WINDOWS = [
+    { id: "1W", seconds: 7 * DAY },
+    { id: "1M", seconds: 30 * DAY },
+    { id: "3M", seconds: 90 * DAY },
+    { id: "6M", seconds: 180 * DAY },
+    { id: "1Y", seconds: 365 * DAY },
+] as const;
+
+const TO_DATE_WINDOWS = ["MTD", "QTD", "YTD"] as const;
+
+const ROLLING_UNIT_SEC: Record<string, number> = {
+    D: DAY,
+    W: 7 * DAY,
+    M: 30 * DAY, // approx
+    Y: 365 * DAY, // approx
+};
+
+const ROLLING_RE = /^(\d+)([DWMY])$/;
+const YEAR_RE = /^(\d{4})$/;
+const CUSTOM_RE = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+function utcYear(ts: number): number {
+    return new Date(ts * 1000).getUTCFullYear();
+}
+
+function utcTs(year: number, month = 0, day = 1): number {
+    return Date.UTC(year, month, day) / 1000;
+}
+
+function parseUtcDay(s: string): number | null {
+    const ts = Date.parse(`${s}T00:00:00Z`);
+    // Date.parse rolls 2024-02-31 over; require the date to round-trip
+    if (!Number.isFinite(ts) || new Date(ts).toISOString().slice(0, 10) !== s) return null;
+    return ts / 1000;
+}
+
+function toDateWindow(id: (typeof TO_DATE_WINDOWS)[number], anchorTs: number): StatWindow {
+    const d = new Date(anchorTs * 1000);
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth();
+    const startMonth = id === "MTD" ? month : id === "QTD" ? month - (month % 3) : 0;
+    const labels = { MTD: "Month to date", QTD: "Quarter to date", YTD: "Year to date" };
+    return { id, kind: "calendar", label: labels[id], fromTs: utcTs(year, startMonth), toTs: null };
+}
+
+function yearWindow(year: number): StatWindow {
+    return { id: String(year), kind: "calendar", label: String(year), fromTs: utcTs(year), toTs: utcTs(year + 1) };
+}
+
+/** Canonical form of a window param: upper-case, trimmed (custom ranges keep their dates). */
+export function normalizeWindowId(raw: unknown): string {
+    return String(raw ?? "").trim().toUpperCase();
+}
+
+/** Custom window id for a from / to pair of UTC days ("YYYY-MM-DD"). */
+export function customWindowId(from: string, to: string): string {
+    return `${from.trim()}..${to.trim()}`;
+}
+
+/** Resolve a window id against `anchorTs`; throws WindowParamError for unknown ids. */
+export function resolveWindow(rawId: string, anchorTs: number): StatWindow {
+    const id = normalizeWindowId(rawId);
+
+    if (id === "ALL") return { id, kind: "all", label: "All time", fromTs: null, toTs: null };
+
+    if ((TO_DATE_WINDOWS as readonly string[]).includes(id)) {
+        return toDateWindow(id as (typeof TO_DATE_WINDOWS)[number], anchorTs);
+    }
+
+    let m = ROLLING_RE.exec(id);
+    if (m) {
+        const n = Number(m[1]);
+        if (n <= 0) throw new WindowParamError(`Invalid window "${rawId}"`);
+        return { id, kind: "rolling", label: id, fromTs: anchorTs - n * ROLLING_UNIT_SEC[m[2]], toTs: null };
+    }
+
+    m = YEAR_RE.exec(id);
+    if (m) return yearWindow(Number(m[1]));
+
+    m = CUSTOM_RE.exec(id);
+    if (m) {
+        const from = parseUtcDay(m[1]);
+        const to = parseUtcDay(m[2]);
+        if (from == null || to == null) throw new WindowParamError(`Invalid date in window "${rawId}"`);
+        if (to < from) throw new WindowParamError(`Window "${rawId}" ends before it starts`);
+        return { id, kind: "custom", label: `${m[1]} – ${m[2]}`, fromTs: from, toTs: to + DAY };
+    }
+
+    throw new WindowParamError(
+        `Unknown window "${rawId}" (expected ALL, 1W, 1M, 3M, 6M, 1Y, <n>D/W/M/Y, MTD, QTD, YTD, a year or YYYY-MM-DD..YYYY-MM-DD)`
+    );
+}
+
+/**
+ * True for ids whose stats are stored by the stats pass at `anchorTs` for data since
+ * `firstTs` (see storedWindows): years outside that range have no stored stats.
+ */
+export function isStoredWindowId(rawId: string, anchorTs: number, firstTs: number | null): boolean {
+    const id = normalizeWindowId(rawId);
+    return storedWindows(anchorTs, firstTs).some((w) => w.id === id);
+}
+
+/**
+ * Windows with stored stats at `anchorTs`: the rolling ones, ALL, MTD / QTD / YTD, and
+ * every past calendar year since `firstTs` (most recent first).
+ */
+export function storedWindows(anchorTs: number, firstTs: number | null): StatWindow[] {
+    const out: StatWindow[] = ROLLING_WINDOWS.map((w) => resolveWindow(w.id, anchorTs));
+    out.push(resolveWindow("ALL", anchorTs));
+    for (const id of TO_DATE_WINDOWS) out.push(toDateWindow(id, anchorTs));
+    if (firstTs != null) {
+        for (let y = utcYear(anchorTs) - 1; y >= utcYear(firstTs); y--) out.push(yearWindow(y));
+    }
+    return out;
+}
+
+/**
+ * [i0, i1) indexes of the segments (sorted by end_ts) inside a window:
+ * fromTs < end_ts <= toTs. Empty when i0 >= i1.
+ */
+export function windowSegmentRange(segments: { end_ts: number }[], w: StatWindow): [number, number] {
+    let i0 = 0;
+    if (w.fromTs != null) {
+        i0 = segments.findIndex((s) => s.end_ts > w.fromTs!);
+        if (i0 < 0) i0 = segments.length;
+    }
+    let i1 = segments.length;
+    if (w.toTs != null) {
+        while (i1 > i0 && segments[i1 - 1].end_ts > w.toTs) i1--;
+    }
+    return [i0, i1];
+}
@@ -0,0 +1,66 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { computeStrategyAttribution } from "../src/attribution";
+import { extendAllStrategySegments } from "../src/segments";
+import { resolveWindow } from "../src/windows";
+
+const HOUR = 3600;
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+setupDb();
+
+const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+insertPrices("BTC", [
+    [H0, 100],
+    [H0 + HOUR, 110],
+    [H0 + 2 * HOUR, 121],
+    [H0 + 3 * HOUR, 121],
+]);
+insertPrices("ETH", [
+    [H0, 10],
+    [H0 + HOUR, 9],
+    [H0 + 2 * HOUR, 9],
+    [H0 + 3 * HOUR, 8.1],
+]);
+const { strategyId } = seedStrategy("legs", [
+    { asset: "BTC", ts: H0 },
+    { asset: "ETH", direction: 1, leverage: 2, weight: 50, ts: H0 },
+]);
+extendAllStrategySegments([strategyId]);
+
+const all = () => computeStrategyAttribution(strategyId, resolveWindow("ALL", H0 + 3 * HOUR), "asset");
+
+test("splits the window return between legs", () => {
+    const a = all();
+    const lastValue = db
+        .prepare("SELECT value_index_end FROM strategy_segments WHERE strategy_id = ? ORDER BY start_ts DESC LIMIT 1")
+        .pluck()
+        .get(strategyId) as number;
+
+    assert.equal(a.complete, true);
+    assert.equal(a.coverageFromTs, H0);
+    assert.ok(close(a.totalReturn, lastValue - 1));
+    assert.ok(close(a.totals.total, a.totalReturn));
+    assert.ok(close(a.unattributed, 0));
+    assert.deepEqual(a.groups.map((g) => g.key).sort(), ["BTC", "ETH"]);
+    // the short ETH leg gains 20% of its half in the first hour
+    assert.ok(a.groups.find((g) => g.key === "ETH")!.price > 0.1);
+});
+
+test("reports history recorded before attribution as unattributed", () => {
+    // segments from before the upgrade have no attribution rows
+    db.prepare("DELETE FROM strategy_segment_attribution WHERE strategy_id = ? AND start_ts = ?").run(strategyId, H0);
+
+    const a = all();
+    assert.equal(a.complete, false);
+    assert.equal(a.coverageFromTs, H0 + HOUR);
+    assert.ok(Math.abs(a.unattributed) > 0.01);
+    assert.ok(close(a.totals.total + a.unattributed, a.totalReturn));
+
+    db.prepare("DELETE FROM strategy_segment_attribution WHERE strategy_id = ?").run(strategyId);
+    const none = all();
+    assert.equal(none.complete, false);
+    assert.equal(none.coverageFromTs, null);
+    assert.ok(close(none.unattributed, none.totalReturn));
+});
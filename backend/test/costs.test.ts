@@ -0,0 +1,80 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getCostModel, tradeCost } from "../src/costs";
+import { extendAllStrategySegments } from "../src/segments";
+
+// the cost table is loaded on first use, after this
+process.env.TRADING_COSTS_JSON = JSON.stringify({
+    default: { takerFeeBps: 5, slippageBps: 5 },
+    KAS: { takerFeeBps: 10, slippageBps: 20, spreadBps: 10 },
+});
+
+const HOUR = 3600;
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+setupDb();
+
+test("charges fee, slippage and half the spread on the notional", () => {
+    assert.deepEqual(getCostModel("kas"), { takerFeeBps: 10, slippageBps: 20, spreadBps: 10 });
+    // unlisted assets use "default"
+    assert.deepEqual(getCostModel("BTC"), { takerFeeBps: 5, slippageBps: 5, spreadBps: 0 });
+
+    const kas = tradeCost("KAS", 2);
+    assert.ok(close(kas.fee, 0.002));
+    assert.ok(close(kas.slippage, 0.004));
+    assert.ok(close(kas.spread, 0.001));
+    assert.ok(close(kas.total, 0.007));
+
+    assert.ok(close(tradeCost("BTC", 1).total, 0.001));
+    assert.equal(tradeCost("USD", 1).total, 0);
+    assert.equal(tradeCost("BTC", 0).total, 0);
+    assert.equal(tradeCost("BTC", -1).total, 0);
+});
+
+test("the engine charges costs on the exposure traded and keeps a cost-free gross index", () => {
+    const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+    insertPrices("BTC", [
+        [H0, 100],
+        [H0 + HOUR, 100],
+        [H0 + 2 * HOUR, 100],
+    ]);
+    const { strategyId } = seedStrategy("costed", [
+        { asset: "BTC", ts: H0 },
+        // flip from 1x long to 2x short: trades 1 + 2 times equity
+        { asset: "BTC", direction: 1, leverage: 2, ts: H0 + HOUR },
+    ]);
+
+    extendAllStrategySegments([strategyId]);
+
+    const segs = db
+        .prepare(
+            `SELECT start_ts, raw_return, value_index_end, gross_return, gross_value_index_end
+            FROM strategy_segments WHERE strategy_id = ? ORDER BY start_ts`
+        )
+        .all(strategyId) as { start_ts: number; raw_return: number; value_index_end: number; gross_return: number; gross_value_index_end: number }[];
+    assert.equal(segs.length, 2);
+    // a signal on the hour closes the segment ending there, so both rebalances fall in the first
+    assert.ok(close(segs[0].value_index_end, 0.999 * (1 - 0.003)));
+    assert.ok(close(segs[1].raw_return, 0));
+    for (const s of segs) {
+        assert.ok(close(s.gross_return, 0));
+        assert.ok(close(s.gross_value_index_end, 1));
+    }
+
+    const costs = db
+        .prepare("SELECT signal_ts, notional, total_cost, equity_before FROM strategy_rebalance_costs WHERE strategy_id = ? ORDER BY signal_ts")
+        .all(strategyId) as { signal_ts: number; notional: number; total_cost: number; equity_before: number }[];
+    assert.equal(costs.length, 2);
+    assert.ok(close(costs[0].notional, 1) && close(costs[0].total_cost, 0.001) && close(costs[0].equity_before, 1));
+    assert.equal(costs[1].signal_ts, H0 + HOUR);
+    assert.ok(close(costs[1].notional, 3 * 0.999));
+    assert.ok(close(costs[1].total_cost, 0.003 * 0.999));
+
+    // attribution: with flat prices the cost P&L is the whole change in value index
+    const costPnl = db
+        .prepare("SELECT SUM(cost_pnl) FROM strategy_segment_attribution WHERE strategy_id = ? AND start_ts = ?")
+        .pluck()
+        .get(strategyId, H0) as number;
+    assert.ok(close(costPnl, segs[0].value_index_end - 1));
+});
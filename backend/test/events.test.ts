@@ -0,0 +1,104 @@
+import { db, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+    discardEvents,
+    eventsAfter,
+    flushEvents,
+    forEachEventAfter,
+    publishEvent,
+    startEventRelay,
+    stopEventRelay,
+    subscribeEvents,
+    type StreamEvent,
+} from "../src/events";
+
+setupDb();
+
+const lastId = () => db.prepare("SELECT COALESCE(MAX(id), 0) FROM stream_events").pluck().get() as number;
+
+test("writes every event to the outbox and emits it locally", () => {
+    const received: StreamEvent[] = [];
+    const unsubscribe = subscribeEvents((evt) => received.push(evt));
+    try {
+        const before = lastId();
+        publishEvent("signal.synced", { strategyId: 7, trader: "0xABC" }, { signalId: 3 });
+
+        assert.equal(received.length, 1);
+        assert.deepEqual(eventsAfter(before), received);
+        assert.equal(received[0].id, before + 1);
+        assert.equal(received[0].trader, "0xabc");
+        assert.deepEqual(received[0].data, { signalId: 3 });
+    } finally {
+        unsubscribe();
+    }
+});
+
+test("events of a transaction are emitted on commit and dropped with a rollback", () => {
+    const received: StreamEvent[] = [];
+    const unsubscribe = subscribeEvents((evt) => received.push(evt));
+    try {
+        const before = lastId();
+        db.transaction(() => {
+            publishEvent("segments.extended", { strategyId: 1 });
+            publishEvent("stats.recomputed", { strategyId: 1 });
+            assert.equal(received.length, 0);
+        })();
+        flushEvents();
+        assert.deepEqual(
+            received.map((e) => e.type),
+            ["segments.extended", "stats.recomputed"]
+        );
+        assert.deepEqual(eventsAfter(before), received);
+
+        const committed = lastId();
+        assert.throws(() =>
+            db.transaction(() => {
+                publishEvent("signal.synced", { strategyId: 2 });
+                throw new Error("sync failed");
+            })()
+        );
+        discardEvents();
+        flushEvents();
+        assert.equal(received.length, 2);
+        assert.deepEqual(eventsAfter(committed), []);
+    } finally {
+        unsubscribe();
+    }
+});
+
+test("catches up on more events than one outbox batch", () => {
+    const before = lastId();
+    db.transaction(() => {
+        for (let i = 0; i < 1201; i++) publishEvent("snapshot.updated", { strategyId: 5 }, { i });
+    })();
+    discardEvents(); // only the outbox matters here
+
+    const seen: number[] = [];
+    const last = forEachEventAfter(before, (evt) => seen.push(evt.data.i as number));
+    assert.equal(seen.length, 1201);
+    assert.equal(seen[1200], 1200);
+    assert.equal(last, lastId());
+});
+
+test("a relaying process gets its own events once, from the outbox", async () => {
+    const received: StreamEvent[] = [];
+    const unsubscribe = subscribeEvents((evt) => received.push(evt));
+    startEventRelay();
+    try {
+        const before = lastId();
+        publishEvent("stats.recomputed", { strategyId: 4 });
+        db.transaction(() => publishEvent("segments.extended", { strategyId: 4 }))();
+        flushEvents();
+        assert.equal(received.length, 0);
+
+        await new Promise((resolve) => setTimeout(resolve, 1200));
+        assert.deepEqual(
+            received.map((e) => e.id),
+            [before + 1, before + 2]
+        );
+    } finally {
+        stopEventRelay();
+        unsubscribe();
+    }
+});
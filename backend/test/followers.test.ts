@@ -0,0 +1,102 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildFollowerReport, FollowerInputError, parseFollowerConfig } from "../src/followers";
+import { extendAllStrategySegments, simulateFollower } from "../src/segments";
+
+const HOUR = 3600;
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+setupDb();
+
+test("validates follower settings", () => {
+    const cfg = parseFollowerConfig({ startTs: "1600000000123" }, 7);
+    assert.deepEqual(cfg, { strategyId: 7, startTs: 1_600_000_000, capital: 10_000, leverageScale: 1, delayMinutes: 0 });
+    assert.equal(parseFollowerConfig({ strategyId: "3", start: 1_600_000_000, capital: "500" }).capital, 500);
+
+    const rejects = (raw: Record<string, unknown>, message: RegExp) =>
+        assert.throws(() => parseFollowerConfig(raw), (err: unknown) => err instanceof FollowerInputError && message.test(err.message));
+    rejects({ startTs: 1_600_000_000 }, /Invalid strategyId/);
+    rejects({ strategyId: 1 }, /startTs .* is required/);
+    rejects({ strategyId: 1, startTs: Math.floor(Date.now() / 1000) + 3600 }, /in the past/);
+    rejects({ strategyId: 1, startTs: 1_600_000_000, capital: 0 }, /capital/);
+    rejects({ strategyId: 1, startTs: 1_600_000_000, leverageScale: 5.5 }, /leverageScale must be in \(0, 5\]/);
+    rejects({ strategyId: 1, startTs: 1_600_000_000, delayMinutes: 1.5 }, /delayMinutes/);
+});
+
+test("a follower from the first signal tracks the strategy", () => {
+    const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+    insertPrices("BTC", [
+        [H0, 100],
+        [H0 + HOUR, 110],
+        [H0 + 2 * HOUR, 104.5],
+    ]);
+    insertPrices("ETH", [
+        [H0, 50],
+        [H0 + HOUR, 50],
+        [H0 + 2 * HOUR, 60],
+    ]);
+    const { strategyId } = seedStrategy("leader", [
+        { asset: "BTC", ts: H0 },
+        { asset: "ETH", weight: 50, direction: 1, leverage: 2, ts: H0 + HOUR },
+    ]);
+    extendAllStrategySegments([strategyId]);
+
+    const strategySegments = db
+        .prepare("SELECT end_ts, value_index_end FROM strategy_segments WHERE strategy_id = ? ORDER BY start_ts")
+        .all(strategyId) as { end_ts: number; value_index_end: number }[];
+
+    const sim = simulateFollower({ strategyId, startTs: H0, leverageScale: 1, delayMinutes: 0 })!;
+    assert.deepEqual(
+        sim.segments.map((s) => s.end_ts),
+        strategySegments.map((s) => s.end_ts)
+    );
+    sim.segments.forEach((s, i) => assert.ok(close(s.value_index_end, strategySegments[i].value_index_end)));
+
+    assert.equal(simulateFollower({ strategyId: 999, startTs: H0, leverageScale: 1, delayMinutes: 0 }), null);
+});
+
+test("scales the leader's leverage and reports in the follower's capital", () => {
+    const H0 = 1_610_000_000 - (1_610_000_000 % HOUR);
+    insertPrices("SOL", [
+        [H0, 10],
+        [H0 + HOUR, 11],
+    ]);
+    // started after the signal: the follower enters at the leader's allocation
+    const { strategyId } = seedStrategy("scaled", [{ asset: "SOL", ts: H0 - 600 }]);
+    insertPrices("SOL", [[H0 - 600, 10]]);
+
+    const report = buildFollowerReport({ strategyId, startTs: H0, capital: 1000, leverageScale: 2, delayMinutes: 0 })!;
+    assert.ok(close(report.summary.equity, 1200));
+    assert.ok(close(report.summary.pnl, 200));
+    assert.equal(report.summary.asOfTs, H0 + HOUR);
+    assert.deepEqual(report.points[0], { timestamp: H0, equity: 1000, valueIndex: 1 });
+});
+
+test("executes later signals after the configured delay", () => {
+    const H0 = 1_620_000_000 - (1_620_000_000 % HOUR);
+    insertPrices("XRP", [
+        [H0, 1],
+        [H0 + HOUR, 1],
+        [H0 + HOUR + 1800, 1.2],
+        [H0 + 2 * HOUR, 1.2],
+    ]);
+    insertPrices("KAS", [
+        [H0, 0.1],
+        [H0 + HOUR, 0.1],
+        [H0 + 2 * HOUR, 0.1],
+    ]);
+    const { strategyId } = seedStrategy("delayed", [
+        { asset: "XRP", ts: H0 },
+        // switch out of XRP before it rallies; a 30 minute delay still catches the move
+        { asset: "KAS", ts: H0 + HOUR },
+        { asset: "XRP", weight: 0, ts: H0 + HOUR },
+    ]);
+
+    const onTime = simulateFollower({ strategyId, startTs: H0, leverageScale: 1, delayMinutes: 0 })!;
+    const late = simulateFollower({ strategyId, startTs: H0, leverageScale: 1, delayMinutes: 30 })!;
+    const valueAt = (sim: typeof late, endTs: number) => sim.segments.find((s) => s.end_ts === endTs)!.value_index_end;
+
+    assert.ok(close(valueAt(onTime, H0 + 2 * HOUR), 1));
+    assert.ok(close(valueAt(late, H0 + 2 * HOUR), 1.2));
+});
@@ -0,0 +1,105 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+    createFileFundingProvider,
+    createStaticFundingProvider,
+    getFundingProvider,
+    setFundingProvider,
+} from "../src/funding";
+import { extendAllStrategySegments } from "../src/segments";
+
+const HOUR = 3600;
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+setupDb();
+
+test("no funding unless FUNDING_RATES selects a provider", () => {
+    const provider = getFundingProvider();
+    assert.equal(provider.name, "none");
+    assert.equal(provider.annualRate("BTC", "SHORT", 0), 0);
+});
+
+test("static rates fall back to the default pair per direction", () => {
+    const builtIn = createStaticFundingProvider();
+    assert.equal(builtIn.annualRate("kas", "LONG", 0), 0.15);
+    assert.equal(builtIn.annualRate("DOGE", "SHORT", 0), 0.05);
+
+    const custom = createStaticFundingProvider({ default: { long: 0.2, short: -0.01 }, BTC: { long: 0.1 } });
+    assert.equal(custom.annualRate("BTC", "LONG", 0), 0.1);
+    assert.equal(custom.annualRate("BTC", "SHORT", 0), -0.01);
+    assert.equal(custom.annualRate("ETH", "LONG", 0), 0.2);
+});
+
+test("file rates apply from each row's timestamp on", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "funding-"));
+    try {
+        const csv = path.join(dir, "rates.csv");
+        fs.writeFileSync(
+            csv,
+            ["asset,timestamp,long,short", "BTC,1000,0.1,0.05", "BTC,2000000000000,0.2,0.04", "default,500,0.3,0.3", "bad,row"].join("\n")
+        );
+        const p = createFileFundingProvider(csv);
+        assert.equal(p.annualRate("BTC", "LONG", 999), 0.3); // before BTC's first row: default
+        assert.equal(p.annualRate("BTC", "LONG", 1000), 0.1);
+        assert.equal(p.annualRate("BTC", "SHORT", 1_999_999_999), 0.05);
+        // millisecond timestamps are converted to seconds
+        assert.equal(p.annualRate("btc", "LONG", 2_000_000_000), 0.2);
+        assert.equal(p.annualRate("ETH", "SHORT", 400), 0);
+
+        const json = path.join(dir, "rates.json");
+        fs.writeFileSync(json, JSON.stringify([{ asset: "ETH", timestamp: 10, long: 0.07, short: 0.02 }]));
+        assert.equal(createFileFundingProvider(json).annualRate("ETH", "SHORT", 10), 0.02);
+
+        const noColumns = path.join(dir, "bad.csv");
+        fs.writeFileSync(noColumns, "asset,ts\nBTC,1\n");
+        assert.throws(() => createFileFundingProvider(noColumns), /must have asset, timestamp, long and short/);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+    assert.throws(() => createFileFundingProvider(""), /FUNDING_RATES_PATH/);
+});
+
+test("the engine charges funding on the borrowed part of each leg", () => {
+    // 87.6% APR = 0.01% per hour
+    setFundingProvider({ name: "test", annualRate: () => 0.876 });
+
+    const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+    for (const asset of ["BTC", "ETH", "SOL"]) {
+        insertPrices(asset, [
+            [H0, 100],
+            [H0 + HOUR, 100],
+        ]);
+    }
+    const spot = seedStrategy("spot", [{ asset: "BTC", ts: H0 }]);
+    const long3x = seedStrategy("long3x", [{ asset: "ETH", leverage: 3, ts: H0 }]);
+    const short1x = seedStrategy("short1x", [{ asset: "SOL", direction: 1, ts: H0 }]);
+
+    extendAllStrategySegments([spot.strategyId, long3x.strategyId, short1x.strategyId]);
+
+    const segment = db.prepare(
+        "SELECT value_index_end, funding_return, gross_value_index_end FROM strategy_segments WHERE strategy_id = ? AND start_ts = ?"
+    );
+    const seg = (id: number) =>
+        segment.get(id, H0) as { value_index_end: number; funding_return: number; gross_value_index_end: number };
+
+    // unleveraged longs borrow nothing
+    assert.equal(seg(spot.strategyId).funding_return, 0);
+    assert.equal(seg(spot.strategyId).value_index_end, 1);
+    // a 3x long borrows twice its equity
+    assert.ok(close(seg(long3x.strategyId).funding_return, -0.0002));
+    assert.ok(close(seg(long3x.strategyId).value_index_end, 0.9998));
+    // a short borrows the asset it sells
+    assert.ok(close(seg(short1x.strategyId).funding_return, -0.0001));
+    // funding is a carrying cost, not a trading cost: the gross index includes it
+    assert.ok(close(seg(short1x.strategyId).gross_value_index_end, 0.9999));
+
+    const fundingPnl = db
+        .prepare("SELECT funding_pnl FROM strategy_segment_attribution WHERE strategy_id = ? AND start_ts = ?")
+        .pluck()
+        .get(long3x.strategyId, H0) as number;
+    assert.ok(close(fundingPnl, -0.0002));
+});
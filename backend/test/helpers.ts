@@ -0,0 +1,115 @@
+// Shared setup for the backend tests (node:test, run with `npm test`).
+//
+// Import this first in every test file: modules read their settings from the environment
+// when loaded, and db.ts opens DATABASE_PATH on import. Each test file runs in its own
+// process, so every file gets a fresh in-memory database.
+import http from "http";
+import type { AddressInfo } from "net";
+
+process.env.DATABASE_PATH = ":memory:";
+process.env.PRICE_PROVIDER = "fixture";
+process.env.CHAIN_ID = "1";
+process.env.CHAIN_RPC_URL = "http://127.0.0.1:1";
+process.env.CHAIN_SIGNALS_ADDRESS = "0x" + "a".repeat(40);
+
+// required, not imported: imports would load db.ts before the env above is set
+const { db, initDb } = require("../src/db") as typeof import("../src/db");
+
+export const TRADER = "0x" + "1".repeat(40);
+
+let deploymentId: number | null = null;
+
+/** initDb plus one deployment row for the seeded signals. */
+export function setupDb(): number {
+    initDb();
+    if (deploymentId == null) {
+        const info = db
+            .prepare(
+                `INSERT INTO deployments (key, chain_id, chain_name, contract_address, start_block, is_active, created_ts)
+                VALUES ('default', 1, 'Test', ?, 0, 1, 0)`
+            )
+            .run(process.env.CHAIN_SIGNALS_ADDRESS);
+        deploymentId = Number(info.lastInsertRowid);
+    }
+    return deploymentId;
+}
+
+export type SeedSignal = {
+    asset: string;
+    direction?: 0 | 1; // 0 = long, 1 = short (contract enum)
+    leverage?: number;
+    weight?: number;
+    ts: number;
+    message?: string;
+};
+
+/**
+ * Store `signals` for one strategy the way signal sync does (signals rows, strategies
+ * row). Returns the strategy id and the signal row ids.
+ */
+export function seedStrategy(name: string, signals: SeedSignal[]): { strategyId: number; signalIds: number[] } {
+    const depId = setupDb();
+    const nextIndex = Number(
+        db.prepare("SELECT COALESCE(MAX(signal_index), -1) + 1 FROM signals WHERE deployment_id = ?").pluck().get(depId)
+    );
+
+    const signalIds = signals.map((s, i) => {
+        const info = db
+            .prepare(
+                `INSERT INTO signals (
+                    deployment_id, signal_index, tx_hash, trader_address, strategy_name, asset_symbol,
+                    direction, leverage, weight_raw, message, timestamp
+                )
+                VALUES (?, ?, '', ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(depId, nextIndex + i, TRADER, name, s.asset, s.direction ?? 0, s.leverage ?? 1, s.weight ?? 100, s.message ?? "", s.ts);
+        return Number(info.lastInsertRowid);
+    });
+
+    const info = db
+        .prepare(
+            `INSERT INTO strategies (deployment_id, trader_address, strategy_name, first_signal_ts, last_signal_ts, num_signals)
+            VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(depId, TRADER, name, signals[0].ts, signals[signals.length - 1].ts, signals.length);
+
+    return { strategyId: Number(info.lastInsertRowid), signalIds };
+}
+
+/** Store prices of `asset` as [unix seconds, USD] pairs (hourly or signal-time samples). */
+export function insertPrices(asset: string, points: [number, number][]) {
+    const stmt = db.prepare("INSERT OR REPLACE INTO prices (asset_symbol, timestamp, price_usd) VALUES (?, ?, ?)");
+    db.transaction(() => {
+        for (const [ts, px] of points) stmt.run(asset, ts, px);
+    })();
+}
+
+export type ReceivedRequest = { headers: http.IncomingHttpHeaders; body: string };
+
+/**
+ * Local HTTP receiver answering every POST with the next status of `statuses` (the last
+ * one repeats). Records what it received.
+ */
+export async function startReceiver(statuses: number[]) {
+    const received: ReceivedRequest[] = [];
+    let i = 0;
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (c) => (body += c));
+        req.on("end", () => {
+            received.push({ headers: req.headers, body });
+            res.statusCode = statuses[Math.min(i++, statuses.length - 1)];
+            res.end();
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}/hook`,
+        received,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+}
+
+export { db };
@@ -0,0 +1,98 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { isLiquidatedAt, maintenanceMargin } from "../src/liquidation";
+import { extendAllStrategySegments } from "../src/segments";
+
+const HOUR = 3600;
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+setupDb();
+
+type StrategyRow = { is_liquidated: number; liquidated_ts: number | null };
+type LiquidationRow = { ts: number; asset_symbol: string; direction: number; leverage: number; start_price: number; liquidation_price: number; loss_pct: number };
+
+const strategyRow = (id: number) =>
+    db.prepare("SELECT is_liquidated, liquidated_ts FROM strategies WHERE id = ?").get(id) as StrategyRow;
+const liquidationsOf = (id: number) =>
+    db.prepare("SELECT * FROM strategy_liquidations WHERE strategy_id = ? ORDER BY ts").all(id) as LiquidationRow[];
+const valueAt = (id: number, endTs: number) =>
+    db.prepare("SELECT value_index_end FROM strategy_segments WHERE strategy_id = ? AND end_ts = ?").pluck().get(id, endTs) as number;
+
+test("liquidates when leg equity falls to the maintenance margin of the notional", () => {
+    assert.equal(maintenanceMargin("btc"), 0.004);
+    assert.equal(maintenanceMargin("DOGE"), 0.005);
+
+    // 5x long BTC: 1 + 5r <= 0.004 * 5 * (1 + r)  <=>  r <= -19.68%
+    assert.equal(isLiquidatedAt("BTC", 1, 5, 100, 80.4), false);
+    assert.equal(isLiquidatedAt("BTC", 1, 5, 100, 80.3), true);
+
+    // 1x short KAS: 1 - r <= 0.02 * (1 + r)  <=>  r >= 96.08%
+    assert.equal(isLiquidatedAt("KAS", -1, 1, 100, 196), false);
+    assert.equal(isLiquidatedAt("KAS", -1, 1, 100, 197), true);
+
+    // unleveraged longs borrow nothing
+    assert.equal(isLiquidatedAt("BTC", 1, 1, 100, 0.0001), false);
+    assert.equal(isLiquidatedAt("BTC", 1, 5, 0, 50), false);
+});
+
+test("a liquidated leg loses its collateral while the other legs carry on", () => {
+    const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+    insertPrices("ETH", [
+        [H0, 100],
+        [H0 + HOUR, 100],
+    ]);
+    insertPrices("BTC", [
+        [H0, 100],
+        [H0 + HOUR / 2, 79], // breaches margin between the hourly samples
+        [H0 + HOUR, 100],
+    ]);
+    const { strategyId } = seedStrategy("partial", [
+        { asset: "ETH", ts: H0 },
+        { asset: "BTC", leverage: 5, weight: 50, ts: H0 },
+    ]);
+
+    extendAllStrategySegments([strategyId]);
+
+    const [liq] = liquidationsOf(strategyId);
+    assert.equal(liq.ts, H0 + HOUR / 2);
+    assert.equal(liq.asset_symbol, "BTC");
+    assert.equal(liq.direction, 1);
+    assert.equal(liq.leverage, 5);
+    assert.equal(liq.start_price, 100);
+    assert.equal(liq.liquidation_price, 79);
+    assert.ok(close(liq.loss_pct, 0.5));
+
+    // the recovery to 100 comes too late for the BTC leg
+    assert.ok(close(valueAt(strategyId, H0 + HOUR), 0.5));
+    assert.equal(strategyRow(strategyId).is_liquidated, 0);
+});
+
+test("once every leg is liquidated the strategy stays wiped out", () => {
+    const H0 = 1_610_000_000 - (1_610_000_000 % HOUR);
+    insertPrices("SOL", [
+        [H0, 10],
+        [H0 + HOUR, 21],
+        [H0 + 2 * HOUR, 5],
+        [H0 + 3 * HOUR, 5],
+    ]);
+    const { strategyId } = seedStrategy("wiped", [
+        { asset: "SOL", direction: 1, ts: H0 },
+        // after the wipe-out: ignored
+        { asset: "SOL", ts: H0 + 2 * HOUR },
+    ]);
+
+    extendAllStrategySegments([strategyId]);
+
+    assert.equal(liquidationsOf(strategyId).length, 1);
+    assert.deepEqual(strategyRow(strategyId), { is_liquidated: 1, liquidated_ts: H0 + HOUR });
+    assert.equal(valueAt(strategyId, H0 + HOUR), 0);
+    assert.equal(valueAt(strategyId, H0 + 2 * HOUR), 0);
+    assert.equal(valueAt(strategyId, H0 + 3 * HOUR), 0);
+
+    const snapshots = db
+        .prepare("SELECT signal_ts FROM strategy_position_snapshots WHERE strategy_id = ? ORDER BY signal_ts")
+        .pluck()
+        .all(strategyId);
+    assert.deepEqual(snapshots, [H0]);
+});
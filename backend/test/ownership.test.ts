@@ -0,0 +1,59 @@
+import "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { privateKeyToAccount } from "viem/accounts";
+import { canonicalJson, ownerActionMessage, OwnershipError, verifyOwnerSignature } from "../src/ownership";
+
+const owner = privateKeyToAccount(("0x" + "11".repeat(32)) as `0x${string}`);
+const other = privateKeyToAccount(("0x" + "22".repeat(32)) as `0x${string}`);
+const ownerAddress = owner.address.toLowerCase();
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const rejects = (p: Promise<void>, message: RegExp) =>
+    assert.rejects(p, (err: unknown) => err instanceof OwnershipError && message.test(err.message));
+
+test("accepts the owner's signature of this action", async () => {
+    assert.equal(ownerActionMessage("delete", "follower", 12, 1_700_000_000), "ChainSignals: delete follower 12 at 1700000000");
+    assert.match(ownerActionMessage("create", "portfolio", null, 5, {}), /^ChainSignals: create portfolio new at 5 body 0x[0-9a-f]{64}$/);
+
+    const ts = now();
+    const body = { name: "p", members: [{ strategyId: 1, weight: 0.5 }] };
+    const signature = await owner.signMessage({ message: ownerActionMessage("update", "portfolio", 3, ts, body) });
+    // the same body, parsed back with its keys in another order
+    const received = JSON.parse('{"members":[{"weight":0.5,"strategyId":1}],"name":"p"}');
+    await verifyOwnerSignature(ownerAddress, "update", "portfolio", 3, signature, String(ts), received);
+});
+
+test("canonical JSON sorts keys at every level and drops undefined", () => {
+    assert.equal(canonicalJson({ b: [{ d: 1, c: null }], a: undefined, e: "x" }), '{"b":[{"c":null,"d":1}],"e":"x"}');
+    assert.equal(canonicalJson(undefined), "null");
+});
+
+test("binds create and update signatures to the request body", async () => {
+    const ts = now();
+    const body = { name: "p", owner: ownerAddress, members: [{ strategyId: 1 }] };
+    const signature = await owner.signMessage({ message: ownerActionMessage("update", "portfolio", 3, ts, body) });
+
+    await rejects(
+        verifyOwnerSignature(ownerAddress, "update", "portfolio", 3, signature, ts, { ...body, members: [{ strategyId: 2 }] }),
+        /not from/
+    );
+    await rejects(verifyOwnerSignature(ownerAddress, "update", "portfolio", 3, signature, ts), /not from/);
+});
+
+test("rejects other signers, other actions and stale signatures", async () => {
+    const ts = now();
+    const signature = await owner.signMessage({ message: ownerActionMessage("delete", "follower", 1, ts) });
+
+    await rejects(verifyOwnerSignature(ownerAddress, "delete", "follower", 1, undefined, ts), /headers are required/);
+    await rejects(verifyOwnerSignature(ownerAddress, "delete", "follower", 1, "not-hex", ts), /Invalid owner signature/);
+    await rejects(verifyOwnerSignature(ownerAddress, "delete", "follower", 2, signature, ts), /not from the follower's owner/);
+    await rejects(verifyOwnerSignature(ownerAddress, "delete", "portfolio", 1, signature, ts), /not from the portfolio's owner/);
+    await rejects(verifyOwnerSignature(other.address, "delete", "follower", 1, signature, ts), /not from/);
+    await rejects(verifyOwnerSignature(ownerAddress, "delete", "follower", 1, "0x1234", ts), /not from/);
+
+    const old = ts - 10 * 60;
+    const stale = await owner.signMessage({ message: ownerActionMessage("delete", "follower", 1, old) });
+    await rejects(verifyOwnerSignature(ownerAddress, "delete", "follower", 1, stale, old), /expired/);
+});
@@ -0,0 +1,74 @@
+import { db, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createFixturePriceProvider, createPriceProviderFromEnv, fixturePrice } from "../src/priceProviders";
+import { backfillHistoricalPrices, getPriceProvider, SUPPORTED_ASSETS } from "../src/prices";
+
+const H0 = 1_700_000_000 - (1_700_000_000 % 3600);
+
+test("fixture prices are a pure function of symbol and time", () => {
+    assert.equal(fixturePrice("BTC", H0), fixturePrice("BTC", H0));
+    assert.notEqual(fixturePrice("BTC", H0), fixturePrice("BTC", H0 + 3600));
+    assert.notEqual(fixturePrice("BTC", H0) / 60000, fixturePrice("ETH", H0) / 3000);
+
+    // weekly +-10% and daily +-2% waves around the base price
+    for (let ts = H0; ts < H0 + 14 * 86400; ts += 1800) {
+        const px = fixturePrice("BTC", ts);
+        assert.ok(px >= 60000 * 0.88 && px <= 60000 * 1.12, `${ts}: ${px}`);
+    }
+    // unknown symbols get a positive made-up base price
+    assert.ok(fixturePrice("DOGE", H0) > 0);
+});
+
+test("fixture provider samples a 5-minute grid within the requested range", async () => {
+    const provider = createFixturePriceProvider();
+    const points = await provider.fetchHistoricalRange("ETH", H0 - 100, H0 + 3600);
+
+    assert.equal(points[0].ts, H0);
+    assert.equal(points[points.length - 1].ts, H0 + 3600);
+    assert.equal(points.length, 13);
+    for (let i = 1; i < points.length; i++) assert.equal(points[i].ts - points[i - 1].ts, 300);
+    for (const p of points) assert.equal(p.price, fixturePrice("ETH", p.ts));
+
+    const current = await provider.fetchCurrentPrices(["BTC", "KAS"]);
+    assert.deepEqual(Object.keys(current), ["BTC", "KAS"]);
+    assert.ok(current.BTC > 0 && current.KAS > 0);
+});
+
+test("PRICE_PROVIDER selects the provider", () => {
+    assert.equal(getPriceProvider().name, "fixture");
+    assert.equal(createPriceProviderFromEnv(SUPPORTED_ASSETS).name, "fixture");
+
+    process.env.PRICE_PROVIDER = "nope";
+    try {
+        assert.throws(() => createPriceProviderFromEnv(SUPPORTED_ASSETS), /Unknown PRICE_PROVIDER "nope"/);
+    } finally {
+        process.env.PRICE_PROVIDER = "fixture";
+    }
+});
+
+test("backfill stores fixture prices on the hourly grid and at signal times", async () => {
+    setupDb();
+    const signalTs = H0 + 25 * 60;
+    seedStrategy("fixture", [{ asset: "SOL", ts: signalTs }]);
+
+    await backfillHistoricalPrices(H0 + 3 * 3600);
+
+    const priceAt = (asset: string, ts: number) =>
+        db.prepare("SELECT price_usd FROM prices WHERE asset_symbol = ? AND timestamp = ?").pluck().get(asset, ts);
+
+    for (const asset of Object.keys(SUPPORTED_ASSETS)) {
+        for (let h = 0; h <= 3; h++) {
+            assert.equal(priceAt(asset, H0 + h * 3600), fixturePrice(asset, H0 + h * 3600), `${asset} hour ${h}`);
+        }
+    }
+    // the signal sits on the 5-minute grid, so its price is the exact sample
+    assert.equal(priceAt("SOL", signalTs), fixturePrice("SOL", signalTs));
+    assert.equal(db.prepare("SELECT value FROM meta WHERE key = 'last_price_ts'").pluck().get(), String(H0 + 3 * 3600));
+
+    // a second run has nothing left to do
+    const count = () => db.prepare("SELECT COUNT(*) FROM prices").pluck().get();
+    const before = count();
+    await backfillHistoricalPrices(H0 + 3 * 3600);
+    assert.equal(count(), before);
+});
@@ -0,0 +1,44 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getRebuildRequest, queueRebuild, runQueuedRebuilds, type RebuildReport } from "../src/rebuild";
+
+const HOUR = 3600;
+
+setupDb();
+
+test("queued rebuilds run on the worker's next pass and keep their reports", () => {
+    const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+    insertPrices("BTC", [
+        [H0, 100],
+        [H0 + HOUR, 110],
+    ]);
+    const { strategyId } = seedStrategy("queued", [{ asset: "BTC", ts: H0 }]);
+    const segments = () =>
+        db.prepare("SELECT COUNT(*) FROM strategy_segments WHERE strategy_id = ?").pluck().get(strategyId) as number;
+
+    const dryRun = queueRebuild({ kind: "strategy", strategyId }, { dryRun: true });
+    const rebuild = queueRebuild({ kind: "strategy", strategyId });
+    const broken = queueRebuild({ kind: "all" });
+    db.prepare("UPDATE rebuild_requests SET scope_json = 'not json' WHERE id = ?").run(broken.id);
+    assert.equal(dryRun.status, "queued");
+    assert.equal(segments(), 0);
+
+    runQueuedRebuilds();
+
+    const dryRunDone = getRebuildRequest(dryRun.id)!;
+    assert.equal(dryRunDone.status, "ok");
+    assert.equal((JSON.parse(dryRunDone.report_json!) as RebuildReport).dryRun, true);
+
+    const done = getRebuildRequest(rebuild.id)!;
+    const report = JSON.parse(done.report_json!) as RebuildReport;
+    assert.equal(done.status, "ok");
+    assert.equal(report.strategies[0].after.numSegments, 1);
+    assert.equal(segments(), 1);
+
+    assert.equal(getRebuildRequest(broken.id)!.status, "error");
+
+    // nothing left to run
+    runQueuedRebuilds();
+    assert.equal(getRebuildRequest(rebuild.id)!.finished_ts, done.finished_ts);
+});
@@ -0,0 +1,124 @@
+import { db, insertPrices, seedStrategy, setupDb } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { extendAllStrategySegments } from "../src/segments";
+import { rebuildStrategies } from "../src/rebuild";
+
+// Costs and funding are off by default, so these cover the price path alone.
+
+const HOUR = 3600;
+
+setupDb();
+
+const segmentsOf = (strategyId: number) =>
+    db
+        .prepare("SELECT start_ts, end_ts, raw_return, value_index_end FROM strategy_segments WHERE strategy_id = ? ORDER BY start_ts")
+        .all(strategyId) as { start_ts: number; end_ts: number; raw_return: number; value_index_end: number }[];
+
+const valueAt = (strategyId: number, endTs: number) =>
+    db
+        .prepare("SELECT value_index_end FROM strategy_segments WHERE strategy_id = ? AND end_ts = ?")
+        .pluck()
+        .get(strategyId, endTs) as number | undefined;
+
+test("compounds hourly returns of a 1x long", () => {
+    const H0 = 1_600_000_000 - (1_600_000_000 % HOUR);
+    insertPrices("BTC", [
+        [H0, 100],
+        [H0 + HOUR, 110],
+        [H0 + 2 * HOUR, 99],
+    ]);
+    const { strategyId } = seedStrategy("long", [{ asset: "BTC", ts: H0 }]);
+
+    extendAllStrategySegments([strategyId]);
+
+    const segs = segmentsOf(strategyId);
+    assert.equal(segs.length, 2);
+    assert.ok(Math.abs(segs[0].raw_return - 0.1) < 1e-12);
+    assert.ok(Math.abs(segs[1].value_index_end - 0.99) < 1e-12);
+});
+
+test("leverage multiplies, and shorts invert, the asset return", () => {
+    const H0 = 1_610_000_000 - (1_610_000_000 % HOUR);
+    insertPrices("ETH", [
+        [H0, 100],
+        [H0 + HOUR, 95],
+    ]);
+    const short = seedStrategy("short2x", [{ asset: "ETH", direction: 1, leverage: 2, ts: H0 }]);
+    const long = seedStrategy("long3x", [{ asset: "ETH", leverage: 3, ts: H0 }]);
+
+    extendAllStrategySegments([short.strategyId, long.strategyId]);
+
+    assert.ok(Math.abs(valueAt(short.strategyId, H0 + HOUR)! - 1.1) < 1e-12);
+    assert.ok(Math.abs(valueAt(long.strategyId, H0 + HOUR)! - 0.85) < 1e-12);
+});
+
+test("rebalances at intra-hour signal times to the target weight", () => {
+    const H0 = 1_620_000_000 - (1_620_000_000 % HOUR);
+    const mid = H0 + HOUR / 2;
+    insertPrices("BTC", [
+        [H0, 100],
+        [mid, 110],
+        [H0 + HOUR, 121],
+    ]);
+    insertPrices("SOL", [
+        [mid, 10],
+        [H0 + HOUR, 12],
+    ]);
+    const { strategyId } = seedStrategy("mixed", [
+        { asset: "BTC", ts: H0 },
+        { asset: "SOL", weight: 50, ts: mid },
+    ]);
+
+    extendAllStrategySegments([strategyId]);
+
+    // BTC +10% to 1.1, then half into SOL: 0.55 * 1.1 + 0.55 * 1.2
+    assert.ok(Math.abs(valueAt(strategyId, H0 + HOUR)! - 1.265) < 1e-12);
+
+    const snap = db
+        .prepare("SELECT positions_json FROM strategy_position_snapshots WHERE strategy_id = ? AND signal_ts = ?")
+        .pluck()
+        .get(strategyId, mid) as string;
+    const positions = JSON.parse(snap) as { asset: string; percent: number }[];
+    assert.deepEqual(
+        positions.map((p) => [p.asset, Math.round(p.percent)]).sort(),
+        [
+            ["BTC", 50],
+            ["SOL", 50],
+        ]
+    );
+});
+
+test("extending in steps gives the same segments as a full rebuild", () => {
+    const H0 = 1_630_000_000 - (1_630_000_000 % HOUR);
+    const prices = (asset: string, base: number, from: number, to: number): [number, number][] => {
+        const out: [number, number][] = [];
+        for (let h = from; h <= to; h++) out.push([H0 + h * HOUR, base * (1 + 0.03 * Math.sin(h))]);
+        return out;
+    };
+    insertPrices("XRP", prices("XRP", 0.6, 0, 3));
+    insertPrices("KAS", prices("KAS", 0.12, 0, 3));
+    const { strategyId } = seedStrategy("steps", [
+        { asset: "XRP", leverage: 2, ts: H0 },
+        { asset: "KAS", direction: 1, weight: 40, ts: H0 + 2 * HOUR + 600 },
+        { asset: "XRP", weight: 0, ts: H0 + 5 * HOUR },
+    ]);
+    insertPrices("KAS", [[H0 + 2 * HOUR + 600, 0.121]]);
+
+    extendAllStrategySegments([strategyId]);
+    insertPrices("XRP", prices("XRP", 0.6, 4, 8));
+    insertPrices("KAS", prices("KAS", 0.12, 4, 8));
+    extendAllStrategySegments([strategyId]);
+
+    const incremental = segmentsOf(strategyId).filter((s) => s.start_ts >= H0 && s.end_ts <= H0 + 8 * HOUR);
+    assert.equal(incremental.length, 8);
+
+    rebuildStrategies({ kind: "strategy", strategyId });
+    const rebuilt = segmentsOf(strategyId).filter((s) => s.start_ts >= H0 && s.end_ts <= H0 + 8 * HOUR);
+
+    assert.equal(rebuilt.length, incremental.length);
+    rebuilt.forEach((s, i) => {
+        assert.equal(s.start_ts, incremental[i].start_ts);
+        assert.ok(Math.abs(s.value_index_end - incremental[i].value_index_end) < 1e-12, `segment ${i}`);
+    });
+});
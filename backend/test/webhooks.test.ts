@@ -0,0 +1,206 @@
+import { db, seedStrategy, setupDb, startReceiver, TRADER } from "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+    enqueueSignalDeliveries,
+    processWebhookDeliveries,
+    replayWebhookDeliveries,
+    signWebhookPayload,
+    webhookBackoffSec,
+    type SignalWebhookPayload,
+    type WebhookDeliveryRow,
+} from "../src/webhooks";
+
+const SECRET = "test-secret";
+
+setupDb();
+const { strategyId, signalIds } = seedStrategy("alpha", [
+    { asset: "BTC", ts: 1_700_000_000 },
+    { asset: "ETH", direction: 1, leverage: 2, weight: 50, ts: 1_700_003_600 },
+]);
+
+function addWebhook(url: string, filter: { asset?: string } = {}): number {
+    const info = db
+        .prepare(
+            `INSERT INTO webhooks (url, secret, trader_address, strategy_id, asset_symbol, is_active, created_ts)
+            VALUES (?, ?, NULL, NULL, ?, 1, 0)`
+        )
+        .run(url, SECRET, filter.asset ?? null);
+    return Number(info.lastInsertRowid);
+}
+
+const deliveriesOf = (webhookId: number) =>
+    db.prepare("SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id ASC").all(webhookId) as WebhookDeliveryRow[];
+
+// make every pending delivery due now instead of after its backoff
+const makeDue = () => db.prepare("UPDATE webhook_deliveries SET next_attempt_ts = 0 WHERE status = 'pending'").run();
+
+test("signs the payload as HMAC-SHA256 over <timestamp>.<body>", async () => {
+    const receiver = await startReceiver([200]);
+    try {
+        const hookId = addWebhook(receiver.url, { asset: "BTC" });
+        assert.equal(enqueueSignalDeliveries(signalIds[0]), 1);
+        await processWebhookDeliveries();
+
+        assert.equal(receiver.received.length, 1);
+        const { headers, body } = receiver.received[0];
+        const ts = Number(headers["x-chainsignals-timestamp"]);
+        assert.ok(Math.abs(ts - Date.now() / 1000) < 5);
+        assert.equal(headers["x-chainsignals-signature"], signWebhookPayload(SECRET, ts, body));
+        assert.equal(headers["x-chainsignals-event"], "signal.synced");
+
+        // the signature changes with the timestamp and the body
+        assert.notEqual(signWebhookPayload(SECRET, ts + 1, body), headers["x-chainsignals-signature"]);
+        assert.notEqual(signWebhookPayload(SECRET, ts, body + " "), headers["x-chainsignals-signature"]);
+
+        const payload = JSON.parse(body) as SignalWebhookPayload;
+        assert.equal(payload.webhookId, hookId);
+        assert.equal(payload.signal.id, signalIds[0]);
+        assert.equal(payload.signal.strategyId, strategyId);
+        assert.equal(payload.signal.trader, TRADER);
+        assert.equal(payload.signal.asset, "BTC");
+        assert.equal(payload.signal.direction, "LONG");
+
+        const [d] = deliveriesOf(hookId);
+        assert.equal(d.status, "delivered");
+        assert.equal(d.attempts, 1);
+        assert.equal(d.response_status, 200);
+        assert.equal(d.next_attempt_ts, null);
+        assert.equal(headers["x-chainsignals-delivery"], String(d.id));
+    } finally {
+        await receiver.close();
+    }
+});
+
+test("backoff doubles per attempt from 30s, with up to 10% jitter, capped at 6h", () => {
+    for (const [attempts, base] of [
+        [1, 30],
+        [2, 60],
+        [3, 120],
+        [8, 3840],
+        [20, 21600],
+    ]) {
+        for (let i = 0; i < 20; i++) {
+            const sec = webhookBackoffSec(attempts);
+            assert.ok(sec >= base && sec <= Math.round(base * 1.1), `attempt ${attempts}: ${sec}s`);
+        }
+    }
+});
+
+test("retries failed attempts with backoff, then marks the delivery failed", async () => {
+    const receiver = await startReceiver([500]);
+    try {
+        const hookId = addWebhook(receiver.url, { asset: "ETH" });
+        enqueueSignalDeliveries(signalIds[1]);
+
+        const before = Math.floor(Date.now() / 1000);
+        await processWebhookDeliveries();
+        let [d] = deliveriesOf(hookId);
+        assert.equal(d.status, "pending");
+        assert.equal(d.attempts, 1);
+        assert.equal(d.response_status, 500);
+        assert.equal(d.last_error, "HTTP 500");
+        assert.ok(d.next_attempt_ts! >= before + 30 && d.next_attempt_ts! <= before + 34);
+
+        // not due yet: nothing is sent
+        await processWebhookDeliveries();
+        assert.equal(receiver.received.length, 1);
+
+        makeDue();
+        await processWebhookDeliveries();
+        [d] = deliveriesOf(hookId);
+        assert.equal(d.attempts, 2);
+        assert.ok(d.next_attempt_ts! - d.last_attempt_ts! >= 60);
+
+        // the last allowed attempt (WEBHOOK_MAX_ATTEMPTS, 8) gives up
+        db.prepare("UPDATE webhook_deliveries SET attempts = 7 WHERE id = ?").run(d.id);
+        makeDue();
+        await processWebhookDeliveries();
+        [d] = deliveriesOf(hookId);
+        assert.equal(d.status, "failed");
+        assert.equal(d.attempts, 8);
+        assert.equal(d.next_attempt_ts, null);
+        assert.equal(receiver.received.length, 3);
+    } finally {
+        await receiver.close();
+    }
+});
+
+test("records network errors and delivers once the receiver recovers", async () => {
+    const receiver = await startReceiver([503, 204]);
+    try {
+        const hookId = addWebhook(receiver.url, { asset: "BTC" });
+        enqueueSignalDeliveries(signalIds[0]);
+        db.prepare("UPDATE webhooks SET is_active = 0 WHERE id != ?").run(hookId);
+
+        await processWebhookDeliveries();
+        assert.equal(deliveriesOf(hookId)[0].status, "pending");
+
+        makeDue();
+        await processWebhookDeliveries();
+        const [d] = deliveriesOf(hookId);
+        assert.equal(d.status, "delivered");
+        assert.equal(d.attempts, 2);
+        assert.equal(d.response_status, 204);
+        assert.equal(d.last_error, null);
+        assert.ok(d.delivered_ts != null);
+    } finally {
+        await receiver.close();
+    }
+
+    // nothing listens on the port any more
+    const deadHook = addWebhook(receiver.url);
+    enqueueSignalDeliveries(signalIds[0]);
+    db.prepare("UPDATE webhooks SET is_active = 0 WHERE id != ?").run(deadHook);
+    await processWebhookDeliveries();
+    const [d] = deliveriesOf(deadHook);
+    assert.equal(d.status, "pending");
+    assert.equal(d.response_status, null);
+    assert.match(d.last_error!, /^fetch failed/);
+});
+
+test("replays logged deliveries as new deliveries, by id or time range", async () => {
+    const receiver = await startReceiver([200]);
+    try {
+        db.prepare("UPDATE webhooks SET is_active = 0").run();
+        const hookId = addWebhook(receiver.url);
+        enqueueSignalDeliveries(signalIds[0]);
+        enqueueSignalDeliveries(signalIds[1]);
+        await processWebhookDeliveries();
+
+        const originals = deliveriesOf(hookId);
+        assert.equal(originals.length, 2);
+
+        // one delivery, copied byte for byte
+        const [replayId] = replayWebhookDeliveries(hookId, { deliveryId: originals[0].id });
+        let replay = deliveriesOf(hookId).find((d) => d.id === replayId)!;
+        assert.equal(replay.replay_of, originals[0].id);
+        assert.equal(replay.payload_json, originals[0].payload_json);
+        assert.equal(replay.signal_id, signalIds[0]);
+
+        await processWebhookDeliveries();
+        replay = deliveriesOf(hookId).find((d) => d.id === replayId)!;
+        assert.equal(replay.status, "delivered");
+        const last = receiver.received[receiver.received.length - 1];
+        assert.equal(last.body, originals[0].payload_json);
+        assert.equal(last.headers["x-chainsignals-delivery"], String(replayId));
+
+        // a range replays the originals only, not the replay above
+        const ranged = replayWebhookDeliveries(hookId, { fromTs: 0 });
+        assert.deepEqual(
+            ranged.map((id) => deliveriesOf(hookId).find((d) => d.id === id)!.replay_of),
+            originals.map((d) => d.id)
+        );
+
+        // rebuild: payload built from the current signal row
+        db.prepare("UPDATE signals SET message = 'edited' WHERE id = ?").run(signalIds[1]);
+        const [rebuiltId] = replayWebhookDeliveries(hookId, { deliveryId: originals[1].id, rebuild: true });
+        const rebuilt = JSON.parse(deliveriesOf(hookId).find((d) => d.id === rebuiltId)!.payload_json) as SignalWebhookPayload;
+        assert.equal(rebuilt.signal.message, "edited");
+        assert.equal(rebuilt.signal.direction, "SHORT");
+        assert.equal(rebuilt.signal.leverage, 2);
+        assert.equal(rebuilt.signal.weightPct, 50);
+    } finally {
+        await receiver.close();
+    }
+});
@@ -0,0 +1,40 @@
+import "./helpers";
+import test from "node:test";
+import assert from "node:assert/strict";
+import { isStoredWindowId, resolveWindow, storedWindows, WindowParamError } from "../src/windows";
+
+const utc = (y: number, m = 0, d = 1) => Date.UTC(y, m, d) / 1000;
+
+test("only the windows of the stats pass are stored, including past years since the first signal", () => {
+    const now = utc(2025, 5, 15);
+    const first = utc(2023, 8, 1);
+    assert.deepEqual(
+        storedWindows(now, first).map((w) => w.id),
+        ["1W", "1M", "3M", "6M", "1Y", "ALL", "MTD", "QTD", "YTD", "2024", "2023"]
+    );
+
+    for (const id of ["1m", " all ", "ytd", "2023", "2024"]) {
+        assert.equal(isStoredWindowId(id, now, first), true, id);
+    }
+    // valid windows, but without stored stats
+    for (const id of ["1999", "2022", "2025", "2099", "2W", "2024-01-01..2024-02-01"]) {
+        assert.equal(isStoredWindowId(id, now, first), false, id);
+    }
+    // no strategies yet: no years
+    assert.equal(isStoredWindowId("2024", now, null), false);
+});
+
+test("resolves any year, rolling length or custom range for charts", () => {
+    assert.deepEqual(resolveWindow("2099", 0), { id: "2099", kind: "calendar", label: "2099", fromTs: utc(2099), toTs: utc(2100) });
+    assert.equal(resolveWindow("2w", 1_000_000_000).fromTs, 1_000_000_000 - 14 * 86400);
+    assert.deepEqual(resolveWindow("2024-02-28..2024-03-01", 0), {
+        id: "2024-02-28..2024-03-01",
+        kind: "custom",
+        label: "2024-02-28 – 2024-03-01",
+        fromTs: utc(2024, 1, 28),
+        toTs: utc(2024, 2, 2),
+    });
+    assert.throws(() => resolveWindow("2024-02-31..2024-03-01", 0), WindowParamError);
+    assert.throws(() => resolveWindow("0D", 0), WindowParamError);
+    assert.throws(() => resolveWindow("FOREVER", 0), WindowParamError);
+});
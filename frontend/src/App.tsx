@@ -5,6 +5,7 @@ import StrategyPage from "./pages/StrategyPage";
 import MyStrategiesPage from "./pages/MyStrategiesPage";
 import TraderPage from "./pages/TraderPage";
 import AboutPage from "./pages/AboutPage";
+import PortfolioPage from "./pages/PortfolioPage";
 import { WalletProvider } from "./web3/WalletContext";
 import logo from "./assets/logo.png";
 import WalletControls from "./components/WalletControls";
@@ -25,6 +26,7 @@ const App: React.FC = () => {
 
       <div className="app-header-right">
         <nav className="app-nav">
+          <NavLink to="/portfolios">Portfolios</NavLink>
           <NavLink to="/me">My Strategies</NavLink>
         </nav>
         <WalletControls />
@@ -36,6 +38,8 @@ const App: React.FC = () => {
         <Route path="/strategy/:id" element={<StrategyPage />} />
         <Route path="/trader/:address" element={<TraderPage />} />
         <Route path="/me" element={<MyStrategiesPage />} />
+        <Route path="/portfolios" element={<PortfolioPage />} />
+        <Route path="/portfolios/:id" element={<PortfolioPage />} />
         <Route path="/about" element={<AboutPage />} />
       </Routes>
     </main>
@@ -1,28 +1,100 @@
 import axios from "axios";
+import { keccak256, toUtf8Bytes } from "ethers";
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL ?? "http://localhost:3001";
 
 export type LeaderboardRow = {
     id: number;
+    deployment: string; // deployment key
     trader: string;
     strategyName: string;
     firstSignalTs: number;
     lastSignalTs: number;
     numSignals: number;
+    isLiquidated?: boolean;
     lastSegmentEndTs?: number | null;
     sharpeAnnual: number | null;
     volAnnual: number | null;
     totalReturn: number | null;
     maxDrawdown: number | null;
+    grossSharpeAnnual?: number | null;
+    grossTotalReturn?: number | null;
+    costDrag?: number | null;
+    // relative to the backend's stats benchmark (BTC by default)
+    benchmarkSymbol?: string | null;
+    alphaAnnual?: number | null;
+    beta?: number | null;
+    correlation?: number | null;
+    trackingError?: number | null;
+    informationRatio?: number | null;
+    trades?: StrategyTradeStats;
 };
 
-export async function fetchLeaderboard(window: string): Promise<LeaderboardRow[]> {
+// Trade-level stats for a window, per leg closed in it. Leg results are realized
+// P&L as a return on the equity the leg was opened with.
+export type StrategyTradeStats = {
+    closedLegs: number | null;
+    winRate: number | null;
+    avgWin: number | null;
+    avgLoss: number | null; // negative
+    profitFactor: number | null; // null without losing legs
+    expectancy: number | null; // mean result per closed leg
+    avgHoldingSec: number | null;
+    maxWinStreak: number | null;
+    maxLossStreak: number | null;
+    turnover: number | null; // notional traded, as a multiple of equity
+};
+
+export type LeaderboardParams = {
+    window: string;
+    sort?: string; // sharpe, totalReturn, volatility, maxDrawdown, numSignals, age, ... or a metric key
+    dir?: "asc" | "desc";
+    minDays?: number;
+    minSignals?: number;
+    asset?: string;
+    trader?: string;
+    deployment?: string; // deployment key; every deployment merged when unset
+    status?: "all" | "active" | "liquidated";
+    limit?: number;
+    cursor?: string | null;
+};
+
+export type LeaderboardResponse = {
+    window: string;
+    sort: string;
+    dir: "asc" | "desc";
+    total: number;
+    nextCursor: string | null;
+    rows: LeaderboardRow[];
+};
+
+export async function fetchLeaderboard(params: LeaderboardParams): Promise<LeaderboardResponse> {
     const res = await axios.get(`${API_BASE}/api/leaderboard`, {
-        params: { window },
+        params: { ...params, cursor: params.cursor ?? undefined },
     });
     return res.data;
 }
 
+// An indexed contract deployment (chain + contract address).
+export type Deployment = {
+    id: number;
+    key: string;
+    chainId: number;
+    chainName: string;
+    address: string;
+    startBlock: number;
+    active: boolean; // false once dropped from the backend config
+    lastSignalIndexSynced: number;
+    lastBlockSynced: number | null;
+};
+
+export type DeploymentSummary = Deployment & { numStrategies: number; numSignals: number };
+
+export async function fetchDeployments(): Promise<DeploymentSummary[]> {
+    const res = await axios.get(`${API_BASE}/api/deployments`);
+    return res.data.deployments;
+}
+
 export type StrategyPosition = {
     asset: string;
     direction: "LONG" | "SHORT" | "CASH";
@@ -30,20 +102,42 @@ export type StrategyPosition = {
     percent: number; // 0..100 (target allocation at that snapshot time)
 };
 
+export type SnapshotSignal = {
+    id: number;
+    index: number; // on-chain index within the deployment's contract
+    asset: string;
+    txHash: string | null; // only known when the backend indexes event logs
+    blockNumber: number | null;
+    logIndex: number | null;
+};
+
 export type StrategyPositionsSnapshot = {
     timestamp: number;
     positions: StrategyPosition[];
     message?: string | null;
+    signals?: SnapshotSignal[];
+};
+
+export type LiquidationEvent = {
+    timestamp: number;
+    asset: string;
+    direction: "LONG" | "SHORT";
+    leverage: number;
+    startPrice: number;
+    liquidationPrice: number;
+    lossPct: number; // share of strategy equity lost, 0..1
 };
 
 export type StrategyDetails = {
     id: number;
+    deployment: Deployment | null;
     trader: string;
     strategyName: string;
     firstSignalTs: number;
     lastSignalTs: number;
     numSignals: number;
     isLiquidated: boolean;
+    liquidatedTs?: number | null; // when the last leg was liquidated
     lastValueIndex: number;
     lastSegmentEndTs: number | null;
     stats: Record<
@@ -55,9 +149,29 @@ export type StrategyDetails = {
         volHourly: number | null;
         totalReturn: number | null;
         maxDrawdown: number | null;
+        // same stats before trading costs
+        gross?: {
+            sharpeAnnual: number | null;
+            volAnnual: number | null;
+            totalReturn: number | null;
+            maxDrawdown: number | null;
+        };
+        costDrag?: number | null; // share of gross growth lost to costs
+        benchmark?: {
+            symbol: string | null;
+            alphaAnnual: number | null;
+            beta: number | null;
+            correlation: number | null;
+            trackingError: number | null;
+            informationRatio: number | null;
+        };
+        trades?: StrategyTradeStats;
+        // registry metrics by key (sortino, calmar, var_95, cvar_99, skew, ...)
+        metrics?: Record<string, number | null>;
     }
     >;
     positionsHistory: StrategyPositionsSnapshot[];
+    liquidations?: LiquidationEvent[];
 };
 
 export async function fetchStrategy(id: number): Promise<StrategyDetails> {
@@ -65,6 +179,36 @@ export async function fetchStrategy(id: number): Promise<StrategyDetails> {
     return res.data;
 }
 
+export type StrategyWindowStats = StrategyDetails["stats"][string];
+
+// Windows with stored stats (rolling, ALL, MTD / QTD / YTD, past years). Charts and
+// /stats also take custom "YYYY-MM-DD..YYYY-MM-DD" ranges.
+export type StatWindowOption = {
+    id: string;
+    kind: "rolling" | "calendar" | "all" | "custom";
+    label: string;
+};
+
+export async function fetchWindows(strategyId?: number): Promise<StatWindowOption[]> {
+    const res = await axios.get(`${API_BASE}/api/windows`, { params: { strategyId } });
+    return res.data.windows;
+}
+
+export type StrategyWindowStatsResponse = {
+    id: number;
+    window: string;
+    label: string;
+    fromTs: number | null;
+    toTs: number | null;
+    stats: Omit<StrategyWindowStats, "lastUpdatedTs"> | null;
+};
+
+// Stats for any window, computed on demand (for custom ranges).
+export async function fetchStrategyWindowStats(id: number, window: string): Promise<StrategyWindowStatsResponse> {
+    const res = await axios.get(`${API_BASE}/api/strategy/${id}/stats`, { params: { window } });
+    return res.data;
+}
+
 export type EquityPoint = {
     timestamp: number;
     valueIndex: number;
@@ -104,10 +248,286 @@ export async function fetchStrategyEquity(
     return res.data;
 }
 
+export type AttributionGrouping = "asset" | "direction" | "leverage" | "leg";
+
+// Shares of the window return (fractions of equity at the window start).
+export type AttributionBreakdown = {
+    price: number; // price moves, including liquidation losses
+    funding: number;
+    cost: number; // trading costs
+    total: number;
+};
+
+export type StrategyAttributionResponse = {
+    id: number;
+    window: string;
+    by: AttributionGrouping;
+    fromTs: number | null;
+    toTs: number | null;
+    coverageFromTs: number | null; // older segments predate attribution
+    complete: boolean; // false when part of the window predates attribution
+    totalReturn: number;
+    unattributed: number;
+    totals: AttributionBreakdown;
+    groups: ({ key: string } & AttributionBreakdown)[];
+    // cumulative share of the return per group key
+    points: { timestamp: number; values: Record<string, number> }[];
+};
+
+export async function fetchStrategyAttribution(
+    id: number,
+    window: string,
+    by: AttributionGrouping
+): Promise<StrategyAttributionResponse> {
+    const res = await axios.get(`${API_BASE}/api/strategy/${id}/attribution`, {
+        params: { window, by },
+    });
+    return res.data;
+}
+
+export type DrawdownEpisode = {
+    startTs: number; // the peak it falls from
+    troughTs: number;
+    recoveryTs: number | null; // null while still underwater
+    depth: number; // fraction below the peak (0..1)
+    durationSec: number;
+    recoverySec: number | null;
+};
+
+export type StrategyDrawdownResponse = {
+    id: number;
+    window: string;
+    asOfTs: number | null;
+    maxDrawdown: number;
+    currentDrawdown: number;
+    underwater: { timestamp: number; drawdown: number }[];
+    episodes: DrawdownEpisode[]; // deepest first
+};
+
+export async function fetchStrategyDrawdown(
+    id: number,
+    window: string,
+    top?: number
+): Promise<StrategyDrawdownResponse> {
+    const res = await axios.get(`${API_BASE}/api/strategy/${id}/drawdown`, {
+        params: { window, top },
+    });
+    return res.data;
+}
+
+export type ReturnPeriod = "day" | "week" | "month" | "year";
+
+export type PeriodReturn = {
+    label: string; // 2026-10-19 | 2026-W43 | 2026-10 | 2026 (UTC)
+    startTs: number;
+    endTs: number;
+    return: number | null;
+    benchmarkReturn: number | null;
+};
+
+export type StrategyReturnsResponse = {
+    id: number;
+    period: ReturnPeriod;
+    benchmark: string | null;
+    periods: PeriodReturn[];
+};
+
+export async function fetchStrategyReturns(
+    id: number,
+    period: ReturnPeriod,
+    benchmark?: string
+): Promise<StrategyReturnsResponse> {
+    const res = await axios.get(`${API_BASE}/api/strategy/${id}/returns`, {
+        params: { period, benchmark },
+    });
+    return res.data;
+}
+
+export type TradeAction = "OPEN" | "INCREASE" | "DECREASE" | "CLOSE" | "LIQUIDATED";
+
+// P&L and notionals are in value-index units (1.0 = initial equity), before costs.
+export type StrategyTrade = {
+    ts: number;
+    asset: string;
+    action: TradeAction;
+    direction: "LONG" | "SHORT";
+    leverage: number;
+    price: number;
+    equityBefore: number;
+    weightBefore: number; // share of equity in the leg, 0..1
+    weightAfter: number;
+    notionalChange: number;
+    avgEntryPrice: number;
+    realizedPnl: number | null;
+};
+
+export type StrategyTradeLeg = {
+    asset: string;
+    direction: "LONG" | "SHORT";
+    leverage: number;
+    status: "OPEN" | "CLOSED" | "LIQUIDATED";
+    openTs: number;
+    openEquity: number;
+    closeTs: number | null;
+    holdingSec: number;
+    avgEntryPrice: number;
+    avgExitPrice: number | null;
+    lastPrice: number | null;
+    realizedPnl: number;
+    unrealizedPnl: number | null;
+    marginValue: number | null;
+    numTrades: number;
+};
+
+export type StrategyTradesResponse = {
+    id: number;
+    asOfTs: number | null;
+    trades: StrategyTrade[];
+    legs: StrategyTradeLeg[];
+    summary: {
+        numTrades: number;
+        openLegs: number;
+        closedLegs: number;
+        realizedPnl: number;
+        unrealizedPnl: number;
+    };
+};
+
+export async function fetchStrategyTrades(id: number): Promise<StrategyTradesResponse> {
+    const res = await axios.get(`${API_BASE}/api/strategy/${id}/trades`);
+    return res.data;
+}
+
+export type PortfolioWeighting = "fixed" | "equal" | "inverse_vol";
+export type PortfolioRebalance = "none" | "daily" | "weekly" | "monthly";
+
+export type PortfolioMember = {
+    strategyId: number;
+    strategyName: string;
+    trader: string;
+    weight: number | null; // used by "fixed" weighting
+};
+
+export type Portfolio = {
+    id: number;
+    name: string;
+    owner: string | null;
+    weighting: PortfolioWeighting;
+    rebalance: PortfolioRebalance;
+    volLookbackDays: number;
+    members: PortfolioMember[];
+    createdTs: number;
+    updatedTs: number;
+};
+
+export type PortfolioInput = {
+    name: string;
+    owner?: string;
+    weighting: PortfolioWeighting;
+    rebalance: PortfolioRebalance;
+    volLookbackDays?: number;
+    members: { strategyId: number; weight?: number | null }[];
+};
+
+export type PortfolioDetails = Portfolio & {
+    summary: {
+        firstTs: number | null;
+        asOfTs: number | null;
+        valueIndex: number;
+        totalReturn: number;
+        grossTotalReturn: number;
+    };
+    weights: { strategyId: number; target: number; current: number }[];
+    stats: Record<string, Omit<StrategyDetails["stats"][string], "lastUpdatedTs">>;
+};
+
+export type PortfolioEquityResponse = {
+    id: number;
+    name: string;
+    firstTs: number;
+    lastTs: number;
+    lastValueIndex: number;
+    window: string;
+    sampling: "hourly" | "daily" | null;
+    points: EquityPoint[];
+    benchmark: StrategyEquityResponse["benchmark"];
+};
+
+export async function fetchPortfolios(owner?: string): Promise<Portfolio[]> {
+    const res = await axios.get(`${API_BASE}/api/portfolios`, { params: { owner } });
+    return res.data.portfolios;
+}
+
+export async function fetchPortfolio(id: number): Promise<PortfolioDetails> {
+    const res = await axios.get(`${API_BASE}/api/portfolios/${id}`);
+    return res.data;
+}
+
+export async function fetchPortfolioEquity(
+    id: number,
+    window: string,
+    benchmark?: string
+): Promise<PortfolioEquityResponse> {
+    const res = await axios.get(`${API_BASE}/api/portfolios/${id}/equity`, {
+        params: { window, benchmark },
+    });
+    return res.data;
+}
+
+/** Signs a message with the connected wallet (see WalletContext signMessage). */
+export type MessageSigner = (message: string) => Promise<string>;
+
+// Creating an owned portfolio, and changing or deleting one, is signed by the owner's
+// wallet; the message format, and the canonical JSON of the body that create and update
+// messages cover, must match the backend's ownership.ts.
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (value && typeof value === "object") {
+        const obj = value as Record<string, unknown>;
+        const entries = Object.keys(obj)
+            .sort()
+            .filter((k) => obj[k] !== undefined)
+            .map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`);
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+async function ownerHeaders(
+    sign: MessageSigner,
+    action: "create" | "update" | "delete",
+    id: number | null,
+    body?: PortfolioInput
+): Promise<Record<string, string>> {
+    const ts = Math.floor(Date.now() / 1000);
+    let message = `ChainSignals: ${action} portfolio ${id ?? "new"} at ${ts}`;
+    if (action !== "delete") message += ` body ${keccak256(toUtf8Bytes(canonicalJson(body)))}`;
+    const signature = await sign(message);
+    return { "X-Owner-Signature": signature, "X-Owner-Timestamp": String(ts) };
+}
+
+export async function createPortfolio(input: PortfolioInput, sign?: MessageSigner): Promise<Portfolio> {
+    const headers = input.owner && sign ? await ownerHeaders(sign, "create", null, input) : undefined;
+    const res = await axios.post(`${API_BASE}/api/portfolios`, input, { headers });
+    return res.data;
+}
+
+export async function updatePortfolio(id: number, input: PortfolioInput, sign: MessageSigner): Promise<Portfolio> {
+    const res = await axios.put(`${API_BASE}/api/portfolios/${id}`, input, {
+        headers: await ownerHeaders(sign, "update", id, input),
+    });
+    return res.data;
+}
+
+export async function deletePortfolio(id: number, sign: MessageSigner): Promise<void> {
+    await axios.delete(`${API_BASE}/api/portfolios/${id}`, { headers: await ownerHeaders(sign, "delete", id) });
+}
+
 export type TraderStrategiesResponse = {
     trader: string;
     strategies: {
         id: number;
+        deployment: string;
         trader: string;
         strategyName: string;
         firstSignalTs: number;
@@ -126,3 +546,55 @@ export async function fetchTraderStrategies(
     const res = await axios.get(`${API_BASE}/api/trader/${address}`);
     return res.data;
 }
+
+// --- live updates (Server-Sent Events from /api/stream) ---
+
+export type StreamEventType =
+    | "signal.synced"
+    | "snapshot.updated"
+    | "segments.extended"
+    | "stats.recomputed";
+
+export type StreamEvent = {
+    id: number;
+    type: StreamEventType;
+    ts: number;
+    strategyId: number | null;
+    trader: string | null;
+    data: Record<string, unknown>;
+};
+
+export type StreamFilter = {
+    strategyId?: number;
+    trader?: string;
+    types?: StreamEventType[];
+};
+
+const ALL_STREAM_EVENT_TYPES: StreamEventType[] = [
+    "signal.synced",
+    "snapshot.updated",
+    "segments.extended",
+    "stats.recomputed",
+];
+
+/** Open an SSE subscription; returns a function that closes it. */
+export function subscribeStream(filter: StreamFilter, onEvent: (evt: StreamEvent) => void): () => void {
+    const params = new URLSearchParams();
+    if (filter.strategyId != null) params.set("strategyId", String(filter.strategyId));
+    if (filter.trader) params.set("trader", filter.trader.toLowerCase());
+    const types = filter.types?.length ? filter.types : ALL_STREAM_EVENT_TYPES;
+    if (filter.types?.length) params.set("types", types.join(","));
+
+    const source = new EventSource(`${API_BASE}/api/stream?${params.toString()}`);
+    const handler = (msg: MessageEvent) => {
+        try {
+            onEvent(JSON.parse(msg.data) as StreamEvent);
+        } catch {
+            // ignore malformed messages
+        }
+    };
+    for (const t of types) source.addEventListener(t, handler);
+
+    // EventSource reconnects on its own (server sends retry: 5000).
+    return () => source.close();
+}
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { fetchStrategyAttribution } from "../api";
+import type { AttributionGrouping, StrategyAttributionResponse } from "../api";
+import { Area, AreaChart, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const GROUP_COLORS = ["#2563eb", "#f97316", "#16a34a", "#a855f7", "#e11d48", "#0891b2", "#ca8a04", "#64748b"];
+
+const GROUPINGS: { value: AttributionGrouping; label: string }[] = [
+  { value: "asset", label: "Asset" },
+  { value: "direction", label: "Direction" },
+  { value: "leverage", label: "Leverage" },
+  { value: "leg", label: "Leg" },
+];
+
+const pct = (v: number, digits = 1) => (v * 100).toFixed(digits) + "%";
+
+const formatTs = (ts: number) =>
+  new Date(ts * 1000).toLocaleString(undefined, {
+    year: "2-digit",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export type AttributionChartProps = {
+  strategyId: number;
+  window: string;
+  refreshKey?: number; // bump to re-fetch quietly (live updates)
+};
+
+/**
+ * Cumulative P&L attribution of a strategy over a window, stacked by asset,
+ * direction, leverage tier or leg, with a price / funding / costs breakdown.
+ */
+export const AttributionChart: React.FC<AttributionChartProps> = ({ strategyId, window, refreshKey = 0 }) => {
+  const [by, setBy] = useState<AttributionGrouping>("asset");
+  // Responses are stored with the request they answer; a live refresh keeps the
+  // current data on screen until the new one arrives.
+  const key = `${strategyId}|${window}|${by}`;
+  const [result, setResult] = useState<{ key: string; data: StrategyAttributionResponse | null; err: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStrategyAttribution(strategyId, window, by)
+      .then((data) => {
+        if (!cancelled) setResult({ key, data, err: null });
+      })
+      .catch((e) => {
+        console.error(e);
+        if (cancelled) return;
+        setResult((prev) =>
+          prev?.key === key && prev.data ? prev : { key, data: null, err: e?.message || "Failed to load attribution" }
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId, window, by, key, refreshKey]);
+
+  const current = result?.key === key ? result : null;
+  const data = current?.data ?? null;
+
+  const groupKeys = useMemo(() => (data ? data.groups.map((g) => g.key) : []), [data]);
+
+  const chartData = useMemo(
+    () =>
+      (data?.points ?? []).map((p) => {
+        const row: Record<string, number> = { ts: p.timestamp };
+        for (const k of groupKeys) row[k] = p.values[k] ?? 0;
+        return row;
+      }),
+    [data, groupKeys]
+  );
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div>
+          <div className="card-title">P&amp;L attribution</div>
+          <div className="card-subtitle">Contribution to the {window} return</div>
+        </div>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={{ fontSize: "0.7rem", color: "var(--muted)" }}>By</span>
+          <select className="select" value={by} onChange={(e) => setBy(e.target.value as AttributionGrouping)}>
+            {GROUPINGS.map((g) => (
+              <option key={g.value} value={g.value}>
+                {g.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!current ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading attribution…</div>
+      ) : current.err ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{current.err}</div>
+      ) : !data || data.groups.length === 0 ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No attributed P&amp;L in this window.</div>
+      ) : (
+        <>
+          <div style={{ height: 220 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} stackOffset="sign">
+                <XAxis
+                  dataKey="ts"
+                  tickFormatter={(ts) =>
+                    new Date(Number(ts) * 1000).toLocaleDateString(undefined, { month: "2-digit", day: "2-digit" })
+                  }
+                  minTickGap={20}
+                />
+                <YAxis tickFormatter={(v) => pct(Number(v), 0)} />
+                <Tooltip
+                  labelFormatter={(ts) => formatTs(Number(ts))}
+                  formatter={(val, name) => [pct(Number(val), 2), String(name)]}
+                  labelStyle={{ color: "#000000", fontWeight: 600 }}
+                  itemStyle={{ color: "#000000" }}
+                />
+                <Legend verticalAlign="bottom" align="center" wrapperStyle={{ fontSize: 12 }} />
+                {groupKeys.map((k, i) => (
+                  <Area
+                    key={k}
+                    type="linear"
+                    dataKey={k}
+                    name={k}
+                    stackId="pnl"
+                    stroke={GROUP_COLORS[i % GROUP_COLORS.length]}
+                    fill={GROUP_COLORS[i % GROUP_COLORS.length]}
+                    fillOpacity={0.35}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="table" style={{ marginTop: "0.5rem" }}>
+            <thead>
+              <tr>
+                <th>{GROUPINGS.find((g) => g.value === by)?.label}</th>
+                <th>Price</th>
+                <th>Funding</th>
+                <th>Costs</th>
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.groups.map((g) => (
+                <tr key={g.key}>
+                  <td>{g.key}</td>
+                  <td>{pct(g.price, 2)}</td>
+                  <td>{pct(g.funding, 2)}</td>
+                  <td>{pct(g.cost, 2)}</td>
+                  <td style={{ fontWeight: 700 }}>{pct(g.total, 2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!data.complete ? (
+            <div style={{ marginTop: "0.5rem", fontSize: "0.75rem", color: "var(--warning)" }}>
+              {data.coverageFromTs
+                ? `Attribution starts at ${formatTs(data.coverageFromTs)}`
+                : "No attribution recorded for this strategy yet"}
+              : {pct(data.unattributed, 2)} of the window's return comes from earlier history and is not broken
+              down.
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttributionChart;
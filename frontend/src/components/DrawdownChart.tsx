@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { fetchStrategyDrawdown } from "../api";
+import type { StrategyDrawdownResponse } from "../api";
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const pct = (v: number, digits = 1) => (v * 100).toFixed(digits) + "%";
+
+const formatTs = (ts: number) =>
+  new Date(ts * 1000).toLocaleString(undefined, {
+    year: "2-digit",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatDuration = (sec: number) => {
+  const h = sec / 3600;
+  if (h < 48) return `${h.toFixed(1)}h`;
+  return `${(h / 24).toFixed(1)}d`;
+};
+
+export type DrawdownChartProps = {
+  strategyId: number;
+  window: string;
+  refreshKey?: number; // bump to re-fetch quietly (live updates)
+};
+
+/**
+ * Underwater chart of a strategy over a window (distance below the running peak),
+ * with the current drawdown and the deepest drawdown episodes.
+ */
+export const DrawdownChart: React.FC<DrawdownChartProps> = ({ strategyId, window, refreshKey = 0 }) => {
+  const key = `${strategyId}|${window}`;
+  const [result, setResult] = useState<{ key: string; data: StrategyDrawdownResponse | null; err: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStrategyDrawdown(strategyId, window)
+      .then((data) => {
+        if (!cancelled) setResult({ key, data, err: null });
+      })
+      .catch((e) => {
+        console.error(e);
+        if (cancelled) return;
+        setResult((prev) =>
+          prev?.key === key && prev.data ? prev : { key, data: null, err: e?.message || "Failed to load drawdown" }
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId, window, key, refreshKey]);
+
+  const current = result?.key === key ? result : null;
+  const data = current?.data ?? null;
+
+  // plotted below zero
+  const chartData = useMemo(
+    () => (data?.underwater ?? []).map((p) => ({ ts: p.timestamp, dd: -p.drawdown })),
+    [data]
+  );
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div>
+          <div className="card-title">Drawdown</div>
+          {data ? (
+            <div className="card-subtitle">
+              Current{" "}
+              <span style={{ color: data.currentDrawdown > 5e-5 ? "var(--danger)" : undefined }}>
+                {pct(-data.currentDrawdown, 2)}
+              </span>{" "}
+              · Max {pct(-data.maxDrawdown, 2)} ({data.window})
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      {!current ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading drawdown…</div>
+      ) : current.err ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{current.err}</div>
+      ) : !data || chartData.length === 0 ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No history in this window.</div>
+      ) : (
+        <>
+          <div style={{ height: 140 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData}>
+                <XAxis
+                  dataKey="ts"
+                  tickFormatter={(ts) =>
+                    new Date(Number(ts) * 1000).toLocaleDateString(undefined, { month: "2-digit", day: "2-digit" })
+                  }
+                  minTickGap={20}
+                />
+                <YAxis tickFormatter={(v) => pct(Number(v), 0)} domain={["dataMin", 0]} />
+                <Tooltip
+                  labelFormatter={(ts) => formatTs(Number(ts))}
+                  formatter={(val) => [pct(Number(val), 2), "Drawdown"]}
+                  labelStyle={{ color: "#000000", fontWeight: 600 }}
+                  itemStyle={{ color: "#000000" }}
+                />
+                <Area type="linear" dataKey="dd" stroke="#f97373" fill="#f97373" fillOpacity={0.35} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {data.episodes.length ? (
+            <table className="table" style={{ marginTop: "0.5rem" }}>
+              <thead>
+                <tr>
+                  <th>Peak</th>
+                  <th>Trough</th>
+                  <th>Depth</th>
+                  <th>Recovered</th>
+                  <th>Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.episodes.map((e) => (
+                  <tr key={e.startTs}>
+                    <td>{formatTs(e.startTs)}</td>
+                    <td>{formatTs(e.troughTs)}</td>
+                    <td style={{ color: "var(--danger)" }}>{pct(-e.depth, 2)}</td>
+                    <td>
+                      {e.recoveryTs != null ? (
+                        formatTs(e.recoveryTs)
+                      ) : (
+                        <span style={{ color: "var(--muted)" }}>ongoing</span>
+                      )}
+                    </td>
+                    <td title={e.recoverySec != null ? `Trough to recovery ${formatDuration(e.recoverySec)}` : undefined}>
+                      {formatDuration(e.durationSec)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DrawdownChart;
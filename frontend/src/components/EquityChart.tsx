@@ -0,0 +1,267 @@
+import React, { useMemo } from "react";
+import type { EquityPoint, StrategyEquityResponse } from "../api";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+
+const STRATEGY_COLOR = "#2563eb"; // same as chart
+const BENCHMARK_COLOR = "#64748b"; // same as chart
+
+const formatTs = (ts: number) =>
+  new Date(ts * 1000).toLocaleString(undefined, {
+    year: "2-digit",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+function LineSample({
+  dashed,
+  color,
+  width = 28,
+}: {
+  dashed?: boolean;
+  color: string;
+  width?: number;
+}) {
+  return (
+    <svg width={width} height={12} style={{ display: "block" }}>
+      <line
+        x1="2"
+        y1="6"
+        x2={width - 2}
+        y2="6"
+        stroke={color}
+        strokeWidth="2"
+        strokeDasharray={dashed ? "6 4" : undefined}
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
+
+function CustomLegend({
+  seriesName,
+  benchmarkName,
+  showBenchmark,
+}: {
+  seriesName: string;
+  benchmarkName: string;
+  showBenchmark: boolean;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "center",
+        gap: 18,
+        alignItems: "center",
+        width: "100%",
+      }}
+    >
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <LineSample color={STRATEGY_COLOR} />
+        <span style={{ fontSize: 12, fontWeight: 700 }}>{seriesName}</span>
+      </div>
+
+      {showBenchmark ? (
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <LineSample dashed color={BENCHMARK_COLOR} />
+          <span style={{ fontSize: 12, fontWeight: 700 }}>{benchmarkName}</span>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export type EquityChartSeries = {
+  points: EquityPoint[];
+  benchmark: StrategyEquityResponse["benchmark"];
+};
+
+type ChartDatum = { ts: number; strategy: number; benchmark: number | undefined };
+
+function equityChartData(equity: EquityChartSeries): ChartDatum[] {
+  const benchByTs = new Map<number, number>();
+  if (equity.benchmark?.points) {
+    for (const p of equity.benchmark.points) {
+      // backend provides rebased benchmark; we'll rebase again after filtering so the
+      // first visible hourly point is exactly 1.00x on the chart.
+      benchByTs.set(p.timestamp, p.priceRebased);
+    }
+  }
+
+  const hourly = equity.points.map((p) => ({
+    ts: p.timestamp, // keep numeric seconds
+    strategy: p.valueIndexRebased,
+    benchmark: benchByTs.get(p.timestamp),
+  }));
+
+  if (hourly.length === 0) return hourly;
+
+  // Rebase to the first visible (hourly) point so the chart starts at 1.00x exactly.
+  const baseStrat = hourly[0].strategy || 1;
+  const baseBench = hourly[0].benchmark;
+
+  return hourly.map((d) => ({
+    ...d,
+    strategy: baseStrat ? d.strategy / baseStrat : d.strategy,
+    benchmark:
+      d.benchmark != null && baseBench != null && baseBench !== 0
+        ? d.benchmark / baseBench
+        : d.benchmark,
+  }));
+}
+
+export type EquityChartProps = {
+  equity: EquityChartSeries;
+  seriesName?: string; // legend label of the main line
+  height?: number;
+};
+
+/**
+ * Rebased equity line chart with an optional dashed benchmark, for any equity
+ * endpoint response (strategies, portfolios).
+ */
+export const EquityChart: React.FC<EquityChartProps> = ({ equity, seriesName = "Strategy", height = 300 }) => {
+  const chartData = useMemo(() => equityChartData(equity), [equity]);
+
+  const yDomain = useMemo<[number, number]>(() => {
+    if (!chartData.length) return [0.99, 1.01];
+
+    const vals: number[] = [];
+    for (const d of chartData) {
+      if (typeof d.strategy === "number") vals.push(d.strategy);
+      if (typeof d.benchmark === "number") vals.push(d.benchmark);
+    }
+    if (!vals.length) return [0.99, 1.01];
+
+    const rawMin = Math.min(...vals);
+    const rawMax = Math.max(...vals);
+
+    // Always include 1.00x in the visible domain
+    const min = Math.min(rawMin, 1);
+    const max = Math.max(rawMax, 1);
+
+    // Add padding so extremes don't "touch" axes
+    const range = Math.max(max - min, 0.001);
+    const pad = Math.max(range * 0.08, 0.01); // tweak 0.08/0.01 if you want more/less padding
+
+    return [min - pad, max + pad];
+  }, [chartData]);
+
+  const yTicks = useMemo(() => {
+    const [min, max] = yDomain;
+    const range = max - min;
+    if (!Number.isFinite(range) || range <= 0) return [1];
+
+    // target ~5 ticks total
+    const approxStep = range / 4;
+
+    // "Nice" step rounding (0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, ...)
+    const pow10 = Math.pow(10, Math.floor(Math.log10(approxStep)));
+    const n = approxStep / pow10;
+    const niceN = n <= 1 ? 1 : n <= 2 ? 2 : n <= 5 ? 5 : 10;
+    const step = niceN * pow10;
+
+    const start = Math.floor(min / step) * step;
+    const end = Math.ceil(max / step) * step;
+
+    const ticks: number[] = [];
+    for (let t = start; t <= end + step / 2; t += step) {
+      // round to avoid floating artifacts
+      ticks.push(Math.round(t * 1000000) / 1000000);
+    }
+
+    // Ensure 1.00 is included
+    if (!ticks.some((t) => Math.abs(t - 1) < step * 0.001)) ticks.push(1);
+
+    // Keep within domain and sort
+    return Array.from(new Set(ticks))
+      .filter((t) => t >= min - 1e-9 && t <= max + 1e-9)
+      .sort((a, b) => a - b);
+  }, [yDomain]);
+
+  const showBenchmark = Boolean(equity.benchmark?.points?.length);
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData}>
+          <XAxis
+            dataKey="ts"
+            tickFormatter={(ts) => {
+              const n = Number(ts);
+              if (!Number.isFinite(n)) return "";
+              // show month/day (still local timezone)
+              return new Date(n * 1000).toLocaleDateString(undefined, {
+                month: "2-digit",
+                day: "2-digit",
+              });
+            }}
+            minTickGap={20}
+          />
+          <YAxis tickFormatter={(v) => Number(v).toFixed(2) + "x"} domain={yDomain} ticks={yTicks} />
+          <Tooltip
+            labelFormatter={(ts) => {
+              const n = Number(ts);
+              return Number.isFinite(n) ? formatTs(n) : String(ts);
+            }}
+            formatter={(val, name) => [val != null ? Number(val).toFixed(3) + "x" : "", String(name)]}
+            labelStyle={{
+              color: "#000000", // <-- date color (black)
+              fontWeight: 600,
+            }}
+            itemStyle={{
+              color: "#000000", // <-- series values color
+            }}
+          />
+          <Legend
+            verticalAlign="bottom"
+            align="center"
+            content={() => (
+              <CustomLegend
+                seriesName={seriesName}
+                benchmarkName={equity.benchmark?.symbol ?? "Benchmark"}
+                showBenchmark={showBenchmark}
+              />
+            )}
+          />
+
+          <Line
+            type="linear"
+            dataKey="strategy"
+            name={seriesName}
+            legendType="line"
+            stroke={STRATEGY_COLOR}
+            strokeWidth={2}
+            dot={{ r: 2 }}
+            activeDot={{ r: 4 }}
+          />
+          {showBenchmark ? (
+            <Line
+              type="linear"
+              dataKey="benchmark"
+              name={equity.benchmark?.symbol ?? "Benchmark"}
+              legendType="line"
+              stroke={BENCHMARK_COLOR}
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              dot={{ r: 2 }}
+              activeDot={{ r: 4 }}
+            />
+          ) : null}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default EquityChart;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { fetchStrategyReturns } from "../api";
+import type { PeriodReturn, StrategyReturnsResponse } from "../api";
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// A monthly return of this size (either way) gets the full cell color.
+const FULL_SCALE = 0.2;
+
+const pct = (v: number, digits = 1) => (v * 100).toFixed(digits) + "%";
+
+function cellColor(v: number | null): string | undefined {
+  if (v == null || Math.abs(v) < 5e-5) return undefined;
+  const alpha = 0.12 + 0.6 * Math.min(1, Math.abs(v) / FULL_SCALE);
+  return v > 0 ? `rgba(34, 197, 94, ${alpha.toFixed(2)})` : `rgba(249, 115, 115, ${alpha.toFixed(2)})`;
+}
+
+// Compounds period returns; null if any of them is unknown.
+function compound(values: (number | null)[]): number | null {
+  let acc = 1;
+  for (const v of values) {
+    if (v == null) return null;
+    acc *= 1 + v;
+  }
+  return acc - 1;
+}
+
+type YearRow = { year: string; months: (PeriodReturn | null)[]; total: number | null; benchmarkTotal: number | null };
+
+function toYearRows(periods: PeriodReturn[]): YearRow[] {
+  const byYear = new Map<string, (PeriodReturn | null)[]>();
+  for (const p of periods) {
+    const [year, month] = p.label.split("-");
+    if (!byYear.has(year)) byYear.set(year, Array(12).fill(null));
+    byYear.get(year)![Number(month) - 1] = p;
+  }
+  return [...byYear.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([year, months]) => {
+      const present = months.filter((m): m is PeriodReturn => m != null);
+      return {
+        year,
+        months,
+        total: compound(present.map((m) => m.return)),
+        benchmarkTotal: compound(present.map((m) => m.benchmarkReturn)),
+      };
+    });
+}
+
+export type ReturnsHeatmapProps = {
+  strategyId: number;
+  benchmark?: string; // "NONE" or asset symbol (default: the backend's stats benchmark)
+  refreshKey?: number; // bump to re-fetch quietly (live updates)
+};
+
+/**
+ * Monthly returns of a strategy as a year-by-month table, with each year's
+ * compounded total and the benchmark's return over the same months.
+ */
+export const ReturnsHeatmap: React.FC<ReturnsHeatmapProps> = ({ strategyId, benchmark, refreshKey = 0 }) => {
+  const key = `${strategyId}|${benchmark ?? ""}`;
+  const [result, setResult] = useState<{ key: string; data: StrategyReturnsResponse | null; err: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStrategyReturns(strategyId, "month", benchmark)
+      .then((data) => {
+        if (!cancelled) setResult({ key, data, err: null });
+      })
+      .catch((e) => {
+        console.error(e);
+        if (cancelled) return;
+        setResult((prev) =>
+          prev?.key === key && prev.data ? prev : { key, data: null, err: e?.message || "Failed to load returns" }
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId, benchmark, key, refreshKey]);
+
+  const current = result?.key === key ? result : null;
+  const data = current?.data ?? null;
+  const rows = useMemo(() => (data ? toYearRows(data.periods) : []), [data]);
+
+  const benchmarkTitle = (v: number | null) =>
+    data?.benchmark ? ` · ${data.benchmark} ${v == null ? "—" : pct(v)}` : "";
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div>
+          <div className="card-title">Monthly returns</div>
+          <div className="card-subtitle">
+            UTC calendar months, net of costs{data?.benchmark ? ` · hover for ${data.benchmark}` : ""}
+          </div>
+        </div>
+      </div>
+
+      {!current ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading returns…</div>
+      ) : current.err ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{current.err}</div>
+      ) : rows.length === 0 ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No returns yet.</div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table className="table" style={{ fontSize: "0.72rem", textAlign: "right" }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: "left" }}>Year</th>
+                {MONTHS.map((m) => (
+                  <th key={m}>{m}</th>
+                ))}
+                <th>Total</th>
+                {data?.benchmark ? <th>{data.benchmark}</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.year}>
+                  <td style={{ textAlign: "left", fontWeight: 600 }}>{r.year}</td>
+                  {r.months.map((m, i) => (
+                    <td
+                      key={i}
+                      style={{ background: cellColor(m?.return ?? null) }}
+                      title={
+                        m
+                          ? `${m.label}: ${m.return == null ? "—" : pct(m.return, 2)}${benchmarkTitle(m.benchmarkReturn)}`
+                          : undefined
+                      }
+                    >
+                      {m?.return == null ? "" : pct(m.return)}
+                    </td>
+                  ))}
+                  <td style={{ fontWeight: 600, background: cellColor(r.total) }}>
+                    {r.total == null ? "—" : pct(r.total)}
+                  </td>
+                  {data?.benchmark ? (
+                    <td style={{ color: "var(--muted)" }}>{r.benchmarkTotal == null ? "—" : pct(r.benchmarkTotal)}</td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnsHeatmap;
@@ -1,77 +1,14 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
-import { fetchStrategy, fetchStrategyEquity } from "../api";
-import type { StrategyDetails, StrategyEquityResponse } from "../api";
-import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ResponsiveContainer,
-  Legend,
-} from "recharts";
-
-const STRATEGY_COLOR = "#2563eb"; // same as chart
-const BENCHMARK_COLOR = "#64748b"; // same as chart
-
-function LineSample({
-  dashed,
-  color,
-  width = 28,
-}: {
-  dashed?: boolean;
-  color: string;
-  width?: number;
-}) {
-  return (
-    <svg width={width} height={12} style={{ display: "block" }}>
-    <line
-    x1="2"
-    y1="6"
-    x2={width - 2}
-    y2="6"
-    stroke={color}
-    strokeWidth="2"
-    strokeDasharray={dashed ? "6 4" : undefined}
-    strokeLinecap="round"
-    />
-    </svg>
-  );
-}
-
-
-function CustomLegend({
-  benchmarkName,
-  showBenchmark,
-}: {
-  benchmarkName: string;
-  showBenchmark: boolean;
-}) {
-  return (
-    <div
-    style={{
-      display: "flex",
-      justifyContent: "center",
-      gap: 18,
-      alignItems: "center",
-      width: "100%",
-    }}
-    >
-    <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
-      <LineSample color={STRATEGY_COLOR} />
-      <span style={{ fontSize: 12, fontWeight: 700 }}>Strategy</span>
-    </div>
-
-    {showBenchmark ? (
-      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
-        <LineSample dashed color={BENCHMARK_COLOR} />
-        <span style={{ fontSize: 12, fontWeight: 700 }}>{benchmarkName}</span>
-      </div>
-    ) : null}
-    </div>
-  );
-}
+import { fetchStrategy, fetchStrategyEquity, fetchStrategyWindowStats } from "../api";
+import type { StrategyDetails, StrategyEquityResponse, StrategyWindowStatsResponse } from "../api";
+import { useLiveRefresh } from "../liveUpdates";
+import EquityChart from "./EquityChart";
+import AttributionChart from "./AttributionChart";
+import DrawdownChart from "./DrawdownChart";
+import ReturnsHeatmap from "./ReturnsHeatmap";
+import TradesTable from "./TradesTable";
+import WindowPicker from "./WindowPicker";
 
 function CoinGeckoIcon({ size = 14 }: { size?: number }) {
   // Inline SVG from the CoinGecko bundle (CG-Symbol.svg), scaled down.
@@ -131,7 +68,8 @@ export type StrategyViewerProps = {
   className?: string;
 };
 
-const DEFAULT_WINDOWS = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
+const EXPLORER_URL = String(import.meta.env.VITE_CHAIN_EXPLORER_URL ?? "").replace(/\/+$/, "");
+
 const DEFAULT_BENCHMARKS = ["NONE", "BTC", "ETH", "SOL", "XRP", "KAS", "GOLD", "SILVER", "SPX", "USD"] as const;
 
 const formatTs = (ts: number) =>
@@ -201,12 +139,27 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
     setBenchmark(initialBenchmark);
   }, [strategyId, initialWindow, initialBenchmark]);
 
+  // Live updates (new signals, snapshots, segments, stats) re-fetch both panels
+  // quietly: no loading state, and a failed refresh keeps what is shown.
+  const liveVersion = useLiveRefresh(
+    { strategyId },
+    ["signal.synced", "snapshot.updated", "segments.extended", "stats.recomputed"],
+    { enabled: !!strategyId }
+  );
+  const lastDetailsKey = useRef<number | null>(null);
+  const lastEquityKey = useRef<string | null>(null);
+
   // Load details
   useEffect(() => {
+    const quiet = lastDetailsKey.current === strategyId;
+    lastDetailsKey.current = strategyId;
+
     let cancelled = false;
     async function loadDetails() {
-      setLoadingDetails(true);
-      setDetailsErr(null);
+      if (!quiet) {
+        setLoadingDetails(true);
+        setDetailsErr(null);
+      }
       try {
         const d = await fetchStrategy(strategyId);
         if (cancelled) return;
@@ -214,6 +167,7 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
       } catch (e: any) {
         if (cancelled) return;
         console.error(e);
+        if (quiet) return;
         setDetails(null);
         setDetailsErr(e?.message || "Failed to load strategy details");
       } finally {
@@ -224,14 +178,20 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
     return () => {
       cancelled = true;
     };
-  }, [strategyId]);
+  }, [strategyId, liveVersion]);
 
   // Load equity
   useEffect(() => {
+    const key = `${strategyId}|${window}|${benchmark}`;
+    const quiet = lastEquityKey.current === key;
+    lastEquityKey.current = key;
+
     let cancelled = false;
     async function loadEquity() {
-      setLoadingEquity(true);
-      setEquityErr(null);
+      if (!quiet) {
+        setLoadingEquity(true);
+        setEquityErr(null);
+      }
       try {
         const benchParam = benchmark === "NONE" ? undefined : benchmark;
         const e = await fetchStrategyEquity(strategyId, window, benchParam);
@@ -240,6 +200,7 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
       } catch (e: any) {
         if (cancelled) return;
         console.error(e);
+        if (quiet) return;
         setEquity(null);
         setEquityErr(e?.message || "Failed to load equity");
       } finally {
@@ -250,7 +211,32 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
     return () => {
       cancelled = true;
     };
-  }, [strategyId, window, benchmark]);
+  }, [strategyId, window, benchmark, liveVersion]);
+
+  // Windows without stored stats (custom ranges) are computed on demand.
+  const storedStats = details?.stats?.[window] ?? null;
+  const needsWindowStats = !!details && !storedStats;
+  const windowStatsKey = `${strategyId}|${window}`;
+  const [onDemandStats, setOnDemandStats] = useState<{
+    key: string;
+    stats: StrategyWindowStatsResponse["stats"];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!needsWindowStats) return;
+    let cancelled = false;
+    fetchStrategyWindowStats(strategyId, window)
+      .then((r) => {
+        if (!cancelled) setOnDemandStats({ key: `${strategyId}|${window}`, stats: r.stats });
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId, window, needsWindowStats, liveVersion]);
+
+  const windowStats =
+    storedStats ?? (onDemandStats?.key === windowStatsKey ? onDemandStats.stats : null);
 
   const lastSignalSnapshot = useMemo(() => {
       if (!details?.positionsHistory?.length) return null;
@@ -279,101 +265,6 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
   }, [details]);
 
 
-  const chartData = useMemo(() => {
-    if (!equity) return [];
-
-    const benchByTs = new Map<number, number>();
-    if (equity.benchmark?.points) {
-      for (const p of equity.benchmark.points) {
-        // backend provides rebased benchmark; we'll rebase again after filtering so the
-        // first visible hourly point is exactly 1.00x on the chart.
-        benchByTs.set(p.timestamp, p.priceRebased);
-      }
-    }
-
-    const hourly = equity.points
-      //.filter((p) => p.timestamp % 3600 === 0) // keep only exact-hour timestamps
-      .map((p) => ({
-        ts: p.timestamp, // keep numeric seconds
-        strategy: p.valueIndexRebased,
-        benchmark: benchByTs.get(p.timestamp),
-      }));
-
-    if (hourly.length === 0) return hourly;
-
-    // Rebase to the first visible (hourly) point so the chart starts at 1.00x exactly.
-    const baseStrat = hourly[0].strategy || 1;
-    const baseBench = hourly[0].benchmark;
-
-    return hourly.map((d) => ({
-      ...d,
-      strategy: baseStrat ? d.strategy / baseStrat : d.strategy,
-      benchmark:
-        d.benchmark != null && baseBench != null && baseBench !== 0
-          ? d.benchmark / baseBench
-          : d.benchmark,
-    }));
-  }, [equity]);
-
-  const yDomain = useMemo<[number, number]>(() => {
-    if (!chartData.length) return [0.99, 1.01];
-
-    const vals: number[] = [];
-    for (const d of chartData as any[]) {
-      if (typeof d.strategy === "number") vals.push(d.strategy);
-      if (typeof d.benchmark === "number") vals.push(d.benchmark);
-    }
-    if (!vals.length) return [0.99, 1.01];
-
-    const rawMin = Math.min(...vals);
-    const rawMax = Math.max(...vals);
-
-    // Always include 1.00x in the visible domain
-    const min = Math.min(rawMin, 1);
-    const max = Math.max(rawMax, 1);
-
-    // Add padding so extremes don't "touch" axes
-    const range = Math.max(max - min, 0.001);
-    const pad = Math.max(range * 0.08, 0.01); // tweak 0.08/0.01 if you want more/less padding
-
-    return [min - pad, max + pad];
-  }, [chartData]);
-
-  const yTicks = useMemo(() => {
-    const [min, max] = yDomain;
-    const range = max - min;
-    if (!Number.isFinite(range) || range <= 0) return [1];
-
-    // target ~5 ticks total
-    const approxStep = range / 4;
-
-    // "Nice" step rounding (0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, ...)
-    const pow10 = Math.pow(10, Math.floor(Math.log10(approxStep)));
-    const n = approxStep / pow10;
-    const niceN = n <= 1 ? 1 : n <= 2 ? 2 : n <= 5 ? 5 : 10;
-    const step = niceN * pow10;
-
-    const start = Math.floor(min / step) * step;
-    const end = Math.ceil(max / step) * step;
-
-    const ticks: number[] = [];
-    for (let t = start; t <= end + step / 2; t += step) {
-      // round to avoid floating artifacts
-      ticks.push(Math.round(t * 1000000) / 1000000);
-    }
-
-    // Ensure 1.00 is included
-    if (!ticks.some((t) => Math.abs(t - 1) < step * 0.001)) ticks.push(1);
-
-    // Keep within domain and sort
-    const uniq = Array.from(new Set(ticks))
-    .filter((t) => t >= min - 1e-9 && t <= max + 1e-9)
-    .sort((a, b) => a - b);
-
-    return uniq;
-  }, [yDomain]);
-
-
   const Chart = (
     <div className="card" style={{ minHeight: 360 }}>
     <div className="card-header">
@@ -382,7 +273,11 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
     {details?.strategyName ?? `Strategy #${strategyId}`}{" "}
     <span style={{ fontSize: "0.75rem", color: "var(--muted)" }}>#{strategyId}</span>
     {details?.isLiquidated && (
-      <span className="badge" style={{ marginLeft: 8 }}>
+      <span
+        className="badge"
+        style={{ marginLeft: 8 }}
+        title={details.liquidatedTs ? `Wiped out ${formatTs(details.liquidatedTs)}` : undefined}
+      >
       Liquidated
       </span>
     )}
@@ -397,6 +292,12 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
         >
           {details.trader.slice(0, 6)}…{details.trader.slice(-4)}
         </Link>
+        {details.deployment && (
+          <span title={`${details.deployment.chainName} ${details.deployment.address}`}>
+            {" "}
+            · {details.deployment.key}
+          </span>
+        )}
       </div>
     )}
     </div>
@@ -406,13 +307,7 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
       <>
       <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
       <span style={{ fontSize: "0.7rem", color: "var(--muted)" }}>Window</span>
-      <select className="select" value={window} onChange={(e) => setWindow(e.target.value)}>
-      {DEFAULT_WINDOWS.map((tf) => (
-        <option key={tf} value={tf}>
-        {tf}
-        </option>
-      ))}
-      </select>
+      <WindowPicker value={window} onChange={setWindow} strategyId={strategyId} allowCustom />
       </div>
 
       <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
@@ -446,86 +341,11 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
       <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading equity…</div>
     ) : equityErr ? (
       <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{equityErr}</div>
-    ) : !equity || chartData.length === 0 ? (
+    ) : !equity || equity.points.length === 0 ? (
       <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No performance data yet.</div>
     ) : (
       <>
-      <div style={{ height: 300 }}>
-      <ResponsiveContainer width="100%" height="100%">
-      <LineChart data={chartData}>
-      <XAxis
-      dataKey="ts"
-      tickFormatter={(ts) => {
-        const n = Number(ts);
-        if (!Number.isFinite(n)) return "";
-        // show month/day (still local timezone)
-        return new Date(n * 1000).toLocaleDateString(undefined, {
-          month: "2-digit",
-          day: "2-digit",
-        });
-      }}
-      minTickGap={20}
-      />
-      <YAxis
-      tickFormatter={(v) => Number(v).toFixed(2) + "x"}
-      domain={yDomain}
-      ticks={yTicks}
-      />
-      <Tooltip
-      labelFormatter={(ts) => {
-        const n = Number(ts);
-        return Number.isFinite(n) ? formatTs(n) : String(ts);
-      }}
-      formatter={(val: any, name: any) => [
-        val != null ? Number(val).toFixed(3) + "x" : "",
-         String(name),
-      ]}
-      labelStyle={{
-        color: "#000000",     // <-- date color (black)
-        fontWeight: 600,
-      }}
-      itemStyle={{
-        color: "#000000",     // <-- series values color
-      }}
-      />
-      <Legend
-        verticalAlign="bottom"
-        align="center"
-        content={() => (
-          <CustomLegend
-          benchmarkName={equity?.benchmark?.symbol ?? "Benchmark"}
-          showBenchmark={Boolean(equity?.benchmark?.points?.length)}
-          />
-        )}
-      />
-
-            <Line
-      type="linear"
-      dataKey="strategy"
-      name="Strategy"
-      legendType="line"
-      stroke={STRATEGY_COLOR}
-      strokeWidth={2}
-      dot={{ r: 2 }}
-      activeDot={{ r: 4 }}
-      />
-      {equity.benchmark?.points?.length ? (
-        <Line
-        type="linear"
-        dataKey="benchmark"
-        name={equity.benchmark?.symbol ?? "Benchmark"}
-        legendType="line"
-        stroke={BENCHMARK_COLOR}
-        strokeWidth={1.5}
-        strokeDasharray="4 3"
-        dot={{ r: 2 }}
-        activeDot={{ r: 4 }}
-        />
-      ) : null}
-
-      </LineChart>
-      </ResponsiveContainer>
-      </div>
+      <EquityChart equity={equity} />
 
       <div
         style={{
@@ -537,8 +357,39 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
           alignItems: "center",
         }}
       >
-        {/* left side intentionally empty (reserved for future footer info) */}
-        <div />
+        {/* left side: net vs gross (before trading costs) return for the selected window */}
+        <div>
+          {windowStats && windowStats.totalReturn != null ? (
+            <span title="Net of trading fees, slippage and spread; gross is before costs">
+              Net {(windowStats.totalReturn * 100).toFixed(1)}%
+              {windowStats.gross?.totalReturn != null
+                ? ` · Gross ${(windowStats.gross.totalReturn * 100).toFixed(1)}%`
+                : ""}
+              {windowStats.costDrag != null && windowStats.costDrag > 0
+                ? ` · Costs ${(windowStats.costDrag * 100).toFixed(2)}%`
+                : ""}
+            </span>
+          ) : null}
+          {windowStats?.benchmark?.beta != null ? (
+            <span
+              style={{ marginLeft: 10 }}
+              title={
+                `Tracking error ${((windowStats.benchmark.trackingError ?? 0) * 100).toFixed(1)}%` +
+                (windowStats.benchmark.informationRatio != null
+                  ? ` · IR ${windowStats.benchmark.informationRatio.toFixed(2)}`
+                  : "")
+              }
+            >
+              vs {windowStats.benchmark.symbol ?? "benchmark"}: β {windowStats.benchmark.beta.toFixed(2)}
+              {windowStats.benchmark.alphaAnnual != null
+                ? ` · α ${(windowStats.benchmark.alphaAnnual * 100).toFixed(1)}%/yr`
+                : ""}
+              {windowStats.benchmark.correlation != null
+                ? ` · ρ ${windowStats.benchmark.correlation.toFixed(2)}`
+                : ""}
+            </span>
+          ) : null}
+        </div>
 
         {/* right-aligned attribution */}
         <div style={{ display: "flex", alignItems: "center", gap: 6, opacity: 0.9 }}>
@@ -603,6 +454,32 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
             </div>
           </div>
 
+          {details.liquidations?.length ? (
+            <div style={{ marginBottom: "0.5rem" }}>
+              {details.liquidations
+                .slice()
+                .reverse()
+                .map((liq) => (
+                  <div
+                    key={`${liq.timestamp}-${liq.asset}`}
+                    className="timeline-entry"
+                    style={{ borderColor: "var(--warning)" }}
+                  >
+                    <div className="timeline-entry-header">
+                      <span style={{ color: "var(--warning)" }}>{formatTs(liq.timestamp)} · Liquidated</span>
+                      <span style={{ fontSize: "0.75rem", color: "var(--muted)" }}>
+                        −{(liq.lossPct * 100).toFixed(1)}% equity
+                      </span>
+                    </div>
+                    <div style={{ fontSize: "0.75rem", color: "var(--muted)" }}>
+                      {liq.asset} {liq.direction === "SHORT" ? "S" : "L"} x{liq.leverage} at{" "}
+                      {liq.liquidationPrice.toPrecision(6)} (from {liq.startPrice.toPrecision(6)})
+                    </div>
+                  </div>
+                ))}
+            </div>
+          ) : null}
+
           <div className="timeline">
             {details.positionsHistory
               .slice()
@@ -610,7 +487,24 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
               .map((snap) => (
                 <div key={snap.timestamp} className={"timeline-entry"}>
                   <div className="timeline-entry-header">
-                    <span>{formatTs(snap.timestamp)}</span>
+                    <span>
+                      {formatTs(snap.timestamp)}
+                      {EXPLORER_URL &&
+                        (snap.signals ?? [])
+                          .filter((sig) => sig.txHash)
+                          .map((sig) => (
+                            <a
+                              key={sig.id}
+                              href={`${EXPLORER_URL}/tx/${sig.txHash}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              style={{ marginLeft: 6, fontSize: "0.7rem" }}
+                              title={`Signal #${sig.index}${sig.blockNumber != null ? ` · block ${sig.blockNumber}` : ""}`}
+                            >
+                              tx ↗
+                            </a>
+                          ))}
+                    </span>
                     <span style={{ fontSize: "0.75rem", color: "var(--muted)" }}>
                       {snap.message && String(snap.message).trim().length ? snap.message : "—"}
                     </span>
@@ -642,10 +536,21 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
     </div>
   );
 
+  const Drawdown = <DrawdownChart strategyId={strategyId} window={window} refreshKey={liveVersion} />;
+  const Attribution = <AttributionChart strategyId={strategyId} window={window} refreshKey={liveVersion} />;
+  const Returns = <ReturnsHeatmap strategyId={strategyId} benchmark={benchmark} refreshKey={liveVersion} />;
+  const Trades = (
+    <TradesTable strategyId={strategyId} window={window} stats={windowStats?.trades} refreshKey={liveVersion} />
+  );
+
   if (layout === "stacked") {
     return (
       <div className={className} style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
       {Chart}
+      {Drawdown}
+      {Attribution}
+      {Returns}
+      {Trades}
       {Positions}
       </div>
     );
@@ -653,7 +558,13 @@ export const StrategyViewer: React.FC<StrategyViewerProps> = ({
 
   return (
     <div className={className} style={{ display: "grid", gridTemplateColumns: "1.6fr 1fr", gap: "0.75rem" }}>
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
     {Chart}
+    {Drawdown}
+    {Attribution}
+    {Returns}
+    {Trades}
+    </div>
     {Positions}
     </div>
   );
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from "react";
+import { fetchStrategyTrades } from "../api";
+import type { StrategyTradeStats, StrategyTradesResponse } from "../api";
+
+type View = "legs" | "trades";
+
+const MAX_ROWS = 50;
+
+const pct = (v: number, digits = 2) => (v * 100).toFixed(digits) + "%";
+
+const pnlColor = (v: number | null) =>
+  v == null || Math.abs(v) < 5e-5 ? undefined : v > 0 ? "var(--accent-soft)" : "var(--danger)";
+
+const formatTs = (ts: number) =>
+  new Date(ts * 1000).toLocaleString(undefined, {
+    year: "2-digit",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatDuration = (sec: number) => {
+  const h = sec / 3600;
+  if (h < 48) return `${h.toFixed(1)}h`;
+  return `${(h / 24).toFixed(1)}d`;
+};
+
+const formatPrice = (p: number | null) => (p == null ? "—" : p.toPrecision(6));
+
+export type TradesTableProps = {
+  strategyId: number;
+  window: string;
+  stats?: StrategyTradeStats | null; // trade stats of the window, from the strategy's stats
+  refreshKey?: number; // bump to re-fetch quietly (live updates)
+};
+
+const TradeStatsRow: React.FC<{ window: string; stats: StrategyTradeStats }> = ({ window, stats }) => {
+  const items: { label: string; value: string; title?: string }[] = [
+    { label: "Closed legs", value: String(stats.closedLegs ?? 0) },
+    { label: "Win rate", value: stats.winRate != null ? pct(stats.winRate, 0) : "—" },
+    {
+      label: "Avg win / loss",
+      value: `${stats.avgWin != null ? pct(stats.avgWin) : "—"} / ${stats.avgLoss != null ? pct(stats.avgLoss) : "—"}`,
+    },
+    {
+      label: "Profit factor",
+      value: stats.profitFactor != null ? stats.profitFactor.toFixed(2) : "—",
+      title: "Sum of winning legs over sum of losing legs",
+    },
+    { label: "Expectancy", value: stats.expectancy != null ? pct(stats.expectancy) : "—", title: "Mean result per leg" },
+    { label: "Avg holding", value: stats.avgHoldingSec != null ? formatDuration(stats.avgHoldingSec) : "—" },
+    { label: "Streaks W / L", value: `${stats.maxWinStreak ?? 0} / ${stats.maxLossStreak ?? 0}` },
+    {
+      label: "Turnover",
+      value: stats.turnover != null ? `${stats.turnover.toFixed(1)}x` : "—",
+      title: "Notional traded as a multiple of equity",
+    },
+  ];
+  return (
+    <div
+      style={{ display: "flex", flexWrap: "wrap", gap: "0.4rem 1rem", marginBottom: "0.6rem", fontSize: "0.75rem" }}
+      title={`Legs closed in the ${window} window; results are returns on the equity at each leg's open`}
+    >
+      {items.map((it) => (
+        <div key={it.label} title={it.title}>
+          <div style={{ color: "var(--muted)" }}>{it.label}</div>
+          <div style={{ fontWeight: 600 }}>{it.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Trade ledger of a strategy: one row per leg (entry / exit, holding period,
+ * realized and unrealized P&L) or the individual entries, exits and resizes,
+ * with the window's trade stats on top.
+ */
+export const TradesTable: React.FC<TradesTableProps> = ({ strategyId, window, stats, refreshKey = 0 }) => {
+  const [view, setView] = useState<View>("legs");
+  const [result, setResult] = useState<{ id: number; data: StrategyTradesResponse | null; err: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStrategyTrades(strategyId)
+      .then((data) => {
+        if (!cancelled) setResult({ id: strategyId, data, err: null });
+      })
+      .catch((e) => {
+        console.error(e);
+        if (cancelled) return;
+        setResult((prev) =>
+          prev?.id === strategyId && prev.data
+            ? prev
+            : { id: strategyId, data: null, err: e?.message || "Failed to load trades" }
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId, refreshKey]);
+
+  const current = result?.id === strategyId ? result : null;
+  const data = current?.data ?? null;
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div>
+          <div className="card-title">Trades</div>
+          {data ? (
+            <div className="card-subtitle">
+              Realized{" "}
+              <span style={{ color: pnlColor(data.summary.realizedPnl) }}>{pct(data.summary.realizedPnl)}</span> ·
+              Unrealized{" "}
+              <span style={{ color: pnlColor(data.summary.unrealizedPnl) }}>{pct(data.summary.unrealizedPnl)}</span>{" "}
+              (of initial equity, before costs)
+            </div>
+          ) : null}
+        </div>
+        <select className="select" value={view} onChange={(e) => setView(e.target.value as View)}>
+          <option value="legs">Legs</option>
+          <option value="trades">Trades</option>
+        </select>
+      </div>
+
+      {stats ? <TradeStatsRow window={window} stats={stats} /> : null}
+
+      {!current ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading trades…</div>
+      ) : current.err ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{current.err}</div>
+      ) : !data || data.trades.length === 0 ? (
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No trades yet.</div>
+      ) : view === "legs" ? (
+        <div style={{ overflowX: "auto" }}>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Leg</th>
+                <th>Opened</th>
+                <th>Held</th>
+                <th>Entry</th>
+                <th>Exit / mark</th>
+                <th>Realized</th>
+                <th>Unrealized</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.legs
+                .slice()
+                .reverse()
+                .slice(0, MAX_ROWS)
+                .map((l) => (
+                  <tr key={`${l.asset}-${l.openTs}`}>
+                    <td>
+                      {l.asset} {l.direction === "SHORT" ? "S" : "L"} x{l.leverage}
+                      {l.status !== "OPEN" ? (
+                        <span
+                          style={{
+                            marginLeft: 4,
+                            fontSize: "0.7rem",
+                            color: l.status === "LIQUIDATED" ? "var(--warning)" : "var(--muted)",
+                          }}
+                        >
+                          {l.status.toLowerCase()}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td>{formatTs(l.openTs)}</td>
+                    <td>{formatDuration(l.holdingSec)}</td>
+                    <td>{formatPrice(l.avgEntryPrice)}</td>
+                    <td>{formatPrice(l.status === "OPEN" ? l.lastPrice : l.avgExitPrice)}</td>
+                    <td style={{ color: pnlColor(l.realizedPnl) }}>{pct(l.realizedPnl)}</td>
+                    <td style={{ color: pnlColor(l.unrealizedPnl) }}>
+                      {l.unrealizedPnl == null ? "—" : pct(l.unrealizedPnl)}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Asset</th>
+                <th>Action</th>
+                <th>Price</th>
+                <th>Weight</th>
+                <th>Avg entry</th>
+                <th>Realized</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.trades
+                .slice()
+                .reverse()
+                .slice(0, MAX_ROWS)
+                .map((t, i) => (
+                  <tr key={`${t.ts}-${t.asset}-${i}`}>
+                    <td>{formatTs(t.ts)}</td>
+                    <td>
+                      {t.asset} {t.direction === "SHORT" ? "S" : "L"} x{t.leverage}
+                    </td>
+                    <td style={{ color: t.action === "LIQUIDATED" ? "var(--warning)" : undefined }}>
+                      {t.action.toLowerCase()}
+                    </td>
+                    <td>{formatPrice(t.price)}</td>
+                    <td>
+                      {pct(t.weightBefore, 1)} → {pct(t.weightAfter, 1)}
+                    </td>
+                    <td>{formatPrice(t.avgEntryPrice)}</td>
+                    <td style={{ color: pnlColor(t.realizedPnl) }}>
+                      {t.realizedPnl == null ? "—" : pct(t.realizedPnl)}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {data && Math.max(data.legs.length, data.trades.length) > MAX_ROWS ? (
+        <div style={{ marginTop: "0.5rem", fontSize: "0.75rem", color: "var(--muted)" }}>
+          Showing the latest {MAX_ROWS}.
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default TradesTable;
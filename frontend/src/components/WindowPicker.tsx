@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { fetchWindows } from "../api";
+import type { StatWindowOption } from "../api";
+
+// Shown until the backend's window list arrives (and if it can't be loaded).
+const FALLBACK_WINDOWS: StatWindowOption[] = ["1W", "1M", "3M", "6M", "1Y", "ALL"].map((id) => ({
+  id,
+  kind: id === "ALL" ? "all" : "rolling",
+  label: id,
+}));
+
+const CUSTOM = "__custom__";
+const CUSTOM_RE = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+const isoDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export type WindowPickerProps = {
+  value: string;
+  onChange: (window: string) => void;
+  strategyId?: number; // list that strategy's past years (default: all strategies')
+  allowCustom?: boolean; // offer a from / to date range
+};
+
+/**
+ * Window select listing the backend's window registry: rolling windows, MTD / QTD /
+ * YTD and past calendar years, plus an optional custom date range.
+ */
+export const WindowPicker: React.FC<WindowPickerProps> = ({ value, onChange, strategyId, allowCustom = false }) => {
+  const [loaded, setLoaded] = useState<{ strategyId?: number; windows: StatWindowOption[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWindows(strategyId)
+      .then((windows) => {
+        if (!cancelled) setLoaded({ strategyId, windows });
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId]);
+
+  const windows = loaded && loaded.strategyId === strategyId ? loaded.windows : FALLBACK_WINDOWS;
+  const custom = CUSTOM_RE.exec(value);
+  const rolling = windows.filter((w) => w.kind !== "calendar");
+  const calendar = windows.filter((w) => w.kind === "calendar");
+
+  function onSelect(id: string) {
+    if (id !== CUSTOM) return onChange(id);
+    const now = Date.now();
+    onChange(`${isoDay(now - 30 * 86400 * 1000)}..${isoDay(now)}`);
+  }
+
+  function onCustomDate(from: string, to: string) {
+    if (from && to && from <= to) onChange(`${from}..${to}`);
+  }
+
+  return (
+    <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+      <select className="select" value={custom ? CUSTOM : value} onChange={(e) => onSelect(e.target.value)}>
+        {/* keep an unknown value selectable (e.g. a year no longer listed) */}
+        {!custom && !windows.some((w) => w.id === value) ? <option value={value}>{value}</option> : null}
+        <optgroup label="Rolling">
+          {rolling.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.id}
+            </option>
+          ))}
+        </optgroup>
+        {calendar.length ? (
+          <optgroup label="Calendar">
+            {calendar.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.id}
+              </option>
+            ))}
+          </optgroup>
+        ) : null}
+        {allowCustom ? <option value={CUSTOM}>Custom…</option> : null}
+      </select>
+
+      {custom ? (
+        <>
+          <input
+            type="date"
+            className="select"
+            value={custom[1]}
+            max={custom[2]}
+            onChange={(e) => onCustomDate(e.target.value, custom[2])}
+          />
+          <span style={{ fontSize: "0.7rem", color: "var(--muted)" }}>to</span>
+          <input
+            type="date"
+            className="select"
+            value={custom[2]}
+            min={custom[1]}
+            onChange={(e) => onCustomDate(custom[1], e.target.value)}
+          />
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default WindowPicker;
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { subscribeStream } from "./api";
+import type { StreamEventType } from "./api";
+
+/**
+ * Subscribe to live backend events and return a counter that bumps (at most once
+ * per `debounceMs`) whenever a matching event arrives. Use it as an effect
+ * dependency to re-fetch. `enabled = false` keeps the stream closed.
+ */
+export function useLiveRefresh(
+  filter: { strategyId?: number; trader?: string },
+  types: StreamEventType[],
+  opts: { debounceMs?: number; enabled?: boolean } = {}
+): number {
+  const [version, setVersion] = useState(0);
+  const { strategyId, trader } = filter;
+  const { debounceMs = 1500, enabled = true } = opts;
+  const typesKey = types.join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const close = subscribeStream(
+      { strategyId, trader, types: typesKey.split(",") as StreamEventType[] },
+      () => {
+        if (timer) return;
+        timer = setTimeout(() => {
+          timer = null;
+          setVersion((v) => v + 1);
+        }, debounceMs);
+      }
+    );
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      close();
+    };
+  }, [strategyId, trader, typesKey, debounceMs, enabled]);
+
+  return version;
+}
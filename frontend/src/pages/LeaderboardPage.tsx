@@ -1,9 +1,68 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { fetchLeaderboard } from "../api";
-import type { LeaderboardRow } from "../api";
+import { fetchDeployments, fetchLeaderboard } from "../api";
+import type { DeploymentSummary, LeaderboardParams, LeaderboardRow } from "../api";
+import { useLiveRefresh } from "../liveUpdates";
+import WindowPicker from "../components/WindowPicker";
 
-const TIMEFRAMES = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
+const SORT_OPTIONS = [
+  { value: "sharpe", label: "Score" },
+  { value: "totalReturn", label: "Total return" },
+  { value: "volatility", label: "Volatility" },
+  { value: "maxDrawdown", label: "Max drawdown" },
+  { value: "sortino", label: "Sortino" },
+  { value: "calmar", label: "Calmar" },
+  { value: "beta", label: "Beta" },
+  { value: "winRate", label: "Win rate" },
+  { value: "profitFactor", label: "Profit factor" },
+  { value: "expectancy", label: "Expectancy" },
+  { value: "turnover", label: "Turnover" },
+  { value: "numSignals", label: "Signals" },
+  { value: "age", label: "Age" },
+] as const;
+
+const ASSETS = ["", "BTC", "ETH", "SOL", "XRP", "KAS", "GOLD", "SILVER", "SPX", "USD"] as const;
+const STATUSES = ["all", "active", "liquidated"] as const;
+
+// Trade-level stats (per closed leg in the window), shown on demand.
+const pctOrDash = (v: number | null | undefined, digits = 1) => (v != null ? (v * 100).toFixed(digits) + "%" : "—");
+
+const OPTIONAL_COLUMNS: {
+  key: string;
+  label: string;
+  title?: string;
+  render: (r: LeaderboardRow) => string;
+}[] = [
+  { key: "winRate", label: "Win rate", render: (r) => pctOrDash(r.trades?.winRate, 0) },
+  {
+    key: "profitFactor",
+    label: "Profit factor",
+    title: "Sum of winning legs over sum of losing legs",
+    render: (r) => (r.trades?.profitFactor != null ? r.trades.profitFactor.toFixed(2) : "—"),
+  },
+  {
+    key: "expectancy",
+    label: "Expectancy",
+    title: "Mean result per closed leg",
+    render: (r) => pctOrDash(r.trades?.expectancy, 2),
+  },
+  {
+    key: "avgHolding",
+    label: "Avg holding",
+    render: (r) => (r.trades?.avgHoldingSec != null ? (r.trades.avgHoldingSec / 86400).toFixed(1) + "d" : "—"),
+  },
+  {
+    key: "turnover",
+    label: "Turnover",
+    title: "Notional traded as a multiple of equity",
+    render: (r) => (r.trades?.turnover != null ? r.trades.turnover.toFixed(1) + "x" : "—"),
+  },
+];
+
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200; // backend cap
+
+const controlLabel: React.CSSProperties = { fontSize: "0.75rem", color: "var(--muted)" };
 
 function shortAddr(addr: string) {
   if (!addr) return "—";
@@ -13,20 +72,107 @@ function shortAddr(addr: string) {
 
 const LeaderboardPage: React.FC = () => {
   const navigate = useNavigate();
-  const [window, setWindow] = useState<(typeof TIMEFRAMES)[number]>("3M");
+  const [window, setWindow] = useState<string>("3M");
+  const [sort, setSort] = useState<string>("sharpe");
+  const [dir, setDir] = useState<"asc" | "desc" | "">("");
+  const [minDays, setMinDays] = useState("");
+  const [minSignals, setMinSignals] = useState("");
+  const [asset, setAsset] = useState<(typeof ASSETS)[number]>("");
+  const [status, setStatus] = useState<(typeof STATUSES)[number]>("all");
+  const [trader, setTrader] = useState("");
+  const [deployment, setDeployment] = useState(""); // "" = all deployments merged
+  const [deployments, setDeployments] = useState<DeploymentSummary[]>([]);
+  const [extraColumns, setExtraColumns] = useState<string[]>([]);
+  const shownColumns = OPTIONAL_COLUMNS.filter((c) => extraColumns.includes(c.key));
+
   const [rows, setRows] = useState<LeaderboardRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
+  const params = useMemo<LeaderboardParams>(
+    () => ({
+      window,
+      sort,
+      dir: dir || undefined,
+      minDays: Number(minDays) > 0 ? Number(minDays) : undefined,
+      minSignals: Number(minSignals) > 0 ? Number(minSignals) : undefined,
+      asset: asset || undefined,
+      trader: trader.trim() || undefined,
+      deployment: deployment || undefined,
+      status,
+      limit: PAGE_SIZE,
+    }),
+    [window, sort, dir, minDays, minSignals, asset, trader, deployment, status]
+  );
+
+  // The deployment filter and row badges only show up when several contracts are indexed.
   useEffect(() => {
-    setLoading(true);
-    fetchLeaderboard(window)
-      .then((r) => setRows(r))
+    let cancelled = false;
+    fetchDeployments()
+      .then((d) => {
+        if (!cancelled) setDeployments(d);
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  const multiDeployment = deployments.length > 1;
+
+  // Live updates: new signals and recomputed stats re-fetch what's on screen.
+  const liveVersion = useLiveRefresh({}, ["signal.synced", "stats.recomputed"], { debounceMs: 3000 });
+  const lastParams = useRef<LeaderboardParams | null>(null);
+  const loadedCount = useRef(0);
+
+  // First page whenever the query changes. A live refresh (same query) re-fetches
+  // quietly, keeping as many rows as were already loaded.
+  useEffect(() => {
+    const quiet = lastParams.current === params;
+    lastParams.current = params;
+
+    let cancelled = false;
+    if (!quiet) setLoading(true);
+    const limit = quiet ? Math.min(MAX_PAGE_SIZE, Math.max(PAGE_SIZE, loadedCount.current)) : PAGE_SIZE;
+    fetchLeaderboard({ ...params, limit })
+      .then((r) => {
+        if (cancelled) return;
+        setRows(r.rows);
+        setTotal(r.total);
+        setNextCursor(r.nextCursor);
+        loadedCount.current = r.rows.length;
+      })
       .catch((e) => {
+        if (cancelled) return;
         console.error(e);
+        if (quiet) return;
         setRows([]);
+        setTotal(0);
+        setNextCursor(null);
+        loadedCount.current = 0;
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [params, liveVersion]);
+
+  function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    fetchLeaderboard({ ...params, cursor: nextCursor })
+      .then((r) => {
+        setRows((prev) => [...prev, ...r.rows]);
+        loadedCount.current += r.rows.length;
+        setTotal(r.total);
+        setNextCursor(r.nextCursor);
       })
-      .finally(() => setLoading(false));
-  }, [window]);
+      .catch((e) => console.error(e))
+      .finally(() => setLoadingMore(false));
+  }
 
   return (
     <div className="card card-narrow">
@@ -38,20 +184,133 @@ const LeaderboardPage: React.FC = () => {
 
         <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
           <span style={{ fontSize: "0.75rem", color: "var(--muted)" }}>Window</span>
-          <select className="select" value={window} onChange={(e) => setWindow(e.target.value as any)}>
-            {TIMEFRAMES.map((tf) => (
-              <option key={tf} value={tf}>
-                {tf}
+          <WindowPicker value={window} onChange={setWindow} />
+        </div>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center", marginBottom: "0.75rem" }}>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Sort</span>
+          <select className="select" value={sort} onChange={(e) => setSort(e.target.value)}>
+            {SORT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="select"
+            value={dir}
+            onChange={(e) => setDir(e.target.value as "asc" | "desc" | "")}
+            title="Default direction depends on the sort key"
+          >
+            <option value="">Best first</option>
+            <option value="desc">High → low</option>
+            <option value="asc">Low → high</option>
+          </select>
+        </div>
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Min days</span>
+          <input
+            className="select"
+            style={{ width: 56 }}
+            inputMode="numeric"
+            value={minDays}
+            onChange={(e) => setMinDays(e.target.value.replace(/[^\d.]/g, ""))}
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Min signals</span>
+          <input
+            className="select"
+            style={{ width: 56 }}
+            inputMode="numeric"
+            value={minSignals}
+            onChange={(e) => setMinSignals(e.target.value.replace(/\D/g, ""))}
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Asset</span>
+          <select
+            className="select"
+            value={asset}
+            onChange={(e) => setAsset(e.target.value as (typeof ASSETS)[number])}
+          >
+            {ASSETS.map((a) => (
+              <option key={a} value={a}>
+                {a || "Any"}
               </option>
             ))}
           </select>
         </div>
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Status</span>
+          <select
+            className="select"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as (typeof STATUSES)[number])}
+          >
+            {STATUSES.map((st) => (
+              <option key={st} value={st}>
+                {st[0].toUpperCase() + st.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {multiDeployment && (
+          <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <span style={controlLabel}>Deployment</span>
+            <select className="select" value={deployment} onChange={(e) => setDeployment(e.target.value)}>
+              <option value="">All</option>
+              {deployments.map((d) => (
+                <option key={d.id} value={d.key} title={`${d.chainName} ${d.address}`}>
+                  {d.key}
+                  {d.active ? "" : " (inactive)"}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Trader</span>
+          <input
+            className="select"
+            style={{ width: 140, fontFamily: "monospace" }}
+            placeholder="0x…"
+            value={trader}
+            onChange={(e) => setTrader(e.target.value)}
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <span style={controlLabel}>Columns</span>
+          {OPTIONAL_COLUMNS.map((c) => (
+            <label key={c.key} style={{ ...controlLabel, display: "flex", gap: 3, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={extraColumns.includes(c.key)}
+                onChange={(e) =>
+                  setExtraColumns((prev) =>
+                    e.target.checked ? [...prev, c.key] : prev.filter((k) => k !== c.key)
+                  )
+                }
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
       </div>
 
       {loading ? (
         <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading leaderboard…</div>
       ) : rows.length === 0 ? (
-        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No strategies yet.</div>
+        <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No matching strategies.</div>
       ) : (
         <div style={{ overflowX: "auto" }}>
           <table className="table">
@@ -65,6 +324,12 @@ const LeaderboardPage: React.FC = () => {
                 <th>Score</th>
                 <th>Total Return</th>
                 <th>Volatility</th>
+                <th title="Beta to the benchmark (BTC unless configured otherwise)">Beta</th>
+                {shownColumns.map((c) => (
+                  <th key={c.key} title={c.title}>
+                    {c.label}
+                  </th>
+                ))}
                 {/*<th>Max DD</th>*/}
               </tr>
             </thead>
@@ -80,7 +345,19 @@ const LeaderboardPage: React.FC = () => {
                     title="Click to open"
                   >
                     <td>{idx + 1}</td>
-                    <td>{r.strategyName}</td>
+                    <td>
+                      {r.strategyName}
+                      {multiDeployment && !deployment && (
+                        <span className="badge" style={{ marginLeft: 6 }}>
+                          {r.deployment}
+                        </span>
+                      )}
+                      {r.isLiquidated && (
+                        <span className="badge" style={{ marginLeft: 6 }}>
+                          Liquidated
+                        </span>
+                      )}
+                    </td>
                     <td style={{ fontFamily: "monospace" }}>
                       <button
                       type="button"
@@ -106,12 +383,46 @@ const LeaderboardPage: React.FC = () => {
                     <td>{r.sharpeAnnual != null ? r.sharpeAnnual.toFixed(2) : "—"}</td>
                     <td>{r.totalReturn != null ? (r.totalReturn * 100).toFixed(1) + "%" : "—"}</td>
                     <td>{r.volAnnual != null ? (r.volAnnual * 100).toFixed(1) + "%" : "—"}</td>
+                    <td
+                      title={
+                        r.beta != null
+                          ? `vs ${r.benchmarkSymbol ?? "benchmark"} · alpha ${((r.alphaAnnual ?? 0) * 100).toFixed(1)}%/yr` +
+                            ` · corr ${(r.correlation ?? 0).toFixed(2)}` +
+                            (r.informationRatio != null ? ` · IR ${r.informationRatio.toFixed(2)}` : "")
+                          : undefined
+                      }
+                    >
+                      {r.beta != null ? r.beta.toFixed(2) : "—"}
+                    </td>
+                    {shownColumns.map((c) => (
+                      <td key={c.key}>{c.render(r)}</td>
+                    ))}
                     {/*<td>{r.maxDrawdown != null ? (r.maxDrawdown * 100).toFixed(1) + "%" : "—"}</td>*/}
                   </tr>
                 );
               })}
             </tbody>
           </table>
+
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginTop: "0.5rem",
+              fontSize: "0.75rem",
+              color: "var(--muted)",
+            }}
+          >
+            <span>
+              Showing {rows.length} of {total}
+            </span>
+            {nextCursor && (
+              <button className="btn" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? "Loading…" : "Load more"}
+              </button>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -3,6 +3,7 @@ import { useWallet } from "../web3/WalletContext";
 import { fetchTraderStrategies } from "../api";
 import type { TraderStrategiesResponse } from "../api";
 import StrategyViewer from "../components/StrategyViewer";
+import { useLiveRefresh } from "../liveUpdates";
 
 const SUPPORTED_ASSETS = ["BTC", "ETH", "SOL", "XRP", "KAS", "GOLD", "SILVER", "SPX", "USD"] as const;
 
@@ -34,7 +35,12 @@ const MyStrategiesPage: React.FC = () => {
 
   const [data, setData] = useState<TraderStrategiesResponse | null>(null);
   const [loading, setLoading] = useState(false);
-  const [reloadFlag, setReloadFlag] = useState(0);
+  // Re-fetch once the backend has synced our signals (replaces a fixed delay after posting)
+  const liveVersion = useLiveRefresh(
+    { trader: address ?? undefined },
+    ["signal.synced", "stats.recomputed"],
+    { debounceMs: 1000, enabled: isConnectedForUI }
+  );
 
   const [strategy, setStrategy] = useState("");
   const [asset, setAsset] = useState<(typeof SUPPORTED_ASSETS)[number]>("BTC");
@@ -90,7 +96,7 @@ const MyStrategiesPage: React.FC = () => {
         setData(null);
       })
       .finally(() => setLoading(false));
-  }, [isConnectedForUI, address, reloadFlag]);
+  }, [isConnectedForUI, address, liveVersion]);
 
   const handleSendSignal = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -134,7 +140,6 @@ const MyStrategiesPage: React.FC = () => {
       await tx.wait();
 
       refreshBalance().catch(() => {});
-      setTimeout(() => setReloadFlag((x) => x + 1), 2500);
     } catch (err: any) {
       console.error(err);
       alert("Failed to post signal: " + (err?.reason || err?.message || "Unknown error"));
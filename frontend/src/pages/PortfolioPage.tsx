@@ -0,0 +1,530 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  createPortfolio,
+  deletePortfolio,
+  fetchPortfolio,
+  fetchPortfolioEquity,
+  fetchPortfolios,
+  updatePortfolio,
+} from "../api";
+import type {
+  Portfolio,
+  PortfolioDetails,
+  PortfolioEquityResponse,
+  PortfolioInput,
+  PortfolioRebalance,
+  PortfolioWeighting,
+} from "../api";
+import EquityChart from "../components/EquityChart";
+import WindowPicker from "../components/WindowPicker";
+import { useWallet } from "../web3/WalletContext";
+
+const WINDOWS = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
+const BENCHMARKS = ["NONE", "BTC", "ETH", "SOL", "XRP", "KAS", "GOLD", "SILVER", "SPX", "USD"] as const;
+
+const WEIGHTINGS: { value: PortfolioWeighting; label: string }[] = [
+  { value: "equal", label: "Equal weight" },
+  { value: "fixed", label: "Fixed weights" },
+  { value: "inverse_vol", label: "Inverse volatility" },
+];
+
+const REBALANCES: { value: PortfolioRebalance; label: string }[] = [
+  { value: "none", label: "Never (buy & hold)" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+];
+
+const pct = (v: number | null | undefined, digits = 1) => (v != null ? (v * 100).toFixed(digits) + "%" : "—");
+
+function shortAddr(addr: string) {
+  return `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+}
+
+function errorMessage(e: unknown, fallback: string): string {
+  const data = (e as { response?: { data?: { error?: string } } })?.response?.data;
+  if (data?.error) return data.error;
+  return e instanceof Error && e.message ? e.message : fallback;
+}
+
+type MemberDraft = { strategyId: string; weight: string };
+
+function PortfolioForm({
+  initial,
+  submitLabel,
+  onSubmit,
+}: {
+  initial?: Portfolio;
+  submitLabel: string;
+  onSubmit: (input: PortfolioInput) => Promise<void>;
+}) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [weighting, setWeighting] = useState<PortfolioWeighting>(initial?.weighting ?? "equal");
+  const [rebalance, setRebalance] = useState<PortfolioRebalance>(initial?.rebalance ?? "monthly");
+  const [lookback, setLookback] = useState(String(initial?.volLookbackDays ?? 30));
+  const [members, setMembers] = useState<MemberDraft[]>(
+    initial?.members.map((m) => ({ strategyId: String(m.strategyId), weight: m.weight != null ? String(m.weight) : "" })) ?? [
+      { strategyId: "", weight: "" },
+      { strategyId: "", weight: "" },
+    ]
+  );
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const setMember = (idx: number, patch: Partial<MemberDraft>) =>
+    setMembers((prev) => prev.map((m, i) => (i === idx ? { ...m, ...patch } : m)));
+
+  const submit = async () => {
+    setErr(null);
+    setSaving(true);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        weighting,
+        rebalance,
+        volLookbackDays: Number(lookback),
+        members: members
+          .filter((m) => m.strategyId.trim())
+          .map((m) => ({
+            strategyId: Number(m.strategyId),
+            weight: m.weight.trim() ? Number(m.weight) : null,
+          })),
+      });
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to save portfolio"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 10, fontSize: "0.8rem" }}>
+      <label>
+        Name
+        <input
+          className="select"
+          style={{ width: "100%", marginTop: 4 }}
+          value={name}
+          maxLength={40}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Majors blend"
+        />
+      </label>
+
+      <div style={{ display: "flex", gap: 10 }}>
+        <label style={{ flex: 1 }}>
+          Weighting
+          <select
+            className="select"
+            style={{ width: "100%", marginTop: 4 }}
+            value={weighting}
+            onChange={(e) => setWeighting(e.target.value as PortfolioWeighting)}
+          >
+            {WEIGHTINGS.map((w) => (
+              <option key={w.value} value={w.value}>
+                {w.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ flex: 1 }}>
+          Rebalance
+          <select
+            className="select"
+            style={{ width: "100%", marginTop: 4 }}
+            value={rebalance}
+            onChange={(e) => setRebalance(e.target.value as PortfolioRebalance)}
+          >
+            {REBALANCES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {weighting === "inverse_vol" && (
+          <label style={{ width: 110 }}>
+            Vol lookback (days)
+            <input
+              type="text"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              className="select"
+              style={{ width: "100%", marginTop: 4 }}
+              value={lookback}
+              onChange={(e) => setLookback(e.target.value.replace(/[^0-9]/g, ""))}
+            />
+          </label>
+        )}
+      </div>
+
+      <div>
+        <div style={{ marginBottom: 4 }}>Strategies</div>
+        {members.map((m, idx) => (
+          <div key={idx} style={{ display: "flex", gap: 6, marginBottom: 6 }}>
+            <input
+              type="text"
+              inputMode="numeric"
+              className="select"
+              style={{ flex: 1 }}
+              value={m.strategyId}
+              onChange={(e) => setMember(idx, { strategyId: e.target.value.replace(/[^0-9]/g, "") })}
+              placeholder="Strategy id"
+            />
+            {weighting === "fixed" && (
+              <input
+                type="text"
+                inputMode="decimal"
+                className="select"
+                style={{ width: 90 }}
+                value={m.weight}
+                onChange={(e) => setMember(idx, { weight: e.target.value.replace(/[^0-9.]/g, "") })}
+                placeholder="Weight"
+              />
+            )}
+            <button
+              className="btn"
+              onClick={() => setMembers((prev) => prev.filter((_, i) => i !== idx))}
+              disabled={members.length <= 1}
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button className="btn" onClick={() => setMembers((prev) => [...prev, { strategyId: "", weight: "" }])}>
+          + Add strategy
+        </button>
+      </div>
+
+      {err && <div style={{ color: "var(--warning)" }}>{err}</div>}
+
+      <div>
+        <button className="btn btn-primary" onClick={submit} disabled={saving}>
+          {saving ? "Saving…" : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PortfolioView({ portfolio, onChanged }: { portfolio: PortfolioDetails; onChanged: () => void }) {
+  const navigate = useNavigate();
+  const { address, signMessage } = useWallet();
+  // Only the owner's wallet can edit or delete (ownerless portfolios need the admin token).
+  const isOwner = !!portfolio.owner && address?.toLowerCase() === portfolio.owner;
+  const [window, setWindow] = useState<string>("3M");
+  const [benchmark, setBenchmark] = useState<string>("BTC");
+  const [editing, setEditing] = useState(false);
+  // Equity is stored with the request it answers, so a stale response never shows.
+  const equityKey = `${portfolio.id}|${portfolio.updatedTs}|${window}|${benchmark}`;
+  const [equity, setEquity] = useState<{ key: string; data: PortfolioEquityResponse | null; err: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPortfolioEquity(portfolio.id, window, benchmark === "NONE" ? undefined : benchmark)
+      .then((data) => {
+        if (!cancelled) setEquity({ key: equityKey, data, err: null });
+      })
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) setEquity({ key: equityKey, data: null, err: errorMessage(e, "Failed to load equity") });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolio.id, window, benchmark, equityKey]);
+
+  const current = equity?.key === equityKey ? equity : null;
+  const windowStats = portfolio.stats[window] ?? null;
+  const nameById = new Map(portfolio.members.map((m) => [m.strategyId, m.strategyName]));
+
+  const onDelete = async () => {
+    if (!confirm(`Delete portfolio "${portfolio.name}"?`)) return;
+    try {
+      await deletePortfolio(portfolio.id, signMessage);
+      onChanged();
+      navigate("/portfolios");
+    } catch (e) {
+      alert(errorMessage(e, "Failed to delete portfolio"));
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+      <div className="card" style={{ minHeight: 360 }}>
+        <div className="card-header">
+          <div>
+            <div className="card-title">
+              {portfolio.name}{" "}
+              <span style={{ fontSize: "0.75rem", color: "var(--muted)" }}>#{portfolio.id}</span>
+            </div>
+            <div className="card-subtitle">
+              {WEIGHTINGS.find((w) => w.value === portfolio.weighting)?.label} · rebalance{" "}
+              {portfolio.rebalance === "none" ? "never" : portfolio.rebalance}
+              {portfolio.owner ? ` · owner ${shortAddr(portfolio.owner)}` : ""}
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              <span style={{ fontSize: "0.7rem", color: "var(--muted)" }}>Window</span>
+              <WindowPicker value={window} onChange={setWindow} allowCustom />
+            </div>
+
+            <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              <span style={{ fontSize: "0.7rem", color: "var(--muted)" }}>Benchmark</span>
+              <select className="select" value={benchmark} onChange={(e) => setBenchmark(e.target.value)}>
+                {BENCHMARKS.map((b) => (
+                  <option key={b} value={b}>
+                    {b}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {isOwner && (
+              <>
+                <button className="btn" onClick={() => setEditing((v) => !v)}>
+                  {editing ? "Cancel" : "Edit"}
+                </button>
+                <button className="btn" onClick={onDelete}>
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {!current ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading equity…</div>
+        ) : current.err ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{current.err}</div>
+        ) : !current.data || current.data.points.length === 0 ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No performance data yet.</div>
+        ) : (
+          <>
+            <EquityChart equity={current.data} seriesName="Portfolio" />
+            <div style={{ marginTop: "0.5rem", fontSize: "0.75rem", color: "var(--muted)" }}>
+              {windowStats && windowStats.totalReturn != null ? (
+                <span title="Net of the strategies' trading costs; gross is before costs">
+                  Net {pct(windowStats.totalReturn)}
+                  {windowStats.gross?.totalReturn != null ? ` · Gross ${pct(windowStats.gross.totalReturn)}` : ""}
+                </span>
+              ) : null}
+            </div>
+          </>
+        )}
+      </div>
+
+      {editing && isOwner && (
+        <div className="card">
+          <div className="card-header">
+            <div className="card-title">Edit portfolio</div>
+          </div>
+          <PortfolioForm
+            initial={portfolio}
+            submitLabel="Save"
+            onSubmit={async (input) => {
+              await updatePortfolio(portfolio.id, input, signMessage);
+              setEditing(false);
+              onChanged();
+            }}
+          />
+        </div>
+      )}
+
+      <div className="layout-two-column">
+        <div className="card">
+          <div className="card-header">
+            <div className="card-title">Stats</div>
+          </div>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Window</th>
+                <th>Total Return</th>
+                <th>Sharpe</th>
+                <th>Sortino</th>
+                <th>Volatility</th>
+                <th>Max DD</th>
+              </tr>
+            </thead>
+            <tbody>
+              {WINDOWS.map((w) => {
+                const st = portfolio.stats[w];
+                return (
+                  <tr key={w}>
+                    <td>{w}</td>
+                    <td>{pct(st?.totalReturn)}</td>
+                    <td>{st?.sharpeAnnual != null ? st.sharpeAnnual.toFixed(2) : "—"}</td>
+                    <td>{st?.metrics?.sortino != null ? st.metrics.sortino.toFixed(2) : "—"}</td>
+                    <td>{pct(st?.volAnnual)}</td>
+                    <td>{pct(st?.maxDrawdown)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <div className="card-title">Weights</div>
+          </div>
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Strategy</th>
+                <th>Target</th>
+                <th>Current</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.weights.map((w) => (
+                <tr key={w.strategyId}>
+                  <td>
+                    <Link to={`/strategy/${w.strategyId}`}>{nameById.get(w.strategyId) ?? `#${w.strategyId}`}</Link>
+                  </td>
+                  <td>{pct(w.target)}</td>
+                  <td>{pct(w.current)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const PortfolioPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const portfolioId = id ? Number(id) : null;
+  const navigate = useNavigate();
+  const { address, signMessage } = useWallet();
+
+  // Bumped after create/edit/delete to re-fetch the list and the open portfolio.
+  const [version, setVersion] = useState(0);
+  const [list, setList] = useState<Portfolio[] | null>(null);
+  const [details, setDetails] = useState<{ id: number; data: PortfolioDetails | null; err: string | null } | null>(
+    null
+  );
+
+  useEffect(() => {
+    fetchPortfolios()
+      .then((r) => setList(r))
+      .catch((e) => {
+        console.error(e);
+        setList([]);
+      });
+  }, [version]);
+
+  useEffect(() => {
+    if (portfolioId == null) return;
+    let cancelled = false;
+    fetchPortfolio(portfolioId)
+      .then((data) => {
+        if (!cancelled) setDetails({ id: portfolioId, data, err: null });
+      })
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) setDetails({ id: portfolioId, data: null, err: errorMessage(e, "Failed to load portfolio") });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolioId, version]);
+
+  const current = details?.id === portfolioId ? details : null;
+  const refresh = () => setVersion((v) => v + 1);
+
+  return (
+    <div className="layout-two-column">
+      <div className="card">
+        <div className="card-header">
+          <div>
+            <div className="card-title">Portfolios</div>
+            <div className="card-subtitle">Blend strategies into one equity curve</div>
+          </div>
+          {portfolioId != null && (
+            <button className="btn" onClick={() => navigate("/portfolios")}>
+              + New
+            </button>
+          )}
+        </div>
+
+        {list == null ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading portfolios…</div>
+        ) : list.length === 0 ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>No portfolios yet.</div>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Strategies</th>
+                <th>Weighting</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((p) => (
+                <tr
+                  key={p.id}
+                  style={{ cursor: "pointer", fontWeight: p.id === portfolioId ? 700 : undefined }}
+                  onClick={() => navigate(`/portfolios/${p.id}`)}
+                  title="Click to open"
+                >
+                  <td>{p.name}</td>
+                  <td>{p.members.length}</td>
+                  <td>{WEIGHTINGS.find((w) => w.value === p.weighting)?.label}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        {portfolioId == null ? (
+          <div className="card">
+            <div className="card-header">
+              <div>
+                <div className="card-title">New portfolio</div>
+                <div className="card-subtitle">
+                  {address
+                    ? `Owned by ${shortAddr(address)}: you'll sign with this wallet to save it`
+                    : "Connect a wallet to own it; portfolios without an owner can't be edited or deleted"}
+                </div>
+              </div>
+            </div>
+            <PortfolioForm
+              submitLabel="Create"
+              onSubmit={async (input) => {
+                const created = await createPortfolio(
+                  address ? { ...input, owner: address.toLowerCase() } : input,
+                  signMessage
+                );
+                refresh();
+                navigate(`/portfolios/${created.id}`);
+              }}
+            />
+          </div>
+        ) : !current ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--muted)" }}>Loading portfolio…</div>
+        ) : current.err || !current.data ? (
+          <div style={{ fontSize: "0.8rem", color: "var(--warning)" }}>{current.err ?? "Portfolio not found"}</div>
+        ) : (
+          <PortfolioView key={current.data.id} portfolio={current.data} onChanged={refresh} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioPage;
@@ -1,10 +1,9 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { fetchTraderStrategies } from "../api";
 import type { TraderStrategiesResponse } from "../api";
-
-const TIMEFRAMES = ["1W", "1M", "3M", "6M", "1Y", "ALL"] as const;
-type Window = (typeof TIMEFRAMES)[number];
+import { useLiveRefresh } from "../liveUpdates";
+import WindowPicker from "../components/WindowPicker";
 
 function shortAddr(addr: string) {
   if (!addr) return "—";
@@ -21,25 +20,36 @@ const TraderPage: React.FC = () => {
   const navigate = useNavigate();
   const { address } = useParams<{ address: string }>();
 
-  const [window, setWindow] = useState<Window>("3M");
+  const [window, setWindow] = useState<string>("3M");
   const [data, setData] = useState<TraderStrategiesResponse | null>(null);
   const [loading, setLoading] = useState(false);
 
   const trader = useMemo(() => (data?.trader ?? address ?? "").toLowerCase(), [data, address]);
 
+  // Live updates for this trader's strategies; re-fetches quietly (no loading state).
+  const liveVersion = useLiveRefresh(
+    { trader: (address ?? "").trim().toLowerCase() || undefined },
+    ["signal.synced", "segments.extended", "stats.recomputed"],
+    { enabled: !!address }
+  );
+  const lastAddress = useRef<string | null>(null);
+
   useEffect(() => {
     const addr = (address ?? "").trim();
     if (!addr) return;
 
-    setLoading(true);
+    const quiet = lastAddress.current === addr;
+    lastAddress.current = addr;
+
+    if (!quiet) setLoading(true);
     fetchTraderStrategies(addr)
       .then((r) => setData(r))
       .catch((e) => {
         console.error(e);
-        setData({ trader: addr.toLowerCase(), strategies: [] });
+        if (!quiet) setData({ trader: addr.toLowerCase(), strategies: [] });
       })
       .finally(() => setLoading(false));
-  }, [address]);
+  }, [address, liveVersion]);
 
   const strategies = data?.strategies ?? [];
 
@@ -55,13 +65,7 @@ const TraderPage: React.FC = () => {
 
         <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
           <span style={{ fontSize: "0.75rem", color: "var(--muted)" }}>Window</span>
-          <select className="select" value={window} onChange={(e) => setWindow(e.target.value as Window)}>
-            {TIMEFRAMES.map((tf) => (
-              <option key={tf} value={tf}>
-                {tf}
-              </option>
-            ))}
-          </select>
+          <WindowPicker value={window} onChange={setWindow} />
         </div>
       </div>
 
@@ -136,6 +136,8 @@ type WalletContextType = {
   refreshBalance: () => Promise<void>;
   connect: () => Promise<void>;
   getChainSignalsContract: () => Promise<Contract | null>;
+  /** personal_sign `message` with the connected account (e.g. to prove ownership to the API). */
+  signMessage: (message: string) => Promise<string>;
 };
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
@@ -408,6 +410,14 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return new Contract(CHAIN_SIGNALS_ADDRESS, CHAIN_SIGNALS_ABI, signer);
   };
 
+  const signMessage = async (message: string): Promise<string> => {
+    if (!provider || !address) {
+      throw new Error("Connect your wallet first");
+    }
+    const signer = await provider.getSigner(address);
+    return signer.signMessage(message);
+  };
+
   // EIP-6963: discover wallets (MetaMask included) via announce events.
   useEffect(() => {
     const onAnnounce = (event: Eip6963AnnounceEvent) => {
@@ -503,6 +513,7 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         refreshBalance,
         connect,
         getChainSignalsContract,
+        signMessage,
       }}
     >
       {children}